@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "RefundStatus" AS ENUM ('PENDING', 'SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "Refund" (
+    "id" CHAR(36) NOT NULL,
+    "paymentId" CHAR(36) NOT NULL,
+    "orderId" CHAR(36) NOT NULL,
+    "status" "RefundStatus" NOT NULL DEFAULT 'PENDING',
+    "amount" DECIMAL(12,2) NOT NULL,
+    "provider" VARCHAR(100),
+    "externalRef" VARCHAR(200),
+    "reason" VARCHAR(500),
+    "restock" BOOLEAN NOT NULL DEFAULT false,
+    "rawResponse" JSONB,
+    "createdById" CHAR(36),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Refund_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Refund_paymentId_idx" ON "Refund"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "Refund_orderId_idx" ON "Refund"("orderId");
+
+-- CreateIndex
+CREATE INDEX "Refund_createdAt_idx" ON "Refund"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Refund" ADD CONSTRAINT "Refund_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Refund" ADD CONSTRAINT "Refund_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Refund" ADD CONSTRAINT "Refund_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- RenameTable
+ALTER TABLE "Payment" RENAME TO "PaymentAttempt";
+
+-- RenamePrimaryKey
+ALTER TABLE "PaymentAttempt" RENAME CONSTRAINT "Payment_pkey" TO "PaymentAttempt_pkey";
+
+-- RenameForeignKey
+ALTER TABLE "PaymentAttempt" RENAME CONSTRAINT "Payment_orderId_fkey" TO "PaymentAttempt_orderId_fkey";
+
+-- DropIndex
+DROP INDEX "Payment_orderId_key";
+
+-- AlterTable
+ALTER TABLE "PaymentAttempt" ADD COLUMN     "rawResponse" JSONB;
+
+-- CreateIndex
+CREATE INDEX "PaymentAttempt_orderId_idx" ON "PaymentAttempt"("orderId");
+
+-- CreateIndex
+CREATE INDEX "PaymentAttempt_provider_externalRef_idx" ON "PaymentAttempt"("provider", "externalRef");
+
+-- CreateIndex
+CREATE INDEX "PaymentAttempt_status_idx" ON "PaymentAttempt"("status");
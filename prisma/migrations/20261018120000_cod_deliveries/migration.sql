@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "CodDeliveryStatus" AS ENUM ('OUT_FOR_DELIVERY', 'COLLECTED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "CodDelivery" (
+    "id" CHAR(36) NOT NULL,
+    "orderId" CHAR(36) NOT NULL,
+    "paymentId" CHAR(36) NOT NULL,
+    "courierId" CHAR(36) NOT NULL,
+    "status" "CodDeliveryStatus" NOT NULL DEFAULT 'OUT_FOR_DELIVERY',
+    "expectedAmount" DECIMAL(12,2) NOT NULL,
+    "collectedAmount" DECIMAL(12,2),
+    "collectedAt" TIMESTAMP(3),
+    "failureReason" VARCHAR(500),
+    "failedAt" TIMESTAMP(3),
+    "remittedAt" TIMESTAMP(3),
+    "remittedById" CHAR(36),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CodDelivery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CodDelivery_orderId_key" ON "CodDelivery"("orderId");
+
+-- CreateIndex
+CREATE INDEX "CodDelivery_courierId_collectedAt_idx" ON "CodDelivery"("courierId", "collectedAt");
+
+-- CreateIndex
+CREATE INDEX "CodDelivery_status_idx" ON "CodDelivery"("status");
+
+-- CreateIndex
+CREATE INDEX "CodDelivery_paymentId_idx" ON "CodDelivery"("paymentId");
+
+-- AddForeignKey
+ALTER TABLE "CodDelivery" ADD CONSTRAINT "CodDelivery_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CodDelivery" ADD CONSTRAINT "CodDelivery_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "PaymentAttempt"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CodDelivery" ADD CONSTRAINT "CodDelivery_courierId_fkey" FOREIGN KEY ("courierId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CodDelivery" ADD CONSTRAINT "CodDelivery_remittedById_fkey" FOREIGN KEY ("remittedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
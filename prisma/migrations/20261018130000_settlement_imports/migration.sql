@@ -0,0 +1,64 @@
+-- CreateEnum
+CREATE TYPE "SettlementLineStatus" AS ENUM ('MATCHED', 'AMOUNT_MISMATCH', 'MISSING', 'UNKNOWN');
+
+-- AlterTable
+ALTER TABLE "PaymentAttempt" ADD COLUMN "gatewayFee" DECIMAL(12,2),
+ADD COLUMN "settledAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "SettlementImport" (
+    "id" CHAR(36) NOT NULL,
+    "provider" VARCHAR(50) NOT NULL,
+    "filename" VARCHAR(255),
+    "periodStart" TIMESTAMP(3),
+    "periodEnd" TIMESTAMP(3),
+    "rowCount" INTEGER NOT NULL DEFAULT 0,
+    "matchedCount" INTEGER NOT NULL DEFAULT 0,
+    "mismatchCount" INTEGER NOT NULL DEFAULT 0,
+    "missingCount" INTEGER NOT NULL DEFAULT 0,
+    "unknownCount" INTEGER NOT NULL DEFAULT 0,
+    "feeTotal" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "importedById" CHAR(36),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SettlementImport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SettlementLine" (
+    "id" CHAR(36) NOT NULL,
+    "importId" CHAR(36) NOT NULL,
+    "status" "SettlementLineStatus" NOT NULL,
+    "externalRef" VARCHAR(200),
+    "paymentId" CHAR(36),
+    "amount" DECIMAL(12,2),
+    "expectedAmount" DECIMAL(12,2),
+    "fee" DECIMAL(12,2),
+    "currency" VARCHAR(3),
+    "transactionAt" TIMESTAMP(3),
+    "raw" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SettlementLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SettlementImport_provider_createdAt_idx" ON "SettlementImport"("provider", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "SettlementLine_importId_status_idx" ON "SettlementLine"("importId", "status");
+
+-- CreateIndex
+CREATE INDEX "SettlementLine_paymentId_idx" ON "SettlementLine"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "SettlementLine_externalRef_idx" ON "SettlementLine"("externalRef");
+
+-- AddForeignKey
+ALTER TABLE "SettlementImport" ADD CONSTRAINT "SettlementImport_importedById_fkey" FOREIGN KEY ("importedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SettlementLine" ADD CONSTRAINT "SettlementLine_importId_fkey" FOREIGN KEY ("importId") REFERENCES "SettlementImport"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SettlementLine" ADD CONSTRAINT "SettlementLine_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "PaymentAttempt"("id") ON DELETE SET NULL ON UPDATE CASCADE;
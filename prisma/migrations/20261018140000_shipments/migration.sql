@@ -0,0 +1,53 @@
+-- AlterEnum
+ALTER TYPE "OrderStatus" ADD VALUE 'PARTIALLY_SHIPPED';
+ALTER TYPE "OrderStatus" ADD VALUE 'DELIVERED';
+
+-- CreateEnum
+CREATE TYPE "ShipmentStatus" AS ENUM ('SHIPPED', 'DELIVERED');
+
+-- CreateTable
+CREATE TABLE "Shipment" (
+    "id" CHAR(36) NOT NULL,
+    "orderId" CHAR(36) NOT NULL,
+    "status" "ShipmentStatus" NOT NULL DEFAULT 'SHIPPED',
+    "carrier" VARCHAR(80) NOT NULL,
+    "trackingCode" VARCHAR(120),
+    "trackingUrl" VARCHAR(500),
+    "shippedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "deliveredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Shipment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShipmentItem" (
+    "id" CHAR(36) NOT NULL,
+    "shipmentId" CHAR(36) NOT NULL,
+    "orderItemId" CHAR(36) NOT NULL,
+    "quantity" INTEGER NOT NULL,
+
+    CONSTRAINT "ShipmentItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Shipment_orderId_idx" ON "Shipment"("orderId");
+
+-- CreateIndex
+CREATE INDEX "Shipment_trackingCode_idx" ON "Shipment"("trackingCode");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShipmentItem_shipmentId_orderItemId_key" ON "ShipmentItem"("shipmentId", "orderItemId");
+
+-- CreateIndex
+CREATE INDEX "ShipmentItem_orderItemId_idx" ON "ShipmentItem"("orderItemId");
+
+-- AddForeignKey
+ALTER TABLE "Shipment" ADD CONSTRAINT "Shipment_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShipmentItem" ADD CONSTRAINT "ShipmentItem_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "Shipment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShipmentItem" ADD CONSTRAINT "ShipmentItem_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "OrderItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,66 @@
+-- CreateEnum
+CREATE TYPE "ReturnStatus" AS ENUM ('REQUESTED', 'APPROVED', 'REJECTED', 'RECEIVED', 'REFUNDED');
+
+-- CreateTable
+CREATE TABLE "OrderReturn" (
+    "id" CHAR(36) NOT NULL,
+    "orderId" CHAR(36) NOT NULL,
+    "requestedById" CHAR(36) NOT NULL,
+    "status" "ReturnStatus" NOT NULL DEFAULT 'REQUESTED',
+    "reason" VARCHAR(500) NOT NULL,
+    "staffNote" VARCHAR(500),
+    "reviewedById" CHAR(36),
+    "refundAmount" DECIMAL(12,2),
+    "refundId" CHAR(36),
+    "approvedAt" TIMESTAMP(3),
+    "rejectedAt" TIMESTAMP(3),
+    "receivedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OrderReturn_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OrderReturnItem" (
+    "id" CHAR(36) NOT NULL,
+    "returnId" CHAR(36) NOT NULL,
+    "orderItemId" CHAR(36) NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "restocked" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "OrderReturnItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderReturn_refundId_key" ON "OrderReturn"("refundId");
+
+-- CreateIndex
+CREATE INDEX "OrderReturn_orderId_idx" ON "OrderReturn"("orderId");
+
+-- CreateIndex
+CREATE INDEX "OrderReturn_status_createdAt_idx" ON "OrderReturn"("status", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderReturnItem_returnId_orderItemId_key" ON "OrderReturnItem"("returnId", "orderItemId");
+
+-- CreateIndex
+CREATE INDEX "OrderReturnItem_orderItemId_idx" ON "OrderReturnItem"("orderItemId");
+
+-- AddForeignKey
+ALTER TABLE "OrderReturn" ADD CONSTRAINT "OrderReturn_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderReturn" ADD CONSTRAINT "OrderReturn_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderReturn" ADD CONSTRAINT "OrderReturn_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderReturn" ADD CONSTRAINT "OrderReturn_refundId_fkey" FOREIGN KEY ("refundId") REFERENCES "Refund"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderReturnItem" ADD CONSTRAINT "OrderReturnItem_returnId_fkey" FOREIGN KEY ("returnId") REFERENCES "OrderReturn"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderReturnItem" ADD CONSTRAINT "OrderReturnItem_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "OrderItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
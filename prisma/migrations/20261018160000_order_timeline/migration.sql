@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "OrderNoteVisibility" AS ENUM ('INTERNAL', 'CUSTOMER');
+
+-- AlterTable
+ALTER TABLE "WebhookEvent" ADD COLUMN "orderId" CHAR(36),
+ADD COLUMN "paymentId" CHAR(36);
+
+-- CreateTable
+CREATE TABLE "OrderNote" (
+    "id" CHAR(36) NOT NULL,
+    "orderId" CHAR(36) NOT NULL,
+    "authorId" CHAR(36),
+    "visibility" "OrderNoteVisibility" NOT NULL DEFAULT 'INTERNAL',
+    "body" VARCHAR(2000) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderNote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WebhookEvent_orderId_idx" ON "WebhookEvent"("orderId");
+
+-- CreateIndex
+CREATE INDEX "OrderNote_orderId_createdAt_idx" ON "OrderNote"("orderId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "OrderNote" ADD CONSTRAINT "OrderNote_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderNote" ADD CONSTRAINT "OrderNote_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
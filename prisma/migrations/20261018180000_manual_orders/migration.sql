@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "OrderChannel" AS ENUM ('WEB', 'PHONE', 'WHATSAPP');
+
+-- AlterTable
+ALTER TABLE "Order" ALTER COLUMN "userId" DROP NOT NULL,
+ADD COLUMN     "channel" "OrderChannel" NOT NULL DEFAULT 'WEB',
+ADD COLUMN     "createdById" CHAR(36);
+
+-- CreateIndex
+CREATE INDEX "Order_createdById_idx" ON "Order"("createdById");
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
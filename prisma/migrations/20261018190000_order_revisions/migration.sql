@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "OrderRevision" (
+    "id" CHAR(36) NOT NULL,
+    "orderId" CHAR(36) NOT NULL,
+    "number" INTEGER NOT NULL,
+    "actorId" CHAR(36),
+    "source" VARCHAR(20) NOT NULL,
+    "itemsBefore" JSONB NOT NULL,
+    "itemsAfter" JSONB NOT NULL,
+    "totalBefore" DECIMAL(12,2) NOT NULL,
+    "totalAfter" DECIMAL(12,2) NOT NULL,
+    "discountBefore" DECIMAL(12,2) NOT NULL,
+    "discountAfter" DECIMAL(12,2) NOT NULL,
+    "couponCodeBefore" VARCHAR(50),
+    "couponCodeAfter" VARCHAR(50),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderRevision_orderId_number_key" ON "OrderRevision"("orderId", "number");
+
+-- AddForeignKey
+ALTER TABLE "OrderRevision" ADD CONSTRAINT "OrderRevision_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderRevision" ADD CONSTRAINT "OrderRevision_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
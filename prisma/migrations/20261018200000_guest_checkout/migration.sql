@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Cart" ALTER COLUMN "userId" DROP NOT NULL,
+ADD COLUMN     "guestTokenHash" VARCHAR(64);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Cart_guestTokenHash_key" ON "Cart"("guestTokenHash");
+
+-- CreateIndex
+CREATE INDEX "Cart_updatedAt_idx" ON "Cart"("updatedAt");
@@ -0,0 +1,57 @@
+-- CreateEnum
+CREATE TYPE "ShippingRateType" AS ENUM ('FLAT', 'WEIGHT', 'FREE_OVER');
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "shippingFee" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "shippingMethodId" CHAR(36),
+ADD COLUMN     "shippingMethodName" VARCHAR(120);
+
+-- CreateTable
+CREATE TABLE "ShippingZone" (
+    "id" CHAR(36) NOT NULL,
+    "name" VARCHAR(120) NOT NULL,
+    "country" VARCHAR(2) NOT NULL,
+    "state" VARCHAR(120),
+    "city" VARCHAR(120),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShippingZone_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShippingMethod" (
+    "id" CHAR(36) NOT NULL,
+    "zoneId" CHAR(36) NOT NULL,
+    "name" VARCHAR(120) NOT NULL,
+    "description" VARCHAR(255),
+    "rateType" "ShippingRateType" NOT NULL DEFAULT 'FLAT',
+    "price" DECIMAL(12,2) NOT NULL,
+    "pricePerKg" DECIMAL(12,2),
+    "freeOverSubtotal" DECIMAL(12,2),
+    "maxWeightKg" DECIMAL(10,3),
+    "minDeliveryDays" INTEGER,
+    "maxDeliveryDays" INTEGER,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShippingMethod_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShippingZone_country_idx" ON "ShippingZone"("country");
+
+-- CreateIndex
+CREATE INDEX "ShippingMethod_zoneId_idx" ON "ShippingMethod"("zoneId");
+
+-- CreateIndex
+CREATE INDEX "Order_shippingMethodId_idx" ON "Order"("shippingMethodId");
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_shippingMethodId_fkey" FOREIGN KEY ("shippingMethodId") REFERENCES "ShippingMethod"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShippingMethod" ADD CONSTRAINT "ShippingMethod_zoneId_fkey" FOREIGN KEY ("zoneId") REFERENCES "ShippingZone"("id") ON DELETE CASCADE ON UPDATE CASCADE;
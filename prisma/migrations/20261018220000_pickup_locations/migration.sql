@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "FulfillmentType" AS ENUM ('DELIVERY', 'PICKUP');
+
+-- AlterEnum
+ALTER TYPE "OrderStatus" ADD VALUE 'READY_FOR_PICKUP' BEFORE 'DELIVERED';
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "fulfillmentType" "FulfillmentType" NOT NULL DEFAULT 'DELIVERY',
+ADD COLUMN     "pickedUpAt" TIMESTAMP(3),
+ADD COLUMN     "pickupCode" VARCHAR(12),
+ADD COLUMN     "pickupLocationId" CHAR(36);
+
+-- CreateTable
+CREATE TABLE "PickupLocation" (
+    "id" CHAR(36) NOT NULL,
+    "name" VARCHAR(120) NOT NULL,
+    "line1" VARCHAR(200) NOT NULL,
+    "line2" VARCHAR(200),
+    "city" VARCHAR(120) NOT NULL,
+    "state" VARCHAR(120),
+    "country" VARCHAR(2) NOT NULL,
+    "phone" VARCHAR(30),
+    "openingHours" JSONB NOT NULL,
+    "capacity" INTEGER,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PickupLocation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Order_pickupLocationId_status_idx" ON "Order"("pickupLocationId", "status");
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_pickupLocationId_fkey" FOREIGN KEY ("pickupLocationId") REFERENCES "PickupLocation"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "TaxClass" AS ENUM ('STANDARD', 'REDUCED', 'EXEMPT');
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "taxClass" "TaxClass" NOT NULL DEFAULT 'STANDARD';
+
+-- AlterTable
+ALTER TABLE "ProductVariant" ADD COLUMN     "taxClass" "TaxClass";
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "pricesIncludeTax" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "taxLines" JSONB,
+ADD COLUMN     "taxTotal" DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "taxAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "taxClass" "TaxClass" NOT NULL DEFAULT 'STANDARD',
+ADD COLUMN     "taxRate" DECIMAL(5,4) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "TaxSettings" (
+    "id" CHAR(36) NOT NULL,
+    "key" VARCHAR(50) NOT NULL,
+    "pricesIncludeTax" BOOLEAN NOT NULL DEFAULT true,
+    "standardRate" DECIMAL(5,4) NOT NULL DEFAULT 0.16,
+    "reducedRate" DECIMAL(5,4) NOT NULL DEFAULT 0.05,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaxSettings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaxSettings_key_key" ON "TaxSettings"("key");
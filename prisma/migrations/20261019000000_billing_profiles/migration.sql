@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "billingCompanySnapshot" VARCHAR(200),
+ADD COLUMN     "billingNuitSnapshot" VARCHAR(9),
+ADD COLUMN     "billingProfileSnapshot" JSONB;
+
+-- CreateTable
+CREATE TABLE "BillingProfile" (
+    "id" CHAR(36) NOT NULL,
+    "userId" CHAR(36) NOT NULL,
+    "companyName" VARCHAR(200) NOT NULL,
+    "nuit" VARCHAR(9) NOT NULL,
+    "email" VARCHAR(255),
+    "line1" VARCHAR(200) NOT NULL,
+    "line2" VARCHAR(200),
+    "city" VARCHAR(120) NOT NULL,
+    "state" VARCHAR(120),
+    "country" VARCHAR(2) NOT NULL,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BillingProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Order_billingNuitSnapshot_idx" ON "Order"("billingNuitSnapshot");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BillingProfile_userId_nuit_key" ON "BillingProfile"("userId", "nuit");
+
+-- AddForeignKey
+ALTER TABLE "BillingProfile" ADD CONSTRAINT "BillingProfile_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
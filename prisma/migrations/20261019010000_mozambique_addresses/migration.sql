@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Address" ADD COLUMN     "districtCode" VARCHAR(80),
+ADD COLUMN     "neighbourhood" VARCHAR(120),
+ADD COLUMN     "neighbourhoodCode" VARCHAR(120),
+ADD COLUMN     "provinceCode" VARCHAR(10);
+
+-- AlterTable
+ALTER TABLE "ShippingZone" ADD COLUMN     "districtCode" VARCHAR(80),
+ADD COLUMN     "provinceCode" VARCHAR(10);
+
+-- CreateIndex
+CREATE INDEX "Address_provinceCode_districtCode_idx" ON "Address"("provinceCode", "districtCode");
@@ -0,0 +1,32 @@
+-- Permissions added with refunds, COD collection, settlement imports and manual orders.
+-- The seed only runs on new databases; existing ones get them (and their grants) here.
+
+-- InsertData
+INSERT INTO "Permission" ("id", "code", "description") VALUES
+    (gen_random_uuid()::text, 'order:create', 'Create orders on behalf of customers'),
+    (gen_random_uuid()::text, 'order:refund', 'Refund order payments'),
+    (gen_random_uuid()::text, 'cod:collect', 'Record cash-on-delivery collections'),
+    (gen_random_uuid()::text, 'payment:reconcile', 'Import gateway settlement files')
+ON CONFLICT ("code") DO NOTHING;
+
+-- InsertData
+INSERT INTO "Role" ("id", "name") VALUES (gen_random_uuid()::text, 'courier')
+ON CONFLICT ("name") DO NOTHING;
+
+-- InsertData
+INSERT INTO "RolePermission" ("roleId", "permissionId")
+SELECT r."id", p."id"
+FROM (VALUES
+    ('courier', 'cod:collect'),
+    ('manager', 'order:create'),
+    ('manager', 'order:refund'),
+    ('manager', 'cod:collect'),
+    ('manager', 'payment:reconcile'),
+    ('admin', 'order:create'),
+    ('admin', 'order:refund'),
+    ('admin', 'cod:collect'),
+    ('admin', 'payment:reconcile')
+) AS grants ("role", "permission")
+JOIN "Role" r ON r."name" = grants."role"
+JOIN "Permission" p ON p."code" = grants."permission"
+ON CONFLICT ("roleId", "permissionId") DO NOTHING;
@@ -8,14 +8,19 @@ const permissions = [
   { code: "product:update", description: "Update products" },
   { code: "product:delete", description: "Delete products" },
   { code: "order:read", description: "Read orders" },
+  { code: "order:create", description: "Create orders on behalf of customers" },
   { code: "order:updateStatus", description: "Update order status" },
+  { code: "order:refund", description: "Refund order payments" },
+  { code: "cod:collect", description: "Record cash-on-delivery collections" },
+  { code: "payment:reconcile", description: "Import gateway settlement files" },
   { code: "user:manage", description: "Manage users" }
 ];
 
 const roles = [
   { name: "customer", perms: [] as string[] },
-  { name: "manager", perms: ["product:create", "product:update", "order:read", "order:updateStatus"] },
-  { name: "admin", perms: ["product:create", "product:update", "product:delete", "order:read", "order:updateStatus", "user:manage"] }
+  { name: "courier", perms: ["cod:collect"] },
+  { name: "manager", perms: ["product:create", "product:update", "order:read", "order:create", "order:updateStatus", "order:refund", "cod:collect", "payment:reconcile"] },
+  { name: "admin", perms: ["product:create", "product:update", "product:delete", "order:read", "order:create", "order:updateStatus", "order:refund", "cod:collect", "payment:reconcile", "user:manage"] }
 ];
 
 async function main() {
@@ -35,6 +35,9 @@ app.use(
   })
 );
 app.use("/v1/system/webhooks/stripe", express.raw({ type: "application/json" }));
+app.use("/v1/system/webhooks/mpesa", express.raw({ type: "application/json" }));
+app.use("/v1/system/webhooks/paypal", express.raw({ type: "application/json" }));
+app.use("/v1/system/webhooks/payments", express.raw({ type: "application/json" }));
 app.use(express.json({ limit: "2mb" }));
 app.use(express.urlencoded({ extended: true }));
 
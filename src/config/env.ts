@@ -40,6 +40,7 @@ export const env = {
     .filter(Boolean),
   uploadDir,
   appBaseUrl: process.env.APP_BASE_URL || "http://127.0.0.1:3000",
+  orderLookupSecret: normalizeEnv(process.env.ORDER_LOOKUP_SECRET) || requireEnv("JWT_ACCESS_SECRET"),
   storageProvider: normalizeEnv(process.env.STORAGE_PROVIDER) || "local",
   s3: {
     region: normalizeEnv(process.env.S3_REGION),
@@ -83,21 +83,26 @@ export const swaggerSpec = {
       },
       CreateAddressRequest: {
         type: "object",
-        required: ["name", "line1", "city", "state", "postalCode", "country"],
+        required: ["name", "line1", "postalCode", "country"],
+        description: "Outside Mozambique city and state are required; in Mozambique a known province and district",
         properties: {
           name: { type: "string", minLength: 2, maxLength: 120 },
           line1: { type: "string", minLength: 2 },
           line2: { type: "string" },
-          city: { type: "string", minLength: 2 },
-          state: { type: "string", minLength: 2 },
+          city: { type: "string", minLength: 2, description: "District in Mozambique" },
+          state: { type: "string", minLength: 2, description: "Province in Mozambique" },
           postalCode: { type: "string", minLength: 3 },
           country: { type: "string", minLength: 2, maxLength: 2 },
           phone: { type: "string" },
+          provinceCode: { type: "string", example: "MZ-MPM", description: "From /v1/store/locations" },
+          districtCode: { type: "string", example: "MZ-MPM-KAMPFUMO" },
+          neighbourhood: { type: "string", description: "Bairro; matched against the list in Maputo city" },
           isDefault: { type: "boolean" }
         }
       },
       UpdateAddressRequest: {
         type: "object",
+        description: "A new province (state or provinceCode) replaces the stored one and must come with its district",
         properties: {
           name: { type: "string", minLength: 2, maxLength: 120 },
           line1: { type: "string", minLength: 2 },
@@ -107,6 +112,9 @@ export const swaggerSpec = {
           postalCode: { type: "string", minLength: 3 },
           country: { type: "string", minLength: 2, maxLength: 2 },
           phone: { type: "string" },
+          provinceCode: { type: "string", example: "MZ-MPM", description: "From /v1/store/locations" },
+          districtCode: { type: "string", example: "MZ-MPM-KAMPFUMO" },
+          neighbourhood: { type: "string", description: "Bairro; matched against the list in Maputo city" },
           isDefault: { type: "boolean" }
         }
       },
@@ -137,14 +145,32 @@ export const swaggerSpec = {
         type: "object",
         properties: {
           couponCode: { type: "string" },
-          paymentProvider: { type: "string", enum: ["MPESA", "EMOLA", "STRIPE", "COD", "PAYPAL"] },
-          phone: { type: "string" }
+          paymentProvider: {
+            type: "string",
+            description: "Registered provider code (MPESA, EMOLA, STRIPE, PAYPAL, COD; FAKE outside production)"
+          },
+          phone: { type: "string" },
+          shippingMethodId: {
+            type: "string",
+            format: "uuid",
+            description: "Required when the address falls in a shipping zone; see `shippingMethods` in the checkout summary"
+          },
+          pickupLocationId: {
+            type: "string",
+            format: "uuid",
+            description: "Collect at a pickup point instead of delivery; no shipping fee is charged"
+          },
+          billingProfileId: {
+            type: "string",
+            format: "uuid",
+            description: "Puts the company name and NUIT of this billing profile on the invoice"
+          }
         }
       },
       CreatePaymentRequest: {
         type: "object",
         properties: {
-          provider: { type: "string", enum: ["MPESA", "EMOLA", "STRIPE", "COD", "PAYPAL"] },
+          provider: { type: "string", description: "Registered provider code" },
           phone: { type: "string" }
         }
       },
@@ -155,6 +181,20 @@ export const swaggerSpec = {
           sessionId: { type: "string" }
         }
       },
+      ConfirmPayPalPaymentRequest: {
+        type: "object",
+        required: ["token"],
+        properties: {
+          token: { type: "string", description: "PayPal order id returned as `token` on the return URL" }
+        }
+      },
+      ConfirmProviderPaymentRequest: {
+        type: "object",
+        required: ["reference"],
+        properties: {
+          reference: { type: "string", description: "Provider reference returned by checkout (session id, token, ...)" }
+        }
+      },
       NotificationPreferences: {
         type: "object",
         properties: {
@@ -197,7 +237,10 @@ export const swaggerSpec = {
           priceSnapshot: { type: "number" },
           nameSnapshot: { type: "string" },
           skuSnapshot: { type: "string" },
-          attributesSnapshot: { type: "object", additionalProperties: true }
+          attributesSnapshot: { type: "object", additionalProperties: true },
+          taxClass: { type: "string", enum: ["STANDARD", "REDUCED", "EXEMPT"] },
+          taxRate: { type: "number", example: 0.16 },
+          taxAmount: { type: "number", description: "IVA of the line after its share of the coupon discount" }
         }
       },
       Payment: {
@@ -210,6 +253,9 @@ export const swaggerSpec = {
           amount: { type: "number" },
           provider: { type: "string", nullable: true },
           externalRef: { type: "string", nullable: true },
+          rawResponse: { type: "object", nullable: true, additionalProperties: true },
+          gatewayFee: { type: "number", nullable: true, description: "Fee reported by the gateway settlement file" },
+          settledAt: { type: "string", format: "date-time", nullable: true },
           checkoutUrl: { type: "string", nullable: true },
           createdAt: { type: "string", format: "date-time" },
           updatedAt: { type: "string", format: "date-time" }
@@ -217,26 +263,107 @@ export const swaggerSpec = {
       },
       Order: {
         type: "object",
-        required: ["id", "userId", "status", "total", "currency", "paymentStatus", "createdAt", "updatedAt"],
+        required: ["id", "status", "total", "currency", "paymentStatus", "createdAt", "updatedAt"],
         properties: {
           id: { type: "string", format: "uuid" },
-          userId: { type: "string", format: "uuid" },
-          status: { type: "string", enum: ["PENDING", "PAID", "SHIPPED", "CANCELED"] },
+          userId: { type: "string", format: "uuid", nullable: true, description: "Null for guest orders" },
+          status: {
+            type: "string",
+            enum: ["PENDING", "PAID", "PARTIALLY_SHIPPED", "SHIPPED", "READY_FOR_PICKUP", "DELIVERED", "CANCELED"]
+          },
+          channel: { type: "string", enum: ["WEB", "PHONE", "WHATSAPP"] },
+          createdById: { type: "string", format: "uuid", nullable: true, description: "Staff member who created the order" },
           total: { type: "number" },
           discountTotal: { type: "number" },
           couponId: { type: "string", format: "uuid", nullable: true },
           couponCode: { type: "string", nullable: true },
+          shippingMethodId: { type: "string", format: "uuid", nullable: true },
+          shippingMethodName: { type: "string", nullable: true },
+          shippingFee: { type: "number", description: "Included in total; coupons do not discount it" },
+          fulfillmentType: { type: "string", enum: ["DELIVERY", "PICKUP"] },
+          pickupLocationId: { type: "string", format: "uuid", nullable: true },
+          pickupCode: {
+            type: "string",
+            nullable: true,
+            description: "Set when the order is ready for pickup; the customer shows it at the counter"
+          },
+          pickedUpAt: { type: "string", format: "date-time", nullable: true },
+          billingProfileSnapshot: {
+            type: "object",
+            nullable: true,
+            description: "Billing profile chosen at checkout (companyName, nuit, email and address)",
+            additionalProperties: true
+          },
+          billingCompanySnapshot: { type: "string", nullable: true },
+          billingNuitSnapshot: { type: "string", nullable: true },
+          taxTotal: { type: "number", description: "IVA of the items and delivery" },
+          pricesIncludeTax: {
+            type: "boolean",
+            description: "When false the IVA was added on top and is part of total"
+          },
+          taxLines: {
+            type: "array",
+            nullable: true,
+            description: "Null for orders placed before tax classes",
+            items: { $ref: "#/components/schemas/TaxLine" }
+          },
           currency: { type: "string" },
           paymentStatus: {
             type: "string",
             enum: ["PENDING", "AUTHORIZED", "CAPTURED", "FAILED", "REFUNDED"]
           },
           items: { type: "array", items: { $ref: "#/components/schemas/OrderItem" } },
-          payment: { $ref: "#/components/schemas/Payment", nullable: true },
+          payment: {
+            allOf: [{ $ref: "#/components/schemas/Payment" }],
+            nullable: true,
+            description: "Latest payment attempt"
+          },
+          payments: {
+            type: "array",
+            description: "Payment attempts, newest first",
+            items: { $ref: "#/components/schemas/Payment" }
+          },
+          shipments: {
+            type: "array",
+            description: "Parcels sent for this order (order detail endpoints)",
+            items: { $ref: "#/components/schemas/Shipment" }
+          },
           createdAt: { type: "string", format: "date-time" },
           updatedAt: { type: "string", format: "date-time" }
         }
       },
+      Shipment: {
+        type: "object",
+        properties: {
+          id: { type: "string", format: "uuid" },
+          orderId: { type: "string", format: "uuid" },
+          status: { type: "string", enum: ["SHIPPED", "DELIVERED"] },
+          carrier: { type: "string" },
+          trackingCode: { type: "string", nullable: true },
+          trackingUrl: { type: "string", nullable: true },
+          shippedAt: { type: "string", format: "date-time" },
+          deliveredAt: { type: "string", format: "date-time", nullable: true },
+          items: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                orderItemId: { type: "string", format: "uuid" },
+                quantity: { type: "integer" },
+                orderItem: {
+                  type: "object",
+                  properties: {
+                    id: { type: "string", format: "uuid" },
+                    nameSnapshot: { type: "string" },
+                    skuSnapshot: { type: "string" },
+                    quantity: { type: "integer" }
+                  }
+                }
+              }
+            }
+          }
+        }
+      },
       CheckoutResponse: {
         allOf: [
           { $ref: "#/components/schemas/Order" },
@@ -285,6 +412,12 @@ export const swaggerSpec = {
           sku: { type: "string", minLength: 2 },
           name: { type: "string", minLength: 2 },
           price: { type: "number", minimum: 0 },
+          taxClass: {
+            type: "string",
+            enum: ["STANDARD", "REDUCED", "EXEMPT"],
+            nullable: true,
+            description: "Overrides the product's tax class; null inherits it"
+          },
           attributes: { type: "object", additionalProperties: true }
         }
       },
@@ -296,6 +429,7 @@ export const swaggerSpec = {
           slug: { type: "string", minLength: 2 },
           description: { type: "string" },
           basePrice: { type: "number", minimum: 0 },
+          taxClass: { type: "string", enum: ["STANDARD", "REDUCED", "EXEMPT"], default: "STANDARD" },
           status: { type: "string", enum: ["DRAFT", "ACTIVE", "ARCHIVED"] },
           categoryIds: { type: "array", items: { type: "string", format: "uuid" } },
           variants: { type: "array", items: { $ref: "#/components/schemas/CreateProductVariant" } }
@@ -308,6 +442,7 @@ export const swaggerSpec = {
           slug: { type: "string", minLength: 2 },
           description: { type: "string" },
           basePrice: { type: "number", minimum: 0 },
+          taxClass: { type: "string", enum: ["STANDARD", "REDUCED", "EXEMPT"], default: "STANDARD" },
           status: { type: "string", enum: ["DRAFT", "ACTIVE", "ARCHIVED"] },
           categoryIds: { type: "array", items: { type: "string", format: "uuid" } }
         }
@@ -342,6 +477,16 @@ export const swaggerSpec = {
           sortOrder: { type: "integer" }
         }
       },
+      ImportSettlementRequest: {
+        type: "object",
+        required: ["file", "provider"],
+        properties: {
+          file: { type: "string", format: "binary", description: "M-PESA CSV export or Stripe balance transactions CSV" },
+          provider: { type: "string", enum: ["MPESA", "STRIPE"] },
+          periodStart: { type: "string", format: "date-time", description: "Defaults to the first transaction in the file" },
+          periodEnd: { type: "string", format: "date-time", description: "Defaults to the last transaction in the file" }
+        }
+      },
       UpdateImageRequest: {
         type: "object",
         properties: {
@@ -369,7 +514,7 @@ export const swaggerSpec = {
         type: "object",
         required: ["status"],
         properties: {
-          status: { type: "string", enum: ["PENDING", "PAID", "SHIPPED", "CANCELED"] }
+          status: { type: "string", enum: ["PENDING", "PAID", "PARTIALLY_SHIPPED", "SHIPPED", "DELIVERED", "CANCELED"] }
         }
       },
       UpdateOrderPaymentStatusRequest: {
@@ -378,10 +523,440 @@ export const swaggerSpec = {
         properties: {
           paymentStatus: {
             type: "string",
-            enum: ["PENDING", "AUTHORIZED", "CAPTURED", "FAILED", "REFUNDED"]
+            enum: ["PENDING", "AUTHORIZED", "CAPTURED", "FAILED"]
+          }
+        }
+      },
+      CreateRefundRequest: {
+        type: "object",
+        required: ["reason"],
+        properties: {
+          amount: { type: "number", description: "Omit to refund the remaining balance" },
+          reason: { type: "string" },
+          restock: { type: "boolean", description: "Return the order items to stock" },
+          manual: { type: "boolean", description: "Record a refund paid outside the gateway" }
+        }
+      },
+      CreateShipmentRequest: {
+        type: "object",
+        required: ["carrier"],
+        properties: {
+          carrier: { type: "string" },
+          trackingCode: { type: "string" },
+          trackingUrl: { type: "string", format: "uri" },
+          shippedAt: { type: "string", format: "date-time" },
+          items: {
+            type: "array",
+            description: "Defaults to every item not shipped yet",
+            items: {
+              type: "object",
+              required: ["orderItemId", "quantity"],
+              properties: {
+                orderItemId: { type: "string", format: "uuid" },
+                quantity: { type: "integer", minimum: 1 }
+              }
+            }
+          }
+        }
+      },
+      UpdateShipmentRequest: {
+        type: "object",
+        properties: {
+          carrier: { type: "string" },
+          trackingCode: { type: "string", nullable: true },
+          trackingUrl: { type: "string", format: "uri", nullable: true },
+          status: { type: "string", enum: ["DELIVERED"] },
+          deliveredAt: { type: "string", format: "date-time" }
+        }
+      },
+      RequestReturnRequest: {
+        type: "object",
+        required: ["reason", "items"],
+        properties: {
+          reason: { type: "string", minLength: 3, maxLength: 500 },
+          items: {
+            type: "array",
+            minItems: 1,
+            items: {
+              type: "object",
+              required: ["orderItemId", "quantity"],
+              properties: {
+                orderItemId: { type: "string", format: "uuid" },
+                quantity: { type: "integer", minimum: 1 }
+              }
+            }
+          }
+        }
+      },
+      OrderReturn: {
+        type: "object",
+        properties: {
+          id: { type: "string", format: "uuid" },
+          orderId: { type: "string", format: "uuid" },
+          status: { type: "string", enum: ["REQUESTED", "APPROVED", "REJECTED", "RECEIVED", "REFUNDED"] },
+          reason: { type: "string" },
+          staffNote: { type: "string", nullable: true },
+          refundAmount: { type: "number", nullable: true },
+          refundId: { type: "string", format: "uuid", nullable: true },
+          approvedAt: { type: "string", format: "date-time", nullable: true },
+          rejectedAt: { type: "string", format: "date-time", nullable: true },
+          receivedAt: { type: "string", format: "date-time", nullable: true },
+          items: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                orderItemId: { type: "string", format: "uuid" },
+                quantity: { type: "integer" },
+                restocked: { type: "integer" }
+              }
+            }
+          },
+          createdAt: { type: "string", format: "date-time" }
+        }
+      },
+      ReviewReturnRequest: {
+        type: "object",
+        properties: {
+          note: { type: "string", maxLength: 500 }
+        }
+      },
+      ReceiveReturnRequest: {
+        type: "object",
+        properties: {
+          note: { type: "string", maxLength: 500 },
+          restock: { type: "boolean", default: true },
+          refund: { type: "boolean", default: true, description: "Refund the return value right away" },
+          refundAmount: { type: "number", description: "Defaults to the paid value of the returned units" },
+          manualRefund: { type: "boolean" }
+        }
+      },
+      RefundReturnRequest: {
+        type: "object",
+        properties: {
+          amount: { type: "number" },
+          manual: { type: "boolean" }
+        }
+      },
+      TimelineEntry: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          type: {
+            type: "string",
+            enum: ["created", "status", "payment", "refund", "shipment", "return", "delivery", "webhook", "note", "event"]
+          },
+          action: { type: "string" },
+          at: { type: "string", format: "date-time" },
+          actor: {
+            type: "object",
+            nullable: true,
+            description: "Staff timeline only",
+            properties: {
+              id: { type: "string", format: "uuid" },
+              name: { type: "string", nullable: true },
+              email: { type: "string" }
+            }
+          },
+          data: { type: "object", additionalProperties: true }
+        }
+      },
+      CreateOrderNoteRequest: {
+        type: "object",
+        required: ["body"],
+        properties: {
+          body: { type: "string", maxLength: 2000 },
+          visibility: { type: "string", enum: ["INTERNAL", "CUSTOMER"], default: "INTERNAL" }
+        }
+      },
+      ManualOrderRequest: {
+        type: "object",
+        required: ["customer", "items"],
+        properties: {
+          customer: {
+            oneOf: [
+              { type: "object", required: ["userId"], properties: { userId: { type: "string", format: "uuid" } } },
+              {
+                type: "object",
+                required: ["name", "phone"],
+                description: "Guest contact; attached to the account when the email is already registered",
+                properties: {
+                  name: { type: "string" },
+                  email: { type: "string", format: "email" },
+                  phone: { type: "string" }
+                }
+              }
+            ]
+          },
+          items: {
+            type: "array",
+            minItems: 1,
+            items: {
+              type: "object",
+              required: ["variantId", "quantity"],
+              properties: {
+                variantId: { type: "string", format: "uuid" },
+                quantity: { type: "integer", minimum: 1 },
+                unitPrice: { type: "number", minimum: 0, description: "Overrides the variant price" },
+                priceReason: { type: "string", description: "Required with unitPrice" }
+              }
+            }
+          },
+          shippingAddress: {
+            type: "object",
+            required: ["line1", "country"],
+            description: "Defaults to the customer's default address; validated like account addresses",
+            properties: {
+              name: { type: "string" },
+              line1: { type: "string" },
+              line2: { type: "string" },
+              city: { type: "string" },
+              state: { type: "string" },
+              postalCode: { type: "string" },
+              country: { type: "string", example: "MZ" },
+              phone: { type: "string" },
+              provinceCode: { type: "string", example: "MZ-MPM" },
+              districtCode: { type: "string", example: "MZ-MPM-KAMPFUMO" },
+              neighbourhood: { type: "string" }
+            }
+          },
+          couponCode: { type: "string" },
+          paymentProvider: { type: "string", description: "Registered provider code" },
+          shippingMethodId: { type: "string", format: "uuid", description: "Optional; adds the method's fee" },
+          billingProfileId: {
+            type: "string",
+            format: "uuid",
+            description: "Billing profile of the customer account, for company invoices"
+          },
+          phone: { type: "string", description: "Wallet number for M-PESA/e-Mola prompts" },
+          channel: { type: "string", enum: ["PHONE", "WHATSAPP"], default: "PHONE" }
+        }
+      },
+      EditOrderItemsRequest: {
+        type: "object",
+        description: "At least one of add, update or remove",
+        properties: {
+          add: {
+            type: "array",
+            items: {
+              type: "object",
+              required: ["variantId", "quantity"],
+              properties: {
+                variantId: { type: "string", format: "uuid" },
+                quantity: { type: "integer", minimum: 1 }
+              }
+            }
+          },
+          update: {
+            type: "array",
+            items: {
+              type: "object",
+              required: ["orderItemId", "quantity"],
+              properties: {
+                orderItemId: { type: "string", format: "uuid" },
+                quantity: { type: "integer", minimum: 0, description: "0 removes the line" }
+              }
+            }
+          },
+          remove: { type: "array", items: { type: "string", format: "uuid" } }
+        }
+      },
+      OrderRevision: {
+        type: "object",
+        properties: {
+          id: { type: "string", format: "uuid" },
+          orderId: { type: "string", format: "uuid" },
+          number: { type: "integer" },
+          actorId: { type: "string", format: "uuid", nullable: true },
+          source: { type: "string", enum: ["staff", "customer"] },
+          itemsBefore: { type: "array", items: { type: "object" } },
+          itemsAfter: { type: "array", items: { type: "object" } },
+          totalBefore: { type: "number" },
+          totalAfter: { type: "number" },
+          discountBefore: { type: "number" },
+          discountAfter: { type: "number" },
+          couponCodeBefore: { type: "string", nullable: true },
+          couponCodeAfter: { type: "string", nullable: true },
+          createdAt: { type: "string", format: "date-time" }
+        }
+      },
+      EditOrderItemsResponse: {
+        type: "object",
+        properties: {
+          order: { $ref: "#/components/schemas/Order" },
+          revision: { $ref: "#/components/schemas/OrderRevision" },
+          couponDropped: {
+            type: "string",
+            nullable: true,
+            description: "Error code of the coupon that no longer applied and was removed"
           }
         }
       },
+      GuestCheckoutRequest: {
+        type: "object",
+        required: ["email", "name", "phone"],
+        description: "Send `address` for delivery or `pickupLocationId` to collect at a pickup point",
+        properties: {
+          email: { type: "string", format: "email" },
+          name: { type: "string" },
+          phone: { type: "string", description: "Also used for M-PESA/e-Mola prompts" },
+          address: {
+            type: "object",
+            required: ["line1", "country"],
+            description: "Mozambican addresses need a known province and district, by name or code",
+            properties: {
+              name: { type: "string" },
+              line1: { type: "string" },
+              line2: { type: "string" },
+              city: { type: "string" },
+              state: { type: "string" },
+              postalCode: { type: "string" },
+              country: { type: "string", example: "MZ" },
+              phone: { type: "string" },
+              provinceCode: { type: "string", example: "MZ-MPM" },
+              districtCode: { type: "string", example: "MZ-MPM-KAMPFUMO" },
+              neighbourhood: { type: "string" }
+            }
+          },
+          couponCode: { type: "string" },
+          paymentProvider: { type: "string", description: "Registered provider code" },
+          shippingMethodId: { type: "string", format: "uuid" },
+          pickupLocationId: { type: "string", format: "uuid" }
+        }
+      },
+      ShippingZoneRequest: {
+        type: "object",
+        required: ["name", "country"],
+        properties: {
+          name: { type: "string" },
+          country: { type: "string", example: "MZ" },
+          state: {
+            type: "string",
+            nullable: true,
+            description: "Province; empty covers the whole country. Checked against the reference data in Mozambique"
+          },
+          city: { type: "string", nullable: true },
+          provinceCode: { type: "string", nullable: true, example: "MZ-S", description: "Instead of state" },
+          districtCode: { type: "string", nullable: true, example: "MZ-S-BEIRA", description: "Instead of city" },
+          isActive: { type: "boolean" }
+        }
+      },
+      ShippingMethodRequest: {
+        type: "object",
+        required: ["name", "price"],
+        properties: {
+          name: { type: "string" },
+          description: { type: "string", nullable: true },
+          rateType: { type: "string", enum: ["FLAT", "WEIGHT", "FREE_OVER"], default: "FLAT" },
+          price: { type: "number", description: "Flat fee, or base fee for WEIGHT rates" },
+          pricePerKg: { type: "number", nullable: true, description: "Required for WEIGHT; charged per started kg" },
+          freeOverSubtotal: { type: "number", nullable: true, description: "Required for FREE_OVER" },
+          maxWeightKg: { type: "number", nullable: true },
+          minDeliveryDays: { type: "integer", nullable: true },
+          maxDeliveryDays: { type: "integer", nullable: true },
+          sortOrder: { type: "integer" },
+          isActive: { type: "boolean" }
+        }
+      },
+      BillingProfileRequest: {
+        type: "object",
+        required: ["companyName", "nuit", "line1", "city", "country"],
+        properties: {
+          companyName: { type: "string" },
+          nuit: { type: "string", example: "400123456", description: "9 digits; spaces are removed" },
+          email: { type: "string", format: "email", nullable: true, description: "Where the company wants invoices" },
+          line1: { type: "string" },
+          line2: { type: "string", nullable: true },
+          city: { type: "string" },
+          state: { type: "string", nullable: true },
+          country: { type: "string", example: "MZ" },
+          isDefault: { type: "boolean" }
+        }
+      },
+      TaxLine: {
+        type: "object",
+        properties: {
+          taxClass: { type: "string", enum: ["STANDARD", "REDUCED", "EXEMPT"] },
+          rate: { type: "number", example: 0.16 },
+          base: { type: "number", description: "Amount without IVA" },
+          tax: { type: "number" }
+        }
+      },
+      TaxSettingsRequest: {
+        type: "object",
+        properties: {
+          pricesIncludeTax: { type: "boolean", description: "Catalogue prices already include IVA" },
+          standardRate: { type: "number", minimum: 0, maximum: 1, example: 0.16 },
+          reducedRate: { type: "number", minimum: 0, maximum: 1, example: 0.05 }
+        }
+      },
+      PickupLocationRequest: {
+        type: "object",
+        required: ["name", "line1", "city", "country", "openingHours"],
+        properties: {
+          name: { type: "string" },
+          line1: { type: "string" },
+          line2: { type: "string", nullable: true },
+          city: { type: "string" },
+          state: { type: "string", nullable: true },
+          country: { type: "string", example: "MZ" },
+          phone: { type: "string", nullable: true },
+          openingHours: {
+            type: "array",
+            items: {
+              type: "object",
+              required: ["day", "opens", "closes"],
+              properties: {
+                day: { type: "integer", minimum: 0, maximum: 6, description: "0 = Sunday" },
+                opens: { type: "string", example: "08:00" },
+                closes: { type: "string", example: "17:00" }
+              }
+            }
+          },
+          capacity: {
+            type: "integer",
+            nullable: true,
+            description: "Maximum orders waiting at the point (pending, paid or ready); empty means unlimited"
+          },
+          isActive: { type: "boolean" }
+        }
+      },
+      CompletePickupRequest: {
+        type: "object",
+        required: ["code"],
+        properties: {
+          code: { type: "string", example: "042317" }
+        }
+      },
+      DispatchCodRequest: {
+        type: "object",
+        required: ["courierId"],
+        properties: {
+          courierId: { type: "string", format: "uuid", description: "User whose role has cod:collect" }
+        }
+      },
+      CollectCodRequest: {
+        type: "object",
+        required: ["amount"],
+        properties: {
+          amount: { type: "number", description: "Cash received from the customer" }
+        }
+      },
+      FailCodRequest: {
+        type: "object",
+        required: ["reason"],
+        properties: {
+          reason: { type: "string" }
+        }
+      },
+      CodRemittanceRequest: {
+        type: "object",
+        required: ["courierId", "date"],
+        properties: {
+          courierId: { type: "string", format: "uuid" },
+          date: { type: "string", format: "date" }
+        }
+      },
       UpdateUserRoleRequest: {
         type: "object",
         required: ["roleId"],
@@ -476,21 +1051,35 @@ export const swaggerSpec = {
     "/v1/system/webhooks/payments/{provider}": {
       post: {
         tags: ["System"],
-        summary: "Payments webhook",
+        summary: "Payments webhook (signed per provider)",
         parameters: [
-          { name: "provider", in: "path", required: true, schema: { type: "string" } }
+          { name: "provider", in: "path", required: true, schema: { type: "string" } },
+          { name: "x-webhook-timestamp", in: "header", required: true, schema: { type: "string" } },
+          { name: "x-webhook-signature", in: "header", required: true, schema: { type: "string" } }
         ],
         requestBody: {
-          required: false,
+          required: true,
           content: {
             "application/json": {
-              schema: { type: "object", additionalProperties: true }
+              schema: {
+                type: "object",
+                required: ["paymentStatus"],
+                properties: {
+                  paymentId: { type: "string", format: "uuid" },
+                  orderId: { type: "string", format: "uuid" },
+                  paymentStatus: { type: "string", enum: ["CAPTURED", "FAILED"] },
+                  externalRef: { type: "string" }
+                }
+              }
             }
           }
         },
         responses: {
           200: { description: "OK" },
-          400: { description: "Bad request" }
+          400: { description: "Bad request" },
+          401: { description: "Invalid or stale signature" },
+          404: { description: "Unknown provider or payment" },
+          409: { description: "Replayed webhook or provider mismatch" }
         }
       }
     },
@@ -504,6 +1093,48 @@ export const swaggerSpec = {
         }
       }
     },
+    "/v1/system/webhooks/paypal": {
+      post: {
+        tags: ["System"],
+        summary: "PayPal webhook (verified through PayPal API)",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { type: "object", additionalProperties: true }
+            }
+          }
+        },
+        responses: {
+          200: { description: "OK" },
+          400: { description: "Bad request" },
+          401: { description: "Invalid signature" }
+        }
+      }
+    },
+    "/v1/system/webhooks/mpesa": {
+      post: {
+        tags: ["System"],
+        summary: "M-PESA payment callback (HMAC signed)",
+        parameters: [
+          { name: "x-mpesa-signature", in: "header", required: true, schema: { type: "string" } }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { type: "object", additionalProperties: true }
+            }
+          }
+        },
+        responses: {
+          200: { description: "OK" },
+          400: { description: "Bad request" },
+          401: { description: "Invalid signature" },
+          404: { description: "Callback not configured (MPESA_CALLBACK_SECRET unset)" }
+        }
+      }
+    },
     "/v1/auth/register": {
       post: {
         tags: ["Auth"],
@@ -763,18 +1394,190 @@ export const swaggerSpec = {
         }
       }
     },
-    "/v1/account/profile": {
+    "/v1/store/pickup-locations": {
       get: {
-        tags: ["Account"],
-        summary: "Get profile",
-        security: [{ bearerAuth: [] }],
+        tags: ["Store"],
+        summary: "Active pickup points with opening hours and availability",
         responses: {
-          200: { description: "OK" },
-          401: { description: "Unauthorized" }
+          200: { description: "OK" }
         }
-      },
-      put: {
-        tags: ["Account"],
+      }
+    },
+    "/v1/store/locations/provinces": {
+      get: {
+        tags: ["Store"],
+        summary: "Mozambican provinces with their ISO 3166-2 codes",
+        responses: {
+          200: { description: "OK" }
+        }
+      }
+    },
+    "/v1/store/locations/provinces/{code}/districts": {
+      get: {
+        tags: ["Store"],
+        summary: "Districts of a province",
+        parameters: [{ name: "code", in: "path", required: true, schema: { type: "string", example: "MZ-MPM" } }],
+        responses: {
+          200: { description: "OK" },
+          404: { description: "Not found" }
+        }
+      }
+    },
+    "/v1/store/locations/districts/{code}/neighbourhoods": {
+      get: {
+        tags: ["Store"],
+        summary: "Neighbourhoods (bairros) of a district",
+        description: "Listed for Maputo city; elsewhere the list is empty and the neighbourhood is free text",
+        parameters: [
+          { name: "code", in: "path", required: true, schema: { type: "string", example: "MZ-MPM-KAMPFUMO" } }
+        ],
+        responses: {
+          200: { description: "OK" },
+          404: { description: "Not found" }
+        }
+      }
+    },
+    "/v1/guest/cart": {
+      post: {
+        tags: ["Guest"],
+        summary: "Create guest cart",
+        description: "Returns the cart token; send it back in the X-Guest-Token header",
+        responses: {
+          201: { description: "Created" }
+        }
+      },
+      get: {
+        tags: ["Guest"],
+        summary: "Get guest cart",
+        parameters: [{ name: "X-Guest-Token", in: "header", required: true, schema: { type: "string" } }],
+        responses: {
+          200: { description: "OK" },
+          404: { description: "Not found" }
+        }
+      }
+    },
+    "/v1/guest/cart/items": {
+      post: {
+        tags: ["Guest"],
+        summary: "Add guest cart item",
+        parameters: [{ name: "X-Guest-Token", in: "header", required: true, schema: { type: "string" } }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/AddCartItemRequest" }
+            }
+          }
+        },
+        responses: {
+          201: { description: "Created" },
+          400: { description: "Bad request" },
+          404: { description: "Not found" }
+        }
+      }
+    },
+    "/v1/guest/cart/items/{id}": {
+      patch: {
+        tags: ["Guest"],
+        summary: "Update guest cart item",
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } },
+          { name: "X-Guest-Token", in: "header", required: true, schema: { type: "string" } }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/UpdateCartItemRequest" }
+            }
+          }
+        },
+        responses: {
+          200: { description: "OK" },
+          400: { description: "Bad request" },
+          404: { description: "Not found" }
+        }
+      },
+      delete: {
+        tags: ["Guest"],
+        summary: "Delete guest cart item",
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } },
+          { name: "X-Guest-Token", in: "header", required: true, schema: { type: "string" } }
+        ],
+        responses: {
+          204: { description: "No content" },
+          404: { description: "Not found" }
+        }
+      }
+    },
+    "/v1/guest/checkout/summary": {
+      get: {
+        tags: ["Guest"],
+        summary: "Guest checkout summary",
+        parameters: [
+          { name: "coupon", in: "query", required: false, schema: { type: "string" } },
+          { name: "country", in: "query", required: false, schema: { type: "string" } },
+          { name: "state", in: "query", required: false, schema: { type: "string" } },
+          { name: "city", in: "query", required: false, schema: { type: "string" } },
+          { name: "provinceCode", in: "query", required: false, schema: { type: "string" } },
+          { name: "districtCode", in: "query", required: false, schema: { type: "string" } },
+          { name: "shippingMethodId", in: "query", required: false, schema: { type: "string", format: "uuid" } },
+          { name: "X-Guest-Token", in: "header", required: true, schema: { type: "string" } }
+        ],
+        responses: {
+          200: { description: "OK" },
+          404: { description: "Not found" }
+        }
+      }
+    },
+    "/v1/guest/checkout": {
+      post: {
+        tags: ["Guest"],
+        summary: "Guest checkout",
+        description: "Creates the order without an account; the response carries the signed order lookup link",
+        parameters: [{ name: "X-Guest-Token", in: "header", required: true, schema: { type: "string" } }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/GuestCheckoutRequest" }
+            }
+          }
+        },
+        responses: {
+          201: { description: "Created" },
+          400: { description: "Bad request" },
+          404: { description: "Not found" }
+        }
+      }
+    },
+    "/v1/guest/orders/{id}": {
+      get: {
+        tags: ["Guest"],
+        summary: "Look up a guest order",
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } },
+          { name: "token", in: "query", required: true, schema: { type: "string" } }
+        ],
+        responses: {
+          200: { description: "OK" },
+          404: { description: "Not found" }
+        }
+      }
+    },
+    "/v1/account/profile": {
+      get: {
+        tags: ["Account"],
+        summary: "Get profile",
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: "OK" },
+          401: { description: "Unauthorized" }
+        }
+      },
+      put: {
+        tags: ["Account"],
         summary: "Update profile",
         security: [{ bearerAuth: [] }],
         requestBody: {
@@ -890,6 +1693,74 @@ export const swaggerSpec = {
         }
       }
     },
+    "/v1/account/billing-profiles": {
+      get: {
+        tags: ["Account"],
+        summary: "List billing profiles",
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: "OK" },
+          401: { description: "Unauthorized" }
+        }
+      },
+      post: {
+        tags: ["Account"],
+        summary: "Create billing profile (company name and NUIT)",
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/BillingProfileRequest" }
+            }
+          }
+        },
+        responses: {
+          201: { description: "Created" },
+          400: { description: "Bad request" },
+          401: { description: "Unauthorized" },
+          409: { description: "A profile with this NUIT already exists" }
+        }
+      }
+    },
+    "/v1/account/billing-profiles/{id}": {
+      put: {
+        tags: ["Account"],
+        summary: "Update billing profile",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/BillingProfileRequest" }
+            }
+          }
+        },
+        responses: {
+          200: { description: "OK" },
+          400: { description: "Bad request" },
+          401: { description: "Unauthorized" },
+          404: { description: "Not found" },
+          409: { description: "A profile with this NUIT already exists" }
+        }
+      },
+      delete: {
+        tags: ["Account"],
+        summary: "Delete billing profile",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        responses: {
+          204: { description: "No content" },
+          401: { description: "Unauthorized" },
+          404: { description: "Not found" }
+        }
+      }
+    },
     "/v1/account/sessions": {
       get: {
         tags: ["Account"],
@@ -1023,7 +1894,12 @@ export const swaggerSpec = {
       get: {
         tags: ["Account"],
         summary: "Checkout summary",
+        description: "Lists `shippingMethods` for the default address; pass `shippingMethodId` to include its fee",
         security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "coupon", in: "query", required: false, schema: { type: "string" } },
+          { name: "shippingMethodId", in: "query", required: false, schema: { type: "string", format: "uuid" } }
+        ],
         responses: {
           200: { description: "OK" },
           401: { description: "Unauthorized" }
@@ -1100,97 +1976,238 @@ export const swaggerSpec = {
           404: { description: "Not found" },
           401: { description: "Unauthorized" }
         }
-      }
-    },
-    "/v1/account/orders/{id}/cancel": {
-      post: {
+      },
+      patch: {
         tags: ["Account"],
-        summary: "Cancel order",
+        summary: "Add, remove or change quantities on a pending, unpaid order",
         security: [{ bearerAuth: [] }],
         parameters: [
           { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
         ],
-        responses: {
-          200: { description: "OK" },
-          400: { description: "Bad request" },
-          401: { description: "Unauthorized" },
-          404: { description: "Not found" }
-        }
-      }
-    },
-    "/v1/account/orders/{id}/payments": {
-      post: {
-        tags: ["Account"],
-        summary: "Create payment",
-        security: [{ bearerAuth: [] }],
-        parameters: [
-          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } },
-          { name: "Idempotency-Key", in: "header", required: true, schema: { type: "string" } }
-        ],
         requestBody: {
-          required: false,
+          required: true,
           content: {
             "application/json": {
-              schema: { $ref: "#/components/schemas/CreatePaymentRequest" }
+              schema: { $ref: "#/components/schemas/EditOrderItemsRequest" }
             }
           }
         },
         responses: {
-          201: {
-            description: "Created",
+          200: {
+            description: "OK",
             content: {
               "application/json": {
-                schema: { $ref: "#/components/schemas/PaymentResponse" }
+                schema: { $ref: "#/components/schemas/EditOrderItemsResponse" }
               }
             }
           },
-          400: { description: "Bad request" },
+          400: { description: "Bad request, out_of_stock or empty_order" },
           401: { description: "Unauthorized" },
-          409: { description: "Idempotency conflict" }
+          404: { description: "Not found" },
+          409: { description: "order_not_editable" }
         }
-      },
+      }
+    },
+    "/v1/account/orders/{id}/revisions": {
       get: {
         tags: ["Account"],
-        summary: "List payments for order",
+        summary: "List order edit revisions",
         security: [{ bearerAuth: [] }],
         parameters: [
           { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
         ],
         responses: {
-          200: { description: "OK" },
+          200: {
+            description: "OK",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: { items: { type: "array", items: { $ref: "#/components/schemas/OrderRevision" } } }
+                }
+              }
+            }
+          },
           401: { description: "Unauthorized" },
           404: { description: "Not found" }
         }
       }
     },
-    "/v1/account/payments/{id}": {
-      get: {
+    "/v1/account/orders/{id}/cancel": {
+      post: {
         tags: ["Account"],
-        summary: "Get payment",
+        summary: "Cancel order",
         security: [{ bearerAuth: [] }],
         parameters: [
           { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
         ],
         responses: {
           200: { description: "OK" },
+          400: { description: "Bad request" },
           401: { description: "Unauthorized" },
-          404: { description: "Not found" }
+          404: { description: "Not found" },
+          409: { description: "invalid_transition: only pending orders can be canceled" }
         }
       }
     },
-    "/v1/account/stripe/confirm": {
-      post: {
+    "/v1/account/orders/{id}/timeline": {
+      get: {
         tags: ["Account"],
-        summary: "Confirm Stripe payment",
+        summary: "Customer-safe order timeline",
         security: [{ bearerAuth: [] }],
-        requestBody: {
-          required: true,
-          content: {
-            "application/json": {
-              schema: { $ref: "#/components/schemas/ConfirmStripePaymentRequest" }
-            }
-          }
-        },
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        responses: {
+          200: {
+            description: "OK",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: { items: { type: "array", items: { $ref: "#/components/schemas/TimelineEntry" } } }
+                }
+              }
+            }
+          },
+          401: { description: "Unauthorized" },
+          404: { description: "Not found" }
+        }
+      }
+    },
+    "/v1/account/orders/{id}/invoice": {
+      get: {
+        tags: ["Account"],
+        summary: "Download the order invoice",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        responses: {
+          200: {
+            description: "Invoice PDF (number in the X-Invoice-Number header)",
+            content: { "application/pdf": { schema: { type: "string", format: "binary" } } }
+          },
+          401: { description: "Unauthorized" },
+          404: { description: "Not found" },
+          409: { description: "invoice_not_available: order payment not captured" }
+        }
+      }
+    },
+    "/v1/account/orders/{id}/returns": {
+      get: {
+        tags: ["Account"],
+        summary: "List return requests of an order",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        responses: {
+          200: { description: "OK" },
+          401: { description: "Unauthorized" },
+          404: { description: "Not found" }
+        }
+      },
+      post: {
+        tags: ["Account"],
+        summary: "Request a return",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/RequestReturnRequest" }
+            }
+          }
+        },
+        responses: {
+          201: {
+            description: "Created",
+            content: { "application/json": { schema: { $ref: "#/components/schemas/OrderReturn" } } }
+          },
+          400: { description: "Bad request" },
+          401: { description: "Unauthorized" },
+          404: { description: "Not found" },
+          409: { description: "Order not returnable, window closed or quantity exceeded" }
+        }
+      }
+    },
+    "/v1/account/orders/{id}/payments": {
+      post: {
+        tags: ["Account"],
+        summary: "Create payment",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } },
+          { name: "Idempotency-Key", in: "header", required: true, schema: { type: "string" } }
+        ],
+        requestBody: {
+          required: false,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/CreatePaymentRequest" }
+            }
+          }
+        },
+        responses: {
+          201: {
+            description: "Created",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/PaymentResponse" }
+              }
+            }
+          },
+          400: { description: "Bad request" },
+          401: { description: "Unauthorized" },
+          409: { description: "Idempotency conflict" }
+        }
+      },
+      get: {
+        tags: ["Account"],
+        summary: "List payments for order",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        responses: {
+          200: { description: "OK" },
+          401: { description: "Unauthorized" },
+          404: { description: "Not found" }
+        }
+      }
+    },
+    "/v1/account/payments/{id}": {
+      get: {
+        tags: ["Account"],
+        summary: "Get payment",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        responses: {
+          200: { description: "OK" },
+          401: { description: "Unauthorized" },
+          404: { description: "Not found" }
+        }
+      }
+    },
+    "/v1/account/stripe/confirm": {
+      post: {
+        tags: ["Account"],
+        summary: "Confirm Stripe payment",
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/ConfirmStripePaymentRequest" }
+            }
+          }
+        },
         responses: {
           200: { description: "OK" },
           400: { description: "Bad request" },
@@ -1198,6 +2215,49 @@ export const swaggerSpec = {
         }
       }
     },
+    "/v1/account/paypal/confirm": {
+      post: {
+        tags: ["Account"],
+        summary: "Capture approved PayPal payment",
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/ConfirmPayPalPaymentRequest" }
+            }
+          }
+        },
+        responses: {
+          200: { description: "OK" },
+          400: { description: "Bad request" },
+          401: { description: "Unauthorized" },
+          404: { description: "Not found" }
+        }
+      }
+    },
+    "/v1/account/payments/{provider}/confirm": {
+      post: {
+        tags: ["Account"],
+        summary: "Confirm a hosted checkout for any provider that supports it",
+        security: [{ bearerAuth: [] }],
+        parameters: [{ name: "provider", in: "path", required: true, schema: { type: "string" } }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/ConfirmProviderPaymentRequest" }
+            }
+          }
+        },
+        responses: {
+          200: { description: "OK" },
+          400: { description: "Bad request" },
+          401: { description: "Unauthorized" },
+          404: { description: "Not found" }
+        }
+      }
+    },
     "/v1/account/notification-preferences": {
       get: {
         tags: ["Account"],
@@ -1746,8 +2806,103 @@ export const swaggerSpec = {
         tags: ["Staff"],
         summary: "List orders",
         security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: "fulfillmentType",
+            in: "query",
+            required: false,
+            schema: { type: "string", enum: ["DELIVERY", "PICKUP"] }
+          }
+        ],
         responses: {
           200: { description: "OK" },
+          400: { description: "Invalid filter" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" }
+        }
+      },
+      post: {
+        tags: ["Staff"],
+        summary: "Create an order on behalf of a customer (phone/WhatsApp sales)",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "Idempotency-Key", in: "header", required: true, schema: { type: "string" } }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/ManualOrderRequest" }
+            }
+          }
+        },
+        responses: {
+          201: {
+            description: "Created; `paymentError` is set when the provider refused to start the payment",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Order" }
+              }
+            }
+          },
+          400: { description: "Bad request, out_of_stock or invalid coupon" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" },
+          404: { description: "Customer or variant not found" },
+          409: { description: "Idempotency conflict" }
+        }
+      }
+    },
+    "/v1/staff/orders/export": {
+      get: {
+        tags: ["Staff"],
+        summary: "Export orders as CSV or XLSX",
+        description: "Accepts the same filters as the order list; one row per order",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "format", in: "query", required: false, schema: { type: "string", enum: ["csv", "xlsx"], default: "csv" } },
+          {
+            name: "delimiter",
+            in: "query",
+            required: false,
+            schema: { type: "string", enum: ["comma", "semicolon"], default: "comma" }
+          },
+          { name: "status", in: "query", required: false, schema: { type: "string" } },
+          { name: "paymentStatus", in: "query", required: false, schema: { type: "string" } },
+          {
+            name: "fulfillmentType",
+            in: "query",
+            required: false,
+            schema: { type: "string", enum: ["DELIVERY", "PICKUP"] }
+          },
+          { name: "email", in: "query", required: false, schema: { type: "string" } },
+          { name: "name", in: "query", required: false, schema: { type: "string" } },
+          { name: "phone", in: "query", required: false, schema: { type: "string" } },
+          { name: "dateFrom", in: "query", required: false, schema: { type: "string", format: "date" } },
+          { name: "dateTo", in: "query", required: false, schema: { type: "string", format: "date" } },
+          { name: "minTotal", in: "query", required: false, schema: { type: "number" } },
+          { name: "maxTotal", in: "query", required: false, schema: { type: "number" } },
+          {
+            name: "company",
+            in: "query",
+            required: false,
+            description: "Billing company name, or the start of its NUIT",
+            schema: { type: "string" }
+          },
+          { name: "provinceCode", in: "query", required: false, schema: { type: "string", example: "MZ-N" } },
+          { name: "districtCode", in: "query", required: false, schema: { type: "string", example: "MZ-N-NAMPULA" } }
+        ],
+        responses: {
+          200: {
+            description: "File download",
+            content: {
+              "text/csv": { schema: { type: "string" } },
+              "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": {
+                schema: { type: "string", format: "binary" }
+              }
+            }
+          },
+          400: { description: "Bad request or too many rows (`export_too_large`)" },
           401: { description: "Unauthorized" },
           403: { description: "Forbidden" }
         }
@@ -1782,12 +2937,10 @@ export const swaggerSpec = {
           401: { description: "Unauthorized" },
           403: { description: "Forbidden" }
         }
-      }
-    },
-    "/v1/staff/orders/{id}/status": {
+      },
       patch: {
         tags: ["Staff"],
-        summary: "Update order status",
+        summary: "Add, remove or change quantities on a pending, unpaid order",
         security: [{ bearerAuth: [] }],
         parameters: [
           { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
@@ -1796,58 +2949,667 @@ export const swaggerSpec = {
           required: true,
           content: {
             "application/json": {
-              schema: { $ref: "#/components/schemas/UpdateOrderStatusRequest" }
+              schema: { $ref: "#/components/schemas/EditOrderItemsRequest" }
             }
           }
         },
+        responses: {
+          200: {
+            description: "OK",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/EditOrderItemsResponse" }
+              }
+            }
+          },
+          400: { description: "Bad request, out_of_stock or empty_order" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" },
+          404: { description: "Not found" },
+          409: { description: "order_not_editable" }
+        }
+      }
+    },
+    "/v1/staff/orders/{id}/revisions": {
+      get: {
+        tags: ["Staff"],
+        summary: "List order edit revisions",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        responses: {
+          200: {
+            description: "OK",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: { items: { type: "array", items: { $ref: "#/components/schemas/OrderRevision" } } }
+                }
+              }
+            }
+          },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" },
+          404: { description: "Not found" }
+        }
+      }
+    },
+    "/v1/staff/orders/{id}/status": {
+      patch: {
+        tags: ["Staff"],
+        summary: "Update order status",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/UpdateOrderStatusRequest" }
+            }
+          }
+        },
+        responses: {
+          200: { description: "OK" },
+          400: { description: "Bad request" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" },
+          404: { description: "Not found" },
+          409: { description: "invalid_transition: status change not allowed by the order lifecycle" }
+        }
+      }
+    },
+    "/v1/staff/orders/{id}/payment-status": {
+      patch: {
+        tags: ["Staff"],
+        summary: "Update payment status",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/UpdateOrderPaymentStatusRequest" }
+            }
+          }
+        },
+        responses: {
+          200: { description: "OK" },
+          400: { description: "Bad request" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" }
+        }
+      }
+    },
+    "/v1/staff/orders/{id}/refunds": {
+      get: {
+        tags: ["Staff"],
+        summary: "List order refunds",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        responses: {
+          200: { description: "OK" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" }
+        }
+      },
+      post: {
+        tags: ["Staff"],
+        summary: "Refund order payment (full or partial)",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/CreateRefundRequest" }
+            }
+          }
+        },
+        responses: {
+          201: { description: "Created" },
+          400: { description: "Bad request" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" },
+          404: { description: "Not found" },
+          409: { description: "Payment not refundable" },
+          502: { description: "Refund rejected by provider" }
+        }
+      }
+    },
+    "/v1/staff/orders/{id}/timeline": {
+      get: {
+        tags: ["Staff"],
+        summary: "Order timeline (status, payments, webhooks, shipments, returns, notes)",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        responses: {
+          200: {
+            description: "OK",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: { items: { type: "array", items: { $ref: "#/components/schemas/TimelineEntry" } } }
+                }
+              }
+            }
+          },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" },
+          404: { description: "Not found" }
+        }
+      }
+    },
+    "/v1/staff/orders/{id}/invoice": {
+      get: {
+        tags: ["Staff"],
+        summary: "Download the order invoice",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        responses: {
+          200: {
+            description: "Invoice PDF (number in the X-Invoice-Number header)",
+            content: { "application/pdf": { schema: { type: "string", format: "binary" } } }
+          },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" },
+          404: { description: "Not found" },
+          409: { description: "invoice_not_available: order payment not captured" }
+        }
+      }
+    },
+    "/v1/staff/orders/{id}/notes": {
+      post: {
+        tags: ["Staff"],
+        summary: "Add an order note (INTERNAL notes are never shown to the customer)",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/CreateOrderNoteRequest" }
+            }
+          }
+        },
+        responses: {
+          201: { description: "Created" },
+          400: { description: "Bad request" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" },
+          404: { description: "Not found" }
+        }
+      }
+    },
+    "/v1/staff/orders/{id}/shipments": {
+      get: {
+        tags: ["Staff"],
+        summary: "List order shipments",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        responses: {
+          200: { description: "OK" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" },
+          404: { description: "Not found" }
+        }
+      },
+      post: {
+        tags: ["Staff"],
+        summary: "Create a shipment (full or partial)",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/CreateShipmentRequest" }
+            }
+          }
+        },
+        responses: {
+          201: {
+            description: "Created",
+            content: { "application/json": { schema: { $ref: "#/components/schemas/Shipment" } } }
+          },
+          400: { description: "Bad request" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" },
+          404: { description: "Not found" },
+          409: { description: "Quantity exceeds what is left to ship or invalid_transition" }
+        }
+      }
+    },
+    "/v1/staff/orders/{id}/shipments/{shipmentId}": {
+      patch: {
+        tags: ["Staff"],
+        summary: "Update tracking data or mark a shipment delivered",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } },
+          { name: "shipmentId", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/UpdateShipmentRequest" }
+            }
+          }
+        },
+        responses: {
+          200: {
+            description: "OK",
+            content: { "application/json": { schema: { $ref: "#/components/schemas/Shipment" } } }
+          },
+          400: { description: "Bad request" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" },
+          404: { description: "Not found" }
+        }
+      }
+    },
+    "/v1/staff/returns": {
+      get: {
+        tags: ["Staff"],
+        summary: "Return review queue (defaults to REQUESTED and APPROVED)",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: "status",
+            in: "query",
+            schema: { type: "string", enum: ["REQUESTED", "APPROVED", "REJECTED", "RECEIVED", "REFUNDED"] }
+          },
+          { name: "orderId", in: "query", schema: { type: "string", format: "uuid" } },
+          { name: "page", in: "query", schema: { type: "integer", minimum: 1 } },
+          { name: "limit", in: "query", schema: { type: "integer", minimum: 1, maximum: 100 } }
+        ],
+        responses: {
+          200: { description: "OK" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" }
+        }
+      }
+    },
+    "/v1/staff/returns/{id}/approve": {
+      post: {
+        tags: ["Staff"],
+        summary: "Approve a return request",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        requestBody: {
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/ReviewReturnRequest" }
+            }
+          }
+        },
+        responses: {
+          200: {
+            description: "OK",
+            content: { "application/json": { schema: { $ref: "#/components/schemas/OrderReturn" } } }
+          },
+          400: { description: "Bad request" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" },
+          404: { description: "Not found" },
+          409: { description: "invalid_transition" }
+        }
+      }
+    },
+    "/v1/staff/returns/{id}/reject": {
+      post: {
+        tags: ["Staff"],
+        summary: "Reject a return request",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        requestBody: {
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/ReviewReturnRequest" }
+            }
+          }
+        },
+        responses: {
+          200: {
+            description: "OK",
+            content: { "application/json": { schema: { $ref: "#/components/schemas/OrderReturn" } } }
+          },
+          400: { description: "Bad request" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" },
+          404: { description: "Not found" },
+          409: { description: "invalid_transition" }
+        }
+      }
+    },
+    "/v1/staff/returns/{id}/receive": {
+      post: {
+        tags: ["Staff"],
+        summary: "Receive returned items, restock and refund",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        requestBody: {
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/ReceiveReturnRequest" }
+            }
+          }
+        },
+        responses: {
+          200: {
+            description: "OK",
+            content: { "application/json": { schema: { $ref: "#/components/schemas/OrderReturn" } } }
+          },
+          400: { description: "Bad request" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" },
+          404: { description: "Not found" },
+          409: { description: "invalid_transition or refund not possible" }
+        }
+      }
+    },
+    "/v1/staff/returns/{id}/refund": {
+      post: {
+        tags: ["Staff"],
+        summary: "Refund a received return",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        requestBody: {
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/RefundReturnRequest" }
+            }
+          }
+        },
+        responses: {
+          200: {
+            description: "OK",
+            content: { "application/json": { schema: { $ref: "#/components/schemas/OrderReturn" } } }
+          },
+          400: { description: "Bad request" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" },
+          404: { description: "Not found" },
+          409: { description: "invalid_transition or already refunded" }
+        }
+      }
+    },
+    "/v1/staff/orders/{id}/ready-for-pickup": {
+      post: {
+        tags: ["Staff"],
+        summary: "Mark a paid pickup order as ready and send the pickup code to the customer",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        responses: {
+          200: { description: "OK" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" },
+          404: { description: "Not found" },
+          409: { description: "Not a pickup order, or the transition is not allowed" }
+        }
+      }
+    },
+    "/v1/staff/orders/{id}/pickup": {
+      post: {
+        tags: ["Staff"],
+        summary: "Hand a pickup order over after checking the customer's pickup code",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/CompletePickupRequest" }
+            }
+          }
+        },
+        responses: {
+          200: { description: "OK" },
+          400: { description: "Invalid pickup code" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" },
+          404: { description: "Not found" },
+          409: { description: "Order is not ready for pickup" }
+        }
+      }
+    },
+    "/v1/staff/orders/{id}/cod/dispatch": {
+      post: {
+        tags: ["Staff"],
+        summary: "Assign a cash-on-delivery order to a courier",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/DispatchCodRequest" }
+            }
+          }
+        },
+        responses: {
+          200: { description: "OK" },
+          400: { description: "Bad request" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" },
+          404: { description: "Not found" },
+          409: { description: "COD payment not confirmed or delivery closed" }
+        }
+      }
+    },
+    "/v1/staff/orders/{id}/cod/collect": {
+      post: {
+        tags: ["Staff"],
+        summary: "Record cash collected at handover",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/CollectCodRequest" }
+            }
+          }
+        },
+        responses: {
+          200: { description: "OK" },
+          400: { description: "Bad request" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" },
+          404: { description: "Not found" },
+          409: { description: "Delivery already closed" }
+        }
+      }
+    },
+    "/v1/staff/orders/{id}/cod/fail": {
+      post: {
+        tags: ["Staff"],
+        summary: "Record failed delivery (cancels and restocks)",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/FailCodRequest" }
+            }
+          }
+        },
+        responses: {
+          200: { description: "OK" },
+          400: { description: "Bad request" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" },
+          404: { description: "Not found" },
+          409: { description: "Delivery already closed" }
+        }
+      }
+    },
+    "/v1/staff/cod/deliveries": {
+      get: {
+        tags: ["Staff"],
+        summary: "List cash-on-delivery deliveries (couriers see their own)",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: "status",
+            in: "query",
+            schema: { type: "string", enum: ["OUT_FOR_DELIVERY", "COLLECTED", "FAILED"] }
+          },
+          { name: "courierId", in: "query", schema: { type: "string", format: "uuid" } },
+          { name: "page", in: "query", schema: { type: "integer", minimum: 1 } },
+          { name: "limit", in: "query", schema: { type: "integer", minimum: 1, maximum: 100 } }
+        ],
+        responses: {
+          200: { description: "OK" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" }
+        }
+      }
+    },
+    "/v1/staff/cod/remittances": {
+      get: {
+        tags: ["Staff"],
+        summary: "Daily cash each courier must remit",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "date", in: "query", required: true, schema: { type: "string", format: "date" } },
+          { name: "courierId", in: "query", schema: { type: "string", format: "uuid" } }
+        ],
+        responses: {
+          200: { description: "OK" },
+          400: { description: "Bad request" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" }
+        }
+      },
+      post: {
+        tags: ["Staff"],
+        summary: "Mark a courier's collections of the day as remitted",
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/CodRemittanceRequest" }
+            }
+          }
+        },
+        responses: {
+          201: { description: "Created" },
+          400: { description: "Bad request" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" }
+        }
+      }
+    },
+    "/v1/staff/payments": {
+      get: {
+        tags: ["Staff"],
+        summary: "List payments",
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: "OK" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" }
+        }
+      }
+    },
+    "/v1/staff/payments/{id}": {
+      get: {
+        tags: ["Staff"],
+        summary: "Get payment",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        responses: {
+          200: { description: "OK" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" },
+          404: { description: "Not found" }
+        }
+      }
+    },
+    "/v1/staff/settlements": {
+      get: {
+        tags: ["Staff"],
+        summary: "List settlement imports",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "provider", in: "query", schema: { type: "string", enum: ["MPESA", "STRIPE"] } },
+          { name: "page", in: "query", schema: { type: "integer", minimum: 1 } },
+          { name: "limit", in: "query", schema: { type: "integer", minimum: 1, maximum: 100 } }
+        ],
         responses: {
           200: { description: "OK" },
-          400: { description: "Bad request" },
           401: { description: "Unauthorized" },
           403: { description: "Forbidden" }
         }
-      }
-    },
-    "/v1/staff/orders/{id}/payment-status": {
-      patch: {
+      },
+      post: {
         tags: ["Staff"],
-        summary: "Update payment status",
+        summary: "Import a gateway settlement file and reconcile it",
         security: [{ bearerAuth: [] }],
-        parameters: [
-          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
-        ],
         requestBody: {
           required: true,
           content: {
-            "application/json": {
-              schema: { $ref: "#/components/schemas/UpdateOrderPaymentStatusRequest" }
+            "multipart/form-data": {
+              schema: { $ref: "#/components/schemas/ImportSettlementRequest" }
             }
           }
         },
         responses: {
-          200: { description: "OK" },
+          201: { description: "Reconciliation report (matched, amountMismatch, missing, unknown)" },
           400: { description: "Bad request" },
           401: { description: "Unauthorized" },
           403: { description: "Forbidden" }
         }
       }
     },
-    "/v1/staff/payments": {
-      get: {
-        tags: ["Staff"],
-        summary: "List payments",
-        security: [{ bearerAuth: [] }],
-        responses: {
-          200: { description: "OK" },
-          401: { description: "Unauthorized" },
-          403: { description: "Forbidden" }
-        }
-      }
-    },
-    "/v1/staff/payments/{id}": {
+    "/v1/staff/settlements/{id}": {
       get: {
         tags: ["Staff"],
-        summary: "Get payment",
+        summary: "Get settlement reconciliation report",
         security: [{ bearerAuth: [] }],
         parameters: [
           { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
@@ -2023,6 +3785,228 @@ export const swaggerSpec = {
         }
       }
     },
+    "/v1/admin/shipping/zones": {
+      get: {
+        tags: ["Admin"],
+        summary: "List shipping zones with their methods",
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: "OK" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" }
+        }
+      },
+      post: {
+        tags: ["Admin"],
+        summary: "Create shipping zone",
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/ShippingZoneRequest" }
+            }
+          }
+        },
+        responses: {
+          201: { description: "Created" },
+          400: { description: "Bad request" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" }
+        }
+      }
+    },
+    "/v1/admin/shipping/zones/{id}": {
+      put: {
+        tags: ["Admin"],
+        summary: "Update shipping zone",
+        security: [{ bearerAuth: [] }],
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/ShippingZoneRequest" }
+            }
+          }
+        },
+        responses: {
+          200: { description: "OK" },
+          400: { description: "Bad request" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" },
+          404: { description: "Not found" }
+        }
+      },
+      delete: {
+        tags: ["Admin"],
+        summary: "Delete shipping zone and its methods",
+        security: [{ bearerAuth: [] }],
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }],
+        responses: {
+          204: { description: "No content" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" },
+          404: { description: "Not found" }
+        }
+      }
+    },
+    "/v1/admin/shipping/zones/{id}/methods": {
+      post: {
+        tags: ["Admin"],
+        summary: "Add shipping method to a zone",
+        security: [{ bearerAuth: [] }],
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/ShippingMethodRequest" }
+            }
+          }
+        },
+        responses: {
+          201: { description: "Created" },
+          400: { description: "Bad request" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" },
+          404: { description: "Not found" }
+        }
+      }
+    },
+    "/v1/admin/shipping/methods/{id}": {
+      put: {
+        tags: ["Admin"],
+        summary: "Update shipping method",
+        security: [{ bearerAuth: [] }],
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/ShippingMethodRequest" }
+            }
+          }
+        },
+        responses: {
+          200: { description: "OK" },
+          400: { description: "Bad request" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" },
+          404: { description: "Not found" }
+        }
+      },
+      delete: {
+        tags: ["Admin"],
+        summary: "Delete shipping method",
+        security: [{ bearerAuth: [] }],
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }],
+        responses: {
+          204: { description: "No content" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" },
+          404: { description: "Not found" }
+        }
+      }
+    },
+    "/v1/admin/pickup-locations": {
+      get: {
+        tags: ["Admin"],
+        summary: "List pickup points",
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: "OK" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" }
+        }
+      },
+      post: {
+        tags: ["Admin"],
+        summary: "Create pickup point",
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/PickupLocationRequest" }
+            }
+          }
+        },
+        responses: {
+          201: { description: "Created" },
+          400: { description: "Bad request" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" }
+        }
+      }
+    },
+    "/v1/admin/pickup-locations/{id}": {
+      put: {
+        tags: ["Admin"],
+        summary: "Update pickup point",
+        security: [{ bearerAuth: [] }],
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/PickupLocationRequest" }
+            }
+          }
+        },
+        responses: {
+          200: { description: "OK" },
+          400: { description: "Bad request" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" },
+          404: { description: "Not found" }
+        }
+      },
+      delete: {
+        tags: ["Admin"],
+        summary: "Delete pickup point",
+        security: [{ bearerAuth: [] }],
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }],
+        responses: {
+          204: { description: "No content" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" },
+          404: { description: "Not found" },
+          409: { description: "Pickup point has orders; deactivate it instead" }
+        }
+      }
+    },
+    "/v1/admin/tax-settings": {
+      get: {
+        tags: ["Admin"],
+        summary: "Get IVA settings",
+        security: [{ bearerAuth: [] }],
+        responses: {
+          200: { description: "OK" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" }
+        }
+      },
+      put: {
+        tags: ["Admin"],
+        summary: "Update IVA rates and tax-inclusive pricing",
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/TaxSettingsRequest" }
+            }
+          }
+        },
+        responses: {
+          200: { description: "OK" },
+          400: { description: "Bad request" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" }
+        }
+      }
+    },
     "/v1/admin/permissions": {
       get: {
         tags: ["Admin"],
@@ -2218,6 +4202,57 @@ export const swaggerSpec = {
           404: { description: "Not found" }
         }
       }
+    },
+    "/v1/admin/webhook-events": {
+      get: {
+        tags: ["Admin"],
+        summary: "List webhook events (defaults to FAILED and stale PENDING)",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "status", in: "query", schema: { type: "string", enum: ["PENDING", "PROCESSED", "FAILED"] } },
+          { name: "provider", in: "query", schema: { type: "string" } },
+          { name: "page", in: "query", schema: { type: "integer", minimum: 1 } },
+          { name: "limit", in: "query", schema: { type: "integer", minimum: 1, maximum: 50 } }
+        ],
+        responses: {
+          200: { description: "OK" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" }
+        }
+      }
+    },
+    "/v1/admin/webhook-events/{id}": {
+      get: {
+        tags: ["Admin"],
+        summary: "Get webhook event",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        responses: {
+          200: { description: "OK" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" },
+          404: { description: "Not found" }
+        }
+      }
+    },
+    "/v1/admin/webhook-events/{id}/reprocess": {
+      post: {
+        tags: ["Admin"],
+        summary: "Re-process webhook event",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+        ],
+        responses: {
+          200: { description: "OK" },
+          401: { description: "Unauthorized" },
+          403: { description: "Forbidden" },
+          404: { description: "Not found" },
+          409: { description: "Already processed or still being processed" }
+        }
+      }
     }
   }
 };
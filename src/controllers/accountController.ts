@@ -5,14 +5,20 @@ import { logger } from "../config/logger.js";
 import { ApiError } from "../utils/apiError.js";
 import { addCartItem, deleteCartItem, getOrCreateCart, updateCartItem } from "../services/cartService.js";
 import { checkoutCart, getCheckoutSummary } from "../services/orderService.js";
-import { createStripeCheckoutSession, getStripeCheckoutSession } from "../services/stripeService.js";
-import { buildStripeLineItems } from "../services/stripeLineItemService.js";
-import { createMpesaPayment, normalizeMpesaMsisdn } from "../services/mpesaService.js";
-import { ensureOrderStockDeducted } from "../services/orderStockService.js";
-import { writeAuditLog } from "../services/auditLogService.js";
+import { transitionOrderStatus } from "../services/orderLifecycleService.js";
+import { shipmentInclude } from "../services/shipmentService.js";
+import {
+  findActivePaymentAttempt,
+  openPaymentAttempt,
+  syncOrderPaymentStatus,
+  withLatestPayment
+} from "../services/paymentAttemptService.js";
+import { findCustomerPaymentProvider } from "../services/paymentProviders.js";
+import { confirmPayment, initiatePayment, InitiatedPayment } from "../services/paymentService.js";
 import { getIdempotentResponse, storeIdempotentResponse } from "../services/idempotencyService.js";
 import { hashPassword, verifyPassword } from "../utils/password.js";
 import { sendSupportMessageEmail } from "../services/mailService.js";
+import { AddressRegionInput, resolveAddressRegion } from "../services/locationService.js";
 
 function getAssetBaseUrl(req: Request) {
   const configured = process.env.ASSET_BASE_URL;
@@ -29,29 +35,6 @@ function getAssetBaseUrl(req: Request) {
   return `${proto}://${host}`;
 }
 
-async function resolveMpesaPhone(userId: string, override?: string | null) {
-  const raw = override?.trim();
-  if (raw) {
-    try {
-      return normalizeMpesaMsisdn(raw);
-    } catch (error) {
-      throw new ApiError(400, "mpesa_phone_invalid", error instanceof Error ? error.message : "Numero M-PESA invalido");
-    }
-  }
-  const defaultAddress = await prisma.address.findFirst({
-    where: { userId, isDefault: true, phone: { not: null } }
-  });
-  const fallback = defaultAddress ?? (await prisma.address.findFirst({ where: { userId, phone: { not: null } } }));
-  if (!fallback?.phone) {
-    throw new ApiError(400, "mpesa_phone_missing", "Informe um telefone M-PESA ou defina um endereco com telefone.");
-  }
-  try {
-    return normalizeMpesaMsisdn(fallback.phone);
-  } catch (error) {
-    throw new ApiError(400, "mpesa_phone_invalid", error instanceof Error ? error.message : "Numero M-PESA invalido");
-  }
-}
-
 export const updateProfileSchema = z.object({
   body: z.object({
     name: z.string().min(2).max(120)
@@ -65,18 +48,52 @@ export const updatePasswordSchema = z.object({
   })
 });
 
+// Reference codes from GET /store/locations; names in state/city work as well.
+export const addressRegionFields = {
+  provinceCode: z.string().trim().toUpperCase().max(10).optional(),
+  districtCode: z.string().trim().toUpperCase().max(80).optional(),
+  neighbourhood: z.string().trim().min(2).max(120).optional()
+};
+
+/**
+ * zod transform for address bodies: Mozambican addresses must name a known
+ * province and district and get their canonical names and codes; elsewhere
+ * city (and `state`, when required) stay free text.
+ */
+export function normalizeAddressRegion(options: { stateRequired?: boolean } = {}) {
+  return <T extends AddressRegionInput>(address: T, ctx: z.RefinementCtx) => {
+    const result = resolveAddressRegion(address);
+    if (result.issue) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [result.issue.field], message: result.issue.message });
+      return z.NEVER;
+    }
+    if (!result.region.city) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["city"], message: "City is required" });
+      return z.NEVER;
+    }
+    if (options.stateRequired && !result.region.state) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["state"], message: "State is required" });
+      return z.NEVER;
+    }
+    return { ...address, ...result.region };
+  };
+}
+
 export const addressSchema = z.object({
-  body: z.object({
-    name: z.string().trim().min(2).max(120),
-    line1: z.string().trim().min(2),
-    line2: z.string().trim().optional(),
-    city: z.string().trim().min(2),
-    state: z.string().trim().min(2),
-    postalCode: z.string().trim().min(3),
-    country: z.string().trim().toUpperCase().regex(/^[A-Z]{2}$/, "Country must be 2 letters"),
-    phone: z.string().trim().optional(),
-    isDefault: z.boolean().optional()
-  })
+  body: z
+    .object({
+      name: z.string().trim().min(2).max(120),
+      line1: z.string().trim().min(2),
+      line2: z.string().trim().optional(),
+      city: z.string().trim().min(2).optional(),
+      state: z.string().trim().min(2).optional(),
+      postalCode: z.string().trim().min(3),
+      country: z.string().trim().toUpperCase().regex(/^[A-Z]{2}$/, "Country must be 2 letters"),
+      phone: z.string().trim().optional(),
+      isDefault: z.boolean().optional(),
+      ...addressRegionFields
+    })
+    .transform(normalizeAddressRegion({ stateRequired: true }))
 });
 
 export const updateAddressSchema = z.object({
@@ -90,10 +107,39 @@ export const updateAddressSchema = z.object({
     postalCode: z.string().trim().min(3).optional(),
     country: z.string().trim().toUpperCase().regex(/^[A-Z]{2}$/, "Country must be 2 letters").optional(),
     phone: z.string().trim().optional(),
-    isDefault: z.boolean().optional()
+    isDefault: z.boolean().optional(),
+    ...addressRegionFields
   })
 });
 
+// NUIT: 9 digits, accepted with the usual spacing ("400 123 456").
+const nuitSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{3}\s?\d{3}\s?\d{3}$/, "NUIT must have 9 digits")
+  .transform((value) => value.replace(/\s/g, ""));
+
+const billingProfileBodySchema = z.object({
+  companyName: z.string().trim().min(2).max(200),
+  nuit: nuitSchema,
+  email: z.string().trim().toLowerCase().email().max(255).nullable().optional(),
+  line1: z.string().trim().min(2).max(200),
+  line2: z.string().trim().max(200).nullable().optional(),
+  city: z.string().trim().min(2).max(120),
+  state: z.string().trim().min(2).max(120).nullable().optional(),
+  country: z.string().trim().toUpperCase().regex(/^[A-Z]{2}$/, "Country must be 2 letters"),
+  isDefault: z.boolean().optional()
+});
+
+export const billingProfileSchema = z.object({
+  body: billingProfileBodySchema
+});
+
+export const updateBillingProfileSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  body: billingProfileBodySchema.partial()
+});
+
 export const idParamSchema = z.object({
   params: z.object({ id: z.string().uuid() })
 });
@@ -116,12 +162,20 @@ export const upsertCartItemSchema = z.object({
   body: z.object({ quantity: z.number().int().min(1) })
 });
 
+const paymentProviderCode = z
+  .string()
+  .transform((code) => code.toUpperCase())
+  .refine((code) => !!findCustomerPaymentProvider(code), "Unsupported payment provider");
+
 export const checkoutSchema = z.object({
   body: z
     .object({
       couponCode: z.string().min(3).max(50).optional(),
-      paymentProvider: z.enum(["MPESA", "EMOLA", "STRIPE", "COD", "PAYPAL"]).optional(),
-      phone: z.string().min(7).max(20).optional()
+      paymentProvider: paymentProviderCode.optional(),
+      phone: z.string().min(7).max(20).optional(),
+      shippingMethodId: z.string().uuid().optional(),
+      pickupLocationId: z.string().uuid().optional(),
+      billingProfileId: z.string().uuid().optional()
     })
     .optional()
     .default({}),
@@ -136,7 +190,7 @@ export const createPaymentSchema = z.object({
   params: z.object({ id: z.string().uuid() }),
   body: z
     .object({
-      provider: z.enum(["MPESA", "EMOLA", "STRIPE", "COD", "PAYPAL"]).optional(),
+      provider: paymentProviderCode.optional(),
       phone: z.string().min(7).max(20).optional()
     })
     .optional()
@@ -154,6 +208,19 @@ export const confirmStripePaymentSchema = z.object({
   })
 });
 
+export const confirmPayPalPaymentSchema = z.object({
+  body: z.object({
+    token: z.string().min(5).max(200)
+  })
+});
+
+export const confirmProviderPaymentSchema = z.object({
+  params: z.object({ provider: paymentProviderCode }),
+  body: z.object({
+    reference: z.string().min(1).max(200)
+  })
+});
+
 export const supportMessageSchema = z.object({
   body: z.object({
     subject: z.string().trim().min(3).max(200),
@@ -253,7 +320,32 @@ export async function updateAddress(req: Request, res: Response, next: NextFunct
     if (!address || address.userId !== req.user.id) {
       throw new ApiError(404, "not_found", "Address not found");
     }
-    const updated = await prisma.address.update({ where: { id: address.id }, data: req.body });
+    const body = req.body as z.infer<typeof updateAddressSchema>["body"];
+    let data: Record<string, unknown> = body;
+    const regionFields = ["country", "state", "city", "provinceCode", "districtCode", "neighbourhood"] as const;
+    if (regionFields.some((field) => body[field] !== undefined)) {
+      // Fields sent together replace the stored ones: a new province name drops the old province code.
+      const provinceChanged = body.state !== undefined || body.provinceCode !== undefined;
+      const districtChanged = body.city !== undefined || body.districtCode !== undefined;
+      const result = resolveAddressRegion({
+        country: body.country ?? address.country,
+        state: provinceChanged ? body.state : address.state,
+        provinceCode: provinceChanged ? body.provinceCode : address.provinceCode,
+        city: districtChanged ? body.city : address.city,
+        districtCode: districtChanged ? body.districtCode : address.districtCode,
+        neighbourhood: body.neighbourhood ?? address.neighbourhood
+      });
+      if (result.issue) {
+        throw new ApiError(400, result.issue.code, result.issue.message, { field: result.issue.field });
+      }
+      data = {
+        ...body,
+        ...result.region,
+        state: result.region.state ?? address.state,
+        city: result.region.city ?? address.city
+      };
+    }
+    const updated = await prisma.address.update({ where: { id: address.id }, data });
     res.json(updated);
   } catch (err) {
     next(err);
@@ -297,6 +389,80 @@ export async function setDefaultAddress(req: Request, res: Response, next: NextF
   }
 }
 
+export async function listBillingProfiles(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!req.user) throw new ApiError(401, "unauthorized", "Not authenticated");
+    const profiles = await prisma.billingProfile.findMany({
+      where: { userId: req.user.id },
+      orderBy: [{ isDefault: "desc" }, { companyName: "asc" }]
+    });
+    res.json({ items: profiles });
+  } catch (err) {
+    next(err);
+  }
+}
+
+async function assertNuitAvailable(userId: string, nuit: string, exceptId?: string) {
+  const existing = await prisma.billingProfile.findUnique({ where: { userId_nuit: { userId, nuit } } });
+  if (existing && existing.id !== exceptId) {
+    throw new ApiError(409, "billing_profile_exists", "Ja existe um perfil de faturacao com este NUIT");
+  }
+}
+
+export async function createBillingProfile(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!req.user) throw new ApiError(401, "unauthorized", "Not authenticated");
+    const userId = req.user.id;
+    await assertNuitAvailable(userId, req.body.nuit);
+    const { isDefault, ...data } = req.body;
+    const profile = await prisma.$transaction(async (tx) => {
+      if (isDefault) {
+        await tx.billingProfile.updateMany({ where: { userId }, data: { isDefault: false } });
+      }
+      return tx.billingProfile.create({ data: { ...data, userId, isDefault: Boolean(isDefault) } });
+    });
+    res.status(201).json(profile);
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function updateBillingProfile(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!req.user) throw new ApiError(401, "unauthorized", "Not authenticated");
+    const userId = req.user.id;
+    const profile = await prisma.billingProfile.findUnique({ where: { id: req.params.id } });
+    if (!profile || profile.userId !== userId) {
+      throw new ApiError(404, "not_found", "Billing profile not found");
+    }
+    if (req.body.nuit) await assertNuitAvailable(userId, req.body.nuit, profile.id);
+    const updated = await prisma.$transaction(async (tx) => {
+      if (req.body.isDefault) {
+        await tx.billingProfile.updateMany({ where: { userId }, data: { isDefault: false } });
+      }
+      return tx.billingProfile.update({ where: { id: profile.id }, data: req.body });
+    });
+    res.json(updated);
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function deleteBillingProfile(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!req.user) throw new ApiError(401, "unauthorized", "Not authenticated");
+    const profile = await prisma.billingProfile.findUnique({ where: { id: req.params.id } });
+    if (!profile || profile.userId !== req.user.id) {
+      throw new ApiError(404, "not_found", "Billing profile not found");
+    }
+    // Orders keep their own snapshot of the profile.
+    await prisma.billingProfile.delete({ where: { id: profile.id } });
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+}
+
 export async function listSessions(req: Request, res: Response, next: NextFunction) {
   try {
     if (!req.user) throw new ApiError(401, "unauthorized", "Not authenticated");
@@ -407,7 +573,8 @@ export async function checkoutSummary(req: Request, res: Response, next: NextFun
         : typeof req.query.couponCode === "string"
           ? req.query.couponCode
           : undefined;
-    const summary = await getCheckoutSummary(req.user.id, rawCoupon);
+    const shippingMethodId = typeof req.query.shippingMethodId === "string" ? req.query.shippingMethodId : undefined;
+    const summary = await getCheckoutSummary(req.user.id, rawCoupon, shippingMethodId);
     res.json(summary);
   } catch (err) {
     next(err);
@@ -427,63 +594,34 @@ export async function checkout(req: Request, res: Response, next: NextFunction)
       return res.json(idempotency.responseBody);
     }
 
-    const order = await checkoutCart(req.user.id, req.body.couponCode, req.body.paymentProvider, req.body.phone ?? null);
-    const userSummary = { id: req.user.id, email: req.user.email, name: req.user.name };
-
-    let paymentWithExtras: (typeof order.payment & { checkoutUrl?: string | null }) | null = order.payment;
-    if (req.body.paymentProvider === "STRIPE" && order.payment) {
-      const lineItems = await buildStripeLineItems(order.items ?? [], getAssetBaseUrl(req));
-      const session = await createStripeCheckoutSession({
-        orderId: order.id,
-        paymentId: order.payment.id,
-        currency: order.currency,
-        customerEmail: req.user.email,
-        amount: Number(order.total),
-        lineItems
-      });
-      await prisma.payment.update({
-        where: { id: order.payment.id },
-        data: { externalRef: session.id, provider: "STRIPE" }
-      });
-      paymentWithExtras = { ...order.payment, externalRef: session.id, checkoutUrl: session.url };
-    } else if (req.body.paymentProvider === "MPESA" && order.payment) {
-      const msisdn = await resolveMpesaPhone(req.user.id, req.body.phone ?? null);
-      const result = await createMpesaPayment({
-        amount: Number(order.total),
-        customerMsisdn: msisdn,
-        orderId: order.id,
-        paymentId: order.payment.id
-      });
-      const paymentStatus = result.ok ? "AUTHORIZED" : "FAILED";
-      const updatedPayment = await prisma.payment.update({
-        where: { id: order.payment.id },
-        data: {
-          provider: "MPESA",
-          externalRef: result.transactionId ?? undefined,
-          status: paymentStatus
-        }
-      });
-      await prisma.order.update({
-        where: { id: order.id },
-        data: { paymentStatus }
-      });
-      if (paymentStatus === "AUTHORIZED") {
-        await ensureOrderStockDeducted(order.id);
+    const order = await checkoutCart(
+      req.user.id,
+      req.body.couponCode,
+      req.body.paymentProvider,
+      req.body.phone ?? null,
+      {
+        shippingMethodId: req.body.shippingMethodId,
+        pickupLocationId: req.body.pickupLocationId,
+        billingProfileId: req.body.billingProfileId
       }
-      void writeAuditLog(req.user.id, "mpesa_payment", "payment", updatedPayment.id, {
-        orderId: order.id,
-        paymentId: updatedPayment.id,
-        responseCode: result.responseCode,
-        responseDesc: result.responseDesc,
-        transactionId: result.transactionId,
-        status: paymentStatus
-      }).catch((err) => {
-        logger.warn({ err }, "Failed to write M-PESA audit log");
-      });
-      paymentWithExtras = updatedPayment;
-    }
+    );
+    const userSummary = { id: req.user.id, email: req.user.email, name: req.user.name };
 
-    const responseBody = { ...order, payment: paymentWithExtras, user: userSummary };
+    const attempt = order.payments[0] ?? null;
+    const payment =
+      req.body.paymentProvider && attempt
+        ? await initiatePayment({
+            provider: req.body.paymentProvider,
+            order,
+            attempt,
+            customer: req.user,
+            phone: req.body.phone ?? null,
+            assetBaseUrl: getAssetBaseUrl(req),
+            actorId: req.user.id
+          })
+        : attempt;
+
+    const responseBody = { ...order, payment, user: userSummary };
     await storeIdempotentResponse(req.user.id, key, idempotency.requestHash, responseBody);
     res.status(201).json(responseBody);
   } catch (err) {
@@ -499,10 +637,10 @@ export async function listOrders(req: Request, res: Response, next: NextFunction
     if (!req.user) throw new ApiError(401, "unauthorized", "Not authenticated");
     const orders = await prisma.order.findMany({
       where: { userId: req.user.id },
-      include: { items: true, payment: true },
+      include: { items: true, payments: { orderBy: { createdAt: "desc" } } },
       orderBy: { createdAt: "desc" }
     });
-    res.json({ items: orders });
+    res.json({ items: orders.map(withLatestPayment) });
   } catch (err) {
     next(err);
   }
@@ -513,12 +651,17 @@ export async function getOrder(req: Request, res: Response, next: NextFunction)
     if (!req.user) throw new ApiError(401, "unauthorized", "Not authenticated");
     const order = await prisma.order.findUnique({
       where: { id: req.params.id },
-      include: { items: true, payment: true }
+      include: {
+        items: true,
+        payments: { orderBy: { createdAt: "desc" } },
+        shipments: { include: shipmentInclude, orderBy: { shippedAt: "asc" } },
+        pickupLocation: true
+      }
     });
     if (!order || order.userId !== req.user.id) {
       throw new ApiError(404, "not_found", "Order not found");
     }
-    res.json(order);
+    res.json(withLatestPayment(order));
   } catch (err) {
     next(err);
   }
@@ -541,14 +684,14 @@ export async function listOrderItems(req: Request, res: Response, next: NextFunc
 export async function cancelOrder(req: Request, res: Response, next: NextFunction) {
   try {
     if (!req.user) throw new ApiError(401, "unauthorized", "Not authenticated");
-    const order = await prisma.order.findUnique({ where: { id: req.params.id } });
-    if (!order || order.userId !== req.user.id) {
-      throw new ApiError(404, "not_found", "Order not found");
-    }
-    if (order.status !== "PENDING") {
-      throw new ApiError(400, "invalid_status", "Order cannot be canceled");
-    }
-    const updated = await prisma.order.update({ where: { id: order.id }, data: { status: "CANCELED" } });
+    const updated = await transitionOrderStatus({
+      orderId: req.params.id,
+      to: "CANCELED",
+      actor: "customer",
+      actorId: req.user.id,
+      userId: req.user.id,
+      source: "customer"
+    });
     res.json(updated);
   } catch (err) {
     next(err);
@@ -565,7 +708,7 @@ export async function createPayment(req: Request, res: Response, next: NextFunct
 
     const order = await prisma.order.findUnique({
       where: { id: req.params.id },
-      include: { payment: true, items: true }
+      include: { payments: { orderBy: { createdAt: "desc" } }, items: true }
     });
     if (!order || order.userId !== req.user.id) {
       throw new ApiError(404, "not_found", "Order not found");
@@ -575,113 +718,28 @@ export async function createPayment(req: Request, res: Response, next: NextFunct
       return res.json(idempotency.responseBody);
     }
 
-    const provider = req.body?.provider ?? order.payment?.provider ?? null;
     const userSummary = { id: req.user.id, email: req.user.email, name: req.user.name };
-
-    if (provider === "STRIPE") {
-      if (order.payment && order.payment.status !== "PENDING") {
-        return res.json({ ...order.payment, user: userSummary });
-      }
-
-      const payment =
-        order.payment ??
-        (await prisma.payment.create({
-          data: {
-            orderId: order.id,
-            amount: order.total,
-            status: "PENDING",
-            provider: "STRIPE"
-          }
-        }));
-
-      const lineItems = await buildStripeLineItems(order.items ?? [], getAssetBaseUrl(req));
-      const session = await createStripeCheckoutSession({
-        orderId: order.id,
-        paymentId: payment.id,
-        currency: order.currency,
-        customerEmail: req.user.email,
-        amount: Number(order.total),
-        lineItems
-      });
-
-      const updated = await prisma.payment.update({
-        where: { id: payment.id },
-        data: { externalRef: session.id, provider: "STRIPE" }
-      });
-
-      const responseBody = { ...updated, checkoutUrl: session.url, user: userSummary };
-      await storeIdempotentResponse(req.user.id, key, idempotency.requestHash, responseBody);
-      return res.status(201).json(responseBody);
+    const activeAttempt = findActivePaymentAttempt(order.payments);
+    if (activeAttempt) {
+      return res.json({ ...activeAttempt, user: userSummary });
     }
-
-    if (provider === "MPESA") {
-      if (order.payment && order.payment.status !== "FAILED") {
-        return res.json({ ...order.payment, user: userSummary });
-      }
-
-      const payment =
-        order.payment ??
-        (await prisma.payment.create({
-          data: {
-            orderId: order.id,
-            amount: order.total,
-            status: "PENDING",
-            provider: "MPESA"
-          }
-        }));
-
-      const msisdn = await resolveMpesaPhone(req.user.id, req.body?.phone ?? null);
-      const result = await createMpesaPayment({
-        amount: Number(order.total),
-        customerMsisdn: msisdn,
-        orderId: order.id,
-        paymentId: payment.id
-      });
-      const paymentStatus = result.ok ? "AUTHORIZED" : "FAILED";
-      const updated = await prisma.payment.update({
-        where: { id: payment.id },
-        data: {
-          provider: "MPESA",
-          externalRef: result.transactionId ?? undefined,
-          status: paymentStatus
-        }
-      });
-      await prisma.order.update({
-        where: { id: order.id },
-        data: { paymentStatus }
+    const provider = req.body?.provider ?? order.payments[0]?.provider ?? null;
+    const attempt = await openPaymentAttempt(order, provider);
+    let payment: InitiatedPayment = attempt;
+    if (findCustomerPaymentProvider(provider)) {
+      payment = await initiatePayment({
+        provider,
+        order,
+        attempt,
+        customer: req.user,
+        phone: req.body?.phone ?? null,
+        assetBaseUrl: getAssetBaseUrl(req),
+        actorId: req.user.id
       });
-      if (paymentStatus === "AUTHORIZED") {
-        await ensureOrderStockDeducted(order.id);
-      }
-      void writeAuditLog(req.user.id, "mpesa_payment", "payment", updated.id, {
-        orderId: order.id,
-        paymentId: updated.id,
-        responseCode: result.responseCode,
-        responseDesc: result.responseDesc,
-        transactionId: result.transactionId,
-        status: paymentStatus
-      }).catch((err) => {
-        logger.warn({ err }, "Failed to write M-PESA audit log");
-      });
-
-      const responseBody = { ...updated, user: userSummary };
-      await storeIdempotentResponse(req.user.id, key, idempotency.requestHash, responseBody);
-      return res.status(201).json(responseBody);
-    }
-
-    if (order.payment) {
-      return res.json({ ...order.payment, user: userSummary });
+    } else {
+      await syncOrderPaymentStatus(order.id);
     }
 
-    const payment = await prisma.payment.create({
-      data: {
-        orderId: order.id,
-        amount: order.total,
-        status: "PENDING",
-        provider
-      }
-    });
-
     const responseBody = { ...payment, user: userSummary };
     await storeIdempotentResponse(req.user.id, key, idempotency.requestHash, responseBody);
     res.status(201).json(responseBody);
@@ -696,32 +754,25 @@ export async function createPayment(req: Request, res: Response, next: NextFunct
 export async function confirmStripePayment(req: Request, res: Response, next: NextFunction) {
   try {
     if (!req.user) throw new ApiError(401, "unauthorized", "Not authenticated");
-    const session = await getStripeCheckoutSession(req.body.sessionId);
-    const orderId = session.metadata?.orderId;
-    const paymentId = session.metadata?.paymentId;
-
-    if (!orderId || !paymentId) {
-      throw new ApiError(400, "invalid_session", "Session metadata missing");
-    }
-
-    const order = await prisma.order.findUnique({ where: { id: orderId } });
-    if (!order || order.userId !== req.user.id) {
-      throw new ApiError(404, "not_found", "Order not found");
-    }
+    res.json(await confirmPayment("STRIPE", req.body.sessionId, req.user.id));
+  } catch (err) {
+    next(err);
+  }
+}
 
-    if (session.payment_status === "paid") {
-      await prisma.payment.update({
-        where: { id: paymentId },
-        data: { status: "CAPTURED", provider: "STRIPE", externalRef: session.id }
-      });
-      await prisma.order.update({
-        where: { id: orderId },
-        data: { paymentStatus: "CAPTURED", status: "PAID" }
-      });
-      await ensureOrderStockDeducted(orderId);
-    }
+export async function confirmPayPalPayment(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!req.user) throw new ApiError(401, "unauthorized", "Not authenticated");
+    res.json(await confirmPayment("PAYPAL", req.body.token, req.user.id));
+  } catch (err) {
+    next(err);
+  }
+}
 
-    res.json({ status: session.payment_status });
+export async function confirmProviderPayment(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!req.user) throw new ApiError(401, "unauthorized", "Not authenticated");
+    res.json(await confirmPayment(req.params.provider, req.body.reference, req.user.id));
   } catch (err) {
     next(err);
   }
@@ -734,7 +785,11 @@ export async function listOrderPayments(req: Request, res: Response, next: NextF
     if (!order || order.userId !== req.user.id) {
       throw new ApiError(404, "not_found", "Order not found");
     }
-    const payments = await prisma.payment.findMany({ where: { orderId: order.id } });
+    const payments = await prisma.paymentAttempt.findMany({
+      where: { orderId: order.id },
+      include: { refunds: true },
+      orderBy: { createdAt: "desc" }
+    });
     res.json({ items: payments });
   } catch (err) {
     next(err);
@@ -744,7 +799,7 @@ export async function listOrderPayments(req: Request, res: Response, next: NextF
 export async function getPayment(req: Request, res: Response, next: NextFunction) {
   try {
     if (!req.user) throw new ApiError(401, "unauthorized", "Not authenticated");
-    const payment = await prisma.payment.findUnique({ where: { id: req.params.id }, include: { order: true } });
+    const payment = await prisma.paymentAttempt.findUnique({ where: { id: req.params.id }, include: { order: true } });
     if (!payment || payment.order.userId !== req.user.id) {
       throw new ApiError(404, "not_found", "Payment not found");
     }
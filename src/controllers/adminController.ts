@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from "express";
-import { ProductStatus } from "@prisma/client";
+import { OrderStatus, PaymentStatus, ProductStatus } from "@prisma/client";
 import { z } from "zod";
 import { prisma } from "../config/prisma.js";
 import { logger } from "../config/logger.js";
@@ -7,6 +7,10 @@ import { ApiError } from "../utils/apiError.js";
 import { hashPassword } from "../utils/password.js";
 import { sendSupportReplyEmail } from "../services/mailService.js";
 import { adjustStock } from "../services/stockService.js";
+import { transitionOrderStatus } from "../services/orderLifecycleService.js";
+import { ensureOrderStockRestored, shouldDeductStockForOrderState } from "../services/orderStockService.js";
+import { setLatestPaymentAttemptStatus } from "../services/paymentAttemptService.js";
+import { reprocessWebhookEvent, staleWebhookEventCutoff } from "../services/webhookEventService.js";
 
 export const createUserSchema = z.object({
   body: z.object({
@@ -98,6 +102,12 @@ export async function deleteUser(req: Request, res: Response, next: NextFunction
     if (!user) {
       throw new ApiError(404, "not_found", "User not found");
     }
+    const courierDeliveries = await prisma.codDelivery.count({
+      where: { courierId: user.id, order: { userId: { not: user.id } } }
+    });
+    if (courierDeliveries) {
+      throw new ApiError(409, "user_has_cod_deliveries", "User is the courier of cash-on-delivery orders");
+    }
 
     await prisma.$transaction(async (tx) => {
       const orders = await tx.order.findMany({
@@ -117,6 +127,7 @@ export async function deleteUser(req: Request, res: Response, next: NextFunction
       await tx.refreshToken.deleteMany({ where: { userId: user.id } });
       await tx.notificationPreference.deleteMany({ where: { userId: user.id } });
       await tx.address.deleteMany({ where: { userId: user.id } });
+      await tx.billingProfile.deleteMany({ where: { userId: user.id } });
       await tx.idempotencyKey.deleteMany({ where: { userId: user.id } });
       await tx.loginAttempt.deleteMany({ where: { email: user.email } });
 
@@ -136,7 +147,10 @@ export async function deleteUser(req: Request, res: Response, next: NextFunction
       }
 
       if (orderIds.length) {
-        await tx.payment.deleteMany({ where: { orderId: { in: orderIds } } });
+        await tx.codDelivery.deleteMany({ where: { orderId: { in: orderIds } } });
+        await tx.orderReturn.deleteMany({ where: { orderId: { in: orderIds } } });
+        await tx.refund.deleteMany({ where: { orderId: { in: orderIds } } });
+        await tx.paymentAttempt.deleteMany({ where: { orderId: { in: orderIds } } });
         await tx.orderItem.deleteMany({ where: { orderId: { in: orderIds } } });
         await tx.order.deleteMany({ where: { id: { in: orderIds } } });
       }
@@ -145,6 +159,26 @@ export async function deleteUser(req: Request, res: Response, next: NextFunction
         where: { actorId: user.id },
         data: { actorId: null }
       });
+      await tx.codDelivery.updateMany({
+        where: { remittedById: user.id },
+        data: { remittedById: null }
+      });
+      await tx.orderReturn.updateMany({
+        where: { reviewedById: user.id },
+        data: { reviewedById: null }
+      });
+      await tx.orderNote.updateMany({
+        where: { authorId: user.id },
+        data: { authorId: null }
+      });
+      await tx.orderRevision.updateMany({
+        where: { actorId: user.id },
+        data: { actorId: null }
+      });
+      await tx.order.updateMany({
+        where: { createdById: user.id },
+        data: { createdById: null }
+      });
 
       await tx.user.delete({ where: { id: user.id } });
     });
@@ -394,7 +428,7 @@ const toDate = (value: unknown) => {
 
 const normalizePath = (path: string) => path.replace(/^\/v1/, "");
 
-async function undoAuditAction(log: { meta: unknown; entityId: string | null }) {
+async function undoAuditAction(log: { meta: unknown; entityId: string | null }, actorId: string) {
   if (!isPlainObject(log.meta)) {
     throw new ApiError(400, "undo_not_supported", "Audit log sem detalhes suficientes");
   }
@@ -564,13 +598,21 @@ async function undoAuditAction(log: { meta: unknown; entityId: string | null })
     if (!orderPrev) {
       throw new ApiError(400, "undo_not_supported", "Estado anterior do pedido ausente");
     }
-    await prisma.order.update({
-      where: { id: orderPrev.id as string },
-      data: {
-        status: orderPrev.status as any,
-        paymentStatus: orderPrev.paymentStatus as any
-      }
+    const order = await transitionOrderStatus({
+      orderId: orderPrev.id as string,
+      to: orderPrev.status as OrderStatus,
+      actorId,
+      source: "undo",
+      undo: true
     });
+    // Through the attempts, so the next `syncOrderPaymentStatus` keeps the restored value.
+    if (order.paymentStatus !== orderPrev.paymentStatus) {
+      await setLatestPaymentAttemptStatus(order.id, orderPrev.paymentStatus as PaymentStatus);
+    }
+    // Moving back before payment/shipment gives the reserved units back, as if the change never happened.
+    if (!shouldDeductStockForOrderState(orderPrev.status as string, orderPrev.paymentStatus as string)) {
+      await ensureOrderStockRestored(orderPrev.id as string);
+    }
     return { action: "restore_order_status", entityId: orderPrev.id as string };
   }
 
@@ -579,10 +621,11 @@ async function undoAuditAction(log: { meta: unknown; entityId: string | null })
     if (!orderPrev) {
       throw new ApiError(400, "undo_not_supported", "Estado anterior do pedido ausente");
     }
-    await prisma.order.update({
-      where: { id: orderPrev.id as string },
-      data: { paymentStatus: orderPrev.paymentStatus as any }
-    });
+    // REFUNDED belongs to the refund ledger, like the forward override (`updatePaymentStatusSchema`).
+    if (orderPrev.paymentStatus === "REFUNDED") {
+      throw new ApiError(400, "undo_not_supported", "Reembolsos so podem ser registados pelo fluxo de reembolsos");
+    }
+    await setLatestPaymentAttemptStatus(orderPrev.id as string, orderPrev.paymentStatus as PaymentStatus);
     return { action: "restore_payment_status", entityId: orderPrev.id as string };
   }
 
@@ -599,7 +642,7 @@ export async function undoAuditLog(req: Request, res: Response, next: NextFuncti
       throw new ApiError(409, "undo_already_done", "Acao ja foi desfeita");
     }
 
-    const result = await undoAuditAction({ meta: log.meta, entityId: log.entityId });
+    const result = await undoAuditAction({ meta: log.meta, entityId: log.entityId }, req.user.id);
 
     const meta = isPlainObject(log.meta) ? log.meta : {};
     meta.undo = {
@@ -650,6 +693,57 @@ export async function getIdempotencyKey(req: Request, res: Response, next: NextF
   }
 }
 
+export const listWebhookEventsSchema = z.object({
+  query: z.object({
+    status: z.enum(["PENDING", "PROCESSED", "FAILED"]).optional(),
+    provider: z.string().trim().min(1).max(50).optional(),
+    page: z.coerce.number().int().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(50).optional()
+  })
+});
+
+export async function listWebhookEvents(req: Request, res: Response, next: NextFunction) {
+  try {
+    const page = req.query.page ? Number(req.query.page) : 1;
+    const limit = req.query.limit ? Number(req.query.limit) : 20;
+    const skip = (page - 1) * limit;
+
+    // Without a filter, list what needs attention: failures plus PENDING events abandoned mid-processing.
+    const where: any = req.query.status
+      ? { status: String(req.query.status) }
+      : { OR: [{ status: "FAILED" }, { status: "PENDING", updatedAt: { lt: staleWebhookEventCutoff() } }] };
+    if (req.query.provider) where.provider = String(req.query.provider).toUpperCase();
+
+    const [items, total] = await prisma.$transaction([
+      prisma.webhookEvent.findMany({ where, orderBy: { createdAt: "desc" }, skip, take: limit }),
+      prisma.webhookEvent.count({ where })
+    ]);
+
+    res.json({ items, page, limit, total });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function getWebhookEvent(req: Request, res: Response, next: NextFunction) {
+  try {
+    const item = await prisma.webhookEvent.findUnique({ where: { id: req.params.id } });
+    if (!item) throw new ApiError(404, "not_found", "Webhook event not found");
+    res.json(item);
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function reprocessWebhookEventHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const event = await reprocessWebhookEvent(req.params.id);
+    res.json(event);
+  } catch (err) {
+    next(err);
+  }
+}
+
 const supportStatusSchema = z.enum(["OPEN", "IN_PROGRESS", "RESOLVED"]);
 
 export const supportMessageListSchema = z.object({
@@ -6,13 +6,15 @@ import { addImageByLink, addImageByUpload, deleteProductImage } from "../service
 import { adjustStock } from "../services/stockService.js";
 import {
   ensureOrderStockDeducted,
-  ensureOrderStockRestored,
-  shouldDeductStockForOrderState,
-  shouldRestoreStockForOrderCancellation
+  shouldDeductStockForOrderState
 } from "../services/orderStockService.js";
+import { transitionOrderStatus } from "../services/orderLifecycleService.js";
+import { sendPaymentConfirmation } from "../services/invoiceService.js";
 import { prisma } from "../config/prisma.js";
+import { logger } from "../config/logger.js";
 import { ApiError } from "../utils/apiError.js";
 import { writeAuditLog } from "../services/auditLogService.js";
+import { setLatestPaymentAttemptStatus, withLatestPayment } from "../services/paymentAttemptService.js";
 
 export const createProductSchema = z.object({
   body: z.object({
@@ -175,7 +177,14 @@ export async function listOrders(req: Request, res: Response, next: NextFunction
       });
     }
     if (orderNumber) andFilters.push({ orderNumber: { contains: orderNumber, mode: "insensitive" } });
-    if (email) andFilters.push({ user: { email: { contains: email, mode: "insensitive" } } });
+    if (email) {
+      andFilters.push({
+        OR: [
+          { customerEmailSnapshot: { contains: email, mode: "insensitive" } },
+          { user: { email: { contains: email, mode: "insensitive" } } }
+        ]
+      });
+    }
     if (name) {
       andFilters.push({
         OR: [
@@ -218,7 +227,7 @@ export async function listOrders(req: Request, res: Response, next: NextFunction
         where,
         include: {
           items: true,
-          payment: true,
+          payments: { orderBy: { createdAt: "desc" } },
           user: {
             select: {
               id: true,
@@ -233,7 +242,7 @@ export async function listOrders(req: Request, res: Response, next: NextFunction
       }),
       prisma.order.count({ where })
     ]);
-    res.json({ items: orders, page, limit, total });
+    res.json({ items: orders.map(withLatestPayment), page, limit, total });
   } catch (err) {
     next(err);
   }
@@ -245,7 +254,7 @@ export async function getOrder(req: Request, res: Response, next: NextFunction)
       where: { id: req.params.id },
       include: {
         items: true,
-        payment: true,
+        payments: { orderBy: { createdAt: "desc" } },
         user: {
           select: {
             id: true,
@@ -310,7 +319,7 @@ export async function getOrder(req: Request, res: Response, next: NextFunction)
       };
     });
 
-    res.json({ ...order, statusHistory });
+    res.json({ ...withLatestPayment(order), statusHistory });
   } catch (err) {
     next(err);
   }
@@ -327,32 +336,17 @@ export async function listOrderItems(req: Request, res: Response, next: NextFunc
 
 export const updateOrderStatusSchema = z.object({
   params: z.object({ id: z.string().uuid() }),
-  body: z.object({ status: z.enum(["PENDING", "PAID", "SHIPPED", "CANCELED"]) })
+  body: z.object({ status: z.enum(["PENDING", "PAID", "PARTIALLY_SHIPPED", "SHIPPED", "DELIVERED", "CANCELED"]) })
 });
 
 export async function updateOrderStatus(req: Request, res: Response, next: NextFunction) {
   try {
-    const previousOrder = await prisma.order.findUnique({
-      where: { id: req.params.id },
-      select: { id: true, status: true, paymentStatus: true }
-    });
-    if (!previousOrder) throw new ApiError(404, "not_found", "Order not found");
-
-    const order = await prisma.order.update({
-      where: { id: req.params.id },
-      data: { status: req.body.status }
+    const order = await transitionOrderStatus({
+      orderId: req.params.id,
+      to: req.body.status,
+      actorId: req.user?.id ?? null,
+      source: "backoffice"
     });
-    await writeAuditLog(req.user?.id ?? null, "order.status_changed", "order", order.id, {
-      from: previousOrder.status,
-      to: order.status,
-      paymentStatus: order.paymentStatus
-    });
-    if (shouldDeductStockForOrderState(order.status, order.paymentStatus)) {
-      await ensureOrderStockDeducted(order.id);
-    }
-    if (shouldRestoreStockForOrderCancellation(previousOrder.status, previousOrder.paymentStatus, order.status)) {
-      await ensureOrderStockRestored(order.id);
-    }
     res.json(order);
   } catch (err) {
     next(err);
@@ -361,7 +355,8 @@ export async function updateOrderStatus(req: Request, res: Response, next: NextF
 
 export const updatePaymentStatusSchema = z.object({
   params: z.object({ id: z.string().uuid() }),
-  body: z.object({ paymentStatus: z.enum(["PENDING", "AUTHORIZED", "CAPTURED", "FAILED", "REFUNDED"]) })
+  // REFUNDED only comes from the refund ledger (`POST /orders/:id/refunds`, `manual: true` for money paid back offline).
+  body: z.object({ paymentStatus: z.enum(["PENDING", "AUTHORIZED", "CAPTURED", "FAILED"]) })
 });
 
 export async function updateOrderPaymentStatus(req: Request, res: Response, next: NextFunction) {
@@ -372,14 +367,8 @@ export async function updateOrderPaymentStatus(req: Request, res: Response, next
     });
     if (!previous) throw new ApiError(404, "not_found", "Order not found");
 
-    const order = await prisma.order.update({
-      where: { id: req.params.id },
-      data: { paymentStatus: req.body.paymentStatus }
-    });
-    await prisma.payment.updateMany({
-      where: { orderId: order.id },
-      data: { status: req.body.paymentStatus }
-    });
+    await setLatestPaymentAttemptStatus(previous.id, req.body.paymentStatus);
+    const order = await prisma.order.findUniqueOrThrow({ where: { id: previous.id } });
     if (shouldDeductStockForOrderState(order.status, order.paymentStatus)) {
       await ensureOrderStockDeducted(order.id);
     }
@@ -388,6 +377,11 @@ export async function updateOrderPaymentStatus(req: Request, res: Response, next
       to: order.paymentStatus,
       status: order.status
     });
+    if (previous.paymentStatus !== "CAPTURED" && order.paymentStatus === "CAPTURED") {
+      void sendPaymentConfirmation(order.id).catch((err) => {
+        logger.warn({ err, orderId: order.id }, "Payment confirmation email failed");
+      });
+    }
     res.json(order);
   } catch (err) {
     next(err);
@@ -0,0 +1,269 @@
+import { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { prisma } from "../config/prisma.js";
+import { logger } from "../config/logger.js";
+import { ApiError } from "../utils/apiError.js";
+import { buildOrderLookupUrl, signOrderLookupToken, verifyOrderLookupToken } from "../utils/orderLookup.js";
+import {
+  addGuestCartItem,
+  createGuestCart,
+  deleteGuestCartItem,
+  getGuestCart,
+  updateGuestCartItem
+} from "../services/cartService.js";
+import { sendGuestOrderEmail } from "../services/mailService.js";
+import { checkoutGuestCart, summarizeCart } from "../services/orderService.js";
+import { getOrderTimeline } from "../services/orderTimelineService.js";
+import { findCustomerPaymentProvider } from "../services/paymentProviders.js";
+import { initiatePayment, InitiatedPayment } from "../services/paymentService.js";
+import { shipmentInclude } from "../services/shipmentService.js";
+import {
+  addCartItemSchema,
+  addressRegionFields,
+  normalizeAddressRegion,
+  updateCartItemSchema
+} from "./accountController.js";
+
+const GUEST_TOKEN_HEADER = "X-Guest-Token";
+
+// PayPal is only captured by the customer's confirm call, which needs an account (no approval webhook).
+const ACCOUNT_ONLY_PAYMENT_PROVIDERS = new Set(["PAYPAL"]);
+
+const guestHeaders = z
+  .object({
+    "x-guest-token": z.string().regex(/^[a-f0-9]{64}$/, "Invalid guest token")
+  })
+  .passthrough();
+
+export const guestCartSchema = z.object({ headers: guestHeaders });
+
+export const guestAddCartItemSchema = addCartItemSchema.extend({ headers: guestHeaders });
+
+export const guestUpdateCartItemSchema = updateCartItemSchema.extend({ headers: guestHeaders });
+
+export const guestCartItemParamSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  headers: guestHeaders
+});
+
+export const guestCheckoutSchema = z.object({
+  body: z
+    .object({
+      email: z.string().trim().email().max(255),
+      name: z.string().trim().min(2).max(120),
+      phone: z.string().trim().min(7).max(20),
+      address: z
+        .object({
+          name: z.string().trim().min(2).max(120).optional(),
+          line1: z.string().trim().min(2),
+          line2: z.string().trim().optional(),
+          city: z.string().trim().min(2).optional(),
+          state: z.string().trim().min(2).optional(),
+          postalCode: z.string().trim().min(3).optional(),
+          country: z.string().trim().toUpperCase().regex(/^[A-Z]{2}$/, "Country must be 2 letters"),
+          phone: z.string().trim().optional(),
+          ...addressRegionFields
+        })
+        .transform(normalizeAddressRegion())
+        .optional(),
+      couponCode: z.string().min(3).max(50).optional(),
+      paymentProvider: z
+        .string()
+        .transform((code) => code.toUpperCase())
+        .refine((code) => !!findCustomerPaymentProvider(code), "Unsupported payment provider")
+        .refine((code) => !ACCOUNT_ONLY_PAYMENT_PROVIDERS.has(code), "Payment provider requires an account")
+        .optional(),
+      shippingMethodId: z.string().uuid().optional(),
+      pickupLocationId: z.string().uuid().optional()
+    })
+    .refine((body) => !!body.address || !!body.pickupLocationId, {
+      message: "address is required unless collecting at a pickup location",
+      path: ["address"]
+    }),
+  headers: guestHeaders
+});
+
+export const guestOrderLookupSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  query: z.object({ token: z.string().min(16).max(128) })
+});
+
+function guestToken(req: Request) {
+  return req.header(GUEST_TOKEN_HEADER) as string;
+}
+
+export async function createCart(_req: Request, res: Response, next: NextFunction) {
+  try {
+    const { token, cart } = await createGuestCart();
+    res.setHeader(GUEST_TOKEN_HEADER, token);
+    res.status(201).json({ token, cart });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function getCart(req: Request, res: Response, next: NextFunction) {
+  try {
+    res.json(await getGuestCart(guestToken(req)));
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function addItem(req: Request, res: Response, next: NextFunction) {
+  try {
+    const item = await addGuestCartItem(guestToken(req), req.body);
+    res.status(201).json(item);
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function updateItem(req: Request, res: Response, next: NextFunction) {
+  try {
+    const item = await updateGuestCartItem(guestToken(req), req.params.id, req.body.quantity);
+    res.json(item);
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function deleteItem(req: Request, res: Response, next: NextFunction) {
+  try {
+    await deleteGuestCartItem(guestToken(req), req.params.id);
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function checkoutSummary(req: Request, res: Response, next: NextFunction) {
+  try {
+    const cart = await getGuestCart(guestToken(req));
+    const rawCoupon = typeof req.query.coupon === "string" ? req.query.coupon : undefined;
+    // Guests have no saved address, so the destination comes from the query.
+    const destination =
+      typeof req.query.country === "string"
+        ? {
+            country: req.query.country,
+            state: typeof req.query.state === "string" ? req.query.state : null,
+            city: typeof req.query.city === "string" ? req.query.city : null,
+            provinceCode: typeof req.query.provinceCode === "string" ? req.query.provinceCode.toUpperCase() : null,
+            districtCode: typeof req.query.districtCode === "string" ? req.query.districtCode.toUpperCase() : null
+          }
+        : null;
+    const shippingMethodId = typeof req.query.shippingMethodId === "string" ? req.query.shippingMethodId : undefined;
+    res.json(await summarizeCart(cart, rawCoupon, { destination, shippingMethodId }));
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function checkout(req: Request, res: Response, next: NextFunction) {
+  try {
+    const cart = await getGuestCart(guestToken(req));
+    const order = await checkoutGuestCart({
+      cart,
+      name: req.body.name,
+      email: req.body.email,
+      phone: req.body.phone,
+      address: req.body.address ?? null,
+      couponCode: req.body.couponCode,
+      paymentProvider: req.body.paymentProvider,
+      shippingMethodId: req.body.shippingMethodId,
+      pickupLocationId: req.body.pickupLocationId
+    });
+    const lookup = { token: signOrderLookupToken(order.id), url: buildOrderLookupUrl(order.id) };
+
+    void sendGuestOrderEmail({
+      email: req.body.email,
+      name: req.body.name,
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      total: `${Number(order.total).toFixed(2)} ${order.currency}`,
+      lookupUrl: lookup.url
+    }).catch((err) => {
+      logger.warn({ err, orderId: order.id }, "Guest order email failed");
+    });
+
+    // The order stands even if the provider refuses; the error is returned next to it.
+    const attempt = order.payments[0] ?? null;
+    let payment: InitiatedPayment | null = attempt;
+    let paymentError: { code: string; message: string } | null = null;
+    if (req.body.paymentProvider && attempt) {
+      try {
+        payment = await initiatePayment({
+          provider: req.body.paymentProvider,
+          order,
+          attempt,
+          customer: { id: null, email: order.customerEmailSnapshot },
+          phone: order.customerPhoneSnapshot,
+          actorId: null
+        });
+      } catch (err) {
+        logger.warn({ err, orderId: order.id }, "Payment initiation failed for guest order");
+        paymentError =
+          err instanceof ApiError
+            ? { code: err.code, message: err.message }
+            : { code: "payment_initiation_failed", message: "Payment could not be initiated" };
+      }
+    }
+
+    res.status(201).json({ ...order, payment, lookup, ...(paymentError ? { paymentError } : {}) });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function getOrder(req: Request, res: Response, next: NextFunction) {
+  try {
+    const token = String(req.query.token);
+    if (!verifyOrderLookupToken(req.params.id, token)) {
+      throw new ApiError(404, "not_found", "Order not found");
+    }
+    const order = await prisma.order.findUnique({
+      where: { id: req.params.id },
+      select: {
+        id: true,
+        orderNumber: true,
+        status: true,
+        paymentStatus: true,
+        total: true,
+        discountTotal: true,
+        shippingMethodName: true,
+        shippingFee: true,
+        taxTotal: true,
+        pricesIncludeTax: true,
+        taxLines: true,
+        fulfillmentType: true,
+        pickupLocation: { select: { id: true, name: true, line1: true, line2: true, city: true, openingHours: true } },
+        pickupCode: true,
+        pickedUpAt: true,
+        couponCode: true,
+        currency: true,
+        customerNameSnapshot: true,
+        shippingAddressSnapshot: true,
+        createdAt: true,
+        items: {
+          select: {
+            id: true,
+            nameSnapshot: true,
+            skuSnapshot: true,
+            quantity: true,
+            priceSnapshot: true,
+            taxClass: true,
+            taxRate: true,
+            taxAmount: true
+          }
+        },
+        shipments: { include: shipmentInclude, orderBy: { shippedAt: "asc" } }
+      }
+    });
+    if (!order) throw new ApiError(404, "not_found", "Order not found");
+
+    const timeline = await getOrderTimeline(order.id, "customer");
+    res.json({ ...order, timeline });
+  } catch (err) {
+    next(err);
+  }
+}
@@ -0,0 +1,37 @@
+import { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { prisma } from "../config/prisma.js";
+import { ApiError } from "../utils/apiError.js";
+import { getInvoiceDocument, InvoiceDocument } from "../services/invoiceService.js";
+
+export const orderInvoiceSchema = z.object({
+  params: z.object({ id: z.string().uuid() })
+});
+
+function sendPdf(res: Response, document: InvoiceDocument) {
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader("Content-Disposition", `attachment; filename="${document.filename}"`);
+  res.setHeader("X-Invoice-Number", document.number);
+  res.send(document.content);
+}
+
+export async function downloadAccountInvoice(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!req.user) throw new ApiError(401, "unauthorized", "Not authenticated");
+    const order = await prisma.order.findUnique({ where: { id: req.params.id }, select: { userId: true } });
+    if (!order || order.userId !== req.user.id) {
+      throw new ApiError(404, "not_found", "Order not found");
+    }
+    sendPdf(res, await getInvoiceDocument(req.params.id));
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function downloadStaffInvoice(req: Request, res: Response, next: NextFunction) {
+  try {
+    sendPdf(res, await getInvoiceDocument(req.params.id));
+  } catch (err) {
+    next(err);
+  }
+}
@@ -0,0 +1,47 @@
+import { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { ApiError } from "../utils/apiError.js";
+import { findDistrict, findProvince, listProvinces } from "../services/locationService.js";
+
+export const locationCodeParamSchema = z.object({
+  params: z.object({ code: z.string().trim().toUpperCase().min(3).max(80) })
+});
+
+export async function listProvincesHandler(_req: Request, res: Response, next: NextFunction) {
+  try {
+    res.json({ items: listProvinces() });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function listProvinceDistricts(req: Request, res: Response, next: NextFunction) {
+  try {
+    const province = findProvince(req.params.code);
+    if (!province) throw new ApiError(404, "not_found", "Province not found");
+    res.json({
+      province: { code: province.code, name: province.name },
+      items: province.districts.map((district) => ({
+        code: district.code,
+        name: district.name,
+        hasNeighbourhoods: district.neighbourhoods.length > 0
+      }))
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function listDistrictNeighbourhoods(req: Request, res: Response, next: NextFunction) {
+  try {
+    const district = findDistrict(req.params.code);
+    if (!district) throw new ApiError(404, "not_found", "District not found");
+    // Empty outside Maputo city: there the neighbourhood is free text.
+    res.json({
+      district: { code: district.code, name: district.name, provinceCode: district.provinceCode },
+      items: district.neighbourhoods
+    });
+  } catch (err) {
+    next(err);
+  }
+}
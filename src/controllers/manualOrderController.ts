@@ -0,0 +1,127 @@
+import { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { logger } from "../config/logger.js";
+import { ApiError } from "../utils/apiError.js";
+import { createManualOrder } from "../services/orderService.js";
+import { findPaymentProvider } from "../services/paymentProviders.js";
+import { initiatePayment, InitiatedPayment } from "../services/paymentService.js";
+import { getIdempotentResponse, storeIdempotentResponse } from "../services/idempotencyService.js";
+import { addressRegionFields, normalizeAddressRegion } from "./accountController.js";
+
+const manualOrderItemSchema = z
+  .object({
+    variantId: z.string().uuid(),
+    quantity: z.number().int().min(1),
+    unitPrice: z.number().min(0).optional(),
+    priceReason: z.string().trim().min(3).max(200).optional()
+  })
+  .refine((item) => item.unitPrice === undefined || !!item.priceReason, {
+    message: "priceReason is required when overriding the price",
+    path: ["priceReason"]
+  });
+
+const manualOrderCustomerSchema = z.union([
+  z.object({ userId: z.string().uuid() }),
+  z.object({
+    name: z.string().trim().min(2).max(120),
+    email: z.string().trim().email().max(255).optional(),
+    phone: z.string().trim().min(7).max(20)
+  })
+]);
+
+export const createManualOrderSchema = z.object({
+  body: z.object({
+    customer: manualOrderCustomerSchema,
+    items: z.array(manualOrderItemSchema).min(1).max(100),
+    shippingAddress: z
+      .object({
+        name: z.string().trim().min(2).max(120).optional(),
+        line1: z.string().trim().min(2),
+        line2: z.string().trim().optional(),
+        city: z.string().trim().min(2).optional(),
+        state: z.string().trim().min(2).optional(),
+        postalCode: z.string().trim().min(3).optional(),
+        country: z.string().trim().toUpperCase().regex(/^[A-Z]{2}$/, "Country must be 2 letters"),
+        phone: z.string().trim().optional(),
+        ...addressRegionFields
+      })
+      .transform(normalizeAddressRegion())
+      .optional(),
+    couponCode: z.string().min(3).max(50).optional(),
+    paymentProvider: z
+      .string()
+      .transform((code) => code.toUpperCase())
+      .refine((code) => !!findPaymentProvider(code), "Unsupported payment provider")
+      .optional(),
+    shippingMethodId: z.string().uuid().optional(),
+    // One of the customer's billing profiles, for company invoices.
+    billingProfileId: z.string().uuid().optional(),
+    // Wallet (M-PESA/e-Mola) number when it differs from the customer's phone.
+    phone: z.string().min(7).max(20).optional(),
+    channel: z.enum(["PHONE", "WHATSAPP"]).default("PHONE")
+  }),
+  headers: z
+    .object({
+      "idempotency-key": z.string().min(8)
+    })
+    .passthrough()
+});
+
+export async function createStaffOrder(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!req.user) throw new ApiError(401, "unauthorized", "Not authenticated");
+    const key = req.header("Idempotency-Key");
+    if (!key) {
+      throw new ApiError(400, "missing_idempotency_key", "Idempotency-Key header required");
+    }
+
+    const idempotency = await getIdempotentResponse(req.user.id, key, req.body);
+    if (idempotency.hit) {
+      return res.json(idempotency.responseBody);
+    }
+
+    const order = await createManualOrder({
+      customer: req.body.customer,
+      items: req.body.items,
+      shippingAddress: req.body.shippingAddress ?? null,
+      couponCode: req.body.couponCode,
+      paymentProvider: req.body.paymentProvider,
+      shippingMethodId: req.body.shippingMethodId,
+      billingProfileId: req.body.billingProfileId,
+      channel: req.body.channel,
+      createdById: req.user.id
+    });
+
+    // The order stands even if the provider refuses; the error is returned next to it.
+    const attempt = order.payments[0] ?? null;
+    let payment: InitiatedPayment | null = attempt;
+    let paymentError: { code: string; message: string } | null = null;
+    if (req.body.paymentProvider && attempt) {
+      try {
+        payment = await initiatePayment({
+          provider: req.body.paymentProvider,
+          order,
+          attempt,
+          customer: { id: order.userId, email: order.customerEmailSnapshot },
+          phone: req.body.phone ?? order.customerPhoneSnapshot,
+          actorId: req.user.id
+        });
+      } catch (err) {
+        logger.warn({ err, orderId: order.id }, "Payment initiation failed for manual order");
+        paymentError =
+          err instanceof ApiError
+            ? { code: err.code, message: err.message }
+            : { code: "payment_initiation_failed", message: "Payment could not be initiated" };
+      }
+    }
+
+    const responseBody = { ...order, payment, ...(paymentError ? { paymentError } : {}) };
+    await storeIdempotentResponse(req.user.id, key, idempotency.requestHash, responseBody);
+    res.status(201).json(responseBody);
+  } catch (err) {
+    if (err instanceof Error && err.message.includes("Idempotency")) {
+      return next(new ApiError(409, "idempotency_conflict", err.message));
+    }
+    next(err);
+  }
+}
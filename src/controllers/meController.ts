@@ -1,41 +1,15 @@
 import { Request, Response, NextFunction } from "express";
 import { z } from "zod";
 import { prisma } from "../config/prisma.js";
-import { logger } from "../config/logger.js";
 import { ApiError } from "../utils/apiError.js";
 import { addCartItem, deleteCartItem, getOrCreateCart, updateCartItem } from "../services/cartService.js";
 import { checkoutCart } from "../services/orderService.js";
-import { createStripeCheckoutSession } from "../services/stripeService.js";
-import { buildStripeLineItems } from "../services/stripeLineItemService.js";
-import { createMpesaPayment, normalizeMpesaMsisdn } from "../services/mpesaService.js";
-import { ensureOrderStockDeducted } from "../services/orderStockService.js";
-import { writeAuditLog } from "../services/auditLogService.js";
+import { withLatestPayment } from "../services/paymentAttemptService.js";
+import { findCustomerPaymentProvider } from "../services/paymentProviders.js";
+import { initiatePayment } from "../services/paymentService.js";
 import { getIdempotentResponse, storeIdempotentResponse } from "../services/idempotencyService.js";
 import { hashPassword, verifyPassword } from "../utils/password.js";
 
-async function resolveMpesaPhone(userId: string, override?: string | null) {
-  const raw = override?.trim();
-  if (raw) {
-    try {
-      return normalizeMpesaMsisdn(raw);
-    } catch (error) {
-      throw new ApiError(400, "mpesa_phone_invalid", error instanceof Error ? error.message : "Numero M-PESA invalido");
-    }
-  }
-  const defaultAddress = await prisma.address.findFirst({
-    where: { userId, isDefault: true, phone: { not: null } }
-  });
-  const fallback = defaultAddress ?? (await prisma.address.findFirst({ where: { userId, phone: { not: null } } }));
-  if (!fallback?.phone) {
-    throw new ApiError(400, "mpesa_phone_missing", "Informe um telefone M-PESA ou defina um endereco com telefone.");
-  }
-  try {
-    return normalizeMpesaMsisdn(fallback.phone);
-  } catch (error) {
-    throw new ApiError(400, "mpesa_phone_invalid", error instanceof Error ? error.message : "Numero M-PESA invalido");
-  }
-}
-
 function getAssetBaseUrl(req: Request) {
   const configured = process.env.ASSET_BASE_URL;
   if (configured) return configured.replace(/\/+$/, "");
@@ -222,7 +196,11 @@ export const checkoutSchema = z.object({
   body: z
     .object({
       couponCode: z.string().min(3).max(50).optional(),
-      paymentProvider: z.enum(["MPESA", "EMOLA", "STRIPE", "COD", "PAYPAL"]).optional(),
+      paymentProvider: z
+        .string()
+        .transform((code) => code.toUpperCase())
+        .refine((code) => !!findCustomerPaymentProvider(code), "Unsupported payment provider")
+        .optional(),
       phone: z.string().min(7).max(20).optional()
     })
     .optional()
@@ -248,60 +226,21 @@ export async function checkout(req: Request, res: Response, next: NextFunction)
     const order = await checkoutCart(req.user.id, req.body.couponCode, req.body.paymentProvider, req.body.phone ?? null);
     const userSummary = { id: req.user.id, email: req.user.email, name: req.user.name };
 
-    let paymentWithExtras: (typeof order.payment & { checkoutUrl?: string | null }) | null = order.payment;
-    if (req.body.paymentProvider === "STRIPE" && order.payment) {
-      const lineItems = await buildStripeLineItems(order.items ?? [], getAssetBaseUrl(req));
-      const session = await createStripeCheckoutSession({
-        orderId: order.id,
-        paymentId: order.payment.id,
-        currency: order.currency,
-        customerEmail: req.user.email,
-        amount: Number(order.total),
-        lineItems
-      });
-      await prisma.payment.update({
-        where: { id: order.payment.id },
-        data: { externalRef: session.id, provider: "STRIPE" }
-      });
-      paymentWithExtras = { ...order.payment, externalRef: session.id, checkoutUrl: session.url };
-    } else if (req.body.paymentProvider === "MPESA" && order.payment) {
-      const msisdn = await resolveMpesaPhone(req.user.id, req.body.phone ?? null);
-      const result = await createMpesaPayment({
-        amount: Number(order.total),
-        customerMsisdn: msisdn,
-        orderId: order.id,
-        paymentId: order.payment.id
-      });
-      const paymentStatus = result.ok ? "AUTHORIZED" : "FAILED";
-      const updatedPayment = await prisma.payment.update({
-        where: { id: order.payment.id },
-        data: {
-          provider: "MPESA",
-          externalRef: result.transactionId ?? undefined,
-          status: paymentStatus
-        }
-      });
-      await prisma.order.update({
-        where: { id: order.id },
-        data: { paymentStatus }
-      });
-      if (paymentStatus === "AUTHORIZED") {
-        await ensureOrderStockDeducted(order.id);
-      }
-      void writeAuditLog(req.user.id, "mpesa_payment", "payment", updatedPayment.id, {
-        orderId: order.id,
-        paymentId: updatedPayment.id,
-        responseCode: result.responseCode,
-        responseDesc: result.responseDesc,
-        transactionId: result.transactionId,
-        status: paymentStatus
-      }).catch((err) => {
-        logger.warn({ err }, "Failed to write M-PESA audit log");
-      });
-      paymentWithExtras = updatedPayment;
-    }
+    const attempt = order.payments[0] ?? null;
+    const payment =
+      req.body.paymentProvider && attempt
+        ? await initiatePayment({
+            provider: req.body.paymentProvider,
+            order,
+            attempt,
+            customer: req.user,
+            phone: req.body.phone ?? null,
+            assetBaseUrl: getAssetBaseUrl(req),
+            actorId: req.user.id
+          })
+        : attempt;
 
-    const responseBody = { ...order, payment: paymentWithExtras, user: userSummary };
+    const responseBody = { ...order, payment, user: userSummary };
     await storeIdempotentResponse(req.user.id, key, idempotency.requestHash, responseBody);
     res.status(201).json(responseBody);
   } catch (err) {
@@ -317,10 +256,10 @@ export async function listOrders(req: Request, res: Response, next: NextFunction
     if (!req.user) throw new ApiError(401, "unauthorized", "Not authenticated");
     const orders = await prisma.order.findMany({
       where: { userId: req.user.id },
-      include: { items: true, payment: true },
+      include: { items: true, payments: { orderBy: { createdAt: "desc" } } },
       orderBy: { createdAt: "desc" }
     });
-    res.json({ items: orders });
+    res.json({ items: orders.map(withLatestPayment) });
   } catch (err) {
     next(err);
   }
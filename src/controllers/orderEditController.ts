@@ -0,0 +1,80 @@
+import { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { ApiError } from "../utils/apiError.js";
+import { editOrderItems, listOrderRevisions } from "../services/orderEditService.js";
+
+export const orderRevisionsSchema = z.object({
+  params: z.object({ id: z.string().uuid() })
+});
+
+export const editOrderItemsSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  body: z
+    .object({
+      add: z
+        .array(z.object({ variantId: z.string().uuid(), quantity: z.number().int().min(1) }))
+        .max(50)
+        .optional(),
+      update: z
+        .array(z.object({ orderItemId: z.string().uuid(), quantity: z.number().int().min(0) }))
+        .max(50)
+        .optional(),
+      remove: z.array(z.string().uuid()).max(50).optional()
+    })
+    .refine((body) => !!(body.add?.length || body.update?.length || body.remove?.length), {
+      message: "Nothing to change"
+    })
+});
+
+export async function editStaffOrderItems(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await editOrderItems({
+      orderId: req.params.id,
+      add: req.body.add,
+      update: req.body.update,
+      remove: req.body.remove,
+      actorId: req.user?.id ?? null,
+      source: "staff"
+    });
+    res.json(result);
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function listStaffOrderRevisions(req: Request, res: Response, next: NextFunction) {
+  try {
+    const items = await listOrderRevisions(req.params.id);
+    res.json({ items });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function editAccountOrderItems(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!req.user) throw new ApiError(401, "unauthorized", "Not authenticated");
+    const result = await editOrderItems({
+      orderId: req.params.id,
+      add: req.body.add,
+      update: req.body.update,
+      remove: req.body.remove,
+      actorId: req.user.id,
+      source: "customer",
+      userId: req.user.id
+    });
+    res.json(result);
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function listAccountOrderRevisions(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!req.user) throw new ApiError(401, "unauthorized", "Not authenticated");
+    const items = await listOrderRevisions(req.params.id, req.user.id);
+    res.json({ items });
+  } catch (err) {
+    next(err);
+  }
+}
@@ -0,0 +1,54 @@
+import { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { prisma } from "../config/prisma.js";
+import { ApiError } from "../utils/apiError.js";
+import { addOrderNote, getOrderTimeline } from "../services/orderTimelineService.js";
+
+export const orderTimelineSchema = z.object({
+  params: z.object({ id: z.string().uuid() })
+});
+
+export const createOrderNoteSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  body: z.object({
+    body: z.string().trim().min(1).max(2000),
+    visibility: z.enum(["INTERNAL", "CUSTOMER"]).optional()
+  })
+});
+
+export async function getStaffOrderTimeline(req: Request, res: Response, next: NextFunction) {
+  try {
+    const items = await getOrderTimeline(req.params.id, "staff");
+    res.json({ items });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function createOrderNote(req: Request, res: Response, next: NextFunction) {
+  try {
+    const note = await addOrderNote({
+      orderId: req.params.id,
+      authorId: req.user?.id ?? null,
+      body: req.body.body,
+      visibility: req.body.visibility
+    });
+    res.status(201).json(note);
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function getAccountOrderTimeline(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!req.user) throw new ApiError(401, "unauthorized", "Not authenticated");
+    const order = await prisma.order.findUnique({ where: { id: req.params.id }, select: { userId: true } });
+    if (!order || order.userId !== req.user.id) {
+      throw new ApiError(404, "not_found", "Order not found");
+    }
+    const items = await getOrderTimeline(req.params.id, "customer");
+    res.json({ items });
+  } catch (err) {
+    next(err);
+  }
+}
@@ -0,0 +1,139 @@
+import { Request, Response, NextFunction } from "express";
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "../config/prisma.js";
+import { ApiError } from "../utils/apiError.js";
+import { completePickup, listPickupLocations, markReadyForPickup } from "../services/pickupService.js";
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM");
+
+const openingHoursSchema = z
+  .array(
+    z
+      .object({ day: z.number().int().min(0).max(6), opens: timeOfDay, closes: timeOfDay })
+      .refine((entry) => entry.opens < entry.closes, { message: "closes must be after opens", path: ["closes"] })
+  )
+  .max(14);
+
+const pickupLocationBaseSchema = z.object({
+  name: z.string().trim().min(2).max(120),
+  line1: z.string().trim().min(2).max(200),
+  line2: z.string().trim().max(200).nullable().optional(),
+  city: z.string().trim().min(2).max(120),
+  state: z.string().trim().min(2).max(120).nullable().optional(),
+  country: z.string().trim().toUpperCase().regex(/^[A-Z]{2}$/, "Country must be 2 letters"),
+  phone: z.string().trim().min(7).max(30).nullable().optional(),
+  openingHours: openingHoursSchema,
+  capacity: z.number().int().positive().nullable().optional(),
+  isActive: z.boolean().optional()
+});
+
+export const pickupLocationIdSchema = z.object({
+  params: z.object({ id: z.string().uuid() })
+});
+
+export const createPickupLocationSchema = z.object({
+  body: pickupLocationBaseSchema
+});
+
+export const updatePickupLocationSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  body: pickupLocationBaseSchema.partial()
+});
+
+export const completePickupSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  body: z.object({ code: z.string().trim().regex(/^\d{6}$/, "Pickup code has 6 digits") })
+});
+
+export async function listStorePickupLocations(_req: Request, res: Response, next: NextFunction) {
+  try {
+    res.json({ items: await listPickupLocations() });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function listAdminPickupLocations(_req: Request, res: Response, next: NextFunction) {
+  try {
+    const locations = await prisma.pickupLocation.findMany({ orderBy: [{ city: "asc" }, { name: "asc" }] });
+    res.json({ items: locations });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function createPickupLocation(req: Request, res: Response, next: NextFunction) {
+  try {
+    const location = await prisma.pickupLocation.create({
+      data: {
+        name: req.body.name,
+        line1: req.body.line1,
+        line2: req.body.line2 ?? null,
+        city: req.body.city,
+        state: req.body.state ?? null,
+        country: req.body.country,
+        phone: req.body.phone ?? null,
+        openingHours: req.body.openingHours,
+        capacity: req.body.capacity ?? null,
+        isActive: req.body.isActive ?? true
+      }
+    });
+    res.status(201).json(location);
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function updatePickupLocation(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!req.body || !Object.keys(req.body).length) {
+      throw new ApiError(400, "empty_payload", "Nenhuma alteracao enviada");
+    }
+    const existing = await prisma.pickupLocation.findUnique({ where: { id: req.params.id } });
+    if (!existing) throw new ApiError(404, "not_found", "Pickup location not found");
+
+    const location = await prisma.pickupLocation.update({ where: { id: existing.id }, data: req.body });
+    res.json(location);
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function deletePickupLocation(req: Request, res: Response, next: NextFunction) {
+  try {
+    const existing = await prisma.pickupLocation.findUnique({ where: { id: req.params.id } });
+    if (!existing) throw new ApiError(404, "not_found", "Pickup location not found");
+    await prisma.pickupLocation.delete({ where: { id: existing.id } });
+    res.status(204).send();
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2003") {
+      return next(
+        new ApiError(409, "pickup_location_in_use", "Pickup location has orders; deactivate it instead")
+      );
+    }
+    next(err);
+  }
+}
+
+export async function markOrderReadyForPickup(req: Request, res: Response, next: NextFunction) {
+  try {
+    const order = await markReadyForPickup({ orderId: req.params.id, actorId: req.user?.id ?? null });
+    res.json(order);
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function completeOrderPickup(req: Request, res: Response, next: NextFunction) {
+  try {
+    const order = await completePickup({
+      orderId: req.params.id,
+      code: req.body.code,
+      actorId: req.user?.id ?? null
+    });
+    res.json(order);
+  } catch (err) {
+    next(err);
+  }
+}
@@ -0,0 +1,165 @@
+import { Request, Response, NextFunction } from "express";
+import { Prisma, ReturnStatus } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "../config/prisma.js";
+import { ApiError } from "../utils/apiError.js";
+import {
+  approveOrderReturn,
+  listOrderReturns,
+  receiveOrderReturn,
+  refundOrderReturn,
+  rejectOrderReturn,
+  requestOrderReturn,
+  returnInclude
+} from "../services/returnService.js";
+
+const returnStatuses = ["REQUESTED", "APPROVED", "REJECTED", "RECEIVED", "REFUNDED"] as const;
+
+export const requestReturnSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  body: z.object({
+    reason: z.string().trim().min(3).max(500),
+    items: z
+      .array(
+        z.object({
+          orderItemId: z.string().uuid(),
+          quantity: z.number().int().min(1)
+        })
+      )
+      .min(1)
+  })
+});
+
+export const listReturnsSchema = z.object({
+  query: z.object({
+    status: z.enum(returnStatuses).optional(),
+    orderId: z.string().uuid().optional(),
+    page: z.coerce.number().int().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(100).optional()
+  })
+});
+
+export const reviewReturnSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  body: z.object({
+    note: z.string().trim().max(500).optional()
+  })
+});
+
+export const receiveReturnSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  body: z.object({
+    note: z.string().trim().max(500).optional(),
+    restock: z.boolean().optional(),
+    refund: z.boolean().optional(),
+    refundAmount: z.number().positive().optional(),
+    manualRefund: z.boolean().optional()
+  })
+});
+
+export const refundReturnSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  body: z.object({
+    amount: z.number().positive().optional(),
+    manual: z.boolean().optional()
+  })
+});
+
+export async function createOrderReturn(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!req.user) throw new ApiError(401, "unauthorized", "Not authenticated");
+    const orderReturn = await requestOrderReturn({
+      orderId: req.params.id,
+      userId: req.user.id,
+      reason: req.body.reason,
+      items: req.body.items
+    });
+    res.status(201).json(orderReturn);
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function listMyOrderReturns(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!req.user) throw new ApiError(401, "unauthorized", "Not authenticated");
+    const order = await prisma.order.findUnique({ where: { id: req.params.id }, select: { id: true, userId: true } });
+    if (!order || order.userId !== req.user.id) {
+      throw new ApiError(404, "not_found", "Order not found");
+    }
+    const items = await prisma.orderReturn.findMany({
+      where: { orderId: order.id },
+      include: returnInclude,
+      orderBy: { createdAt: "desc" }
+    });
+    res.json({ items });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function listReturns(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { status, orderId, page = 1, limit = 20 } = req.query as {
+      status?: ReturnStatus;
+      orderId?: string;
+      page?: number;
+      limit?: number;
+    };
+    // The review queue defaults to returns still waiting on staff.
+    const where: Prisma.OrderReturnWhereInput = {
+      status: status ?? { in: ["REQUESTED", "APPROVED"] },
+      ...(orderId ? { orderId } : {})
+    };
+    res.json(await listOrderReturns(where, page, limit));
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function approveReturn(req: Request, res: Response, next: NextFunction) {
+  try {
+    res.json(await approveOrderReturn({ returnId: req.params.id, actorId: req.user?.id ?? null, note: req.body.note }));
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function rejectReturn(req: Request, res: Response, next: NextFunction) {
+  try {
+    res.json(await rejectOrderReturn({ returnId: req.params.id, actorId: req.user?.id ?? null, note: req.body.note }));
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function receiveReturn(req: Request, res: Response, next: NextFunction) {
+  try {
+    const orderReturn = await receiveOrderReturn({
+      returnId: req.params.id,
+      actorId: req.user?.id ?? null,
+      note: req.body.note,
+      restock: req.body.restock,
+      refund: req.body.refund,
+      refundAmount: req.body.refundAmount,
+      manualRefund: req.body.manualRefund
+    });
+    res.json(orderReturn);
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function refundReturn(req: Request, res: Response, next: NextFunction) {
+  try {
+    const orderReturn = await refundOrderReturn({
+      returnId: req.params.id,
+      actorId: req.user?.id ?? null,
+      refundAmount: req.body.amount,
+      manualRefund: req.body.manual
+    });
+    res.json(orderReturn);
+  } catch (err) {
+    next(err);
+  }
+}
@@ -0,0 +1,72 @@
+import { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { prisma } from "../config/prisma.js";
+import { ApiError } from "../utils/apiError.js";
+import { getSettlementReport, importSettlementFile } from "../services/settlementService.js";
+
+export const importSettlementSchema = z.object({
+  body: z.object({
+    provider: z.enum(["MPESA", "STRIPE"]),
+    periodStart: z.coerce.date().optional(),
+    periodEnd: z.coerce.date().optional()
+  })
+});
+
+export const listSettlementsSchema = z.object({
+  query: z.object({
+    provider: z.enum(["MPESA", "STRIPE"]).optional(),
+    page: z.coerce.number().int().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(100).optional()
+  })
+});
+
+export const settlementIdSchema = z.object({
+  params: z.object({ id: z.string().uuid() })
+});
+
+export async function importSettlement(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!req.file) {
+      throw new ApiError(400, "missing_file", "File is required");
+    }
+    const report = await importSettlementFile({
+      provider: req.body.provider,
+      filename: req.file.originalname,
+      content: req.file.buffer,
+      periodStart: req.body.periodStart,
+      periodEnd: req.body.periodEnd,
+      actorId: req.user?.id ?? null
+    });
+    res.status(201).json(report);
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function listSettlements(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { provider, page = 1, limit = 20 } = req.query as { provider?: string; page?: number; limit?: number };
+    const where = provider ? { provider } : {};
+    const [items, total] = await prisma.$transaction([
+      prisma.settlementImport.findMany({
+        where,
+        include: { importedBy: { select: { id: true, name: true, email: true } } },
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.settlementImport.count({ where })
+    ]);
+    res.json({ items, page, limit, total });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function getSettlement(req: Request, res: Response, next: NextFunction) {
+  try {
+    res.json(await getSettlementReport(req.params.id));
+  } catch (err) {
+    next(err);
+  }
+}
@@ -0,0 +1,84 @@
+import { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { prisma } from "../config/prisma.js";
+import { ApiError } from "../utils/apiError.js";
+import { createShipment, listOrderShipments, updateShipment } from "../services/shipmentService.js";
+
+const shipmentItemSchema = z.object({
+  orderItemId: z.string().uuid(),
+  quantity: z.number().int().min(1)
+});
+
+export const orderShipmentsSchema = z.object({
+  params: z.object({ id: z.string().uuid() })
+});
+
+export const createShipmentSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  body: z.object({
+    carrier: z.string().trim().min(2).max(80),
+    trackingCode: z.string().trim().min(1).max(120).optional(),
+    trackingUrl: z.string().url().max(500).optional(),
+    shippedAt: z.coerce.date().optional(),
+    items: z.array(shipmentItemSchema).min(1).optional()
+  })
+});
+
+export const updateShipmentSchema = z.object({
+  params: z.object({ id: z.string().uuid(), shipmentId: z.string().uuid() }),
+  body: z
+    .object({
+      carrier: z.string().trim().min(2).max(80).optional(),
+      trackingCode: z.string().trim().min(1).max(120).nullable().optional(),
+      trackingUrl: z.string().url().max(500).nullable().optional(),
+      status: z.literal("DELIVERED").optional(),
+      deliveredAt: z.coerce.date().optional()
+    })
+    .refine((body) => Object.keys(body).length > 0, { message: "Nothing to update" })
+});
+
+export async function listShipments(req: Request, res: Response, next: NextFunction) {
+  try {
+    const order = await prisma.order.findUnique({ where: { id: req.params.id }, select: { id: true } });
+    if (!order) throw new ApiError(404, "not_found", "Order not found");
+    const items = await listOrderShipments(order.id);
+    res.json({ items });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function createOrderShipment(req: Request, res: Response, next: NextFunction) {
+  try {
+    const shipment = await createShipment({
+      orderId: req.params.id,
+      carrier: req.body.carrier,
+      trackingCode: req.body.trackingCode,
+      trackingUrl: req.body.trackingUrl,
+      shippedAt: req.body.shippedAt,
+      items: req.body.items,
+      actorId: req.user?.id ?? null
+    });
+    res.status(201).json(shipment);
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function updateOrderShipment(req: Request, res: Response, next: NextFunction) {
+  try {
+    const shipment = await updateShipment({
+      orderId: req.params.id,
+      shipmentId: req.params.shipmentId,
+      carrier: req.body.carrier,
+      trackingCode: req.body.trackingCode,
+      trackingUrl: req.body.trackingUrl,
+      status: req.body.status,
+      deliveredAt: req.body.deliveredAt,
+      actorId: req.user?.id ?? null
+    });
+    res.json(shipment);
+  } catch (err) {
+    next(err);
+  }
+}
@@ -0,0 +1,231 @@
+import { Request, Response, NextFunction } from "express";
+import { ShippingRateType } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "../config/prisma.js";
+import { ApiError } from "../utils/apiError.js";
+import { resolveZoneRegion } from "../services/locationService.js";
+
+const zoneBaseSchema = z.object({
+  name: z.string().trim().min(2).max(120),
+  country: z.string().trim().toUpperCase().regex(/^[A-Z]{2}$/, "Country must be 2 letters"),
+  state: z.string().trim().min(2).max(120).nullable().optional(),
+  city: z.string().trim().min(2).max(120).nullable().optional(),
+  provinceCode: z.string().trim().toUpperCase().max(10).nullable().optional(),
+  districtCode: z.string().trim().toUpperCase().max(80).nullable().optional(),
+  isActive: z.boolean().optional()
+});
+
+const methodBaseSchema = z.object({
+  name: z.string().trim().min(2).max(120),
+  description: z.string().trim().max(255).nullable().optional(),
+  rateType: z.enum(["FLAT", "WEIGHT", "FREE_OVER"]).default("FLAT"),
+  price: z.coerce.number().min(0),
+  pricePerKg: z.coerce.number().min(0).nullable().optional(),
+  freeOverSubtotal: z.coerce.number().min(0).nullable().optional(),
+  maxWeightKg: z.coerce.number().positive().nullable().optional(),
+  minDeliveryDays: z.coerce.number().int().min(0).nullable().optional(),
+  maxDeliveryDays: z.coerce.number().int().min(0).nullable().optional(),
+  sortOrder: z.coerce.number().int().optional(),
+  isActive: z.boolean().optional()
+});
+
+export const shippingIdParamSchema = z.object({
+  params: z.object({ id: z.string().uuid() })
+});
+
+export const createShippingZoneSchema = z.object({
+  body: zoneBaseSchema
+});
+
+export const updateShippingZoneSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  body: zoneBaseSchema.partial()
+});
+
+export const createShippingMethodSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  body: methodBaseSchema
+});
+
+export const updateShippingMethodSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  body: methodBaseSchema.partial()
+});
+
+const validateShippingMethodInput = (data: {
+  rateType: ShippingRateType;
+  pricePerKg?: number | null;
+  freeOverSubtotal?: number | null;
+  minDeliveryDays?: number | null;
+  maxDeliveryDays?: number | null;
+}) => {
+  if (data.rateType === "WEIGHT" && (data.pricePerKg === null || data.pricePerKg === undefined)) {
+    throw new ApiError(400, "shipping_rate_invalid", "Taxa por kg obrigatoria para entregas por peso");
+  }
+  if (data.rateType === "FREE_OVER" && (data.freeOverSubtotal === null || data.freeOverSubtotal === undefined)) {
+    throw new ApiError(400, "shipping_rate_invalid", "Valor minimo obrigatorio para entrega gratis");
+  }
+  if (
+    typeof data.minDeliveryDays === "number" &&
+    typeof data.maxDeliveryDays === "number" &&
+    data.maxDeliveryDays < data.minDeliveryDays
+  ) {
+    throw new ApiError(400, "shipping_days_invalid", "Prazo de entrega invalido");
+  }
+};
+
+type ZoneRegionFields = {
+  country: string;
+  state?: string | null;
+  city?: string | null;
+  provinceCode?: string | null;
+  districtCode?: string | null;
+};
+
+/** Mozambican zones are stored with the reference names and codes so they match addresses by code. */
+const zoneRegion = (fields: ZoneRegionFields) => {
+  const result = resolveZoneRegion(fields);
+  if (result.issue) {
+    throw new ApiError(400, result.issue.code, result.issue.message, { field: result.issue.field });
+  }
+  return result.region;
+};
+
+export async function listShippingZones(_req: Request, res: Response, next: NextFunction) {
+  try {
+    const zones = await prisma.shippingZone.findMany({
+      include: { methods: { orderBy: [{ sortOrder: "asc" }, { createdAt: "asc" }] } },
+      orderBy: [{ country: "asc" }, { name: "asc" }]
+    });
+    res.json({ items: zones });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function createShippingZone(req: Request, res: Response, next: NextFunction) {
+  try {
+    const zone = await prisma.shippingZone.create({
+      data: {
+        name: req.body.name,
+        country: req.body.country,
+        ...zoneRegion(req.body),
+        isActive: req.body.isActive ?? true
+      },
+      include: { methods: true }
+    });
+    res.status(201).json(zone);
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function updateShippingZone(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!req.body || !Object.keys(req.body).length) {
+      throw new ApiError(400, "empty_payload", "Nenhuma alteracao enviada");
+    }
+    const existing = await prisma.shippingZone.findUnique({ where: { id: req.params.id } });
+    if (!existing) throw new ApiError(404, "not_found", "Shipping zone not found");
+
+    let data = req.body;
+    if (["country", "state", "city", "provinceCode", "districtCode"].some((field) => req.body[field] !== undefined)) {
+      const provinceChanged = req.body.state !== undefined || req.body.provinceCode !== undefined;
+      const districtChanged = req.body.city !== undefined || req.body.districtCode !== undefined;
+      data = {
+        ...req.body,
+        ...zoneRegion({
+          country: req.body.country ?? existing.country,
+          state: provinceChanged ? req.body.state : existing.state,
+          provinceCode: provinceChanged ? req.body.provinceCode : existing.provinceCode,
+          city: districtChanged ? req.body.city : existing.city,
+          districtCode: districtChanged ? req.body.districtCode : existing.districtCode
+        })
+      };
+    }
+    const zone = await prisma.shippingZone.update({
+      where: { id: existing.id },
+      data,
+      include: { methods: { orderBy: [{ sortOrder: "asc" }, { createdAt: "asc" }] } }
+    });
+    res.json(zone);
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function deleteShippingZone(req: Request, res: Response, next: NextFunction) {
+  try {
+    const existing = await prisma.shippingZone.findUnique({ where: { id: req.params.id } });
+    if (!existing) throw new ApiError(404, "not_found", "Shipping zone not found");
+    await prisma.shippingZone.delete({ where: { id: existing.id } });
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function createShippingMethod(req: Request, res: Response, next: NextFunction) {
+  try {
+    const zone = await prisma.shippingZone.findUnique({ where: { id: req.params.id } });
+    if (!zone) throw new ApiError(404, "not_found", "Shipping zone not found");
+    validateShippingMethodInput(req.body);
+
+    const method = await prisma.shippingMethod.create({
+      data: {
+        zoneId: zone.id,
+        name: req.body.name,
+        description: req.body.description ?? null,
+        rateType: req.body.rateType,
+        price: req.body.price,
+        pricePerKg: req.body.pricePerKg ?? null,
+        freeOverSubtotal: req.body.freeOverSubtotal ?? null,
+        maxWeightKg: req.body.maxWeightKg ?? null,
+        minDeliveryDays: req.body.minDeliveryDays ?? null,
+        maxDeliveryDays: req.body.maxDeliveryDays ?? null,
+        sortOrder: req.body.sortOrder ?? 0,
+        isActive: req.body.isActive ?? true
+      }
+    });
+    res.status(201).json(method);
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function updateShippingMethod(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!req.body || !Object.keys(req.body).length) {
+      throw new ApiError(400, "empty_payload", "Nenhuma alteracao enviada");
+    }
+    const existing = await prisma.shippingMethod.findUnique({ where: { id: req.params.id } });
+    if (!existing) throw new ApiError(404, "not_found", "Shipping method not found");
+
+    const pick = <T>(value: T | undefined, current: T) => (value === undefined ? current : value);
+    const numberOrNull = (value: unknown) => (value === null ? null : Number(value));
+    validateShippingMethodInput({
+      rateType: pick(req.body.rateType, existing.rateType),
+      pricePerKg: pick(req.body.pricePerKg, numberOrNull(existing.pricePerKg)),
+      freeOverSubtotal: pick(req.body.freeOverSubtotal, numberOrNull(existing.freeOverSubtotal)),
+      minDeliveryDays: pick(req.body.minDeliveryDays, existing.minDeliveryDays),
+      maxDeliveryDays: pick(req.body.maxDeliveryDays, existing.maxDeliveryDays)
+    });
+
+    const method = await prisma.shippingMethod.update({ where: { id: existing.id }, data: req.body });
+    res.json(method);
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function deleteShippingMethod(req: Request, res: Response, next: NextFunction) {
+  try {
+    const existing = await prisma.shippingMethod.findUnique({ where: { id: req.params.id } });
+    if (!existing) throw new ApiError(404, "not_found", "Shipping method not found");
+    // Orders keep the method name and fee snapshot; their reference is cleared.
+    await prisma.shippingMethod.delete({ where: { id: existing.id } });
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+}
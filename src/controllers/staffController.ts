@@ -1,17 +1,30 @@
 import { Request, Response, NextFunction } from "express";
-import { Prisma } from "@prisma/client";
+import { FulfillmentType, Prisma } from "@prisma/client";
 import { z } from "zod";
 import { prisma } from "../config/prisma.js";
+import { logger } from "../config/logger.js";
 import { ApiError } from "../utils/apiError.js";
 import { createProduct, updateProduct } from "../services/productService.js";
 import { addImageByLink, addImageByUpload, deleteProductImage } from "../services/productImageService.js";
 import { writeAuditLog } from "../services/auditLogService.js";
+import { setLatestPaymentAttemptStatus, withLatestPayment } from "../services/paymentAttemptService.js";
 import {
   ensureOrderStockDeducted,
-  ensureOrderStockRestored,
-  shouldDeductStockForOrderState,
-  shouldRestoreStockForOrderCancellation
+  shouldDeductStockForOrderState
 } from "../services/orderStockService.js";
+import { transitionOrderStatus } from "../services/orderLifecycleService.js";
+import { sendPaymentConfirmation } from "../services/invoiceService.js";
+import { shipmentInclude } from "../services/shipmentService.js";
+import { assertOrderExportSize, OrderExportFormat, writeOrderExport } from "../services/orderExportService.js";
+import { createOrderRefund as createOrderRefundRecord } from "../services/refundService.js";
+import {
+  dispatchCodOrder,
+  getCodRemittanceReport,
+  listCodDeliveries as listCodDeliveryRecords,
+  markCodRemitted,
+  recordCodCollection,
+  recordCodDeliveryFailure
+} from "../services/codService.js";
 
 function buildVariantAttributes(attributes?: Record<string, unknown>, costPrice?: number): Prisma.InputJsonValue {
   const base = attributes ?? {};
@@ -48,6 +61,7 @@ export const productSchema = z.object({
     slug: z.string().min(2),
     description: z.string().optional(),
     basePrice: z.number().nonnegative(),
+    taxClass: z.enum(["STANDARD", "REDUCED", "EXEMPT"]).optional(),
     status: z.enum(["DRAFT", "ACTIVE", "ARCHIVED"]).default("DRAFT"),
     categoryIds: z.array(z.string().uuid()).optional(),
     variants: z.array(
@@ -55,6 +69,7 @@ export const productSchema = z.object({
         sku: z.string().min(2),
         name: z.string().min(2),
         price: z.number().nonnegative(),
+        taxClass: z.enum(["STANDARD", "REDUCED", "EXEMPT"]).nullable().optional(),
         costPrice: z.number().nonnegative().optional(),
         attributes: z.record(z.any()).optional().default({})
       })
@@ -69,6 +84,7 @@ export const updateProductSchema = z.object({
     slug: z.string().min(2).optional(),
     description: z.string().optional(),
     basePrice: z.number().nonnegative().optional(),
+    taxClass: z.enum(["STANDARD", "REDUCED", "EXEMPT"]).optional(),
     status: z.enum(["DRAFT", "ACTIVE", "ARCHIVED"]).optional(),
     categoryIds: z.array(z.string().uuid()).optional()
   })
@@ -98,6 +114,7 @@ export const variantSchema = z.object({
     sku: z.string().min(2),
     name: z.string().min(2),
     price: z.number().nonnegative(),
+    taxClass: z.enum(["STANDARD", "REDUCED", "EXEMPT"]).nullable().optional(),
     costPrice: z.number().nonnegative().optional(),
     attributes: z.record(z.any()).optional().default({})
   })
@@ -109,6 +126,7 @@ export const updateVariantSchema = z.object({
     sku: z.string().min(2),
     name: z.string().min(2),
     price: z.number().nonnegative(),
+    taxClass: z.enum(["STANDARD", "REDUCED", "EXEMPT"]).nullable().optional(),
     costPrice: z.number().nonnegative().optional(),
     attributes: z.record(z.any()).optional().default({})
   })
@@ -157,12 +175,63 @@ export const createStockItemSchema = z.object({
 
 export const updateOrderStatusSchema = z.object({
   params: z.object({ id: z.string().uuid() }),
-  body: z.object({ status: z.enum(["PENDING", "PAID", "SHIPPED", "CANCELED"]) })
+  body: z.object({ status: z.enum(["PENDING", "PAID", "PARTIALLY_SHIPPED", "SHIPPED", "DELIVERED", "CANCELED"]) })
 });
 
 export const updatePaymentStatusSchema = z.object({
   params: z.object({ id: z.string().uuid() }),
-  body: z.object({ paymentStatus: z.enum(["PENDING", "AUTHORIZED", "CAPTURED", "FAILED", "REFUNDED"]) })
+  // REFUNDED only comes from the refund ledger (`POST /orders/:id/refunds`, `manual: true` for money paid back offline).
+  body: z.object({ paymentStatus: z.enum(["PENDING", "AUTHORIZED", "CAPTURED", "FAILED"]) })
+});
+
+export const createRefundSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  body: z.object({
+    amount: z.number().positive().optional(),
+    reason: z.string().trim().min(3).max(500),
+    restock: z.boolean().optional(),
+    manual: z.boolean().optional()
+  })
+});
+
+const dateOnly = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD");
+
+export const dispatchCodSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  body: z.object({ courierId: z.string().uuid() })
+});
+
+export const collectCodSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  body: z.object({ amount: z.number().nonnegative() })
+});
+
+export const failCodSchema = z.object({
+  params: z.object({ id: z.string().uuid() }),
+  body: z.object({ reason: z.string().trim().min(3).max(500) })
+});
+
+export const listCodDeliveriesSchema = z.object({
+  query: z.object({
+    status: z.enum(["OUT_FOR_DELIVERY", "COLLECTED", "FAILED"]).optional(),
+    courierId: z.string().uuid().optional(),
+    page: z.coerce.number().int().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(100).optional()
+  })
+});
+
+export const codRemittanceQuerySchema = z.object({
+  query: z.object({
+    date: dateOnly,
+    courierId: z.string().uuid().optional()
+  })
+});
+
+export const codRemittanceSchema = z.object({
+  body: z.object({
+    courierId: z.string().uuid(),
+    date: dateOnly
+  })
 });
 
 export async function listCategories(_req: Request, res: Response, next: NextFunction) {
@@ -327,6 +396,7 @@ export async function createVariant(req: Request, res: Response, next: NextFunct
         sku: req.body.sku,
         name: req.body.name,
         price: req.body.price,
+        taxClass: req.body.taxClass ?? null,
         attributes: buildVariantAttributes(req.body.attributes, req.body.costPrice),
         stockItem: { create: { onHand: 0 } }
       }
@@ -345,6 +415,7 @@ export async function updateVariant(req: Request, res: Response, next: NextFunct
         sku: req.body.sku,
         name: req.body.name,
         price: req.body.price,
+        taxClass: req.body.taxClass,
         attributes: buildVariantAttributes(req.body.attributes, req.body.costPrice)
       }
     });
@@ -480,80 +551,122 @@ export async function createMovement(req: Request, res: Response, next: NextFunc
   }
 }
 
+// Enum filters are checked here so an unknown value is a 400 instead of a Prisma error; the rest stay free text.
+const orderListQuery = z
+  .object({
+    fulfillmentType: z.enum(["DELIVERY", "PICKUP"]).optional()
+  })
+  .passthrough();
+
+export const listOrdersSchema = z.object({
+  query: orderListQuery
+});
+
+/** Builds the order filter shared by the staff order list and export from the query string. */
+function buildOrderListWhere(query: Request["query"]): Prisma.OrderWhereInput {
+  const status = typeof query.status === "string" ? query.status : undefined;
+  const paymentStatus = typeof query.paymentStatus === "string" ? query.paymentStatus : undefined;
+  const email = typeof query.email === "string" ? query.email.trim() : undefined;
+  const orderId = typeof query.orderId === "string" ? query.orderId.trim() : undefined;
+  const orderNumber = typeof query.orderNumber === "string" ? query.orderNumber.trim() : undefined;
+  const name = typeof query.name === "string" ? query.name.trim() : undefined;
+  const phone = typeof query.phone === "string" ? query.phone.trim() : undefined;
+  const dateFromRaw = typeof query.dateFrom === "string" ? query.dateFrom : undefined;
+  const dateToRaw = typeof query.dateTo === "string" ? query.dateTo : undefined;
+  const minTotalRaw = typeof query.minTotal === "string" ? Number(query.minTotal) : undefined;
+  const maxTotalRaw = typeof query.maxTotal === "string" ? Number(query.maxTotal) : undefined;
+  const fulfillmentType = query.fulfillmentType as FulfillmentType | undefined;
+  const pickupLocationId = typeof query.pickupLocationId === "string" ? query.pickupLocationId : undefined;
+  const company = typeof query.company === "string" ? query.company.trim() : undefined;
+  const provinceCode = typeof query.provinceCode === "string" ? query.provinceCode.trim().toUpperCase() : undefined;
+  const districtCode = typeof query.districtCode === "string" ? query.districtCode.trim().toUpperCase() : undefined;
+
+  const andFilters: Prisma.OrderWhereInput[] = [];
+  if (status) andFilters.push({ status: status as any });
+  if (paymentStatus) andFilters.push({ paymentStatus: paymentStatus as any });
+  if (fulfillmentType) andFilters.push({ fulfillmentType });
+  if (pickupLocationId) andFilters.push({ pickupLocationId });
+  if (provinceCode) andFilters.push({ shippingAddressSnapshot: { path: ["provinceCode"], equals: provinceCode } });
+  if (districtCode) andFilters.push({ shippingAddressSnapshot: { path: ["districtCode"], equals: districtCode } });
+  if (orderId) {
+    andFilters.push({
+      OR: [
+        { id: { contains: orderId } },
+        { orderNumber: { contains: orderId, mode: "insensitive" } }
+      ]
+    });
+  }
+  if (orderNumber) andFilters.push({ orderNumber: { contains: orderNumber, mode: "insensitive" } });
+  if (email) {
+    andFilters.push({
+      OR: [
+        { customerEmailSnapshot: { contains: email, mode: "insensitive" } },
+        { user: { email: { contains: email, mode: "insensitive" } } }
+      ]
+    });
+  }
+  if (name) {
+    andFilters.push({
+      OR: [
+        { customerNameSnapshot: { contains: name, mode: "insensitive" } },
+        { user: { name: { contains: name, mode: "insensitive" } } }
+      ]
+    });
+  }
+  if (company) {
+    const nuit = company.replace(/\s/g, "");
+    andFilters.push({
+      OR: [
+        { billingCompanySnapshot: { contains: company, mode: "insensitive" } },
+        ...(/^\d+$/.test(nuit) ? [{ billingNuitSnapshot: { startsWith: nuit } }] : [])
+      ]
+    });
+  }
+  if (phone) {
+    andFilters.push({
+      OR: [
+        { customerPhoneSnapshot: { contains: phone, mode: "insensitive" } },
+        { user: { addresses: { some: { phone: { contains: phone, mode: "insensitive" } } } } }
+      ]
+    });
+  }
+  if (Number.isFinite(minTotalRaw)) andFilters.push({ total: { gte: minTotalRaw as number } });
+  if (Number.isFinite(maxTotalRaw)) andFilters.push({ total: { lte: maxTotalRaw as number } });
+
+  if (dateFromRaw || dateToRaw) {
+    const createdAt: Prisma.DateTimeFilter = {};
+    if (dateFromRaw) {
+      const dateFrom = new Date(dateFromRaw);
+      if (!Number.isNaN(dateFrom.getTime())) createdAt.gte = dateFrom;
+    }
+    if (dateToRaw) {
+      const dateTo = new Date(dateToRaw);
+      if (!Number.isNaN(dateTo.getTime())) {
+        dateTo.setDate(dateTo.getDate() + 1);
+        createdAt.lt = dateTo;
+      }
+    }
+    if (createdAt.gte || createdAt.lt) andFilters.push({ createdAt });
+  }
+
+  return andFilters.length ? { AND: andFilters } : {};
+}
+
 export async function listOrders(req: Request, res: Response, next: NextFunction) {
   try {
-    const status = typeof req.query.status === "string" ? req.query.status : undefined;
-    const paymentStatus = typeof req.query.paymentStatus === "string" ? req.query.paymentStatus : undefined;
-    const email = typeof req.query.email === "string" ? req.query.email.trim() : undefined;
-    const orderId = typeof req.query.orderId === "string" ? req.query.orderId.trim() : undefined;
-    const orderNumber = typeof req.query.orderNumber === "string" ? req.query.orderNumber.trim() : undefined;
-    const name = typeof req.query.name === "string" ? req.query.name.trim() : undefined;
-    const phone = typeof req.query.phone === "string" ? req.query.phone.trim() : undefined;
-    const dateFromRaw = typeof req.query.dateFrom === "string" ? req.query.dateFrom : undefined;
-    const dateToRaw = typeof req.query.dateTo === "string" ? req.query.dateTo : undefined;
-    const minTotalRaw = typeof req.query.minTotal === "string" ? Number(req.query.minTotal) : undefined;
-    const maxTotalRaw = typeof req.query.maxTotal === "string" ? Number(req.query.maxTotal) : undefined;
     const pageRaw = typeof req.query.page === "string" ? Number(req.query.page) : undefined;
     const limitRaw = typeof req.query.limit === "string" ? Number(req.query.limit) : undefined;
     const page = Number.isFinite(pageRaw) && (pageRaw as number) > 0 ? Math.floor(pageRaw as number) : 1;
     const limit = Number.isFinite(limitRaw) && (limitRaw as number) > 0 ? Math.min(100, Math.floor(limitRaw as number)) : 20;
 
-    const andFilters: Prisma.OrderWhereInput[] = [];
-    if (status) andFilters.push({ status: status as any });
-    if (paymentStatus) andFilters.push({ paymentStatus: paymentStatus as any });
-    if (orderId) {
-      andFilters.push({
-        OR: [
-          { id: { contains: orderId } },
-          { orderNumber: { contains: orderId, mode: "insensitive" } }
-        ]
-      });
-    }
-    if (orderNumber) andFilters.push({ orderNumber: { contains: orderNumber, mode: "insensitive" } });
-    if (email) andFilters.push({ user: { email: { contains: email, mode: "insensitive" } } });
-    if (name) {
-      andFilters.push({
-        OR: [
-          { customerNameSnapshot: { contains: name, mode: "insensitive" } },
-          { user: { name: { contains: name, mode: "insensitive" } } }
-        ]
-      });
-    }
-    if (phone) {
-      andFilters.push({
-        OR: [
-          { customerPhoneSnapshot: { contains: phone, mode: "insensitive" } },
-          { user: { addresses: { some: { phone: { contains: phone, mode: "insensitive" } } } } }
-        ]
-      });
-    }
-    if (Number.isFinite(minTotalRaw)) andFilters.push({ total: { gte: minTotalRaw as number } });
-    if (Number.isFinite(maxTotalRaw)) andFilters.push({ total: { lte: maxTotalRaw as number } });
-
-    if (dateFromRaw || dateToRaw) {
-      const createdAt: Prisma.DateTimeFilter = {};
-      if (dateFromRaw) {
-        const dateFrom = new Date(dateFromRaw);
-        if (!Number.isNaN(dateFrom.getTime())) createdAt.gte = dateFrom;
-      }
-      if (dateToRaw) {
-        const dateTo = new Date(dateToRaw);
-        if (!Number.isNaN(dateTo.getTime())) {
-          dateTo.setDate(dateTo.getDate() + 1);
-          createdAt.lt = dateTo;
-        }
-      }
-      if (createdAt.gte || createdAt.lt) andFilters.push({ createdAt });
-    }
-
-    const where: Prisma.OrderWhereInput = andFilters.length ? { AND: andFilters } : {};
+    const where = buildOrderListWhere(req.query);
 
     const [items, total] = await prisma.$transaction([
       prisma.order.findMany({
         where,
         include: {
           items: true,
-          payment: true,
+          payments: { orderBy: { createdAt: "desc" } },
           user: {
             select: {
               id: true,
@@ -568,8 +681,57 @@ export async function listOrders(req: Request, res: Response, next: NextFunction
       }),
       prisma.order.count({ where })
     ]);
-    res.json({ items, page, limit, total });
+    res.json({ items: items.map(withLatestPayment), page, limit, total });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export const exportOrdersSchema = z.object({
+  query: orderListQuery.extend({
+    format: z.enum(["csv", "xlsx"]).default("csv"),
+    delimiter: z.enum(["comma", "semicolon"]).default("comma")
+  })
+});
+
+export async function exportOrders(req: Request, res: Response, next: NextFunction) {
+  try {
+    const format = req.query.format as OrderExportFormat;
+    const where = buildOrderListWhere(req.query);
+    const count = await assertOrderExportSize(where);
+
+    const stamp = new Date().toISOString().slice(0, 10);
+    res.setHeader(
+      "Content-Type",
+      format === "xlsx"
+        ? "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+        : "text/csv; charset=utf-8"
+    );
+    res.setHeader("Content-Disposition", `attachment; filename="pedidos-${stamp}.${format}"`);
+    res.setHeader("X-Total-Count", String(count));
+
+    const rows = await writeOrderExport({
+      where,
+      format,
+      delimiter: req.query.delimiter === "semicolon" ? ";" : ",",
+      output: res
+    });
+    if (!res.writableEnded) res.end();
+
+    void writeAuditLog(req.user?.id ?? null, "order.exported", "order", null, {
+      format,
+      rows,
+      filters: req.query
+    }).catch((err) => {
+      logger.warn({ err }, "Failed to write order export audit log");
+    });
   } catch (err) {
+    // Once rows are on the wire the response can only be aborted.
+    if (res.headersSent) {
+      logger.error({ err }, "Order export failed mid-stream");
+      res.destroy(err as Error);
+      return;
+    }
     next(err);
   }
 }
@@ -580,7 +742,9 @@ export async function getOrder(req: Request, res: Response, next: NextFunction)
       where: { id: req.params.id },
       include: {
         items: true,
-        payment: true,
+        payments: { orderBy: { createdAt: "desc" } },
+        shipments: { include: shipmentInclude, orderBy: { shippedAt: "asc" } },
+        createdBy: { select: { id: true, name: true, email: true } },
         user: {
           select: {
             id: true,
@@ -645,7 +809,7 @@ export async function getOrder(req: Request, res: Response, next: NextFunction)
       };
     });
 
-    res.json({ ...order, statusHistory });
+    res.json({ ...withLatestPayment(order), statusHistory });
   } catch (err) {
     next(err);
   }
@@ -662,27 +826,12 @@ export async function listOrderItems(req: Request, res: Response, next: NextFunc
 
 export async function updateOrderStatus(req: Request, res: Response, next: NextFunction) {
   try {
-    const previousOrder = await prisma.order.findUnique({
-      where: { id: req.params.id },
-      select: { id: true, status: true, paymentStatus: true }
+    const order = await transitionOrderStatus({
+      orderId: req.params.id,
+      to: req.body.status,
+      actorId: req.user?.id ?? null,
+      source: "staff"
     });
-    if (!previousOrder) throw new ApiError(404, "not_found", "Order not found");
-
-    const order = await prisma.order.update({
-      where: { id: req.params.id },
-      data: { status: req.body.status }
-    });
-    await writeAuditLog(req.user?.id ?? null, "order.status_changed", "order", order.id, {
-      from: previousOrder.status,
-      to: order.status,
-      paymentStatus: order.paymentStatus
-    });
-    if (shouldDeductStockForOrderState(order.status, order.paymentStatus)) {
-      await ensureOrderStockDeducted(order.id);
-    }
-    if (shouldRestoreStockForOrderCancellation(previousOrder.status, previousOrder.paymentStatus, order.status)) {
-      await ensureOrderStockRestored(order.id);
-    }
     res.json(order);
   } catch (err) {
     next(err);
@@ -697,14 +846,8 @@ export async function updateOrderPaymentStatus(req: Request, res: Response, next
     });
     if (!previous) throw new ApiError(404, "not_found", "Order not found");
 
-    const order = await prisma.order.update({
-      where: { id: req.params.id },
-      data: { paymentStatus: req.body.paymentStatus }
-    });
-    await prisma.payment.updateMany({
-      where: { orderId: order.id },
-      data: { status: req.body.paymentStatus }
-    });
+    await setLatestPaymentAttemptStatus(previous.id, req.body.paymentStatus);
+    const order = await prisma.order.findUniqueOrThrow({ where: { id: previous.id } });
     if (shouldDeductStockForOrderState(order.status, order.paymentStatus)) {
       await ensureOrderStockDeducted(order.id);
     }
@@ -713,15 +856,49 @@ export async function updateOrderPaymentStatus(req: Request, res: Response, next
       to: order.paymentStatus,
       status: order.status
     });
+    if (previous.paymentStatus !== "CAPTURED" && order.paymentStatus === "CAPTURED") {
+      void sendPaymentConfirmation(order.id).catch((err) => {
+        logger.warn({ err, orderId: order.id }, "Payment confirmation email failed");
+      });
+    }
     res.json(order);
   } catch (err) {
     next(err);
   }
 }
 
+export async function listOrderRefunds(req: Request, res: Response, next: NextFunction) {
+  try {
+    const items = await prisma.refund.findMany({
+      where: { orderId: req.params.id },
+      include: { createdBy: { select: { id: true, name: true, email: true } } },
+      orderBy: { createdAt: "desc" }
+    });
+    res.json({ items });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function createOrderRefund(req: Request, res: Response, next: NextFunction) {
+  try {
+    const refund = await createOrderRefundRecord({
+      orderId: req.params.id,
+      amount: req.body.amount,
+      reason: req.body.reason,
+      restock: req.body.restock,
+      manual: req.body.manual,
+      actorId: req.user?.id ?? null
+    });
+    res.status(201).json(refund);
+  } catch (err) {
+    next(err);
+  }
+}
+
 export async function listPayments(_req: Request, res: Response, next: NextFunction) {
   try {
-    const items = await prisma.payment.findMany({ include: { order: true } });
+    const items = await prisma.paymentAttempt.findMany({ include: { order: true }, orderBy: { createdAt: "desc" } });
     res.json({ items });
   } catch (err) {
     next(err);
@@ -730,10 +907,98 @@ export async function listPayments(_req: Request, res: Response, next: NextFunct
 
 export async function getPayment(req: Request, res: Response, next: NextFunction) {
   try {
-    const payment = await prisma.payment.findUnique({ where: { id: req.params.id }, include: { order: true } });
+    const payment = await prisma.paymentAttempt.findUnique({
+      where: { id: req.params.id },
+      include: { order: true, refunds: true }
+    });
     if (!payment) throw new ApiError(404, "not_found", "Payment not found");
     res.json(payment);
   } catch (err) {
     next(err);
   }
 }
+
+function codActor(req: Request) {
+  return { id: req.user?.id ?? null, permissions: req.permissions || [] };
+}
+
+export async function dispatchCodOrderHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const delivery = await dispatchCodOrder({
+      orderId: req.params.id,
+      courierId: req.body.courierId,
+      actorId: req.user?.id ?? null
+    });
+    res.json(delivery);
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function collectCodPayment(req: Request, res: Response, next: NextFunction) {
+  try {
+    const delivery = await recordCodCollection({
+      orderId: req.params.id,
+      amount: req.body.amount,
+      actor: codActor(req)
+    });
+    res.json(delivery);
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function failCodDelivery(req: Request, res: Response, next: NextFunction) {
+  try {
+    const delivery = await recordCodDeliveryFailure({
+      orderId: req.params.id,
+      reason: req.body.reason,
+      actor: codActor(req)
+    });
+    res.json(delivery);
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function listCodDeliveries(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { status, courierId, page = 1, limit = 20 } = req.query as {
+      status?: "OUT_FOR_DELIVERY" | "COLLECTED" | "FAILED";
+      courierId?: string;
+      page?: number;
+      limit?: number;
+    };
+    // Couriers only see their own deliveries; managers can filter by courier.
+    const canManage = (req.permissions || []).includes("order:updateStatus");
+    const where: Prisma.CodDeliveryWhereInput = {
+      ...(status ? { status } : {}),
+      courierId: canManage ? courierId : req.user?.id
+    };
+    res.json(await listCodDeliveryRecords(where, page, limit));
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function getCodRemittances(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { date, courierId } = req.query as { date: string; courierId?: string };
+    res.json(await getCodRemittanceReport({ date, courierId }));
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function createCodRemittance(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await markCodRemitted({
+      courierId: req.body.courierId,
+      date: req.body.date,
+      actorId: req.user?.id ?? null
+    });
+    res.status(201).json(result);
+  } catch (err) {
+    next(err);
+  }
+}
@@ -6,10 +6,12 @@ type PeriodKey = "day" | "month" | "quarter";
 type SalesWindow = "24h" | "7d" | "30d";
 
 const STOCK_MIN = 5;
-const RECOGNIZED_ORDER_STATUSES = new Set(["PAID", "SHIPPED"]);
+const CLOSED_FULFILLMENT_STATUSES = new Set(["SHIPPED", "DELIVERED", "CANCELED"]);
+const RECOGNIZED_ORDER_STATUSES = new Set(["PAID", "PARTIALLY_SHIPPED", "SHIPPED", "READY_FOR_PICKUP", "DELIVERED"]);
 const RECOGNIZED_PAYMENT_STATUSES = new Set(["CAPTURED"]);
 const PIPELINE_PAYMENT_STATUSES = new Set(["PENDING", "AUTHORIZED"]);
 
+// Only estimates IVA for orders placed before tax classes; newer orders carry their own tax lines.
 const TAX_RATE = Number(process.env.DASHBOARD_TAX_RATE ?? 0.16);
 const OPERATING_EXPENSE_RATE = Number(process.env.DASHBOARD_OPERATING_EXPENSE_RATE ?? 0.04);
 const DEFAULT_FREIGHT_SUBSIDY_PER_ORDER = Number(process.env.DASHBOARD_FREIGHT_SUBSIDY_PER_ORDER ?? 0);
@@ -110,7 +112,9 @@ function extractVariantCostPrice(variant: { attributes?: unknown; costPrice?: un
   return 0;
 }
 
-function getGatewayFeeTotal(provider: string | null | undefined, orderNetRevenue: number) {
+/** Fees imported from settlement files win; the configured rates only estimate unsettled payments. */
+function getGatewayFeeTotal(provider: string | null | undefined, orderNetRevenue: number, settledFee?: number | null) {
+  if (typeof settledFee === "number") return Math.max(0, settledFee);
   const key = (provider || "").toUpperCase();
   const cfg = gatewayFeeByProvider[key] ?? { fixed: 0, variable: 0.03 };
   return Math.max(0, cfg.fixed + orderNetRevenue * cfg.variable);
@@ -160,7 +164,7 @@ export async function getStaffDashboard(req: Request, res: Response, next: NextF
     const weekStart = addDays(todayStart, -6);
     const salesStart = window === "24h" ? dayAgo : window === "7d" ? sevenAgo : thirtyAgo;
 
-    const [products, stockItems, orders, payments] = await prisma.$transaction([
+    const [products, stockItems, orders, payments, orderReturns, refundLedger] = await prisma.$transaction([
       prisma.product.findMany({
         include: {
           variants: true,
@@ -174,9 +178,18 @@ export async function getStaffDashboard(req: Request, res: Response, next: NextF
         include: { items: true, user: true },
         orderBy: { createdAt: "desc" }
       }),
-      prisma.payment.findMany({
+      prisma.paymentAttempt.findMany({
         include: { order: true },
         orderBy: { createdAt: "desc" }
+      }),
+      prisma.orderReturn.findMany({
+        select: { status: true, refundAmount: true }
+      }),
+      // The ledger, not the attempt status: partial and return refunds count at the amount actually paid back.
+      prisma.refund.aggregate({
+        where: { status: "SUCCEEDED" },
+        _count: { _all: true },
+        _sum: { amount: true }
       })
     ]);
 
@@ -189,10 +202,13 @@ export async function getStaffDashboard(req: Request, res: Response, next: NextF
       }
     }
 
-    const paymentByOrderId = new Map<string, string | null>();
+    const paymentByOrderId = new Map<string, { provider: string | null; gatewayFee: number | null }>();
     for (const payment of payments) {
-      if (!paymentByOrderId.has(payment.orderId)) {
-        paymentByOrderId.set(payment.orderId, payment.provider ?? null);
+      if (!paymentByOrderId.has(payment.orderId) || payment.status === "CAPTURED") {
+        paymentByOrderId.set(payment.orderId, {
+          provider: payment.provider ?? null,
+          gatewayFee: payment.gatewayFee === null ? null : toNumber(payment.gatewayFee)
+        });
       }
     }
 
@@ -206,10 +222,12 @@ export async function getStaffDashboard(req: Request, res: Response, next: NextF
 
       const orderDiscount = toNumber(order.discountTotal);
       const orderNetBeforeCosts = Math.max(0, orderGross - orderDiscount);
-      const provider = paymentByOrderId.get(order.id) ?? null;
-      const gatewayFeeTotal = getGatewayFeeTotal(provider, orderNetBeforeCosts);
+      const payment = paymentByOrderId.get(order.id);
+      const provider = payment?.provider ?? null;
+      const gatewayFeeTotal = getGatewayFeeTotal(provider, orderNetBeforeCosts, payment?.gatewayFee);
       const freightSubsidyTotal = DEFAULT_FREIGHT_SUBSIDY_PER_ORDER;
       const channel = channelFromProvider(provider);
+      const hasTaxLines = order.taxLines !== null;
 
       for (const item of order.items ?? []) {
         const qty = Math.max(0, toNumber(item.quantity));
@@ -223,9 +241,11 @@ export async function getStaffDashboard(req: Request, res: Response, next: NextF
         const cmv = costUnit * qty;
         const gatewayFee = gatewayFeeTotal * weight;
         const freightSubsidy = freightSubsidyTotal * weight;
-        const tax = netRevenue * TAX_RATE;
+        const tax = hasTaxLines ? toNumber(item.taxAmount) : netRevenue * TAX_RATE;
+        // IVA added on top of tax-exclusive prices is not part of the revenue, so it is not deducted from it.
+        const taxInRevenue = hasTaxLines && !order.pricesIncludeTax ? 0 : tax;
         const grossProfit = netRevenue - cmv;
-        const operationalProfit = grossProfit - gatewayFee - tax - freightSubsidy;
+        const operationalProfit = grossProfit - gatewayFee - taxInRevenue - freightSubsidy;
         const netProfit = operationalProfit - netRevenue * OPERATING_EXPENSE_RATE;
 
         const product = item.productId ? productById.get(item.productId) : null;
@@ -341,10 +361,13 @@ export async function getStaffDashboard(req: Request, res: Response, next: NextF
     const delayedOrders = orders.filter((o) => {
       const d = toDate(o.createdAt);
       if (!d) return false;
-      return o.status !== "SHIPPED" && o.status !== "CANCELED" && (now.getTime() - d.getTime()) / (1000 * 60 * 60) >= 48;
+      return !CLOSED_FULFILLMENT_STATUSES.has(o.status) && (now.getTime() - d.getTime()) / (1000 * 60 * 60) >= 48;
     });
-    const refunds = payments.filter((p) => p.status === "REFUNDED");
-    const refundTotal = refunds.reduce((sum, p) => sum + toNumber(p.amount), 0);
+    const returnsByStatus = { REQUESTED: 0, APPROVED: 0, RECEIVED: 0, REFUNDED: 0, REJECTED: 0 };
+    for (const orderReturn of orderReturns) {
+      returnsByStatus[orderReturn.status] += 1;
+    }
+    const returnRefundTotal = orderReturns.reduce((sum, r) => sum + toNumber(r.refundAmount), 0);
 
     const windowItems = itemFinancials.filter((item) => item.orderCreatedAt >= salesStart);
     const perfByProduct = new Map<string, { name: string; qty: number; revenue: number; netProfit: number }>();
@@ -510,8 +533,13 @@ export async function getStaffDashboard(req: Request, res: Response, next: NextF
         delayedOrders: delayedOrders.length,
         problemOrders: problemOrders.length,
         refunds: {
-          count: refunds.length,
-          total: refundTotal
+          count: refundLedger._count._all,
+          total: toNumber(refundLedger._sum.amount),
+          returns: {
+            pending: returnsByStatus.REQUESTED + returnsByStatus.APPROVED,
+            byStatus: returnsByStatus,
+            refundedTotal: returnRefundTotal
+          }
         },
         topPending: pendingOrders.slice(0, 8),
         topDelayed: delayedOrders.slice(0, 8),
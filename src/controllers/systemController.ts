@@ -1,15 +1,17 @@
 import { Request, Response, NextFunction } from "express";
-import { Prisma } from "@prisma/client";
+import { WebhookEvent } from "@prisma/client";
 import { prisma } from "../config/prisma.js";
 import { ApiError } from "../utils/apiError.js";
-import { logger } from "../config/logger.js";
+import { parsePaymentWebhook } from "../services/paymentProviders.js";
 import { constructStripeEvent } from "../services/stripeService.js";
+import { verifyMpesaCallbackSignature } from "../services/mpesaService.js";
+import { verifyPayPalWebhookSignature } from "../services/paypalService.js";
 import {
-  ensureOrderStockDeducted,
-  ensureOrderStockRestored,
-  shouldDeductStockForOrderState,
-  shouldRestoreStockForOrderCancellation
-} from "../services/orderStockService.js";
+  normalizeWebhookProvider,
+  rememberPaymentWebhook,
+  verifyPaymentWebhook
+} from "../services/webhookSignatureService.js";
+import { receiveWebhookEvent } from "../services/webhookEventService.js";
 
 export async function health(_req: Request, res: Response) {
   res.json({ status: "ok" });
@@ -28,58 +30,96 @@ export async function metrics(_req: Request, res: Response) {
   res.json({ status: "ok" });
 }
 
-export async function paymentWebhook(req: Request, res: Response, next: NextFunction) {
+function pickString(payload: Record<string, unknown>, keys: string[]) {
+  for (const key of keys) {
+    const value = payload[key];
+    if (typeof value === "string" && value.trim()) return value.trim();
+  }
+  return null;
+}
+
+function parseJsonBody(body: Buffer) {
   try {
-    const { orderId, paymentId, paymentStatus, orderStatus } = req.body || {};
-    let resolvedOrderId: string | null = orderId ?? null;
+    const parsed = JSON.parse(body.toString("utf8"));
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : {};
+  } catch {
+    throw new ApiError(400, "invalid_payload", "Invalid JSON payload");
+  }
+}
 
-    if (!orderId && !paymentId) {
-      throw new ApiError(400, "missing_reference", "orderId or paymentId is required");
-    }
+function assertWebhookProcessed(event: WebhookEvent) {
+  if (event.status === "FAILED") {
+    throw new ApiError(500, "webhook_processing_failed", "Webhook event could not be processed", {
+      webhookEventId: event.id
+    });
+  }
+}
 
-    if (paymentId) {
-      const updatedPayment = await prisma.payment.update({
-        where: { id: paymentId },
-        data: {
-          status: paymentStatus
-        }
-      });
-      resolvedOrderId = resolvedOrderId ?? updatedPayment.orderId;
-    } else if (orderId && paymentStatus) {
-      await prisma.payment.updateMany({
-        where: { orderId },
-        data: {
-          status: paymentStatus
-        }
-      });
+export async function paymentWebhook(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!Buffer.isBuffer(req.body)) {
+      throw new ApiError(400, "invalid_payload", "Payment webhook expects raw body");
     }
+    const provider = normalizeWebhookProvider(req.params.provider);
+    const signature = req.header("x-webhook-signature");
+    const verified = await verifyPaymentWebhook(provider, req.body, {
+      timestamp: req.header("x-webhook-timestamp"),
+      signature
+    });
+
+    const payload = parseJsonBody(req.body);
+    // The provider's parser knows which keys carry its reference (e-Mola only sends its transaction id).
+    parsePaymentWebhook(provider, payload);
+
+    const eventId = req.header("x-webhook-id") || pickString(payload, ["eventId"]) || signature!.trim();
+    const { event, duplicate } = await receiveWebhookEvent({
+      provider,
+      eventId,
+      eventType: pickString(payload, ["paymentStatus"]),
+      payload
+    });
+    assertWebhookProcessed(event);
+    // Concurrent copies of the same delivery are deduplicated by the inbox event id.
+    await rememberPaymentWebhook(verified);
+
+    res.json({ status: "ok", duplicate });
+  } catch (err) {
+    next(err);
+  }
+}
 
-    if (orderId && orderStatus) {
-      const previousOrder = await prisma.order.findUnique({
-        where: { id: orderId },
-        select: { id: true, status: true, paymentStatus: true }
-      });
-      const updatedOrder = await prisma.order.update({
-        where: { id: orderId },
-        data: {
-          status: orderStatus,
-          paymentStatus: paymentStatus ?? undefined
-        }
-      });
-      if (shouldDeductStockForOrderState(updatedOrder.status, updatedOrder.paymentStatus)) {
-        await ensureOrderStockDeducted(updatedOrder.id);
-      }
-      if (
-        previousOrder &&
-        shouldRestoreStockForOrderCancellation(previousOrder.status, previousOrder.paymentStatus, updatedOrder.status)
-      ) {
-        await ensureOrderStockRestored(updatedOrder.id);
-      }
-    } else if (resolvedOrderId && shouldDeductStockForOrderState(undefined, paymentStatus)) {
-      await ensureOrderStockDeducted(resolvedOrderId);
+export async function mpesaCallback(req: Request, res: Response, next: NextFunction) {
+  try {
+    const signature = req.header("x-mpesa-signature");
+    if (!signature) {
+      throw new ApiError(401, "missing_signature", "M-PESA signature required");
+    }
+    if (!Buffer.isBuffer(req.body)) {
+      throw new ApiError(400, "invalid_payload", "M-PESA callback expects raw body");
+    }
+    if (!verifyMpesaCallbackSignature(req.body, signature)) {
+      throw new ApiError(401, "invalid_signature", "Invalid M-PESA signature");
     }
 
-    res.json({ status: "ok" });
+    const payload = parseJsonBody(req.body);
+    const transactionId = pickString(payload, ["output_TransactionID", "input_TransactionID", "transactionId"]);
+    if (!transactionId) {
+      throw new ApiError(400, "missing_reference", "transactionId is required");
+    }
+    const transactionStatus =
+      pickString(payload, ["output_ResponseTransactionStatus", "transactionStatus"]) ??
+      pickString(payload, ["output_ResponseCode", "input_ResultCode", "responseCode"]) ??
+      "callback";
+
+    const { event } = await receiveWebhookEvent({
+      provider: "MPESA",
+      eventId: `${transactionId}:${transactionStatus}`,
+      eventType: transactionStatus,
+      payload
+    });
+    assertWebhookProcessed(event);
+
+    res.json({ output_ResponseCode: "0", output_ResponseDesc: "Successfully Accepted Result" });
   } catch (err) {
     next(err);
   }
@@ -96,203 +136,57 @@ export async function stripeWebhook(req: Request, res: Response, next: NextFunct
     }
 
     const event = constructStripeEvent(req.body, signature);
-    const eventType = event.type;
-
-    const audit = async (meta: Record<string, unknown>) => {
-      try {
-        await prisma.auditLog.create({
-          data: {
-            actorId: null,
-            action: "stripe_webhook",
-            entity: "system",
-            entityId: meta.paymentId ? String(meta.paymentId) : meta.orderId ? String(meta.orderId) : null,
-            meta: meta as Prisma.InputJsonValue
-          }
-        });
-      } catch (err) {
-        logger.warn({ err }, "Stripe webhook audit log failed");
-      }
-    };
-
-    if (
-      event.type === "checkout.session.completed" ||
-      event.type === "checkout.session.async_payment_succeeded" ||
-      event.type === "checkout.session.async_payment_failed"
-    ) {
-      const session = event.data.object as {
-        id: string;
-        payment_status?: string;
-        metadata?: { orderId?: string; paymentId?: string };
-      };
-      const orderId = session.metadata?.orderId;
-      const paymentId = session.metadata?.paymentId;
-
-      if (!orderId && !paymentId) {
-        await audit({
-          provider: "stripe",
-          eventId: event.id,
-          eventType,
-          status: session.payment_status ?? null
-        });
-        return res.json({ received: true });
-      }
-
-      if (session.payment_status === "paid") {
-        let resolvedOrderId: string | undefined = orderId ?? undefined;
-        if (!resolvedOrderId && paymentId) {
-          const payment = await prisma.payment.findUnique({ where: { id: paymentId } });
-          resolvedOrderId = payment?.orderId ?? undefined;
-        }
-
-        if (paymentId) {
-          await prisma.payment.update({
-            where: { id: paymentId },
-            data: { status: "CAPTURED", provider: "STRIPE", externalRef: session.id }
-          });
-        } else if (orderId) {
-          await prisma.payment.updateMany({
-            where: { orderId },
-            data: { status: "CAPTURED", provider: "STRIPE", externalRef: session.id }
-          });
-        }
-
-        if (resolvedOrderId) {
-          const updatedOrder = await prisma.order.update({
-            where: { id: resolvedOrderId },
-            data: { paymentStatus: "CAPTURED", status: "PAID" }
-          });
-          await ensureOrderStockDeducted(updatedOrder.id);
-        }
-
-        await audit({
-          provider: "stripe",
-          eventId: event.id,
-          eventType,
-          orderId: resolvedOrderId ?? orderId,
-          paymentId,
-          paymentStatus: "CAPTURED",
-          orderStatus: "PAID"
-        });
-      }
-
-      if (session.payment_status === "unpaid" && orderId) {
-        await prisma.order.update({
-          where: { id: orderId },
-          data: { paymentStatus: "FAILED" }
-        });
-
-        await audit({
-          provider: "stripe",
-          eventId: event.id,
-          eventType,
-          orderId,
-          paymentId,
-          paymentStatus: "FAILED"
-        });
-      }
+    const { event: stored, duplicate } = await receiveWebhookEvent({
+      provider: "STRIPE",
+      eventId: event.id,
+      eventType: event.type,
+      payload: event as unknown as Record<string, unknown>
+    });
+    assertWebhookProcessed(stored);
+
+    res.json({ received: true, duplicate });
+  } catch (err) {
+    next(err);
+  }
+}
 
-      logger.info(
-        {
-          eventId: event.id,
-          eventType,
-          orderId,
-          paymentId,
-          status: session.payment_status
-        },
-        "Stripe webhook processed"
-      );
+export async function paypalWebhook(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!req.header("paypal-transmission-sig")) {
+      throw new ApiError(400, "missing_signature", "PayPal signature required");
+    }
+    if (!Buffer.isBuffer(req.body)) {
+      throw new ApiError(400, "invalid_payload", "PayPal webhook expects raw body");
     }
 
-    if (event.type === "payment_intent.succeeded" || event.type === "payment_intent.payment_failed") {
-      const intent = event.data.object as {
-        id: string;
-        status?: string;
-        metadata?: { orderId?: string; paymentId?: string };
-      };
-
-      let orderId = intent.metadata?.orderId ?? null;
-      const paymentId = intent.metadata?.paymentId ?? null;
-
-      if (!orderId && paymentId) {
-        const payment = await prisma.payment.findUnique({ where: { id: paymentId } });
-        orderId = payment?.orderId ?? null;
-      }
-
-      if (event.type === "payment_intent.succeeded") {
-        if (paymentId) {
-          await prisma.payment.update({
-            where: { id: paymentId },
-            data: { status: "CAPTURED", provider: "STRIPE", externalRef: intent.id }
-          });
-        } else if (orderId) {
-          await prisma.payment.updateMany({
-            where: { orderId },
-            data: { status: "CAPTURED", provider: "STRIPE", externalRef: intent.id }
-          });
-        }
-
-        if (orderId) {
-          const updatedOrder = await prisma.order.update({
-            where: { id: orderId },
-            data: { paymentStatus: "CAPTURED", status: "PAID" }
-          });
-          await ensureOrderStockDeducted(updatedOrder.id);
-        }
-
-        await audit({
-          provider: "stripe",
-          eventId: event.id,
-          eventType,
-          orderId,
-          paymentId,
-          paymentStatus: "CAPTURED",
-          orderStatus: orderId ? "PAID" : null
-        });
-      }
-
-      if (event.type === "payment_intent.payment_failed") {
-        if (paymentId) {
-          await prisma.payment.update({
-            where: { id: paymentId },
-            data: { status: "FAILED", provider: "STRIPE", externalRef: intent.id }
-          });
-        } else if (orderId) {
-          await prisma.payment.updateMany({
-            where: { orderId },
-            data: { status: "FAILED", provider: "STRIPE", externalRef: intent.id }
-          });
-        }
-
-        if (orderId) {
-          await prisma.order.update({
-            where: { id: orderId },
-            data: { paymentStatus: "FAILED" }
-          });
-        }
-
-        await audit({
-          provider: "stripe",
-          eventId: event.id,
-          eventType,
-          orderId,
-          paymentId,
-          paymentStatus: "FAILED"
-        });
-      }
-
-      logger.info(
-        {
-          eventId: event.id,
-          eventType,
-          orderId,
-          paymentId,
-          intentStatus: intent.status
-        },
-        "Stripe payment intent webhook processed"
-      );
+    const payload = parseJsonBody(req.body);
+    const verified = await verifyPayPalWebhookSignature(
+      {
+        "paypal-auth-algo": req.header("paypal-auth-algo"),
+        "paypal-cert-url": req.header("paypal-cert-url"),
+        "paypal-transmission-id": req.header("paypal-transmission-id"),
+        "paypal-transmission-sig": req.header("paypal-transmission-sig"),
+        "paypal-transmission-time": req.header("paypal-transmission-time")
+      },
+      payload
+    );
+    if (!verified) {
+      throw new ApiError(401, "invalid_signature", "Invalid PayPal signature");
+    }
+    const eventId = pickString(payload, ["id"]);
+    if (!eventId) {
+      throw new ApiError(400, "missing_reference", "PayPal event id is required");
     }
 
-    res.json({ received: true });
+    const { event, duplicate } = await receiveWebhookEvent({
+      provider: "PAYPAL",
+      eventId,
+      eventType: pickString(payload, ["event_type"]),
+      payload
+    });
+    assertWebhookProcessed(event);
+
+    res.json({ received: true, duplicate });
   } catch (err) {
     next(err);
   }
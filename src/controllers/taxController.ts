@@ -0,0 +1,37 @@
+import { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { prisma } from "../config/prisma.js";
+import { ApiError } from "../utils/apiError.js";
+import { getTaxSettings } from "../services/taxService.js";
+
+const taxRate = z.number().min(0).max(1);
+
+export const updateTaxSettingsSchema = z.object({
+  body: z.object({
+    pricesIncludeTax: z.boolean().optional(),
+    standardRate: taxRate.optional(),
+    reducedRate: taxRate.optional()
+  })
+});
+
+export async function getTaxSettingsHandler(_req: Request, res: Response, next: NextFunction) {
+  try {
+    res.json(await getTaxSettings(prisma));
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function updateTaxSettings(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!req.body || !Object.keys(req.body).length) {
+      throw new ApiError(400, "empty_payload", "Nenhuma alteracao enviada");
+    }
+    const current = await getTaxSettings(prisma);
+    // Existing orders keep the rates and pricing mode they were placed with.
+    const settings = await prisma.taxSettings.update({ where: { id: current.id }, data: req.body });
+    res.json(settings);
+  } catch (err) {
+    next(err);
+  }
+}
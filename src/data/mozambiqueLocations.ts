@@ -0,0 +1,332 @@
+/**
+ * Provinces (ISO 3166-2:MZ codes) and districts of Mozambique, including the
+ * seven municipal districts of Maputo city. Neighbourhoods are listed for
+ * Maputo city only; elsewhere the neighbourhood stays free text.
+ */
+
+export type DistrictSource = {
+  name: string;
+  aliases?: string[];
+  neighbourhoods?: string[];
+};
+
+export type ProvinceSource = {
+  code: string;
+  name: string;
+  aliases?: string[];
+  /** Names of the city a city-province stands for; the first is the canonical one. */
+  cityNames?: string[];
+  districts: (string | DistrictSource)[];
+};
+
+export const MOZAMBIQUE_PROVINCES: ProvinceSource[] = [
+  {
+    code: "MZ-A",
+    name: "Niassa",
+    districts: [
+      "Chimbunila",
+      "Cuamba",
+      "Lago",
+      "Lichinga",
+      "Majune",
+      "Mandimba",
+      "Marrupa",
+      "Maúa",
+      "Mavago",
+      "Mecanhelas",
+      "Mecula",
+      "Metarica",
+      "Muembe",
+      "N'gauma",
+      "Nipepe",
+      "Sanga"
+    ]
+  },
+  {
+    code: "MZ-P",
+    name: "Cabo Delgado",
+    districts: [
+      "Ancuabe",
+      "Balama",
+      "Chiúre",
+      "Ibo",
+      "Macomia",
+      "Mecúfi",
+      "Meluco",
+      "Metuge",
+      "Mocímboa da Praia",
+      "Montepuez",
+      "Mueda",
+      "Muidumbe",
+      "Namuno",
+      "Nangade",
+      "Palma",
+      "Pemba",
+      "Quissanga"
+    ]
+  },
+  {
+    code: "MZ-N",
+    name: "Nampula",
+    districts: [
+      "Angoche",
+      "Eráti",
+      "Ilha de Moçambique",
+      "Lalaua",
+      "Larde",
+      "Liúpo",
+      "Malema",
+      "Meconta",
+      "Mecubúri",
+      "Memba",
+      "Mogincual",
+      "Mogovolas",
+      "Moma",
+      "Monapo",
+      "Mossuril",
+      "Muecate",
+      "Murrupula",
+      "Nacala-a-Velha",
+      { name: "Nacala Porto", aliases: ["Nacala"] },
+      "Nacarôa",
+      "Nampula",
+      "Rapale",
+      "Ribáuè"
+    ]
+  },
+  {
+    code: "MZ-Q",
+    name: "Zambézia",
+    districts: [
+      "Alto Molócuè",
+      "Chinde",
+      "Derre",
+      "Gilé",
+      "Gurué",
+      "Ile",
+      "Inhassunge",
+      "Luabo",
+      "Lugela",
+      "Maganja da Costa",
+      "Milange",
+      "Mocuba",
+      "Mocubela",
+      "Molumbo",
+      "Mopeia",
+      "Morrumbala",
+      "Mulevala",
+      "Namacurra",
+      "Namarroi",
+      "Nicoadala",
+      "Pebane",
+      "Quelimane"
+    ]
+  },
+  {
+    code: "MZ-T",
+    name: "Tete",
+    districts: [
+      "Angónia",
+      "Cahora-Bassa",
+      "Changara",
+      "Chifunde",
+      "Chiuta",
+      "Dôa",
+      "Macanga",
+      "Magoé",
+      "Marara",
+      "Marávia",
+      "Moatize",
+      "Mutarara",
+      "Tete",
+      "Tsangano",
+      "Zumbo"
+    ]
+  },
+  {
+    code: "MZ-B",
+    name: "Manica",
+    districts: [
+      "Bárue",
+      "Chimoio",
+      "Gondola",
+      "Guro",
+      "Macate",
+      "Machaze",
+      "Macossa",
+      "Manica",
+      "Mossurize",
+      "Sussundenga",
+      "Tambara",
+      "Vanduzi"
+    ]
+  },
+  {
+    code: "MZ-S",
+    name: "Sofala",
+    districts: [
+      "Beira",
+      "Búzi",
+      "Caia",
+      "Chemba",
+      "Cheringoma",
+      "Chibabava",
+      "Dondo",
+      "Gorongosa",
+      "Machanga",
+      "Maringué",
+      "Marromeu",
+      "Muanza",
+      "Nhamatanda"
+    ]
+  },
+  {
+    code: "MZ-I",
+    name: "Inhambane",
+    districts: [
+      "Funhalouro",
+      "Govuro",
+      "Homoíne",
+      "Inhambane",
+      "Inharrime",
+      "Inhassoro",
+      "Jangamo",
+      "Mabote",
+      "Massinga",
+      "Maxixe",
+      "Morrumbene",
+      "Panda",
+      { name: "Vilankulo", aliases: ["Vilanculos"] },
+      "Zavala"
+    ]
+  },
+  {
+    code: "MZ-G",
+    name: "Gaza",
+    districts: [
+      "Bilene",
+      "Chibuto",
+      "Chicualacuala",
+      "Chigubo",
+      "Chókwè",
+      "Chongoene",
+      "Guijá",
+      "Limpopo",
+      "Mabalane",
+      { name: "Manjacaze", aliases: ["Mandlakazi"] },
+      "Mapai",
+      "Massangena",
+      "Massingir",
+      "Xai-Xai"
+    ]
+  },
+  {
+    code: "MZ-L",
+    name: "Maputo",
+    aliases: ["Maputo Provincia", "Provincia de Maputo"],
+    districts: ["Boane", "Magude", "Manhiça", "Marracuene", "Matola", "Matutuíne", "Moamba", "Namaacha"]
+  },
+  {
+    code: "MZ-MPM",
+    name: "Maputo Cidade",
+    aliases: ["Cidade de Maputo", "Maputo City"],
+    cityNames: ["Maputo"],
+    districts: [
+      {
+        name: "KaMpfumo",
+        aliases: ["Distrito Municipal 1"],
+        neighbourhoods: [
+          "Alto Maé A",
+          "Alto Maé B",
+          "Central A",
+          "Central B",
+          "Central C",
+          "Coop",
+          "Malhangalene A",
+          "Malhangalene B",
+          "Polana Cimento A",
+          "Polana Cimento B",
+          "Sommerschield"
+        ]
+      },
+      {
+        name: "Nlhamankulu",
+        aliases: ["KaNlhamankulu", "Distrito Municipal 2"],
+        neighbourhoods: [
+          "Aeroporto A",
+          "Aeroporto B",
+          "Chamanculo A",
+          "Chamanculo B",
+          "Chamanculo C",
+          "Chamanculo D",
+          "Malanga",
+          "Minkadjuíne",
+          "Munhuana",
+          "Unidade 7",
+          "Xipamanine"
+        ]
+      },
+      {
+        name: "KaMaxakeni",
+        aliases: ["Distrito Municipal 3"],
+        neighbourhoods: [
+          "Mafalala",
+          "Maxaquene A",
+          "Maxaquene B",
+          "Maxaquene C",
+          "Maxaquene D",
+          "Polana Caniço A",
+          "Polana Caniço B",
+          "Urbanização"
+        ]
+      },
+      {
+        name: "KaMavota",
+        aliases: ["Distrito Municipal 4"],
+        neighbourhoods: [
+          "3 de Fevereiro",
+          "Albazine",
+          "Costa do Sol",
+          "Ferroviário",
+          "FPLM",
+          "Hulene A",
+          "Hulene B",
+          "Laulane",
+          "Mahotas",
+          "Mavalane A",
+          "Mavalane B"
+        ]
+      },
+      {
+        name: "KaMubukwana",
+        aliases: ["Distrito Municipal 5"],
+        neighbourhoods: [
+          "25 de Junho A",
+          "25 de Junho B",
+          "Bagamoyo",
+          "George Dimitrov",
+          "Inhagoia A",
+          "Inhagoia B",
+          "Jardim",
+          "Luís Cabral",
+          "Magoanine A",
+          "Magoanine B",
+          "Magoanine C",
+          "Malhazine",
+          "Nsalene",
+          "Zimpeto"
+        ]
+      },
+      {
+        name: "KaTembe",
+        aliases: ["Catembe", "Distrito Municipal 6"],
+        neighbourhoods: ["Chali", "Chamissava", "Guachene", "Incassane", "Inguice"]
+      },
+      {
+        name: "KaNyaka",
+        aliases: ["Inhaca", "Distrito Municipal 7"],
+        neighbourhoods: ["Ingwane", "Nhaquene", "Ribjene"]
+      }
+    ]
+  }
+];
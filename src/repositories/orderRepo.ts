@@ -4,12 +4,12 @@ export const orderRepo = {
   listByUser(userId: string) {
     return prisma.order.findMany({
       where: { userId },
-      include: { items: true, payment: true }
+      include: { items: true, payments: true }
     });
   },
   listAll() {
     return prisma.order.findMany({
-      include: { items: true, payment: true, user: true }
+      include: { items: true, payments: true, user: true }
     });
   }
 };
@@ -14,6 +14,12 @@ import {
   updateAddressSchema,
   deleteAddress,
   setDefaultAddress,
+  listBillingProfiles,
+  createBillingProfile,
+  billingProfileSchema,
+  updateBillingProfile,
+  updateBillingProfileSchema,
+  deleteBillingProfile,
   listSessions,
   revokeSession,
   getCart,
@@ -37,6 +43,10 @@ import {
   createPaymentSchema,
   confirmStripePayment,
   confirmStripePaymentSchema,
+  confirmPayPalPayment,
+  confirmPayPalPaymentSchema,
+  confirmProviderPayment,
+  confirmProviderPaymentSchema,
   listOrderPayments,
   getPayment,
   createSupportMessage,
@@ -49,6 +59,14 @@ import {
   markNotificationRead,
   markNotificationReadSchema
 } from "../controllers/accountController.js";
+import { createOrderReturn, listMyOrderReturns, requestReturnSchema } from "../controllers/returnController.js";
+import { getAccountOrderTimeline } from "../controllers/orderTimelineController.js";
+import { downloadAccountInvoice } from "../controllers/invoiceController.js";
+import {
+  editAccountOrderItems,
+  editOrderItemsSchema,
+  listAccountOrderRevisions
+} from "../controllers/orderEditController.js";
 
 export const accountRouter = Router();
 
@@ -64,6 +82,11 @@ accountRouter.put("/addresses/:id", validate(updateAddressSchema), updateAddress
 accountRouter.delete("/addresses/:id", validate(idParamSchema), deleteAddress);
 accountRouter.patch("/addresses/:id/default", validate(idParamSchema), setDefaultAddress);
 
+accountRouter.get("/billing-profiles", listBillingProfiles);
+accountRouter.post("/billing-profiles", validate(billingProfileSchema), createBillingProfile);
+accountRouter.put("/billing-profiles/:id", validate(updateBillingProfileSchema), updateBillingProfile);
+accountRouter.delete("/billing-profiles/:id", validate(idParamSchema), deleteBillingProfile);
+
 accountRouter.get("/sessions", listSessions);
 accountRouter.delete("/sessions/:id", validate(idParamSchema), revokeSession);
 
@@ -80,12 +103,20 @@ accountRouter.post("/checkout", validate(checkoutSchema), checkout);
 accountRouter.get("/orders", listOrders);
 accountRouter.get("/orders/:id", validate(idParamSchema), getOrder);
 accountRouter.get("/orders/:id/items", validate(idParamSchema), listOrderItems);
+accountRouter.patch("/orders/:id/items", validate(editOrderItemsSchema), editAccountOrderItems);
+accountRouter.get("/orders/:id/revisions", validate(idParamSchema), listAccountOrderRevisions);
+accountRouter.get("/orders/:id/timeline", validate(idParamSchema), getAccountOrderTimeline);
+accountRouter.get("/orders/:id/invoice", validate(idParamSchema), downloadAccountInvoice);
 accountRouter.post("/orders/:id/cancel", validate(idParamSchema), cancelOrder);
+accountRouter.get("/orders/:id/returns", validate(idParamSchema), listMyOrderReturns);
+accountRouter.post("/orders/:id/returns", validate(requestReturnSchema), createOrderReturn);
 
 accountRouter.post("/orders/:id/payments", validate(createPaymentSchema), createPayment);
 accountRouter.get("/orders/:id/payments", validate(idParamSchema), listOrderPayments);
 accountRouter.get("/payments/:id", validate(idParamSchema), getPayment);
 accountRouter.post("/stripe/confirm", validate(confirmStripePaymentSchema), confirmStripePayment);
+accountRouter.post("/paypal/confirm", validate(confirmPayPalPaymentSchema), confirmPayPalPayment);
+accountRouter.post("/payments/:provider/confirm", validate(confirmProviderPaymentSchema), confirmProviderPayment);
 
 accountRouter.get("/support/messages", validate(supportMessageListSchema), listSupportMessages);
 accountRouter.post("/support/messages", validate(supportMessageSchema), createSupportMessage);
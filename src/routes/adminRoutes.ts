@@ -54,9 +54,37 @@ import {
   supportReplySchema,
   createSupportReply,
   undoAuditLog,
-  undoAuditLogSchema
+  undoAuditLogSchema,
+  listWebhookEvents,
+  listWebhookEventsSchema,
+  getWebhookEvent,
+  reprocessWebhookEventHandler
 } from "../controllers/adminController.js";
 import { uploadFavicon, uploadLogo } from "../controllers/brandingController.js";
+import { getTaxSettingsHandler, updateTaxSettings, updateTaxSettingsSchema } from "../controllers/taxController.js";
+import {
+  listShippingZones,
+  createShippingZone,
+  createShippingZoneSchema,
+  updateShippingZone,
+  updateShippingZoneSchema,
+  deleteShippingZone,
+  shippingIdParamSchema,
+  createShippingMethod,
+  createShippingMethodSchema,
+  updateShippingMethod,
+  updateShippingMethodSchema,
+  deleteShippingMethod
+} from "../controllers/shippingController.js";
+import {
+  listAdminPickupLocations,
+  createPickupLocation,
+  createPickupLocationSchema,
+  updatePickupLocation,
+  updatePickupLocationSchema,
+  deletePickupLocation,
+  pickupLocationIdSchema
+} from "../controllers/pickupController.js";
 
 export const adminRouter = Router();
 const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 2 * 1024 * 1024 } });
@@ -81,6 +109,19 @@ adminRouter.post("/coupons", validate(createCouponSchema), createCoupon);
 adminRouter.put("/coupons/:id", validate(updateCouponSchema), updateCoupon);
 adminRouter.delete("/coupons/:id", validate(userIdParamSchema), deleteCoupon);
 
+adminRouter.get("/shipping/zones", listShippingZones);
+adminRouter.post("/shipping/zones", validate(createShippingZoneSchema), createShippingZone);
+adminRouter.put("/shipping/zones/:id", validate(updateShippingZoneSchema), updateShippingZone);
+adminRouter.delete("/shipping/zones/:id", validate(shippingIdParamSchema), deleteShippingZone);
+adminRouter.post("/shipping/zones/:id/methods", validate(createShippingMethodSchema), createShippingMethod);
+adminRouter.put("/shipping/methods/:id", validate(updateShippingMethodSchema), updateShippingMethod);
+adminRouter.delete("/shipping/methods/:id", validate(shippingIdParamSchema), deleteShippingMethod);
+
+adminRouter.get("/pickup-locations", listAdminPickupLocations);
+adminRouter.post("/pickup-locations", validate(createPickupLocationSchema), createPickupLocation);
+adminRouter.put("/pickup-locations/:id", validate(updatePickupLocationSchema), updatePickupLocation);
+adminRouter.delete("/pickup-locations/:id", validate(pickupLocationIdSchema), deletePickupLocation);
+
 adminRouter.get("/permissions", listPermissions);
 adminRouter.post("/permissions", validate(createPermissionSchema), createPermission);
 adminRouter.put("/permissions/:id", validate(updatePermissionSchema), updatePermission);
@@ -98,6 +139,10 @@ adminRouter.post("/audit-logs/:id/undo", validate(undoAuditLogSchema), undoAudit
 adminRouter.get("/idempotency-keys", validate(listIdempotencyKeysSchema), listIdempotencyKeys);
 adminRouter.get("/idempotency-keys/:id", validate(userIdParamSchema), getIdempotencyKey);
 
+adminRouter.get("/webhook-events", validate(listWebhookEventsSchema), listWebhookEvents);
+adminRouter.get("/webhook-events/:id", validate(userIdParamSchema), getWebhookEvent);
+adminRouter.post("/webhook-events/:id/reprocess", validate(userIdParamSchema), reprocessWebhookEventHandler);
+
 adminRouter.get("/support/messages", validate(supportMessageListSchema), listSupportMessages);
 adminRouter.get("/support/messages/:id", validate(supportMessageIdSchema), getSupportMessage);
 adminRouter.patch("/support/messages/:id", validate(supportMessageUpdateSchema), updateSupportMessage);
@@ -105,3 +150,6 @@ adminRouter.post("/support/messages/:id/replies", validate(supportReplySchema),
 
 adminRouter.post("/branding/logo", upload.single("file"), uploadLogo);
 adminRouter.post("/branding/favicon", upload.single("file"), uploadFavicon);
+
+adminRouter.get("/tax-settings", getTaxSettingsHandler);
+adminRouter.put("/tax-settings", validate(updateTaxSettingsSchema), updateTaxSettings);
@@ -0,0 +1,34 @@
+import { Router } from "express";
+import { validate } from "../middlewares/validate.js";
+import { rateLimit } from "../middlewares/rateLimit.js";
+import {
+  createCart,
+  getCart,
+  guestCartSchema,
+  addItem,
+  guestAddCartItemSchema,
+  updateItem,
+  guestUpdateCartItemSchema,
+  deleteItem,
+  guestCartItemParamSchema,
+  checkoutSummary,
+  checkout,
+  guestCheckoutSchema,
+  getOrder,
+  guestOrderLookupSchema
+} from "../controllers/guestController.js";
+
+export const guestRouter = Router();
+
+guestRouter.use(rateLimit());
+
+guestRouter.post("/cart", createCart);
+guestRouter.get("/cart", validate(guestCartSchema), getCart);
+guestRouter.post("/cart/items", validate(guestAddCartItemSchema), addItem);
+guestRouter.patch("/cart/items/:id", validate(guestUpdateCartItemSchema), updateItem);
+guestRouter.delete("/cart/items/:id", validate(guestCartItemParamSchema), deleteItem);
+
+guestRouter.get("/checkout/summary", validate(guestCartSchema), checkoutSummary);
+guestRouter.post("/checkout", validate(guestCheckoutSchema), checkout);
+
+guestRouter.get("/orders/:id", validate(guestOrderLookupSchema), getOrder);
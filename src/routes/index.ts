@@ -5,12 +5,14 @@ import { systemRouter } from "./systemRoutes.js";
 import { storeRouter } from "./storeRoutes.js";
 import { accountRouter } from "./accountRoutes.js";
 import { staffRouter } from "./staffRoutes.js";
+import { guestRouter } from "./guestRoutes.js";
 
 export const router = Router();
 
 router.use("/system", systemRouter);
 router.use("/auth", authRouter);
 router.use("/store", storeRouter);
+router.use("/guest", guestRouter);
 router.use("/account", accountRouter);
 router.use("/staff", staffRouter);
 router.use("/admin", adminRouter);
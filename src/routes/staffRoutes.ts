@@ -48,16 +48,80 @@ import {
   createMovement,
   movementSchema,
   listOrders,
+  listOrdersSchema,
+  exportOrders,
+  exportOrdersSchema,
   getOrder,
   listOrderItems,
   updateOrderStatus,
   updateOrderStatusSchema,
   updateOrderPaymentStatus,
   updatePaymentStatusSchema,
+  listOrderRefunds,
+  createOrderRefund,
+  createRefundSchema,
+  dispatchCodOrderHandler,
+  dispatchCodSchema,
+  collectCodPayment,
+  collectCodSchema,
+  failCodDelivery,
+  failCodSchema,
+  listCodDeliveries,
+  listCodDeliveriesSchema,
+  getCodRemittances,
+  codRemittanceQuerySchema,
+  createCodRemittance,
+  codRemittanceSchema,
   listPayments,
   getPayment
 } from "../controllers/staffController.js";
 import { getStaffDashboard, staffDashboardSchema } from "../controllers/staffDashboardController.js";
+import {
+  getSettlement,
+  importSettlement,
+  importSettlementSchema,
+  listSettlements,
+  listSettlementsSchema,
+  settlementIdSchema
+} from "../controllers/settlementController.js";
+import {
+  createOrderShipment,
+  createShipmentSchema,
+  listShipments,
+  orderShipmentsSchema,
+  updateOrderShipment,
+  updateShipmentSchema
+} from "../controllers/shipmentController.js";
+import {
+  approveReturn,
+  listReturns,
+  listReturnsSchema,
+  receiveReturn,
+  receiveReturnSchema,
+  refundReturn,
+  refundReturnSchema,
+  rejectReturn,
+  reviewReturnSchema
+} from "../controllers/returnController.js";
+import {
+  createOrderNote,
+  createOrderNoteSchema,
+  getStaffOrderTimeline,
+  orderTimelineSchema
+} from "../controllers/orderTimelineController.js";
+import { downloadStaffInvoice, orderInvoiceSchema } from "../controllers/invoiceController.js";
+import { createManualOrderSchema, createStaffOrder } from "../controllers/manualOrderController.js";
+import {
+  completeOrderPickup,
+  completePickupSchema,
+  markOrderReadyForPickup
+} from "../controllers/pickupController.js";
+import {
+  editOrderItemsSchema,
+  editStaffOrderItems,
+  listStaffOrderRevisions,
+  orderRevisionsSchema
+} from "../controllers/orderEditController.js";
 
 export const staffRouter = Router();
 const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 5 * 1024 * 1024 } });
@@ -109,9 +173,16 @@ staffRouter.get("/inventory/stock-items/:id/movements", permit("product:update")
 staffRouter.post("/inventory/movements", permit("product:update"), validate(movementSchema), createMovement);
 
 // Orders
-staffRouter.get("/orders", permit("order:read"), listOrders);
+staffRouter.get("/orders", permit("order:read"), validate(listOrdersSchema), listOrders);
+staffRouter.get("/orders/export", permit("order:read"), validate(exportOrdersSchema), exportOrders);
+staffRouter.post("/orders", permit("order:create"), validate(createManualOrderSchema), createStaffOrder);
 staffRouter.get("/orders/:id", permit("order:read"), validate(idParamSchema), getOrder);
 staffRouter.get("/orders/:id/items", permit("order:read"), validate(idParamSchema), listOrderItems);
+staffRouter.patch("/orders/:id/items", permit("order:updateStatus"), validate(editOrderItemsSchema), editStaffOrderItems);
+staffRouter.get("/orders/:id/revisions", permit("order:read"), validate(orderRevisionsSchema), listStaffOrderRevisions);
+staffRouter.get("/orders/:id/timeline", permit("order:read"), validate(orderTimelineSchema), getStaffOrderTimeline);
+staffRouter.get("/orders/:id/invoice", permit("order:read"), validate(orderInvoiceSchema), downloadStaffInvoice);
+staffRouter.post("/orders/:id/notes", permit("order:updateStatus"), validate(createOrderNoteSchema), createOrderNote);
 staffRouter.patch("/orders/:id/status", permit("order:updateStatus"), validate(updateOrderStatusSchema), updateOrderStatus);
 staffRouter.patch(
   "/orders/:id/payment-status",
@@ -119,10 +190,57 @@ staffRouter.patch(
   validate(updatePaymentStatusSchema),
   updateOrderPaymentStatus
 );
+staffRouter.get("/orders/:id/refunds", permit("order:read"), validate(idParamSchema), listOrderRefunds);
+staffRouter.post("/orders/:id/refunds", permit("order:refund"), validate(createRefundSchema), createOrderRefund);
+
+// Shipments
+staffRouter.get("/orders/:id/shipments", permit("order:read"), validate(orderShipmentsSchema), listShipments);
+staffRouter.post("/orders/:id/shipments", permit("order:updateStatus"), validate(createShipmentSchema), createOrderShipment);
+staffRouter.patch(
+  "/orders/:id/shipments/:shipmentId",
+  permit("order:updateStatus"),
+  validate(updateShipmentSchema),
+  updateOrderShipment
+);
+
+// Pickup
+staffRouter.post(
+  "/orders/:id/ready-for-pickup",
+  permit("order:updateStatus"),
+  validate(idParamSchema),
+  markOrderReadyForPickup
+);
+staffRouter.post("/orders/:id/pickup", permit("order:updateStatus"), validate(completePickupSchema), completeOrderPickup);
+
+// Returns
+staffRouter.get("/returns", permit("order:read"), validate(listReturnsSchema), listReturns);
+staffRouter.post("/returns/:id/approve", permit("order:updateStatus"), validate(reviewReturnSchema), approveReturn);
+staffRouter.post("/returns/:id/reject", permit("order:updateStatus"), validate(reviewReturnSchema), rejectReturn);
+staffRouter.post("/returns/:id/receive", permit("order:refund"), validate(receiveReturnSchema), receiveReturn);
+staffRouter.post("/returns/:id/refund", permit("order:refund"), validate(refundReturnSchema), refundReturn);
+
+// Cash on delivery
+staffRouter.post("/orders/:id/cod/dispatch", permit("order:updateStatus"), validate(dispatchCodSchema), dispatchCodOrderHandler);
+staffRouter.post("/orders/:id/cod/collect", permit("cod:collect"), validate(collectCodSchema), collectCodPayment);
+staffRouter.post("/orders/:id/cod/fail", permit("cod:collect"), validate(failCodSchema), failCodDelivery);
+staffRouter.get("/cod/deliveries", permit("cod:collect"), validate(listCodDeliveriesSchema), listCodDeliveries);
+staffRouter.get("/cod/remittances", permit("order:read"), validate(codRemittanceQuerySchema), getCodRemittances);
+staffRouter.post("/cod/remittances", permit("order:updateStatus"), validate(codRemittanceSchema), createCodRemittance);
 
 // Payments
 staffRouter.get("/payments", permit("order:read"), listPayments);
 staffRouter.get("/payments/:id", permit("order:read"), validate(idParamSchema), getPayment);
 
+// Settlement reconciliation
+staffRouter.get("/settlements", permit("payment:reconcile"), validate(listSettlementsSchema), listSettlements);
+staffRouter.post(
+  "/settlements",
+  permit("payment:reconcile"),
+  upload.single("file"),
+  validate(importSettlementSchema),
+  importSettlement
+);
+staffRouter.get("/settlements/:id", permit("payment:reconcile"), validate(settlementIdSchema), getSettlement);
+
 // Dashboard analytics
 staffRouter.get("/dashboard", permit("order:read"), validate(staffDashboardSchema), getStaffDashboard);
@@ -16,6 +16,13 @@ import {
   listProductsSchema
 } from "../controllers/storeController.js";
 import { getBranding } from "../controllers/brandingController.js";
+import { listStorePickupLocations } from "../controllers/pickupController.js";
+import {
+  listDistrictNeighbourhoods,
+  listProvinceDistricts,
+  listProvincesHandler,
+  locationCodeParamSchema
+} from "../controllers/locationController.js";
 
 export const storeRouter = Router();
 
@@ -33,3 +40,13 @@ storeRouter.get("/variants/:id", validate(idParamSchema), getVariant);
 storeRouter.get("/variants/:id/availability", validate(idParamSchema), getVariantAvailability);
 
 storeRouter.get("/branding", getBranding);
+
+storeRouter.get("/pickup-locations", listStorePickupLocations);
+
+storeRouter.get("/locations/provinces", listProvincesHandler);
+storeRouter.get("/locations/provinces/:code/districts", validate(locationCodeParamSchema), listProvinceDistricts);
+storeRouter.get(
+  "/locations/districts/:code/neighbourhoods",
+  validate(locationCodeParamSchema),
+  listDistrictNeighbourhoods
+);
@@ -1,5 +1,13 @@
 import { Router } from "express";
-import { health, ready, metrics, paymentWebhook, stripeWebhook } from "../controllers/systemController.js";
+import {
+  health,
+  ready,
+  metrics,
+  mpesaCallback,
+  paymentWebhook,
+  paypalWebhook,
+  stripeWebhook
+} from "../controllers/systemController.js";
 
 export const systemRouter = Router();
 
@@ -8,3 +16,5 @@ systemRouter.get("/ready", ready);
 systemRouter.get("/metrics", metrics);
 systemRouter.post("/webhooks/payments/:provider", paymentWebhook);
 systemRouter.post("/webhooks/stripe", stripeWebhook);
+systemRouter.post("/webhooks/mpesa", mpesaCallback);
+systemRouter.post("/webhooks/paypal", paypalWebhook);
@@ -3,6 +3,10 @@ import { env } from "./config/env.js";
 import { connectDatabase } from "./config/prisma.js";
 import { connectRedis } from "./config/redis.js";
 import { logger } from "./config/logger.js";
+import { startEmolaReconciler } from "./services/emolaReconciler.js";
+import { startGuestCartCleanup } from "./services/guestCartCleanup.js";
+import { startMpesaReconciler } from "./services/mpesaReconciler.js";
+import { startPendingOrderSweeper } from "./services/pendingOrderSweeper.js";
 
 async function start() {
   await connectDatabase();
@@ -16,6 +20,11 @@ async function start() {
   app.listen(env.port, "0.0.0.0", () => {
     logger.info({ port: env.port }, "API server running");
   });
+
+  startMpesaReconciler();
+  startEmolaReconciler();
+  startPendingOrderSweeper();
+  startGuestCartCleanup();
 }
 
 start().catch((err) => {
@@ -1,10 +1,12 @@
 import crypto from "crypto";
 import { prisma } from "../config/prisma.js";
+import { logger } from "../config/logger.js";
 import { ApiError } from "../utils/apiError.js";
 import { signAccessToken, signRefreshToken, verifyRefreshToken } from "../utils/jwt.js";
 import { sha256 } from "../utils/hash.js";
 import { hashPassword, verifyPassword } from "../utils/password.js";
 import { sendEmailVerificationEmail, sendLoginAttemptAlert, sendPasswordResetEmail } from "./mailService.js";
+import { claimGuestOrders } from "./orderService.js";
 
 const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000;
 const EMAIL_VERIFICATION_RESEND_WINDOW_MS = 2 * 60 * 1000;
@@ -134,10 +136,18 @@ export async function loginUser(
     throw new ApiError(403, "email_not_verified", "Confirme seu email para entrar.");
   }
 
+  claimOrdersForUser(user);
   const session = await createSessionForUser(user.id, user.role.name);
   return { ...session, user };
 }
 
+// Guest orders placed with this email become part of the account once the email is proven.
+function claimOrdersForUser(user: { id: string; email: string }) {
+  void claimGuestOrders(user.id, user.email).catch((err) => {
+    logger.warn({ err, userId: user.id }, "Failed to claim guest orders");
+  });
+}
+
 async function createSessionForUser(userId: string, roleName: string) {
   const payload = { sub: userId, role: roleName };
   const accessToken = signAccessToken(payload);
@@ -191,6 +201,7 @@ export async function verifyEmail(params: { token?: string; email?: string; code
       });
     }
 
+    claimOrdersForUser(user);
     const session = await createSessionForUser(user.id, user.role.name);
     return { ...session, user };
   }
@@ -222,6 +233,7 @@ export async function verifyEmail(params: { token?: string; email?: string; code
       });
     }
 
+    claimOrdersForUser(user);
     const session = await createSessionForUser(user.id, user.role.name);
     return { ...session, user };
   }
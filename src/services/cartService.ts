@@ -1,6 +1,11 @@
+import crypto from "crypto";
 import { prisma } from "../config/prisma.js";
 import { Prisma } from "@prisma/client";
 import { ApiError } from "../utils/apiError.js";
+import { sha256 } from "../utils/hash.js";
+
+type CartRef = { id: string };
+type CartItemInput = { productId: string; variantId?: string | null; quantity: number };
 
 async function resolveCartVariant(productId: string, variantId: string | null | undefined, quantity: number) {
   if (variantId) {
@@ -42,8 +47,30 @@ export async function getOrCreateCart(userId: string) {
   return cart;
 }
 
-export async function addCartItem(userId: string, input: { productId: string; variantId?: string | null; quantity: number }) {
-  const cart = await getOrCreateCart(userId);
+/** Cart of an anonymous visitor; only the hash of the token is stored. */
+export async function createGuestCart() {
+  const token = crypto.randomBytes(32).toString("hex");
+  const cart = await prisma.cart.create({ data: { guestTokenHash: sha256(token) }, include: { items: true } });
+  return { token, cart };
+}
+
+export async function getGuestCart(token: string) {
+  const cart = await prisma.cart.findUnique({ where: { guestTokenHash: sha256(token) }, include: { items: true } });
+  if (!cart) {
+    throw new ApiError(404, "cart_not_found", "Guest cart not found");
+  }
+  return cart;
+}
+
+export async function addCartItem(userId: string, input: CartItemInput) {
+  return addItemToCart(await getOrCreateCart(userId), input);
+}
+
+export async function addGuestCartItem(token: string, input: CartItemInput) {
+  return addItemToCart(await getGuestCart(token), input);
+}
+
+async function addItemToCart(cart: CartRef, input: CartItemInput) {
   const product = await prisma.product.findUnique({ where: { id: input.productId } });
   if (!product) {
     throw new ApiError(404, "not_found", "Product not found");
@@ -85,7 +112,14 @@ export async function addCartItem(userId: string, input: { productId: string; va
 }
 
 export async function updateCartItem(userId: string, itemId: string, quantity: number) {
-  const cart = await getOrCreateCart(userId);
+  return updateItemInCart(await getOrCreateCart(userId), itemId, quantity);
+}
+
+export async function updateGuestCartItem(token: string, itemId: string, quantity: number) {
+  return updateItemInCart(await getGuestCart(token), itemId, quantity);
+}
+
+async function updateItemInCart(cart: CartRef, itemId: string, quantity: number) {
   const item = await prisma.cartItem.findUnique({ where: { id: itemId } });
   if (!item || item.cartId !== cart.id) {
     throw new ApiError(404, "not_found", "Cart item not found");
@@ -121,7 +155,14 @@ export async function updateCartItem(userId: string, itemId: string, quantity: n
 }
 
 export async function deleteCartItem(userId: string, itemId: string) {
-  const cart = await getOrCreateCart(userId);
+  await deleteItemFromCart(await getOrCreateCart(userId), itemId);
+}
+
+export async function deleteGuestCartItem(token: string, itemId: string) {
+  await deleteItemFromCart(await getGuestCart(token), itemId);
+}
+
+async function deleteItemFromCart(cart: CartRef, itemId: string) {
   const item = await prisma.cartItem.findUnique({ where: { id: itemId } });
   if (!item || item.cartId !== cart.id) {
     throw new ApiError(404, "not_found", "Cart item not found");
@@ -0,0 +1,349 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../config/prisma.js";
+import { logger } from "../config/logger.js";
+import { ApiError } from "../utils/apiError.js";
+import { writeAuditLog } from "./auditLogService.js";
+import { assertOrderTransition, transitionOrderStatus } from "./orderLifecycleService.js";
+import { applyPaymentOutcome } from "./paymentStatusService.js";
+
+type CodActor = {
+  id: string | null;
+  permissions: string[];
+};
+
+type DispatchCodOrderInput = {
+  orderId: string;
+  courierId: string;
+  actorId: string | null;
+};
+
+type RecordCodCollectionInput = {
+  orderId: string;
+  amount: number;
+  actor: CodActor;
+};
+
+type RecordCodFailureInput = {
+  orderId: string;
+  reason: string;
+  actor: CodActor;
+};
+
+type CodRemittanceQuery = {
+  date: string;
+  courierId?: string;
+};
+
+export const COD_PROVIDER = "COD";
+export const COURIER_PERMISSION = "cod:collect";
+const MANAGE_PERMISSION = "order:updateStatus";
+
+const courierSelect = { id: true, name: true, email: true } as const;
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+// Remittance days follow Africa/Maputo (UTC+2, no daylight saving), whatever the server timezone.
+const COD_DAY_UTC_OFFSET = "+02:00";
+
+function dayRange(date: string) {
+  const start = new Date(`${date}T00:00:00${COD_DAY_UTC_OFFSET}`);
+  return { start, end: new Date(start.getTime() + 24 * 60 * 60 * 1000) };
+}
+
+function audit(actorId: string | null, action: string, orderId: string, meta: Record<string, unknown>) {
+  void writeAuditLog(actorId, action, "order", orderId, meta).catch((err) => {
+    logger.warn({ err, orderId, action }, "Failed to write COD audit log");
+  });
+}
+
+async function findOpenDelivery(orderId: string, actor: CodActor) {
+  const delivery = await prisma.codDelivery.findUnique({ where: { orderId } });
+  if (!delivery) {
+    throw new ApiError(404, "not_found", "Order has not been dispatched for cash on delivery");
+  }
+  if (delivery.courierId !== actor.id && !actor.permissions.includes(MANAGE_PERMISSION)) {
+    throw new ApiError(403, "forbidden", "Delivery is assigned to another courier");
+  }
+  if (delivery.status !== "OUT_FOR_DELIVERY") {
+    throw new ApiError(409, "cod_delivery_closed", "Delivery already closed", { status: delivery.status });
+  }
+  return delivery;
+}
+
+/** Hands a confirmed COD order to a courier; re-dispatching an open delivery reassigns it. */
+export async function dispatchCodOrder(input: DispatchCodOrderInput) {
+  const order = await prisma.order.findUnique({
+    where: { id: input.orderId },
+    include: {
+      payments: { where: { provider: COD_PROVIDER, status: "AUTHORIZED" }, orderBy: { createdAt: "desc" }, take: 1 },
+      codDelivery: true
+    }
+  });
+  if (!order) {
+    throw new ApiError(404, "not_found", "Order not found");
+  }
+  if (order.status !== "SHIPPED") {
+    assertOrderTransition(order, "SHIPPED");
+  }
+  const attempt = order.payments[0];
+  if (!attempt) {
+    throw new ApiError(409, "cod_not_confirmed", "Order has no confirmed cash-on-delivery payment");
+  }
+  if (order.codDelivery && order.codDelivery.status !== "OUT_FOR_DELIVERY") {
+    throw new ApiError(409, "cod_delivery_closed", "Delivery already closed", { status: order.codDelivery.status });
+  }
+
+  const courier = await prisma.user.findUnique({
+    where: { id: input.courierId },
+    include: { role: { include: { permissions: { include: { permission: true } } } } }
+  });
+  const isCourier = courier?.role.permissions.some((rp) => rp.permission.code === COURIER_PERMISSION);
+  if (!courier || !isCourier) {
+    throw new ApiError(400, "invalid_courier", "User cannot collect cash-on-delivery payments");
+  }
+
+  const delivery = await prisma.codDelivery.upsert({
+    where: { orderId: order.id },
+    update: { courierId: courier.id },
+    create: {
+      orderId: order.id,
+      paymentId: attempt.id,
+      courierId: courier.id,
+      expectedAmount: attempt.amount
+    },
+    include: { courier: { select: courierSelect } }
+  });
+  await transitionOrderStatus({
+    orderId: order.id,
+    to: "SHIPPED",
+    actorId: input.actorId,
+    source: "cod_dispatch"
+  });
+
+  audit(input.actorId, "order.cod_dispatched", order.id, {
+    deliveryId: delivery.id,
+    courierId: courier.id,
+    previousCourierId: order.codDelivery?.courierId ?? null,
+    from: order.status,
+    to: "SHIPPED"
+  });
+  return delivery;
+}
+
+/** Closes the delivery only while it is still out, so a concurrent collect and fail cannot both win. */
+async function closeOpenDelivery(deliveryId: string, data: Prisma.CodDeliveryUncheckedUpdateManyInput) {
+  const closed = await prisma.codDelivery.updateMany({
+    where: { id: deliveryId, status: "OUT_FOR_DELIVERY" },
+    data
+  });
+  if (!closed.count) {
+    throw new ApiError(409, "cod_delivery_closed", "Delivery already closed");
+  }
+  return prisma.codDelivery.findUniqueOrThrow({
+    where: { id: deliveryId },
+    include: { courier: { select: courierSelect } }
+  });
+}
+
+/**
+ * Records the cash handed over by the customer. A collection short of the
+ * expected amount is rejected, so the COD attempt is only captured once the
+ * order is paid in full; change kept from an overpayment stays visible on
+ * the delivery row.
+ */
+export async function recordCodCollection(input: RecordCodCollectionInput) {
+  const delivery = await findOpenDelivery(input.orderId, input.actor);
+  const amount = roundMoney(input.amount);
+  const expected = Number(delivery.expectedAmount);
+  if (amount < expected) {
+    audit(input.actor.id, "order.cod_short_collection_rejected", input.orderId, {
+      deliveryId: delivery.id,
+      courierId: delivery.courierId,
+      expectedAmount: expected,
+      collectedAmount: amount
+    });
+    throw new ApiError(400, "cod_amount_short", "Collected amount is below the amount due", {
+      expectedAmount: expected,
+      collectedAmount: amount
+    });
+  }
+
+  const updated = await closeOpenDelivery(delivery.id, {
+    status: "COLLECTED",
+    collectedAmount: amount,
+    collectedAt: new Date()
+  });
+  await applyPaymentOutcome({
+    paymentId: delivery.paymentId,
+    outcome: "CAPTURED",
+    source: "cod_collection",
+    meta: { deliveryId: delivery.id, courierId: delivery.courierId }
+  });
+  await transitionOrderStatus({
+    orderId: input.orderId,
+    to: "DELIVERED",
+    actorId: input.actor.id,
+    source: "cod_collection"
+  });
+
+  audit(input.actor.id, "order.cod_collected", input.orderId, {
+    deliveryId: delivery.id,
+    courierId: delivery.courierId,
+    expectedAmount: expected,
+    collectedAmount: amount,
+    difference: roundMoney(amount - expected)
+  });
+  return updated;
+}
+
+/** Closes a delivery that could not be completed: the order is canceled and its stock returned. */
+export async function recordCodDeliveryFailure(input: RecordCodFailureInput) {
+  const delivery = await findOpenDelivery(input.orderId, input.actor);
+
+  const updated = await closeOpenDelivery(delivery.id, {
+    status: "FAILED",
+    failureReason: input.reason,
+    failedAt: new Date()
+  });
+  await applyPaymentOutcome({
+    paymentId: delivery.paymentId,
+    outcome: "FAILED",
+    source: "cod_delivery_failed",
+    meta: { deliveryId: delivery.id, reason: input.reason }
+  });
+  await transitionOrderStatus({
+    orderId: input.orderId,
+    to: "CANCELED",
+    actorId: input.actor.id,
+    source: "cod_delivery_failed",
+    reason: input.reason
+  });
+
+  audit(input.actor.id, "order.cod_delivery_failed", input.orderId, {
+    deliveryId: delivery.id,
+    courierId: delivery.courierId,
+    reason: input.reason,
+    to: "CANCELED"
+  });
+  return updated;
+}
+
+export async function listCodDeliveries(where: Prisma.CodDeliveryWhereInput, page: number, limit: number) {
+  const [items, total] = await prisma.$transaction([
+    prisma.codDelivery.findMany({
+      where,
+      include: {
+        courier: { select: courierSelect },
+        order: {
+          select: {
+            id: true,
+            orderNumber: true,
+            status: true,
+            total: true,
+            customerNameSnapshot: true,
+            customerPhoneSnapshot: true,
+            shippingAddressSnapshot: true
+          }
+        }
+      },
+      orderBy: { createdAt: "desc" },
+      skip: (page - 1) * limit,
+      take: limit
+    }),
+    prisma.codDelivery.count({ where })
+  ]);
+  return { items, page, limit, total };
+}
+
+/** Cash collected on `date` grouped by courier, split into what was already remitted and what is still owed. */
+export async function getCodRemittanceReport(query: CodRemittanceQuery) {
+  const { start, end } = dayRange(query.date);
+  const deliveries = await prisma.codDelivery.findMany({
+    where: {
+      status: "COLLECTED",
+      collectedAt: { gte: start, lt: end },
+      ...(query.courierId ? { courierId: query.courierId } : {})
+    },
+    include: {
+      courier: { select: courierSelect },
+      order: { select: { id: true, orderNumber: true } }
+    },
+    orderBy: { collectedAt: "asc" }
+  });
+
+  const byCourier = new Map<
+    string,
+    {
+      courier: (typeof deliveries)[number]["courier"];
+      deliveries: number;
+      collected: number;
+      remitted: number;
+      outstanding: number;
+      items: typeof deliveries;
+    }
+  >();
+  for (const delivery of deliveries) {
+    const entry = byCourier.get(delivery.courierId) ?? {
+      courier: delivery.courier,
+      deliveries: 0,
+      collected: 0,
+      remitted: 0,
+      outstanding: 0,
+      items: [] as typeof deliveries
+    };
+    const amount = Number(delivery.collectedAmount ?? 0);
+    entry.deliveries += 1;
+    entry.collected = roundMoney(entry.collected + amount);
+    if (delivery.remittedAt) {
+      entry.remitted = roundMoney(entry.remitted + amount);
+    } else {
+      entry.outstanding = roundMoney(entry.outstanding + amount);
+    }
+    entry.items.push(delivery);
+    byCourier.set(delivery.courierId, entry);
+  }
+
+  const couriers = [...byCourier.values()].sort((a, b) => b.outstanding - a.outstanding);
+  return {
+    date: query.date,
+    couriers,
+    totals: {
+      collected: roundMoney(couriers.reduce((sum, entry) => sum + entry.collected, 0)),
+      remitted: roundMoney(couriers.reduce((sum, entry) => sum + entry.remitted, 0)),
+      outstanding: roundMoney(couriers.reduce((sum, entry) => sum + entry.outstanding, 0))
+    }
+  };
+}
+
+/** Marks every collection of the courier on `date` that is still outstanding as handed in. */
+export async function markCodRemitted(input: { courierId: string; date: string; actorId: string | null }) {
+  const { start, end } = dayRange(input.date);
+  const where: Prisma.CodDeliveryWhereInput = {
+    courierId: input.courierId,
+    status: "COLLECTED",
+    remittedAt: null,
+    collectedAt: { gte: start, lt: end }
+  };
+  // The sum covers exactly the rows this call stamped; a concurrent call waits on the row locks and skips them.
+  const remittedAt = new Date();
+  const { result, marked } = await prisma.$transaction(async (tx) => {
+    const result = await tx.codDelivery.updateMany({ where, data: { remittedAt, remittedById: input.actorId } });
+    const marked = await tx.codDelivery.aggregate({
+      where: { courierId: input.courierId, remittedAt, remittedById: input.actorId },
+      _sum: { collectedAmount: true }
+    });
+    return { result, marked };
+  });
+  const amount = Number(marked._sum.collectedAmount ?? 0);
+
+  void writeAuditLog(input.actorId, "cod.remitted", "user", input.courierId, {
+    date: input.date,
+    deliveries: result.count,
+    amount
+  }).catch((err) => {
+    logger.warn({ err, courierId: input.courierId }, "Failed to write COD remittance audit log");
+  });
+  return { courierId: input.courierId, date: input.date, deliveries: result.count, amount };
+}
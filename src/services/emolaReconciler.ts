@@ -0,0 +1,86 @@
+import { prisma } from "../config/prisma.js";
+import { logger } from "../config/logger.js";
+import { queryEmolaPaymentStatus } from "./emolaService.js";
+import { applyPaymentOutcome } from "./paymentStatusService.js";
+
+const RECONCILE_INTERVAL_MS = Number(process.env.EMOLA_RECONCILE_INTERVAL_MS || 5 * 60 * 1000);
+const RECONCILE_MIN_AGE_MS = Number(process.env.EMOLA_RECONCILE_MIN_AGE_MS || 2 * 60 * 1000);
+const RECONCILE_MAX_AGE_MS = Number(process.env.EMOLA_RECONCILE_MAX_AGE_MS || 60 * 60 * 1000);
+const RECONCILE_BATCH_SIZE = Number(process.env.EMOLA_RECONCILE_BATCH_SIZE || 25);
+
+let running = false;
+
+/**
+ * Settles e-Mola prompts whose callback never arrived: attempts still waiting
+ * on the customer (PENDING) or accepted by e-Mola but not yet confirmed
+ * (AUTHORIZED, which holds stock), as long as they carry a transaction id.
+ */
+export async function reconcilePendingEmolaPayments() {
+  if (running) return { checked: 0, captured: 0, failed: 0 };
+  running = true;
+  const summary = { checked: 0, captured: 0, failed: 0 };
+
+  try {
+    const now = Date.now();
+    const payments = await prisma.paymentAttempt.findMany({
+      where: {
+        provider: "EMOLA",
+        status: { in: ["PENDING", "AUTHORIZED"] },
+        externalRef: { not: null },
+        updatedAt: { lt: new Date(now - RECONCILE_MIN_AGE_MS) }
+      },
+      orderBy: { updatedAt: "asc" },
+      take: RECONCILE_BATCH_SIZE
+    });
+
+    for (const payment of payments) {
+      summary.checked += 1;
+      const expired = now - payment.createdAt.getTime() > RECONCILE_MAX_AGE_MS;
+
+      try {
+        const result = await queryEmolaPaymentStatus({ transactionId: payment.externalRef as string });
+        if (result.transactionStatus === "COMPLETED") {
+          await applyPaymentOutcome({
+            paymentId: payment.id,
+            outcome: "CAPTURED",
+            source: "emola_reconciler",
+            meta: { responseCode: result.responseCode }
+          });
+          summary.captured += 1;
+        } else if (result.transactionStatus === "FAILED" || expired) {
+          await applyPaymentOutcome({
+            paymentId: payment.id,
+            outcome: "FAILED",
+            source: "emola_reconciler",
+            meta: { responseCode: result.responseCode, responseDesc: result.responseDesc, expired }
+          });
+          summary.failed += 1;
+        } else {
+          await prisma.paymentAttempt.update({ where: { id: payment.id }, data: { updatedAt: new Date() } });
+        }
+      } catch (err) {
+        logger.warn({ err, paymentId: payment.id }, "e-Mola reconciliation failed for payment");
+      }
+    }
+
+    if (summary.checked) {
+      logger.info({ event: "emola_reconciliation", ...summary }, "e-Mola reconciliation run finished");
+    }
+    return summary;
+  } finally {
+    running = false;
+  }
+}
+
+export function startEmolaReconciler() {
+  if (!process.env.EMOLA_BASE_URL || process.env.EMOLA_RECONCILE_ENABLED === "false") {
+    return null;
+  }
+  const timer = setInterval(() => {
+    reconcilePendingEmolaPayments().catch((err) => {
+      logger.error({ err }, "e-Mola reconciliation run failed");
+    });
+  }, RECONCILE_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,249 @@
+import crypto from "crypto";
+
+type EmolaConfig = {
+  baseUrl: string;
+  partnerCode: string;
+  apiKey: string;
+  apiSecret: string;
+  c2bPath: string;
+  statusPath: string;
+  currency: string;
+  description: string;
+  callbackUrl?: string;
+  timeoutMs: number;
+};
+
+export type EmolaPaymentResult = {
+  ok: boolean;
+  /** The prompt reached the customer; the payment settles later (callback or status query). */
+  pending: boolean;
+  responseCode: string | null;
+  responseDesc: string | null;
+  transactionId: string | null;
+  raw: unknown;
+};
+
+type EmolaPaymentInput = {
+  amount: number;
+  customerMsisdn: string;
+  orderId: string;
+  paymentId: string;
+};
+
+export type EmolaTransactionStatus = "COMPLETED" | "PENDING" | "FAILED" | "UNKNOWN";
+
+export type EmolaStatusResult = {
+  ok: boolean;
+  responseCode: string | null;
+  responseDesc: string | null;
+  transactionStatus: EmolaTransactionStatus;
+  raw: unknown;
+};
+
+const DEFAULT_C2B_PATH = "/api/v1/payments/c2b";
+const DEFAULT_STATUS_PATH = "/api/v1/payments/status";
+
+const EMOLA_RESPONSE_CODES: Record<string, { ok: boolean; pending?: boolean; message: string }> = {
+  "0": { ok: true, message: "Pagamento aceite" },
+  "00": { ok: true, message: "Pagamento aceite" },
+  "01": { ok: true, pending: true, message: "Pedido enviado ao cliente" },
+  "10": { ok: false, message: "Saldo e-Mola insuficiente" },
+  "11": { ok: false, message: "Numero e-Mola invalido ou nao registado" },
+  "12": { ok: false, message: "Limite de transacao excedido" },
+  "13": { ok: false, message: "Pagamento cancelado pelo cliente" },
+  "14": { ok: false, message: "Tempo de confirmacao esgotado" },
+  "20": { ok: false, message: "Referencia de transacao duplicada" },
+  "30": { ok: false, message: "Assinatura invalida" },
+  "99": { ok: false, message: "Erro interno e-Mola" }
+};
+
+function getEmolaConfig(): EmolaConfig {
+  const baseUrl = process.env.EMOLA_BASE_URL;
+  const partnerCode = process.env.EMOLA_PARTNER_CODE;
+  const apiKey = process.env.EMOLA_API_KEY;
+  const apiSecret = process.env.EMOLA_API_SECRET;
+  if (!baseUrl || !partnerCode || !apiKey || !apiSecret) {
+    throw new Error("EMOLA credentials not configured");
+  }
+  return {
+    baseUrl: baseUrl.replace(/\/+$/, ""),
+    partnerCode,
+    apiKey,
+    apiSecret,
+    c2bPath: process.env.EMOLA_C2B_PATH || DEFAULT_C2B_PATH,
+    statusPath: process.env.EMOLA_STATUS_PATH || DEFAULT_STATUS_PATH,
+    currency: process.env.EMOLA_CURRENCY || "MZN",
+    description: process.env.EMOLA_PURCHASE_DESC || "AMBEBE purchase",
+    callbackUrl: process.env.EMOLA_CALLBACK_URL || undefined,
+    timeoutMs: Number(process.env.EMOLA_TIMEOUT_MS || 15000)
+  };
+}
+
+function signEmolaRequest(secret: string, timestamp: string, body: string) {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+function safeJsonParse(payload: string) {
+  if (!payload) return null;
+  try {
+    return JSON.parse(payload);
+  } catch {
+    return payload;
+  }
+}
+
+function extractString(payload: unknown, keys: string[]) {
+  if (!payload || typeof payload !== "object") return null;
+  const record = payload as Record<string, unknown>;
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === "string" && value.trim()) {
+      return value;
+    }
+    if (typeof value === "number" && Number.isFinite(value)) {
+      return String(value);
+    }
+  }
+  return null;
+}
+
+function makeReference(prefix: string, id: string) {
+  const compact = id.replace(/-/g, "").toUpperCase();
+  return `${prefix}${compact.slice(0, 16)}`;
+}
+
+export function mapEmolaResponseCode(code: string | null): { ok: boolean; pending?: boolean; message: string } {
+  if (!code) {
+    return { ok: false, message: "Resposta e-Mola sem codigo" };
+  }
+  return EMOLA_RESPONSE_CODES[code] ?? { ok: false, message: `Codigo e-Mola desconhecido: ${code}` };
+}
+
+/** Final state of a transaction from a callback or status query; unknown codes stay UNKNOWN. */
+export function mapEmolaTransactionStatus(code: string | null): EmolaTransactionStatus {
+  if (!code || !EMOLA_RESPONSE_CODES[code]) return "UNKNOWN";
+  const mapped = EMOLA_RESPONSE_CODES[code];
+  if (mapped.pending) return "PENDING";
+  return mapped.ok ? "COMPLETED" : "FAILED";
+}
+
+export function normalizeEmolaMsisdn(raw: string) {
+  const digits = raw.replace(/\D/g, "");
+  if (!digits) {
+    throw new Error("Numero e-Mola invalido");
+  }
+  let local = digits;
+  if (local.startsWith("258")) {
+    local = local.slice(3);
+  } else if (local.startsWith("0")) {
+    local = local.slice(1);
+  }
+  if (!/^8[67]\d{7}$/.test(local)) {
+    throw new Error("Numero e-Mola invalido (use um numero Movitel 86/87)");
+  }
+  return `258${local}`;
+}
+
+export async function createEmolaPayment(input: EmolaPaymentInput): Promise<EmolaPaymentResult> {
+  const config = getEmolaConfig();
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), config.timeoutMs);
+
+  const payload = {
+    partnerCode: config.partnerCode,
+    transactionReference: makeReference("EM", input.paymentId),
+    thirdPartyReference: makeReference("TP", input.orderId),
+    msisdn: input.customerMsisdn,
+    amount: Number(input.amount).toFixed(2),
+    currency: config.currency,
+    description: config.description,
+    ...(config.callbackUrl ? { callbackUrl: config.callbackUrl } : {})
+  };
+  const body = JSON.stringify(payload);
+  const timestamp = new Date().toISOString();
+
+  try {
+    const response = await fetch(`${config.baseUrl}${config.c2bPath}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Api-Key": config.apiKey,
+        "X-Partner-Code": config.partnerCode,
+        "X-Timestamp": timestamp,
+        "X-Signature": signEmolaRequest(config.apiSecret, timestamp, body)
+      },
+      body,
+      signal: controller.signal
+    });
+
+    const text = await response.text();
+    const data = safeJsonParse(text);
+    const responseCode = extractString(data, ["responseCode", "errorCode", "code"]);
+    const mapped = mapEmolaResponseCode(responseCode);
+    const responseDesc = extractString(data, ["responseDesc", "message", "description"]) ?? mapped.message;
+    const transactionId = extractString(data, ["transactionId", "transactionID", "emolaTransactionId"]);
+
+    return {
+      ok: response.ok && mapped.ok,
+      pending: Boolean(mapped.pending),
+      responseCode,
+      responseDesc,
+      transactionId,
+      raw: { payment: data, transactionReference: payload.transactionReference }
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      pending: false,
+      responseCode: null,
+      responseDesc: error instanceof Error ? error.message : "Falha ao contactar e-Mola",
+      transactionId: null,
+      raw: { error: error instanceof Error ? error.message : error }
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+export async function queryEmolaPaymentStatus(input: { transactionId: string }): Promise<EmolaStatusResult> {
+  const config = getEmolaConfig();
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), config.timeoutMs);
+  const params = new URLSearchParams({ partnerCode: config.partnerCode, transactionId: input.transactionId });
+  const query = params.toString();
+  const timestamp = new Date().toISOString();
+
+  try {
+    const response = await fetch(`${config.baseUrl}${config.statusPath}?${query}`, {
+      method: "GET",
+      headers: {
+        "X-Api-Key": config.apiKey,
+        "X-Partner-Code": config.partnerCode,
+        "X-Timestamp": timestamp,
+        "X-Signature": signEmolaRequest(config.apiSecret, timestamp, query)
+      },
+      signal: controller.signal
+    });
+    const text = await response.text();
+    const data = safeJsonParse(text);
+    const responseCode = extractString(data, ["transactionStatus", "responseCode", "code"]);
+    const responseDesc = extractString(data, ["responseDesc", "message", "description"]);
+    return {
+      ok: response.ok,
+      responseCode,
+      responseDesc,
+      transactionStatus: response.ok ? mapEmolaTransactionStatus(responseCode) : "UNKNOWN",
+      raw: data
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      responseCode: null,
+      responseDesc: error instanceof Error ? error.message : "Falha ao contactar e-Mola",
+      transactionStatus: "UNKNOWN",
+      raw: { error: error instanceof Error ? error.message : error }
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
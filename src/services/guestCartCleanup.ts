@@ -0,0 +1,67 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../config/prisma.js";
+import { logger } from "../config/logger.js";
+
+const CLEANUP_INTERVAL_MS = Number(process.env.GUEST_CART_CLEANUP_INTERVAL_MS || 60 * 60 * 1000);
+const CLEANUP_BATCH_SIZE = Number(process.env.GUEST_CART_CLEANUP_BATCH_SIZE || 200);
+const GUEST_CART_TTL_MS = Number(process.env.GUEST_CART_TTL_DAYS || 30) * 24 * 60 * 60 * 1000;
+
+let running = false;
+
+/**
+ * Deletes guest carts nobody has touched for `GUEST_CART_TTL_DAYS`. The cart row
+ * is only written on creation, so activity is read from its items as well.
+ */
+export async function deleteAbandonedGuestCarts() {
+  if (running) return { deleted: 0 };
+  running = true;
+  const summary = { deleted: 0 };
+
+  try {
+    const cutoff = new Date(Date.now() - GUEST_CART_TTL_MS);
+    const where: Prisma.CartWhereInput = {
+      guestTokenHash: { not: null },
+      updatedAt: { lt: cutoff },
+      items: { none: { updatedAt: { gte: cutoff } } }
+    };
+
+    while (true) {
+      const carts = await prisma.cart.findMany({
+        where,
+        select: { id: true },
+        orderBy: { updatedAt: "asc" },
+        take: CLEANUP_BATCH_SIZE
+      });
+      if (!carts.length) break;
+
+      const ids = carts.map((cart) => cart.id);
+      // Both deletes re-check the filter so a cart that got an item since the lookup is kept.
+      const [, deleted] = await prisma.$transaction([
+        prisma.cartItem.deleteMany({ where: { cartId: { in: ids }, cart: where } }),
+        prisma.cart.deleteMany({ where: { id: { in: ids }, ...where } })
+      ]);
+      summary.deleted += deleted.count;
+      if (carts.length < CLEANUP_BATCH_SIZE) break;
+    }
+
+    if (summary.deleted) {
+      logger.info({ event: "guest_cart_cleanup", ...summary }, "Guest cart cleanup finished");
+    }
+    return summary;
+  } finally {
+    running = false;
+  }
+}
+
+export function startGuestCartCleanup() {
+  if (process.env.GUEST_CART_CLEANUP_ENABLED === "false") {
+    return null;
+  }
+  const timer = setInterval(() => {
+    deleteAbandonedGuestCarts().catch((err) => {
+      logger.error({ err }, "Guest cart cleanup failed");
+    });
+  }, CLEANUP_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,274 @@
+import fs from "fs/promises";
+import path from "path";
+import PDFDocument from "pdfkit";
+import { Prisma } from "@prisma/client";
+import { env } from "../config/env.js";
+import { prisma } from "../config/prisma.js";
+import { logger } from "../config/logger.js";
+import { ApiError } from "../utils/apiError.js";
+import { buildOrderLookupUrl } from "../utils/orderLookup.js";
+import { sendPaymentConfirmationEmail } from "./mailService.js";
+
+const INVOICEABLE_PAYMENT_STATUSES = new Set(["CAPTURED", "REFUNDED"]);
+const DEFAULT_BRAND_NAME = "AMBEBE CORP";
+const LOGO_FETCH_TIMEOUT_MS = 5000;
+
+type InvoiceOrder = Prisma.OrderGetPayload<{ include: { items: true; invoice: true } }>;
+
+export type InvoiceDocument = {
+  number: string;
+  filename: string;
+  content: Buffer;
+};
+
+function toNumber(value: Prisma.Decimal | number | null | undefined) {
+  return value === null || value === undefined ? 0 : Number(value);
+}
+
+function formatMoney(value: number, currency: string) {
+  return `${value.toFixed(2)} ${currency}`;
+}
+
+function formatRate(rate: number) {
+  return `${Number((rate * 100).toFixed(2))}%`;
+}
+
+function readTaxLines(value: Prisma.JsonValue | null) {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((line): line is Prisma.JsonObject => Boolean(line) && typeof line === "object" && !Array.isArray(line))
+    .map((line) => ({ rate: Number(line.rate ?? 0), tax: Number(line.tax ?? 0) }))
+    .filter((line) => line.tax > 0);
+}
+
+function formatDate(value: Date) {
+  return value.toISOString().slice(0, 10);
+}
+
+async function generateNextInvoiceNumber(tx: Prisma.TransactionClient, date: Date) {
+  const prefix = `FT-${date.getFullYear()}-`;
+  const last = await tx.invoice.findFirst({
+    where: { number: { startsWith: prefix } },
+    orderBy: { number: "desc" },
+    select: { number: true }
+  });
+  const lastSeq = Number.parseInt(last?.number.slice(prefix.length) ?? "0", 10);
+  const nextSeq = Number.isFinite(lastSeq) ? lastSeq + 1 : 1;
+  return `${prefix}${String(nextSeq).padStart(6, "0")}`;
+}
+
+/**
+ * Returns the order's invoice, issuing it on first use. Numbers are
+ * sequential per year (`FT-2026-000001`) and independent from orderNumber;
+ * only orders whose payment was captured can be invoiced.
+ */
+export async function issueInvoice(orderId: string) {
+  const attempts = 3;
+  for (let attempt = 1; attempt <= attempts; attempt += 1) {
+    const order = await prisma.order.findUnique({ where: { id: orderId }, include: { invoice: true } });
+    if (!order) {
+      throw new ApiError(404, "not_found", "Order not found");
+    }
+    if (order.invoice) {
+      return order.invoice;
+    }
+    if (!INVOICEABLE_PAYMENT_STATUSES.has(order.paymentStatus)) {
+      throw new ApiError(409, "invoice_not_available", "Invoices are only issued for paid orders", {
+        paymentStatus: order.paymentStatus
+      });
+    }
+
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const issuedAt = new Date();
+        return tx.invoice.create({
+          data: {
+            number: await generateNextInvoiceNumber(tx, issuedAt),
+            orderId: order.id,
+            total: order.total,
+            currency: order.currency,
+            issuedAt
+          }
+        });
+      });
+    } catch (error) {
+      // Either a concurrent issue for the same order (orderId) or for the same number; retry both.
+      const isUniqueConflict = error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+      if (!isUniqueConflict || attempt === attempts) {
+        throw error;
+      }
+    }
+  }
+  throw new ApiError(500, "invoice_number_generation_failed", "Could not generate invoice number");
+}
+
+function isSupportedImage(buffer: Buffer) {
+  const isPng = buffer.length > 8 && buffer.readUInt32BE(0) === 0x89504e47;
+  const isJpeg = buffer.length > 3 && buffer[0] === 0xff && buffer[1] === 0xd8;
+  return isPng || isJpeg;
+}
+
+/** Loads the Branding logo (local upload or remote URL); PDFKit only embeds PNG/JPEG. */
+async function loadBrandingLogo() {
+  try {
+    const branding = await prisma.branding.findUnique({
+      where: { key: "default" },
+      select: { logoUrl: true, logoKey: true }
+    });
+    let buffer: Buffer | null = null;
+    if (branding?.logoKey && env.storageProvider === "local") {
+      buffer = await fs.readFile(path.join(env.uploadDir, branding.logoKey));
+    } else if (branding?.logoUrl && /^https?:\/\//i.test(branding.logoUrl)) {
+      const response = await fetch(branding.logoUrl, { signal: AbortSignal.timeout(LOGO_FETCH_TIMEOUT_MS) });
+      buffer = response.ok ? Buffer.from(await response.arrayBuffer()) : null;
+    }
+    return buffer && isSupportedImage(buffer) ? buffer : null;
+  } catch (err) {
+    logger.warn({ err }, "Failed to load branding logo for invoice");
+    return null;
+  }
+}
+
+function readAddressLines(snapshot: Prisma.JsonValue | null) {
+  if (!snapshot || typeof snapshot !== "object" || Array.isArray(snapshot)) return [];
+  const address = snapshot as Record<string, unknown>;
+  const text = (key: string) => (typeof address[key] === "string" ? (address[key] as string) : "");
+  return [
+    text("line1"),
+    text("line2"),
+    [text("city"), text("state"), text("postalCode")].filter(Boolean).join(", "),
+    text("country")
+  ].filter(Boolean);
+}
+
+function renderPdf(order: InvoiceOrder, invoice: { number: string; issuedAt: Date }, logo: Buffer | null) {
+  const brandName = (process.env.BRAND_NAME || "").trim() || DEFAULT_BRAND_NAME;
+  const doc = new PDFDocument({ size: "A4", margin: 50, info: { Title: `Fatura ${invoice.number}`, Author: brandName } });
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  if (logo) {
+    doc.image(logo, 50, 45, { fit: [120, 60] });
+  }
+  doc.fontSize(10).text(brandName, 300, 50, { align: "right" });
+  doc.fontSize(18).text(`Fatura ${invoice.number}`, 300, 68, { align: "right" });
+  doc
+    .fontSize(10)
+    .text(`Data de emissao: ${formatDate(invoice.issuedAt)}`, 300, 92, { align: "right" })
+    .text(`Pedido: ${order.orderNumber ?? order.id}`, { align: "right" });
+
+  // Company invoices are addressed to the billing profile; the buyer is kept as the contact.
+  const clientLines = order.billingCompanySnapshot
+    ? [
+        order.billingCompanySnapshot,
+        order.billingNuitSnapshot ? `NUIT: ${order.billingNuitSnapshot}` : null,
+        ...readAddressLines(order.billingProfileSnapshot),
+        order.customerNameSnapshot ? `Contacto: ${order.customerNameSnapshot}` : null,
+        order.customerEmailSnapshot
+      ]
+    : [
+        order.customerNameSnapshot,
+        order.customerEmailSnapshot,
+        order.customerPhoneSnapshot,
+        ...readAddressLines(order.shippingAddressSnapshot)
+      ];
+  doc.moveDown(3).fontSize(11).text("Cliente", 50).fontSize(10);
+  for (const line of clientLines) {
+    if (line) doc.text(line);
+  }
+
+  const columns = { description: 50, quantity: 320, unit: 380, total: 470 };
+  doc.moveDown(2);
+  let y = doc.y;
+  doc
+    .fontSize(10)
+    .text("Descricao", columns.description, y)
+    .text("Qtd", columns.quantity, y)
+    .text("Preco", columns.unit, y)
+    .text("Total", columns.total, y);
+  doc.moveTo(50, y + 14).lineTo(545, y + 14).stroke();
+  y += 22;
+
+  let subtotal = 0;
+  for (const item of order.items) {
+    const unit = toNumber(item.priceSnapshot);
+    const lineTotal = unit * item.quantity;
+    subtotal += lineTotal;
+    doc.text(`${item.nameSnapshot} (${item.skuSnapshot})`, columns.description, y, { width: 260 });
+    const rowHeight = Math.max(doc.y - y, 14);
+    doc
+      .text(String(item.quantity), columns.quantity, y)
+      .text(formatMoney(unit, order.currency), columns.unit, y)
+      .text(formatMoney(lineTotal, order.currency), columns.total, y);
+    y += rowHeight + 6;
+  }
+
+  doc.moveTo(50, y).lineTo(545, y).stroke();
+  y += 10;
+  const discount = toNumber(order.discountTotal);
+  const totals: [string, number][] = [["Subtotal", subtotal]];
+  if (discount > 0) {
+    totals.push([order.couponCode ? `Desconto (${order.couponCode})` : "Desconto", -discount]);
+  }
+  const shippingFee = toNumber(order.shippingFee);
+  if (shippingFee > 0 || order.shippingMethodName) {
+    totals.push([order.shippingMethodName ? `Entrega (${order.shippingMethodName})` : "Entrega", shippingFee]);
+  }
+  const taxLines = readTaxLines(order.taxLines);
+  if (!order.pricesIncludeTax) {
+    for (const line of taxLines) totals.push([`IVA ${formatRate(line.rate)}`, line.tax]);
+  }
+  totals.push(["Total", toNumber(order.total)]);
+  if (order.pricesIncludeTax) {
+    for (const line of taxLines) totals.push([`IVA incl. ${formatRate(line.rate)}`, line.tax]);
+  }
+  for (const [label, value] of totals) {
+    doc.text(label, columns.unit, y).text(formatMoney(value, order.currency), columns.total, y);
+    y += 16;
+  }
+
+  doc.end();
+  return done;
+}
+
+/** Issues the invoice if needed and renders it as a PDF. */
+export async function getInvoiceDocument(orderId: string): Promise<InvoiceDocument> {
+  const invoice = await issueInvoice(orderId);
+  const order = await prisma.order.findUniqueOrThrow({ where: { id: orderId }, include: { items: true, invoice: true } });
+  const content = await renderPdf(order, invoice, await loadBrandingLogo());
+  return { number: invoice.number, filename: `fatura-${invoice.number}.pdf`, content };
+}
+
+/**
+ * Sends the payment confirmation email with the invoice attached. The email
+ * still goes out without the attachment if the invoice cannot be rendered.
+ */
+export async function sendPaymentConfirmation(orderId: string) {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: { user: { select: { email: true, name: true } } }
+  });
+  const email = order?.customerEmailSnapshot || order?.user?.email;
+  if (!order || !email) return;
+
+  let invoice: InvoiceDocument | null = null;
+  try {
+    invoice = await getInvoiceDocument(order.id);
+  } catch (err) {
+    logger.warn({ err, orderId }, "Invoice could not be attached to payment confirmation");
+  }
+
+  await sendPaymentConfirmationEmail({
+    email,
+    name: order.customerNameSnapshot || order.user?.name,
+    orderId: order.id,
+    orderNumber: order.orderNumber,
+    total: formatMoney(toNumber(order.total), order.currency),
+    invoice,
+    orderUrl: order.userId ? undefined : buildOrderLookupUrl(order.id)
+  });
+}
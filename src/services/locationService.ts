@@ -0,0 +1,246 @@
+import { MOZAMBIQUE_PROVINCES } from "../data/mozambiqueLocations.js";
+
+export type Neighbourhood = { code: string; name: string };
+
+export type District = {
+  code: string;
+  name: string;
+  provinceCode: string;
+  neighbourhoods: Neighbourhood[];
+};
+
+export type Province = {
+  code: string;
+  name: string;
+  districts: District[];
+};
+
+/** Free-text parts of an address that are checked against the reference data for Mozambique. */
+export type AddressRegionInput = {
+  country: string;
+  state?: string | null;
+  city?: string | null;
+  provinceCode?: string | null;
+  districtCode?: string | null;
+  neighbourhood?: string | null;
+};
+
+export type AddressRegion = {
+  state: string | null;
+  city: string | null;
+  provinceCode: string | null;
+  districtCode: string | null;
+  neighbourhood: string | null;
+  neighbourhoodCode: string | null;
+};
+
+/** Province and optional district of a shipping zone. */
+export type ZoneRegion = {
+  state: string | null;
+  city: string | null;
+  provinceCode: string | null;
+  districtCode: string | null;
+};
+
+export type AddressRegionIssue = {
+  field: "state" | "city";
+  code: "invalid_province" | "invalid_district";
+  message: string;
+};
+
+const MOZAMBIQUE = "MZ";
+
+/** Accent, case and punctuation-insensitive key: "Xai Xai" and "Xai-Xai" match. */
+function placeKey(value: string) {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+}
+
+function codeSegment(value: string) {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+const provinces: Province[] = [];
+const provinceByCode = new Map<string, Province>();
+const provinceByKey = new Map<string, Province>();
+const districtByCode = new Map<string, District>();
+const districtKeys = new Map<string, Map<string, District>>();
+/** City-provinces by the names of their city ("Maputo", "Maputo Cidade", ...). */
+const cityProvinceByKey = new Map<string, Province>();
+const cityNameByProvince = new Map<string, string>();
+
+for (const source of MOZAMBIQUE_PROVINCES) {
+  const province: Province = { code: source.code, name: source.name, districts: [] };
+  const keys = new Map<string, District>();
+  for (const entry of source.districts) {
+    const district = typeof entry === "string" ? { name: entry } : entry;
+    const code = `${source.code}-${codeSegment(district.name)}`;
+    const item: District = {
+      code,
+      name: district.name,
+      provinceCode: source.code,
+      neighbourhoods: (district.neighbourhoods ?? []).map((name) => ({ code: `${code}-${codeSegment(name)}`, name }))
+    };
+    province.districts.push(item);
+    districtByCode.set(code, item);
+    for (const name of [district.name, ...(district.aliases ?? [])]) keys.set(placeKey(name), item);
+  }
+  provinces.push(province);
+  provinceByCode.set(province.code, province);
+  for (const name of [source.name, ...(source.aliases ?? [])]) provinceByKey.set(placeKey(name), province);
+  districtKeys.set(province.code, keys);
+  if (source.cityNames?.length) {
+    cityNameByProvince.set(province.code, source.cityNames[0]);
+    for (const name of [...source.cityNames, source.name, ...(source.aliases ?? [])]) {
+      cityProvinceByKey.set(placeKey(name), province);
+    }
+  }
+}
+
+export function listProvinces() {
+  return provinces.map((province) => ({ code: province.code, name: province.name }));
+}
+
+export function findProvince(code: string) {
+  return provinceByCode.get(code.trim().toUpperCase()) ?? null;
+}
+
+export function findDistrict(code: string) {
+  return districtByCode.get(code.trim().toUpperCase()) ?? null;
+}
+
+function matchProvince(code?: string | null, name?: string | null) {
+  if (code) return findProvince(code);
+  return name ? provinceByKey.get(placeKey(name)) ?? null : null;
+}
+
+function matchDistrict(province: Province, code?: string | null, name?: string | null) {
+  if (code) {
+    const district = findDistrict(code);
+    return district?.provinceCode === province.code ? district : null;
+  }
+  return name ? districtKeys.get(province.code)?.get(placeKey(name)) ?? null : null;
+}
+
+/**
+ * The city-province named by `city` when the address means the whole city
+ * rather than one of its districts. Besides the city-province itself, a
+ * province matched by a state that also names the city gives way to it:
+ * "Maputo" is the province around the city, but "Maputo, Maputo" means the
+ * city. An explicit province code never does.
+ */
+function matchCityProvince(province: Province, input: Pick<AddressRegionInput, "state" | "provinceCode" | "city">) {
+  const cityKey = input.city ? placeKey(input.city) : "";
+  const cityProvince = cityProvinceByKey.get(cityKey);
+  if (!cityProvince || districtKeys.get(province.code)?.has(cityKey)) return null;
+  if (cityProvince === province) return cityProvince;
+  const stateNamesCity =
+    !input.provinceCode && !!input.state && cityProvinceByKey.get(placeKey(input.state)) === cityProvince;
+  return stateNamesCity ? cityProvince : null;
+}
+
+function matchNeighbourhood(districts: District[], name: string) {
+  const key = placeKey(name);
+  for (const district of districts) {
+    const neighbourhood = district.neighbourhoods.find((entry) => placeKey(entry.name) === key);
+    if (neighbourhood) return { district, neighbourhood };
+  }
+  return null;
+}
+
+/**
+ * Checks a Mozambican address against the reference data and returns its
+ * canonical province and district names and codes. Province and district can
+ * come as codes or names; in Maputo city a known neighbourhood is enough to
+ * find the district, and the city name alone is accepted without a district.
+ * Other countries keep their free-text state and city.
+ */
+export function resolveAddressRegion(
+  input: AddressRegionInput
+): { region: AddressRegion; issue?: never } | { region?: never; issue: AddressRegionIssue } {
+  const neighbourhoodText = input.neighbourhood?.trim() || null;
+  if (input.country.trim().toUpperCase() !== MOZAMBIQUE) {
+    return {
+      region: {
+        state: input.state?.trim() || null,
+        city: input.city?.trim() || null,
+        provinceCode: null,
+        districtCode: null,
+        neighbourhood: neighbourhoodText,
+        neighbourhoodCode: null
+      }
+    };
+  }
+
+  const matched = matchProvince(input.provinceCode, input.state);
+  if (!matched) {
+    return { issue: { field: "state", code: "invalid_province", message: "Provincia desconhecida" } };
+  }
+  const cityProvince = input.districtCode ? null : matchCityProvince(matched, input);
+  const province = cityProvince ?? matched;
+  let district = cityProvince ? null : matchDistrict(province, input.districtCode, input.city);
+  const known = neighbourhoodText
+    ? matchNeighbourhood(district ? [district] : input.districtCode ? [] : province.districts, neighbourhoodText)
+    : null;
+  district = district ?? known?.district ?? null;
+  if (!district && !cityProvince) {
+    return {
+      issue: { field: "city", code: "invalid_district", message: `Distrito desconhecido na provincia ${province.name}` }
+    };
+  }
+
+  return {
+    region: {
+      state: province.name,
+      city: district?.name ?? cityNameByProvince.get(province.code) ?? null,
+      provinceCode: province.code,
+      districtCode: district?.code ?? null,
+      neighbourhood: known?.neighbourhood.name ?? neighbourhoodText,
+      neighbourhoodCode: known?.neighbourhood.code ?? null
+    }
+  };
+}
+
+/**
+ * Same lookup for shipping zones, where the district is optional: a zone
+ * without one covers the whole province.
+ */
+export function resolveZoneRegion(
+  input: Omit<AddressRegionInput, "neighbourhood">
+): { region: ZoneRegion; issue?: never } | { region?: never; issue: AddressRegionIssue } {
+  const state = input.state?.trim() || null;
+  const city = input.city?.trim() || null;
+  if (input.country.trim().toUpperCase() !== MOZAMBIQUE) {
+    return { region: { state, city, provinceCode: null, districtCode: null } };
+  }
+  if (!state && !input.provinceCode && !city && !input.districtCode) {
+    return { region: { state: null, city: null, provinceCode: null, districtCode: null } };
+  }
+
+  const matched = matchProvince(input.provinceCode, state);
+  if (!matched) {
+    return { issue: { field: "state", code: "invalid_province", message: "Provincia desconhecida" } };
+  }
+  const cityProvince = input.districtCode ? null : matchCityProvince(matched, { ...input, state, city });
+  const province = cityProvince ?? matched;
+  if (cityProvince || (!city && !input.districtCode)) {
+    return { region: { state: province.name, city: null, provinceCode: province.code, districtCode: null } };
+  }
+  const district = matchDistrict(province, input.districtCode, city);
+  if (!district) {
+    return {
+      issue: { field: "city", code: "invalid_district", message: `Distrito desconhecido na provincia ${province.name}` }
+    };
+  }
+  return {
+    region: { state: province.name, city: district.name, provinceCode: province.code, districtCode: district.code }
+  };
+}
@@ -345,6 +345,89 @@ export async function sendSupportReplyEmail(params: {
   });
 }
 
+const ORDER_STATUS_LABELS: Record<string, string> = {
+  PENDING: "pendente",
+  PAID: "pago",
+  PARTIALLY_SHIPPED: "parcialmente enviado",
+  SHIPPED: "enviado",
+  READY_FOR_PICKUP: "pronto para levantamento",
+  DELIVERED: "entregue",
+  CANCELED: "cancelado"
+};
+
+export async function sendOrderStatusEmail(params: {
+  email: string;
+  name?: string | null;
+  orderId: string;
+  orderNumber?: string | null;
+  status: string;
+  message?: string | null;
+  /** Overrides the account link, e.g. with the signed lookup link of a guest order. */
+  orderUrl?: string;
+}) {
+  const transporter = getTransporter();
+  const orderUrl = params.orderUrl ?? `${env.appBaseUrl}/cliente/pedidos/${params.orderId}`;
+  const label = params.name ? params.name : params.email;
+  const orderLabel = params.orderNumber ?? params.orderId;
+  const statusLabel = ORDER_STATUS_LABELS[params.status] ?? params.status.toLowerCase();
+
+  await transporter.sendMail({
+    from: env.mail.from,
+    to: params.email,
+    subject: `Pedido ${orderLabel}: ${statusLabel}`,
+    text: `Ola ${label},\n\nO estado do seu pedido ${orderLabel} foi atualizado para: ${statusLabel}.${params.message ? `\n\n${params.message}` : ""}\n\nAcompanhe em: ${orderUrl}`,
+    html: `<p>Ola ${escapeHtml(label)},</p><p>O estado do seu pedido <strong>${escapeHtml(orderLabel)}</strong> foi atualizado para: <strong>${statusLabel}</strong>.</p>${params.message ? `<p>${escapeHtml(params.message)}</p>` : ""}<p><a href="${orderUrl}">Acompanhar pedido</a></p>`
+  });
+}
+
+export async function sendPaymentConfirmationEmail(params: {
+  email: string;
+  name?: string | null;
+  orderId: string;
+  orderNumber?: string | null;
+  total: string;
+  invoice?: { number: string; filename: string; content: Buffer } | null;
+  orderUrl?: string;
+}) {
+  const transporter = getTransporter();
+  const orderUrl = params.orderUrl ?? `${env.appBaseUrl}/cliente/pedidos/${params.orderId}`;
+  const label = params.name ? params.name : params.email;
+  const orderLabel = params.orderNumber ?? params.orderId;
+  const invoiceLine = params.invoice ? `Segue em anexo a fatura ${params.invoice.number}.` : "";
+
+  await transporter.sendMail({
+    from: env.mail.from,
+    to: params.email,
+    subject: `Pagamento confirmado: pedido ${orderLabel}`,
+    text: `Ola ${label},\n\nRecebemos o pagamento de ${params.total} do seu pedido ${orderLabel}. ${invoiceLine}\n\nAcompanhe em: ${orderUrl}`,
+    html: `<p>Ola ${escapeHtml(label)},</p><p>Recebemos o pagamento de <strong>${escapeHtml(params.total)}</strong> do seu pedido <strong>${escapeHtml(orderLabel)}</strong>. ${invoiceLine}</p><p><a href="${orderUrl}">Acompanhar pedido</a></p>`,
+    attachments: params.invoice
+      ? [{ filename: params.invoice.filename, content: params.invoice.content, contentType: "application/pdf" }]
+      : undefined
+  });
+}
+
+export async function sendGuestOrderEmail(params: {
+  email: string;
+  name?: string | null;
+  orderNumber?: string | null;
+  orderId: string;
+  total: string;
+  lookupUrl: string;
+}) {
+  const transporter = getTransporter();
+  const label = params.name ? params.name : params.email;
+  const orderLabel = params.orderNumber ?? params.orderId;
+
+  await transporter.sendMail({
+    from: env.mail.from,
+    to: params.email,
+    subject: `Pedido ${orderLabel} recebido`,
+    text: `Ola ${label},\n\nRecebemos o seu pedido ${orderLabel} no valor de ${params.total}.\n\nAcompanhe-o em: ${params.lookupUrl}\n\nCrie uma conta com este email para ver todos os seus pedidos no mesmo lugar.`,
+    html: `<p>Ola ${escapeHtml(label)},</p><p>Recebemos o seu pedido <strong>${escapeHtml(orderLabel)}</strong> no valor de <strong>${escapeHtml(params.total)}</strong>.</p><p><a href="${params.lookupUrl}">Acompanhar pedido</a></p><p>Crie uma conta com este email para ver todos os seus pedidos no mesmo lugar.</p>`
+  });
+}
+
 export async function sendLoginAttemptAlert(params: {
   email: string;
   name?: string | null;
@@ -0,0 +1,92 @@
+import { prisma } from "../config/prisma.js";
+import { logger } from "../config/logger.js";
+import { queryMpesaTransactionStatus } from "./mpesaService.js";
+import { applyPaymentOutcome } from "./paymentStatusService.js";
+
+const RECONCILE_INTERVAL_MS = Number(process.env.MPESA_RECONCILE_INTERVAL_MS || 5 * 60 * 1000);
+const RECONCILE_MIN_AGE_MS = Number(process.env.MPESA_RECONCILE_MIN_AGE_MS || 2 * 60 * 1000);
+const RECONCILE_MAX_AGE_MS = Number(process.env.MPESA_RECONCILE_MAX_AGE_MS || 24 * 60 * 60 * 1000);
+const RECONCILE_BATCH_SIZE = Number(process.env.MPESA_RECONCILE_BATCH_SIZE || 25);
+
+let running = false;
+
+export async function reconcileAuthorizedMpesaPayments() {
+  if (running) return { checked: 0, captured: 0, failed: 0 };
+  running = true;
+  const summary = { checked: 0, captured: 0, failed: 0 };
+
+  try {
+    const now = Date.now();
+    const payments = await prisma.paymentAttempt.findMany({
+      where: {
+        provider: "MPESA",
+        status: "AUTHORIZED",
+        updatedAt: { lt: new Date(now - RECONCILE_MIN_AGE_MS) }
+      },
+      orderBy: { updatedAt: "asc" },
+      take: RECONCILE_BATCH_SIZE
+    });
+
+    for (const payment of payments) {
+      summary.checked += 1;
+      const expired = now - payment.createdAt.getTime() > RECONCILE_MAX_AGE_MS;
+
+      try {
+        if (!payment.externalRef) {
+          if (expired) {
+            await applyPaymentOutcome({ paymentId: payment.id, outcome: "FAILED", source: "mpesa_reconciler", meta: { reason: "missing_reference" } });
+            summary.failed += 1;
+          }
+          continue;
+        }
+
+        const result = await queryMpesaTransactionStatus({
+          queryReference: payment.externalRef,
+          orderId: payment.orderId
+        });
+
+        if (result.transactionStatus === "COMPLETED") {
+          await applyPaymentOutcome({
+            paymentId: payment.id,
+            outcome: "CAPTURED",
+            source: "mpesa_reconciler",
+            meta: { responseCode: result.responseCode }
+          });
+          summary.captured += 1;
+        } else if (result.transactionStatus === "FAILED" || expired) {
+          await applyPaymentOutcome({
+            paymentId: payment.id,
+            outcome: "FAILED",
+            source: "mpesa_reconciler",
+            meta: { responseCode: result.responseCode, responseDesc: result.responseDesc, expired }
+          });
+          summary.failed += 1;
+        } else {
+          await prisma.paymentAttempt.update({ where: { id: payment.id }, data: { updatedAt: new Date() } });
+        }
+      } catch (err) {
+        logger.warn({ err, paymentId: payment.id }, "M-PESA reconciliation failed for payment");
+      }
+    }
+
+    if (summary.checked) {
+      logger.info({ event: "mpesa_reconciliation", ...summary }, "M-PESA reconciliation run finished");
+    }
+    return summary;
+  } finally {
+    running = false;
+  }
+}
+
+export function startMpesaReconciler() {
+  if (!process.env.MPESA_BASE_URL || process.env.MPESA_RECONCILE_ENABLED === "false") {
+    return null;
+  }
+  const timer = setInterval(() => {
+    reconcileAuthorizedMpesaPayments().catch((err) => {
+      logger.error({ err }, "M-PESA reconciliation run failed");
+    });
+  }, RECONCILE_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -1,4 +1,5 @@
 import crypto from "crypto";
+import { ApiError } from "../utils/apiError.js";
 
 type MpesaConfig = {
   baseUrl: string;
@@ -6,6 +7,8 @@ type MpesaConfig = {
   publicKey: string;
   serviceProviderCode: string;
   c2bPath: string;
+  queryPath: string;
+  reversalPath: string;
   sessionPath: string;
   market: string;
   environment: string;
@@ -25,6 +28,16 @@ export type MpesaPaymentResult = {
   raw: unknown;
 };
 
+export type MpesaTransactionStatus = "COMPLETED" | "PENDING" | "FAILED" | "UNKNOWN";
+
+export type MpesaStatusResult = {
+  ok: boolean;
+  responseCode: string | null;
+  responseDesc: string | null;
+  transactionStatus: MpesaTransactionStatus;
+  raw: unknown;
+};
+
 type MpesaPaymentInput = {
   amount: number;
   customerMsisdn: string;
@@ -33,6 +46,8 @@ type MpesaPaymentInput = {
 };
 
 const DEFAULT_C2B_PATH = "/ipg/v2/[market]/c2bPayment/singleStage/";
+const DEFAULT_QUERY_PATH = "/ipg/v2/[market]/queryTransactionStatus/";
+const DEFAULT_REVERSAL_PATH = "/ipg/v2/[market]/reversal/";
 
 function getMpesaConfig(): MpesaConfig {
   const baseUrl = process.env.MPESA_BASE_URL;
@@ -52,6 +67,12 @@ function getMpesaConfig(): MpesaConfig {
   const defaultC2bPath = isVmHost
     ? DEFAULT_C2B_PATH.replace("[market]", market)
     : `/${environment}${DEFAULT_C2B_PATH.replace("[market]", market)}`;
+  const defaultQueryPath = isVmHost
+    ? DEFAULT_QUERY_PATH.replace("[market]", market)
+    : `/${environment}${DEFAULT_QUERY_PATH.replace("[market]", market)}`;
+  const defaultReversalPath = isVmHost
+    ? DEFAULT_REVERSAL_PATH.replace("[market]", market)
+    : `/${environment}${DEFAULT_REVERSAL_PATH.replace("[market]", market)}`;
   const sessionPath = process.env.MPESA_SESSION_PATH || defaultSessionPath;
   return {
     baseUrl,
@@ -59,6 +80,8 @@ function getMpesaConfig(): MpesaConfig {
     publicKey,
     serviceProviderCode,
     c2bPath: process.env.MPESA_C2B_PATH || defaultC2bPath,
+    queryPath: process.env.MPESA_QUERY_PATH || defaultQueryPath,
+    reversalPath: process.env.MPESA_REVERSAL_PATH || defaultReversalPath,
     sessionPath,
     market,
     environment,
@@ -248,3 +271,175 @@ export async function createMpesaPayment(input: MpesaPaymentInput): Promise<Mpes
     clearTimeout(timeout);
   }
 }
+
+const MPESA_COMPLETED_STATUSES = new Set(["completed", "success", "successful"]);
+const MPESA_PENDING_STATUSES = new Set(["pending", "in progress", "processing"]);
+const MPESA_FAILED_STATUSES = new Set(["cancelled", "canceled", "expired", "failed", "declined", "reversed"]);
+
+export function mapMpesaTransactionStatus(value: string | null): MpesaTransactionStatus {
+  const normalized = (value || "").trim().toLowerCase();
+  if (MPESA_COMPLETED_STATUSES.has(normalized)) return "COMPLETED";
+  if (MPESA_PENDING_STATUSES.has(normalized)) return "PENDING";
+  if (MPESA_FAILED_STATUSES.has(normalized)) return "FAILED";
+  return "UNKNOWN";
+}
+
+export async function queryMpesaTransactionStatus(input: {
+  queryReference: string;
+  orderId: string;
+}): Promise<MpesaStatusResult> {
+  const config = getMpesaConfig();
+  let session: MpesaSessionResult;
+  try {
+    session = await createMpesaSession(config);
+  } catch (error) {
+    return {
+      ok: false,
+      responseCode: null,
+      responseDesc: error instanceof Error ? error.message : "Falha ao iniciar sessao M-PESA",
+      transactionStatus: "UNKNOWN",
+      raw: { error: error instanceof Error ? error.message : error }
+    };
+  }
+  if (!session.ok || !session.sessionId) {
+    return {
+      ok: false,
+      responseCode: session.responseCode,
+      responseDesc: session.responseDesc ?? "Falha ao iniciar sessao M-PESA",
+      transactionStatus: "UNKNOWN",
+      raw: { session: session.raw }
+    };
+  }
+
+  const sessionToken = buildMpesaToken(session.sessionId, config.publicKey);
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), config.timeoutMs);
+  const params = new URLSearchParams({
+    input_QueryReference: input.queryReference,
+    input_ServiceProviderCode: config.serviceProviderCode,
+    input_ThirdPartyConversationID: makeReference("TQ", input.orderId)
+  });
+
+  try {
+    const response = await fetch(`${config.baseUrl}${config.queryPath}?${params.toString()}`, {
+      method: "GET",
+      headers: {
+        Authorization: `Bearer ${sessionToken}`,
+        "Content-Type": "application/json",
+        ...(config.origin ? { Origin: config.origin } : {})
+      },
+      signal: controller.signal
+    });
+    const text = await response.text();
+    const data = safeJsonParse(text);
+    const responseCode = extractString(data, ["output_ResponseCode", "responseCode", "code"]);
+    const responseDesc = extractString(data, ["output_ResponseDesc", "responseDesc", "message"]);
+    const rawStatus = extractString(data, ["output_ResponseTransactionStatus", "transactionStatus", "status"]);
+    const ok = response.ok && (responseCode === "INS-0" || responseCode === "0");
+    return {
+      ok,
+      responseCode,
+      responseDesc,
+      transactionStatus: ok ? mapMpesaTransactionStatus(rawStatus) : "UNKNOWN",
+      raw: data
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+export type MpesaReversalResult = {
+  ok: boolean;
+  responseCode: string | null;
+  responseDesc: string | null;
+  reversalTransactionId: string | null;
+  raw: unknown;
+};
+
+export async function createMpesaReversal(input: {
+  transactionId: string;
+  amount: number;
+  refundId: string;
+}): Promise<MpesaReversalResult> {
+  const config = getMpesaConfig();
+  const securityCredential = process.env.MPESA_SECURITY_CREDENTIAL;
+  const initiatorIdentifier = process.env.MPESA_INITIATOR_IDENTIFIER;
+  if (!securityCredential || !initiatorIdentifier) {
+    throw new Error("MPESA reversal credentials not configured");
+  }
+  let session: MpesaSessionResult;
+  try {
+    session = await createMpesaSession(config);
+  } catch (error) {
+    return {
+      ok: false,
+      responseCode: null,
+      responseDesc: error instanceof Error ? error.message : "Falha ao iniciar sessao M-PESA",
+      reversalTransactionId: null,
+      raw: { error: error instanceof Error ? error.message : error }
+    };
+  }
+  if (!session.ok || !session.sessionId) {
+    return {
+      ok: false,
+      responseCode: session.responseCode,
+      responseDesc: session.responseDesc ?? "Falha ao iniciar sessao M-PESA",
+      reversalTransactionId: null,
+      raw: { session: session.raw }
+    };
+  }
+
+  const sessionToken = buildMpesaToken(session.sessionId, config.publicKey);
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), config.timeoutMs);
+  const payload = {
+    input_TransactionID: input.transactionId,
+    input_SecurityCredential: securityCredential,
+    input_InitiatorIdentifier: initiatorIdentifier,
+    input_ThirdPartyReference: makeReference("RV", input.refundId),
+    input_ServiceProviderCode: config.serviceProviderCode,
+    input_ReversalAmount: Number(input.amount).toFixed(2)
+  };
+
+  try {
+    const response = await fetch(`${config.baseUrl}${config.reversalPath}`, {
+      method: "PUT",
+      headers: {
+        Authorization: `Bearer ${sessionToken}`,
+        "Content-Type": "application/json",
+        ...(config.origin ? { Origin: config.origin } : {})
+      },
+      body: JSON.stringify(payload),
+      signal: controller.signal
+    });
+    const text = await response.text();
+    const data = safeJsonParse(text);
+    const responseCode = extractString(data, ["output_ResponseCode", "responseCode", "code"]);
+    const responseDesc = extractString(data, ["output_ResponseDesc", "responseDesc", "message"]);
+    const reversalTransactionId = extractString(data, ["output_TransactionID", "transactionId"]);
+    const ok = response.ok && (responseCode === "INS-0" || responseCode === "0");
+    return { ok, responseCode, responseDesc, reversalTransactionId, raw: data };
+  } catch (error) {
+    return {
+      ok: false,
+      responseCode: null,
+      responseDesc: error instanceof Error ? error.message : "Falha ao contactar M-PESA",
+      reversalTransactionId: null,
+      raw: { error: error instanceof Error ? error.message : error }
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+export function verifyMpesaCallbackSignature(payload: Buffer, signature: string) {
+  const secret = process.env.MPESA_CALLBACK_SECRET;
+  if (!secret) {
+    // Same as an unconfigured generic webhook provider: a 404 tells M-PESA to stop retrying.
+    throw new ApiError(404, "mpesa_callback_disabled", "M-PESA callback is not configured");
+  }
+  const expected = crypto.createHmac("sha256", secret).update(payload).digest("hex");
+  const provided = signature.trim().replace(/^sha256=/i, "");
+  if (provided.length !== expected.length) return false;
+  return crypto.timingSafeEqual(Buffer.from(provided, "utf8"), Buffer.from(expected, "utf8"));
+}
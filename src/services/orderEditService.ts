@@ -0,0 +1,307 @@
+import { OrderItem, Prisma } from "@prisma/client";
+import { prisma } from "../config/prisma.js";
+import { logger } from "../config/logger.js";
+import { ApiError } from "../utils/apiError.js";
+import { writeAuditLog } from "./auditLogService.js";
+import { resolveCoupon } from "./couponService.js";
+import { buildVariantOrderItem } from "./orderService.js";
+import { syncOrderPaymentStatus } from "./paymentAttemptService.js";
+import { calculateShippingFee, sumWeightKg } from "./shippingService.js";
+import { calculateTax, loadTaxConfig, orderTaxFields, orderTotalWithTax, resolveTaxClass } from "./taxService.js";
+
+const EDITABLE_PAYMENT_STATUSES = new Set(["PENDING", "FAILED"]);
+
+export type OrderEditSource = "staff" | "customer";
+
+type EditOrderItemsInput = {
+  orderId: string;
+  add?: { variantId: string; quantity: number }[];
+  /** Quantity 0 removes the line. */
+  update?: { orderItemId: string; quantity: number }[];
+  remove?: string[];
+  actorId: string | null;
+  source: OrderEditSource;
+  /** Restricts the edit to orders owned by this user (customer endpoints). */
+  userId?: string;
+};
+
+type RevisionItem = {
+  orderItemId: string;
+  variantId: string | null;
+  sku: string;
+  name: string;
+  quantity: number;
+  price: number;
+};
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function toRevisionItems(items: OrderItem[]): RevisionItem[] {
+  return items.map((item) => ({
+    orderItemId: item.id,
+    variantId: item.variantId,
+    sku: item.skuSnapshot,
+    name: item.nameSnapshot,
+    quantity: item.quantity,
+    price: Number(item.priceSnapshot)
+  }));
+}
+
+/**
+ * Re-validates the order's coupon for the new subtotal. The order's own
+ * redemption is given back first so a coupon at its usage limit still
+ * applies; a coupon that no longer applies is dropped and stays released.
+ */
+async function reapplyCoupon(tx: Prisma.TransactionClient, couponId: string, couponCode: string, subtotal: number) {
+  await tx.coupon.updateMany({
+    where: { id: couponId, redemptionCount: { gt: 0 } },
+    data: { redemptionCount: { decrement: 1 } }
+  });
+  try {
+    const resolved = await resolveCoupon(tx, couponCode, subtotal);
+    await tx.coupon.update({ where: { id: couponId }, data: { redemptionCount: { increment: 1 } } });
+    return { couponId, couponCode: resolved.coupon.code, discountTotal: resolved.discountTotal, dropped: null };
+  } catch (err) {
+    if (!(err instanceof ApiError)) throw err;
+    return { couponId: null, couponCode: null, discountTotal: 0, dropped: err.code };
+  }
+}
+
+/**
+ * Adds, removes or changes quantities on an order that has not been paid yet.
+ * New lines are priced at the current variant price and tax rate, the coupon
+ * is validated again, totals and IVA are recalculated and the change is
+ * stored as a numbered revision. Pending attempts already sent to a gateway
+ * (Stripe session, wallet prompt) still charge the old total, so they are
+ * failed and the customer pays again; the others take the new total.
+ */
+export async function editOrderItems(input: EditOrderItemsInput) {
+  const add = input.add ?? [];
+  const update = input.update ?? [];
+  const remove = input.remove ?? [];
+  if (!add.length && !update.length && !remove.length) {
+    throw new ApiError(400, "empty_edit", "Nothing to change");
+  }
+
+  const result = await prisma.$transaction(
+    async (tx) => {
+      const order = await tx.order.findUnique({
+        where: { id: input.orderId },
+        include: { items: true, payments: { select: { status: true } } }
+      });
+      if (!order || (input.userId && order.userId !== input.userId)) {
+        throw new ApiError(404, "not_found", "Order not found");
+      }
+      const paymentInProgress = order.payments.some((payment) => payment.status === "AUTHORIZED");
+      if (order.status !== "PENDING" || !EDITABLE_PAYMENT_STATUSES.has(order.paymentStatus) || paymentInProgress) {
+        throw new ApiError(409, "order_not_editable", "Only pending, unpaid orders can be edited", {
+          status: order.status,
+          paymentStatus: order.paymentStatus
+        });
+      }
+
+      const quantities = new Map(order.items.map((item) => [item.id, item.quantity]));
+      for (const orderItemId of remove) {
+        if (!quantities.has(orderItemId)) {
+          throw new ApiError(400, "invalid_order_item", "Item does not belong to this order", { orderItemId });
+        }
+        quantities.set(orderItemId, 0);
+      }
+      for (const entry of update) {
+        if (!quantities.has(entry.orderItemId)) {
+          throw new ApiError(400, "invalid_order_item", "Item does not belong to this order", {
+            orderItemId: entry.orderItemId
+          });
+        }
+        quantities.set(entry.orderItemId, entry.quantity);
+      }
+
+      const variants = add.length
+        ? await tx.productVariant.findMany({
+            where: { id: { in: add.map((entry) => entry.variantId) } },
+            include: { product: true }
+          })
+        : [];
+      const variantById = new Map(variants.map((variant) => [variant.id, variant]));
+      for (const entry of add) {
+        const variant = variantById.get(entry.variantId);
+        if (!variant) {
+          throw new ApiError(404, "not_found", "Variant not found", { variantId: entry.variantId });
+        }
+        if (variant.product.status !== "ACTIVE") {
+          throw new ApiError(400, "product_inactive", "Produto indisponivel", { variantId: entry.variantId });
+        }
+      }
+
+      // Unpaid orders hold no stock yet, so check what the edited order would need against what is on hand.
+      const needed = new Map<string, number>();
+      for (const item of order.items) {
+        if (!item.variantId) continue;
+        needed.set(item.variantId, (needed.get(item.variantId) ?? 0) + (quantities.get(item.id) ?? 0));
+      }
+      for (const entry of add) {
+        needed.set(entry.variantId, (needed.get(entry.variantId) ?? 0) + entry.quantity);
+      }
+      const touched = new Set(add.map((entry) => entry.variantId));
+      for (const item of order.items) {
+        if (item.variantId && (quantities.get(item.id) ?? 0) > item.quantity) touched.add(item.variantId);
+      }
+      const stockItems = await tx.stockItem.findMany({ where: { variantId: { in: [...touched] } } });
+      const onHandByVariant = new Map(stockItems.map((stock) => [stock.variantId, stock.onHand]));
+      for (const variantId of touched) {
+        const onHand = onHandByVariant.get(variantId) ?? 0;
+        if ((needed.get(variantId) ?? 0) > onHand) {
+          throw new ApiError(400, "out_of_stock", "Quantidade indisponivel em estoque", { variantId, onHand });
+        }
+      }
+
+      const remaining = [...quantities.values()].filter((quantity) => quantity > 0).length + add.length;
+      if (!remaining) {
+        throw new ApiError(400, "empty_order", "Order needs at least one item; cancel it instead");
+      }
+
+      for (const item of order.items) {
+        const quantity = quantities.get(item.id) ?? item.quantity;
+        if (quantity === item.quantity) continue;
+        if (quantity === 0) {
+          await tx.orderItem.delete({ where: { id: item.id } });
+        } else {
+          await tx.orderItem.update({ where: { id: item.id }, data: { quantity } });
+        }
+      }
+      const taxConfig = await loadTaxConfig(tx);
+      for (const entry of add) {
+        const variant = variantById.get(entry.variantId)!;
+        const taxClass = resolveTaxClass(variant, variant.product);
+        await tx.orderItem.create({
+          data: {
+            orderId: order.id,
+            ...buildVariantOrderItem(variant, entry.quantity, Number(variant.price)),
+            taxClass,
+            taxRate: taxConfig.rates[taxClass]
+          }
+        });
+      }
+
+      const items = await tx.orderItem.findMany({ where: { orderId: order.id } });
+      const subtotal = roundMoney(items.reduce((acc, item) => acc + Number(item.priceSnapshot) * item.quantity, 0));
+      const coupon =
+        order.couponId && order.couponCode
+          ? await reapplyCoupon(tx, order.couponId, order.couponCode, subtotal)
+          : { couponId: null, couponCode: null, discountTotal: 0, dropped: null };
+      const discountTotal = roundMoney(coupon.discountTotal);
+      const merchandiseTotal = Math.max(0, roundMoney(subtotal - discountTotal));
+      // The delivery method is re-priced for the new basket; if it is gone or no longer takes the parcel the fee stays.
+      const method = order.shippingMethodId
+        ? await tx.shippingMethod.findUnique({ where: { id: order.shippingMethodId } })
+        : null;
+      const shippingFee = method
+        ? calculateShippingFee(method, { subtotal: merchandiseTotal, weightKg: sumWeightKg(items) }) ??
+          Number(order.shippingFee)
+        : Number(order.shippingFee);
+      // Lines keep the rate they were sold at and the order keeps its pricing mode. Orders placed before
+      // tax classes existed have no breakdown yet and take the current rates.
+      const tax = calculateTax(
+        items.map((item) => ({
+          taxClass: item.taxClass,
+          taxRate: order.taxLines === null ? taxConfig.rates[item.taxClass] : Number(item.taxRate),
+          amount: Number(item.priceSnapshot) * item.quantity
+        })),
+        { discountTotal, shippingFee, config: { ...taxConfig, pricesIncludeTax: order.pricesIncludeTax } }
+      );
+      for (const [index, item] of items.entries()) {
+        await tx.orderItem.update({ where: { id: item.id }, data: tax.items[index] });
+      }
+      const total = orderTotalWithTax(merchandiseTotal + shippingFee, tax);
+
+      const staleAttempts = await tx.paymentAttempt.findMany({
+        where: { orderId: order.id, status: "PENDING", externalRef: { not: null } },
+        select: { id: true }
+      });
+      if (staleAttempts.length) {
+        await tx.paymentAttempt.updateMany({
+          where: { id: { in: staleAttempts.map((attempt) => attempt.id) } },
+          data: { status: "FAILED" }
+        });
+        await syncOrderPaymentStatus(order.id, tx);
+      }
+      await tx.paymentAttempt.updateMany({
+        where: { orderId: order.id, status: "PENDING", externalRef: null },
+        data: { amount: total }
+      });
+
+      const updated = await tx.order.update({
+        where: { id: order.id },
+        data: {
+          total,
+          discountTotal,
+          shippingFee,
+          couponId: coupon.couponId,
+          couponCode: coupon.couponCode,
+          ...orderTaxFields(tax)
+        },
+        include: { items: true, payments: { orderBy: { createdAt: "desc" } } }
+      });
+
+      const last = await tx.orderRevision.findFirst({
+        where: { orderId: order.id },
+        orderBy: { number: "desc" },
+        select: { number: true }
+      });
+      const revision = await tx.orderRevision.create({
+        data: {
+          orderId: order.id,
+          number: (last?.number ?? 0) + 1,
+          actorId: input.actorId,
+          source: input.source,
+          itemsBefore: toRevisionItems(order.items) as Prisma.InputJsonValue,
+          itemsAfter: toRevisionItems(items) as Prisma.InputJsonValue,
+          totalBefore: order.total,
+          totalAfter: total,
+          discountBefore: order.discountTotal,
+          discountAfter: discountTotal,
+          couponCodeBefore: order.couponCode,
+          couponCodeAfter: coupon.couponCode
+        }
+      });
+
+      return {
+        order: updated,
+        revision,
+        couponDropped: coupon.dropped,
+        canceledPaymentIds: staleAttempts.map((attempt) => attempt.id)
+      };
+    },
+    { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+  );
+
+  void writeAuditLog(input.actorId, "order.items_edited", "order", result.order.id, {
+    revision: result.revision.number,
+    source: input.source,
+    add,
+    update,
+    remove,
+    totalBefore: result.revision.totalBefore,
+    total: result.order.total,
+    ...(result.couponDropped ? { couponDropped: result.revision.couponCodeBefore, couponError: result.couponDropped } : {}),
+    ...(result.canceledPaymentIds.length ? { canceledPaymentIds: result.canceledPaymentIds } : {})
+  }).catch((err) => {
+    logger.warn({ err, orderId: result.order.id }, "Failed to write order edit audit log");
+  });
+
+  return result;
+}
+
+export async function listOrderRevisions(orderId: string, userId?: string) {
+  const order = await prisma.order.findUnique({ where: { id: orderId }, select: { id: true, userId: true } });
+  if (!order || (userId && order.userId !== userId)) {
+    throw new ApiError(404, "not_found", "Order not found");
+  }
+  return prisma.orderRevision.findMany({
+    where: { orderId: order.id },
+    include: userId ? undefined : { actor: { select: { id: true, name: true, email: true } } },
+    orderBy: { number: "asc" }
+  });
+}
@@ -0,0 +1,165 @@
+import { once } from "events";
+import { Writable } from "stream";
+import ExcelJS from "exceljs";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../config/prisma.js";
+import { ApiError } from "../utils/apiError.js";
+import { CsvValue, formatCsvRow } from "../utils/csv.js";
+
+const EXPORT_BATCH_SIZE = Number(process.env.ORDER_EXPORT_BATCH_SIZE || 500);
+const EXPORT_MAX_ROWS = Number(process.env.ORDER_EXPORT_MAX_ROWS || 50000);
+
+export type OrderExportFormat = "csv" | "xlsx";
+
+type OrderExportInput = {
+  where: Prisma.OrderWhereInput;
+  format: OrderExportFormat;
+  delimiter?: string;
+  output: Writable;
+};
+
+const exportInclude = {
+  items: { select: { skuSnapshot: true, nameSnapshot: true, quantity: true, priceSnapshot: true } },
+  payments: { select: { provider: true, status: true, externalRef: true }, orderBy: { createdAt: "desc" }, take: 1 },
+  user: { select: { email: true, name: true } }
+} satisfies Prisma.OrderInclude;
+
+type ExportOrder = Prisma.OrderGetPayload<{ include: typeof exportInclude }>;
+
+type ShippingSnapshot = {
+  name?: string | null;
+  line1?: string | null;
+  line2?: string | null;
+  city?: string | null;
+  state?: string | null;
+  postalCode?: string | null;
+  country?: string | null;
+  phone?: string | null;
+  provinceCode?: string | null;
+  districtCode?: string | null;
+  neighbourhood?: string | null;
+};
+
+const EXPORT_COLUMNS: { header: string; width: number; value: (order: ExportOrder) => CsvValue }[] = [
+  { header: "Pedido", width: 16, value: (order) => order.orderNumber ?? order.id },
+  { header: "ID", width: 38, value: (order) => order.id },
+  { header: "Data", width: 22, value: (order) => order.createdAt.toISOString() },
+  { header: "Estado", width: 18, value: (order) => order.status },
+  { header: "Pagamento", width: 14, value: (order) => order.paymentStatus },
+  { header: "Canal", width: 10, value: (order) => order.channel },
+  { header: "Cliente", width: 28, value: (order) => order.customerNameSnapshot ?? order.user?.name },
+  { header: "Email", width: 30, value: (order) => order.customerEmailSnapshot ?? order.user?.email },
+  { header: "Telefone", width: 16, value: (order) => order.customerPhoneSnapshot },
+  {
+    header: "Itens",
+    width: 60,
+    value: (order) =>
+      order.items.map((item) => `${item.quantity}x ${item.nameSnapshot} (${item.skuSnapshot})`).join("; ")
+  },
+  { header: "Unidades", width: 10, value: (order) => order.items.reduce((acc, item) => acc + item.quantity, 0) },
+  {
+    header: "Subtotal",
+    width: 12,
+    value: (order) =>
+      Math.round(order.items.reduce((acc, item) => acc + Number(item.priceSnapshot) * item.quantity, 0) * 100) / 100
+  },
+  { header: "Desconto", width: 12, value: (order) => Number(order.discountTotal) },
+  { header: "Cupom", width: 14, value: (order) => order.couponCode },
+  { header: "Entrega/levantamento", width: 14, value: (order) => order.fulfillmentType },
+  { header: "Metodo entrega", width: 20, value: (order) => order.shippingMethodName },
+  { header: "Taxa entrega", width: 12, value: (order) => Number(order.shippingFee) },
+  { header: "IVA", width: 12, value: (order) => Number(order.taxTotal) },
+  { header: "Total", width: 12, value: (order) => Number(order.total) },
+  { header: "Moeda", width: 8, value: (order) => order.currency },
+  { header: "Provedor", width: 12, value: (order) => order.payments[0]?.provider },
+  { header: "Estado tentativa", width: 16, value: (order) => order.payments[0]?.status },
+  { header: "Referencia pagamento", width: 24, value: (order) => order.payments[0]?.externalRef },
+  { header: "Empresa", width: 28, value: (order) => order.billingCompanySnapshot },
+  { header: "NUIT", width: 12, value: (order) => order.billingNuitSnapshot },
+  { header: "Destinatario", width: 28, value: (order) => shipping(order).name },
+  { header: "Morada", width: 36, value: (order) => shipping(order).line1 },
+  { header: "Complemento", width: 24, value: (order) => shipping(order).line2 },
+  { header: "Bairro", width: 20, value: (order) => shipping(order).neighbourhood },
+  { header: "Cidade", width: 18, value: (order) => shipping(order).city },
+  { header: "Provincia", width: 18, value: (order) => shipping(order).state },
+  { header: "Codigo provincia", width: 10, value: (order) => shipping(order).provinceCode },
+  { header: "Codigo distrito", width: 24, value: (order) => shipping(order).districtCode },
+  { header: "Codigo postal", width: 12, value: (order) => shipping(order).postalCode },
+  { header: "Pais", width: 6, value: (order) => shipping(order).country },
+  { header: "Telefone entrega", width: 16, value: (order) => shipping(order).phone }
+];
+
+function shipping(order: ExportOrder): ShippingSnapshot {
+  const snapshot = order.shippingAddressSnapshot;
+  return snapshot && typeof snapshot === "object" && !Array.isArray(snapshot) ? (snapshot as ShippingSnapshot) : {};
+}
+
+/** Walks the matching orders newest first in keyset-paginated batches. */
+async function* iterateExportOrders(where: Prisma.OrderWhereInput) {
+  let cursor: string | undefined;
+  for (;;) {
+    const batch = await prisma.order.findMany({
+      where,
+      include: exportInclude,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: EXPORT_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+    });
+    yield* batch;
+    if (batch.length < EXPORT_BATCH_SIZE) return;
+    cursor = batch[batch.length - 1].id;
+  }
+}
+
+async function write(output: Writable, chunk: string) {
+  if (!output.write(chunk)) {
+    await once(output, "drain");
+  }
+}
+
+/**
+ * Counts the orders matching `where` and refuses exports above
+ * `ORDER_EXPORT_MAX_ROWS`. Call before any byte is written so the error can
+ * still be sent as JSON.
+ */
+export async function assertOrderExportSize(where: Prisma.OrderWhereInput) {
+  const count = await prisma.order.count({ where });
+  if (count > EXPORT_MAX_ROWS) {
+    throw new ApiError(400, "export_too_large", "Too many orders to export; narrow the filters", {
+      count,
+      max: EXPORT_MAX_ROWS
+    });
+  }
+  return count;
+}
+
+/**
+ * Streams one row per order (items, coupon, latest payment attempt and the
+ * shipping address snapshot) to `output` as CSV or XLSX. Does not end
+ * `output` for CSV; the XLSX writer closes it when the workbook is committed.
+ */
+export async function writeOrderExport(input: OrderExportInput) {
+  let rows = 0;
+  if (input.format === "xlsx") {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: input.output, useStyles: true });
+    const sheet = workbook.addWorksheet("Pedidos");
+    sheet.columns = EXPORT_COLUMNS.map((column) => ({ header: column.header, width: column.width }));
+    sheet.getRow(1).font = { bold: true };
+    sheet.getRow(1).commit();
+    for await (const order of iterateExportOrders(input.where)) {
+      sheet.addRow(EXPORT_COLUMNS.map((column) => column.value(order) ?? null)).commit();
+      rows += 1;
+    }
+    sheet.commit();
+    await workbook.commit();
+    return rows;
+  }
+
+  // The BOM makes Excel read the file as UTF-8.
+  await write(input.output, `\uFEFF${formatCsvRow(EXPORT_COLUMNS.map((column) => column.header), input.delimiter)}`);
+  for await (const order of iterateExportOrders(input.where)) {
+    await write(input.output, formatCsvRow(EXPORT_COLUMNS.map((column) => column.value(order)), input.delimiter));
+    rows += 1;
+  }
+  return rows;
+}
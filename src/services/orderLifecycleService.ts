@@ -0,0 +1,229 @@
+import { Order, OrderStatus, PaymentAttempt } from "@prisma/client";
+import { prisma } from "../config/prisma.js";
+import { logger } from "../config/logger.js";
+import { ApiError } from "../utils/apiError.js";
+import { buildOrderLookupUrl } from "../utils/orderLookup.js";
+import { writeAuditLog } from "./auditLogService.js";
+import { sendOrderStatusEmail } from "./mailService.js";
+import { findPaymentProvider } from "./paymentProviders.js";
+import {
+  ensureOrderStockDeducted,
+  ensureOrderStockRestored,
+  shouldDeductStockForOrderState
+} from "./orderStockService.js";
+
+export type OrderTransitionActor = "staff" | "customer" | "system";
+
+type TransitionOrderStatusInput = {
+  orderId: string;
+  to: OrderStatus;
+  actorId: string | null;
+  /** Who asked for the change; customers may only cancel pending orders. */
+  actor?: OrderTransitionActor;
+  /** Free-form origin stored on the audit entry (e.g. `staff`, `webhook:stripe`, `cod_dispatch`). */
+  source: string;
+  reason?: string;
+  /** Extra paragraph for the customer's status email. */
+  customerMessage?: string;
+  /** Restricts the transition to orders owned by this user (customer endpoints). */
+  userId?: string;
+  /** Staff undo of an audited status change: follows `UNDO_TRANSITIONS` instead of the lifecycle table. */
+  undo?: boolean;
+};
+
+type TransitionOrder = Pick<Order, "status" | "paymentStatus" | "fulfillmentType"> & {
+  payments: Pick<PaymentAttempt, "status" | "provider">[];
+};
+
+type TransitionGuard = (order: TransitionOrder) => string | null;
+
+/** Source that hands a pickup order over; only it may close READY_FOR_PICKUP (see `completePickup`). */
+export const PICKUP_HANDOVER_SOURCE = "pickup_handover";
+
+const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING: ["PAID", "PARTIALLY_SHIPPED", "SHIPPED", "READY_FOR_PICKUP", "CANCELED"],
+  PAID: ["PARTIALLY_SHIPPED", "SHIPPED", "READY_FOR_PICKUP", "CANCELED"],
+  PARTIALLY_SHIPPED: ["SHIPPED", "CANCELED"],
+  SHIPPED: ["DELIVERED", "CANCELED"],
+  READY_FOR_PICKUP: ["DELIVERED", "CANCELED"],
+  DELIVERED: [],
+  CANCELED: []
+};
+
+// Reverse edges an audit-log undo may take. Nothing leaves CANCELED (stock, coupon and payment were already
+// given back), nothing goes back to PENDING once shipped, and READY_FOR_PICKUP is only reached with a pickup code.
+const UNDO_TRANSITIONS: Partial<Record<OrderStatus, OrderStatus[]>> = {
+  PAID: ["PENDING"],
+  PARTIALLY_SHIPPED: ["PAID"],
+  SHIPPED: ["PAID", "PARTIALLY_SHIPPED"],
+  READY_FOR_PICKUP: ["PAID"],
+  DELIVERED: ["SHIPPED"]
+};
+
+const CUSTOMER_TRANSITIONS: Partial<Record<OrderStatus, OrderStatus[]>> = {
+  PENDING: ["CANCELED"]
+};
+
+// Only an offline (COD) authorization is a promise to pay; a wallet or card authorization still awaits the
+// callback or reconciler and may yet fail.
+function hasConfirmedPayment(order: TransitionOrder) {
+  if (order.paymentStatus === "CAPTURED") return true;
+  return (
+    order.paymentStatus === "AUTHORIZED" &&
+    order.payments.some((payment) => payment.status === "AUTHORIZED" && findPaymentProvider(payment.provider)?.offline)
+  );
+}
+
+// Guards return the reason a transition is refused, or null when it may proceed.
+const requireConfirmedPayment: TransitionGuard = (order) =>
+  order.status === "PENDING" && !hasConfirmedPayment(order) ? "payment_not_confirmed" : null;
+
+const requireDelivery: TransitionGuard = (order) =>
+  order.fulfillmentType === "PICKUP" ? "pickup_order" : requireConfirmedPayment(order);
+
+const TRANSITION_GUARDS: Partial<Record<OrderStatus, TransitionGuard>> = {
+  PAID: (order) => (order.paymentStatus === "CAPTURED" ? null : "payment_not_captured"),
+  PARTIALLY_SHIPPED: requireDelivery,
+  SHIPPED: requireDelivery,
+  READY_FOR_PICKUP: (order) => (order.fulfillmentType === "PICKUP" ? requireConfirmedPayment(order) : "not_a_pickup_order")
+};
+
+export function getAllowedOrderTransitions(from: OrderStatus, actor: OrderTransitionActor = "staff") {
+  const table = actor === "customer" ? CUSTOMER_TRANSITIONS : ORDER_TRANSITIONS;
+  return table[from] ?? [];
+}
+
+function invalidTransition(from: OrderStatus, to: OrderStatus, reason?: string) {
+  return new ApiError(409, "invalid_transition", `Order cannot move from ${from} to ${to}`, {
+    from,
+    to,
+    ...(reason ? { reason } : {})
+  });
+}
+
+/** Throws `invalid_transition` when the order may not move to `to`. */
+export function assertOrderTransition(
+  order: TransitionOrder,
+  to: OrderStatus,
+  actor: OrderTransitionActor = "staff"
+) {
+  if (!getAllowedOrderTransitions(order.status, actor).includes(to)) {
+    throw invalidTransition(order.status, to);
+  }
+  const refused = TRANSITION_GUARDS[to]?.(order);
+  if (refused) {
+    throw invalidTransition(order.status, to, refused);
+  }
+}
+
+async function releaseOrderCoupon(couponId: string) {
+  await prisma.coupon.updateMany({
+    where: { id: couponId, redemptionCount: { gt: 0 } },
+    data: { redemptionCount: { decrement: 1 } }
+  });
+}
+
+async function notifyOrderStatus(order: Order, message?: string) {
+  const user = order.userId
+    ? await prisma.user.findUnique({ where: { id: order.userId }, select: { email: true, name: true } })
+    : null;
+  const email = order.customerEmailSnapshot || user?.email;
+  if (!email) return;
+  await sendOrderStatusEmail({
+    email,
+    name: order.customerNameSnapshot || user?.name,
+    orderId: order.id,
+    orderNumber: order.orderNumber,
+    status: order.status,
+    message,
+    orderUrl: order.userId ? undefined : buildOrderLookupUrl(order.id)
+  });
+}
+
+/**
+ * Single entry point for order status changes. Validates the transition
+ * against the lifecycle table and its guards, then applies the side effects:
+ * stock is reserved when the order becomes payable/shippable, returned and
+ * the coupon redemption released on cancellation, and the customer is
+ * notified (except for PAID, see `sendPaymentConfirmation`). Moving to the
+ * current status is a no-op.
+ */
+export async function transitionOrderStatus(input: TransitionOrderStatusInput) {
+  const order = await prisma.order.findUnique({
+    where: { id: input.orderId },
+    include: { payments: { select: { status: true, provider: true } } }
+  });
+  if (!order || (input.userId && order.userId !== input.userId)) {
+    throw new ApiError(404, "not_found", "Order not found");
+  }
+  if (order.status === input.to) {
+    return order;
+  }
+  const actor = input.actor ?? "staff";
+  if (input.undo) {
+    if (actor !== "staff" || !UNDO_TRANSITIONS[order.status]?.includes(input.to)) {
+      throw invalidTransition(order.status, input.to, "undo_not_allowed");
+    }
+    const refused = TRANSITION_GUARDS[input.to]?.(order);
+    if (refused) {
+      throw invalidTransition(order.status, input.to, refused);
+    }
+  } else {
+    assertOrderTransition(order, input.to, actor);
+    if (order.status === "READY_FOR_PICKUP" && input.to === "DELIVERED" && input.source !== PICKUP_HANDOVER_SOURCE) {
+      throw invalidTransition(order.status, input.to, "pickup_code_required");
+    }
+  }
+
+  // Reserve before the status flips so an insufficient_stock error leaves the order untouched.
+  if (input.to !== "CANCELED" && shouldDeductStockForOrderState(input.to, order.paymentStatus)) {
+    await ensureOrderStockDeducted(order.id);
+  }
+
+  const moved = await prisma.order.updateMany({
+    where: { id: order.id, status: order.status },
+    data: { status: input.to }
+  });
+  if (moved.count === 0) {
+    throw invalidTransition(order.status, input.to, "concurrent_update");
+  }
+
+  if (input.to === "CANCELED") {
+    await ensureOrderStockRestored(order.id);
+    if (order.couponId) {
+      await releaseOrderCoupon(order.couponId);
+    }
+  }
+
+  const updated = await prisma.order.findUniqueOrThrow({ where: { id: order.id } });
+  announceOrderStatusChange(order, updated, input);
+  return updated;
+}
+
+/**
+ * Audits a status change and emails the customer. Used by `transitionOrderStatus`
+ * and by callers that flip the status inside their own transaction (see `createShipment`).
+ */
+export function announceOrderStatusChange(
+  previous: Pick<Order, "status" | "couponId">,
+  updated: Order,
+  input: Pick<TransitionOrderStatusInput, "actorId" | "source" | "reason" | "customerMessage" | "undo">
+) {
+  void writeAuditLog(input.actorId, "order.status_changed", "order", updated.id, {
+    from: previous.status,
+    to: updated.status,
+    paymentStatus: updated.paymentStatus,
+    source: input.source,
+    ...(input.undo ? { undo: true } : {}),
+    ...(input.reason ? { reason: input.reason } : {}),
+    ...(updated.status === "CANCELED" && previous.couponId ? { couponReleased: previous.couponId } : {})
+  }).catch((err) => {
+    logger.warn({ err, orderId: updated.id }, "Failed to write order status audit log");
+  });
+  // PAID is announced by the payment confirmation email, which carries the invoice.
+  if (updated.status !== "PAID") {
+    void notifyOrderStatus(updated, input.customerMessage).catch((err) => {
+      logger.warn({ err, orderId: updated.id, status: updated.status }, "Order status email failed");
+    });
+  }
+}
@@ -1,7 +1,26 @@
-import { Prisma } from "@prisma/client";
+import { BillingProfile, OrderChannel, OrderStatus, Prisma } from "@prisma/client";
 import { prisma } from "../config/prisma.js";
+import { logger } from "../config/logger.js";
 import { ApiError } from "../utils/apiError.js";
+import { writeAuditLog } from "./auditLogService.js";
 import { normalizeCouponCode, resolveCoupon } from "./couponService.js";
+import { transitionOrderStatus } from "./orderLifecycleService.js";
+import {
+  quoteShippingMethods,
+  resolveShippingMethod,
+  ShippingDestination,
+  sumWeightKg
+} from "./shippingService.js";
+import { pickupAddress, reservePickupLocation } from "./pickupService.js";
+import {
+  calculateTax,
+  loadLineTaxClasses,
+  loadTaxConfig,
+  orderTaxFields,
+  orderTotalWithTax,
+  resolveTaxClass,
+  taxableLine
+} from "./taxService.js";
 
 function toNumber(value: unknown) {
   if (typeof value === "number") return Number.isFinite(value) ? value : 0;
@@ -38,7 +57,7 @@ function normalizeAttributesSnapshot(
 }
 
 export type CheckoutOrder = Prisma.OrderGetPayload<{
-  include: { items: true; payment: true };
+  include: { items: true; payments: true };
 }>;
 
 async function generateNextOrderNumber(tx: Prisma.TransactionClient, date: Date) {
@@ -55,157 +74,241 @@ async function generateNextOrderNumber(tx: Prisma.TransactionClient, date: Date)
   return `${prefix}${String(nextSeq).padStart(6, "0")}`;
 }
 
-export async function getCheckoutSummary(userId: string, couponCode?: string | null) {
+type CartWithItems = Prisma.CartGetPayload<{ include: { items: true } }>;
+
+type CartShippingOptions = {
+  destination?: ShippingDestination | null;
+  shippingMethodId?: string | null;
+};
+
+export async function getCheckoutSummary(
+  userId: string,
+  couponCode?: string | null,
+  shippingMethodId?: string | null
+) {
   const cart = await prisma.cart.findUnique({
     where: { userId },
     include: { items: true }
   });
+  const address = await findCustomerAddress(prisma, userId);
+  return summarizeCart(cart, couponCode, { destination: address, shippingMethodId });
+}
 
+/**
+ * Prices the cart: coupon discount, the shipping methods available for the
+ * destination and, once one is chosen, its fee in the total, plus the IVA
+ * of each tax class.
+ */
+export async function summarizeCart(
+  cart: CartWithItems | null,
+  couponCode?: string | null,
+  shipping: CartShippingOptions = {}
+) {
+  const taxConfig = await loadTaxConfig(prisma);
   if (!cart) {
-    return { items: [], subtotal: 0, discountTotal: 0, total: 0, couponCode: null };
+    return {
+      items: [],
+      subtotal: 0,
+      discountTotal: 0,
+      shippingFee: 0,
+      shippingMethodId: null,
+      shippingMethods: [],
+      pricesIncludeTax: taxConfig.pricesIncludeTax,
+      taxLines: [],
+      taxTotal: 0,
+      total: 0,
+      couponCode: null
+    };
   }
 
   const subtotal = cart.items.reduce((acc, item) => acc + Number(item.priceSnapshot) * item.quantity, 0);
   const normalized = normalizeCouponCode(couponCode ?? undefined);
 
-  if (!normalized || subtotal === 0) {
-    return { items: cart.items, subtotal, discountTotal: 0, total: subtotal, couponCode: null };
-  }
+  const resolved = normalized && subtotal > 0 ? await resolveCoupon(prisma, normalized, subtotal) : null;
+  const discountTotal = resolved?.discountTotal ?? 0;
+  const merchandiseTotal = Math.max(0, subtotal - discountTotal);
+
+  const basis = { subtotal: merchandiseTotal, weightKg: sumWeightKg(cart.items) };
+  const shippingMethods = await quoteShippingMethods(prisma, shipping.destination ?? null, basis);
+  const selected = shipping.shippingMethodId
+    ? await resolveShippingMethod(prisma, shipping.destination ?? null, basis, shipping.shippingMethodId)
+    : null;
+  const shippingFee = selected?.shippingFee ?? 0;
 
-  const { coupon, discountTotal } = await resolveCoupon(prisma, normalized, subtotal);
-  const total = Math.max(0, subtotal - discountTotal);
+  const taxClassOf = await loadLineTaxClasses(prisma, cart.items);
+  const tax = calculateTax(
+    cart.items.map((item) => taxableLine(taxClassOf(item), taxConfig, Number(item.priceSnapshot), item.quantity)),
+    { discountTotal, shippingFee, config: taxConfig }
+  );
 
   return {
     items: cart.items,
     subtotal,
     discountTotal,
-    total,
-    couponCode: coupon.code
+    shippingFee,
+    shippingMethodId: selected?.shippingMethodId ?? null,
+    shippingMethods,
+    pricesIncludeTax: tax.pricesIncludeTax,
+    taxLines: tax.taxLines,
+    taxTotal: tax.taxTotal,
+    total: orderTotalWithTax(merchandiseTotal + shippingFee, tax),
+    couponCode: resolved?.coupon.code ?? null
   };
 }
 
-export async function checkoutCart(
-  userId: string,
-  couponCode?: string | null,
-  paymentProvider?: string | null,
-  customerPhoneOverride?: string | null
-): Promise<CheckoutOrder> {
-  const cart = await prisma.cart.findUnique({
-    where: { userId },
-    include: { items: true }
-  });
+type OrderAddressSource = {
+  id?: string;
+  name?: string | null;
+  line1: string;
+  line2?: string | null;
+  city: string;
+  state?: string | null;
+  postalCode?: string | null;
+  country: string;
+  phone?: string | null;
+  provinceCode?: string | null;
+  districtCode?: string | null;
+  neighbourhood?: string | null;
+  neighbourhoodCode?: string | null;
+};
 
-  if (!cart || cart.items.length === 0) {
-    throw new ApiError(400, "empty_cart", "Cart is empty");
+export type ManualOrderItemInput = {
+  variantId: string;
+  quantity: number;
+  /** Replaces the variant price; requires `priceReason`. */
+  unitPrice?: number;
+  priceReason?: string;
+};
+
+export type ManualOrderCustomerInput =
+  | { userId: string }
+  | { name: string; email?: string | null; phone: string };
+
+/** How the order reaches the customer: a shipping method for delivery, or a pickup point. */
+export type CheckoutFulfillment = {
+  shippingMethodId?: string | null;
+  pickupLocationId?: string | null;
+};
+
+/** Account checkout: fulfilment plus the billing profile printed on the invoice. */
+export type CheckoutOptions = CheckoutFulfillment & {
+  billingProfileId?: string | null;
+};
+
+type GuestCheckoutInput = CheckoutFulfillment & {
+  cart: CartWithItems;
+  name: string;
+  email: string;
+  phone: string;
+  /** Not needed when collecting at a pickup point. */
+  address: OrderAddressSource | null;
+  couponCode?: string | null;
+  paymentProvider?: string | null;
+};
+
+type CreateManualOrderInput = {
+  customer: ManualOrderCustomerInput;
+  items: ManualOrderItemInput[];
+  /** Defaults to the customer's default address when ordering for an existing account. */
+  shippingAddress?: OrderAddressSource | null;
+  couponCode?: string | null;
+  paymentProvider?: string | null;
+  /** Optional for staff orders; the fee is only charged when a method is chosen. */
+  shippingMethodId?: string | null;
+  /** Must belong to the customer account the order is for. */
+  billingProfileId?: string | null;
+  channel: OrderChannel;
+  createdById: string;
+};
+
+function buildShippingAddressSnapshot(address: OrderAddressSource | null | undefined) {
+  if (!address) return Prisma.JsonNull;
+  return {
+    id: address.id ?? null,
+    name: address.name ?? null,
+    line1: address.line1,
+    line2: address.line2 ?? null,
+    city: address.city,
+    state: address.state ?? null,
+    postalCode: address.postalCode ?? null,
+    country: address.country,
+    phone: address.phone ?? null,
+    provinceCode: address.provinceCode ?? null,
+    districtCode: address.districtCode ?? null,
+    neighbourhood: address.neighbourhood ?? null,
+    neighbourhoodCode: address.neighbourhoodCode ?? null
+  } as Prisma.InputJsonValue;
+}
+
+/** Invoice data of a B2B order; the company and NUIT columns are what the staff order filter searches. */
+function buildBillingSnapshot(profile: BillingProfile | null) {
+  if (!profile) {
+    return { billingProfileSnapshot: Prisma.JsonNull, billingCompanySnapshot: null, billingNuitSnapshot: null };
+  }
+  return {
+    billingProfileSnapshot: {
+      id: profile.id,
+      companyName: profile.companyName,
+      nuit: profile.nuit,
+      email: profile.email,
+      line1: profile.line1,
+      line2: profile.line2,
+      city: profile.city,
+      state: profile.state,
+      country: profile.country
+    } as Prisma.InputJsonValue,
+    billingCompanySnapshot: profile.companyName,
+    billingNuitSnapshot: profile.nuit
+  };
+}
+
+async function findBillingProfile(tx: Prisma.TransactionClient, userId: string | null, billingProfileId?: string | null) {
+  if (!billingProfileId) return null;
+  const profile = userId ? await tx.billingProfile.findFirst({ where: { id: billingProfileId, userId } }) : null;
+  if (!profile) {
+    throw new ApiError(400, "invalid_billing_profile", "Perfil de faturacao invalido", { billingProfileId });
   }
+  return profile;
+}
 
-  const subtotal = cart.items.reduce((acc, item) => acc + Number(item.priceSnapshot) * item.quantity, 0);
-  const normalized = normalizeCouponCode(couponCode ?? undefined);
+async function findCustomerAddress(tx: Prisma.TransactionClient | typeof prisma, userId: string) {
+  const preferred = await tx.address.findFirst({ where: { userId, isDefault: true } });
+  return preferred ?? (await tx.address.findFirst({ where: { userId }, orderBy: { updatedAt: "desc" } }));
+}
 
+/** Resolves the coupon against the subtotal and takes one redemption. */
+async function redeemCoupon(tx: Prisma.TransactionClient, code: string | null, subtotal: number) {
+  if (!code) {
+    return { couponId: null, couponCode: null, discountTotal: 0 };
+  }
+  const resolved = await resolveCoupon(tx, code, subtotal);
+  await tx.coupon.update({
+    where: { id: resolved.coupon.id },
+    data: { redemptionCount: { increment: 1 } }
+  });
+  return { couponId: resolved.coupon.id, couponCode: resolved.coupon.code, discountTotal: resolved.discountTotal };
+}
+
+async function loadVariantCosts(tx: Prisma.TransactionClient, variantIds: (string | null)[]) {
+  const ids = Array.from(new Set(variantIds.filter((id): id is string => Boolean(id))));
+  const variants = ids.length
+    ? await tx.productVariant.findMany({
+        where: { id: { in: ids } },
+        select: { id: true, attributes: true }
+      })
+    : [];
+  return new Map(variants.map((variant) => [variant.id, extractCostFromAttributes(variant.attributes)]));
+}
+
+/** Runs `create` in a transaction with the next order number, retrying when another order takes it first. */
+async function createNumberedOrder(
+  create: (tx: Prisma.TransactionClient, orderNumber: string) => Promise<CheckoutOrder>
+) {
   const now = new Date();
   const attempts = 3;
   for (let attempt = 1; attempt <= attempts; attempt++) {
     try {
-      const order = await prisma.$transaction(async (tx) => {
-        let couponId: string | null = null;
-        let couponCodeSnapshot: string | null = null;
-        let discountTotal = 0;
-
-        if (normalized) {
-          const resolved = await resolveCoupon(tx, normalized, subtotal);
-          couponId = resolved.coupon.id;
-          couponCodeSnapshot = resolved.coupon.code;
-          discountTotal = resolved.discountTotal;
-
-          await tx.coupon.update({
-            where: { id: resolved.coupon.id },
-            data: { redemptionCount: { increment: 1 } }
-          });
-        }
-
-        const total = Math.max(0, subtotal - discountTotal);
-        const user = await tx.user.findUnique({
-          where: { id: userId },
-          include: {
-            addresses: {
-              where: { isDefault: true },
-              take: 1
-            }
-          }
-        });
-        const fallbackAddress = user?.addresses?.[0] ?? (await tx.address.findFirst({ where: { userId }, orderBy: { updatedAt: "desc" } }));
-        const shippingAddressSnapshot = fallbackAddress
-          ? {
-              id: fallbackAddress.id,
-              name: fallbackAddress.name,
-              line1: fallbackAddress.line1,
-              line2: fallbackAddress.line2,
-              city: fallbackAddress.city,
-              state: fallbackAddress.state,
-              postalCode: fallbackAddress.postalCode,
-              country: fallbackAddress.country,
-              phone: fallbackAddress.phone
-            }
-          : null;
-        const orderNumber = await generateNextOrderNumber(tx, now);
-        const variantIds = Array.from(
-          new Set(
-            cart.items
-              .map((item) => item.variantId)
-              .filter((id): id is string => Boolean(id))
-          )
-        );
-        const variants = variantIds.length
-          ? await tx.productVariant.findMany({
-              where: { id: { in: variantIds } },
-              select: { id: true, attributes: true }
-            })
-          : [];
-        const variantCostMap = new Map(variants.map((variant) => [variant.id, extractCostFromAttributes(variant.attributes)]));
-
-        const order = await tx.order.create({
-          data: {
-            orderNumber,
-            userId,
-            total,
-            discountTotal,
-            couponId,
-            couponCode: couponCodeSnapshot,
-            customerNameSnapshot: user?.name ?? null,
-            customerEmailSnapshot: user?.email ?? null,
-            customerPhoneSnapshot: customerPhoneOverride?.trim() || fallbackAddress?.phone || null,
-            shippingAddressSnapshot: shippingAddressSnapshot
-              ? (shippingAddressSnapshot as Prisma.InputJsonValue)
-              : Prisma.JsonNull,
-            items: {
-              create: cart.items.map((item) => ({
-                productId: item.productId,
-                variantId: item.variantId,
-                quantity: item.quantity,
-                priceSnapshot: item.priceSnapshot,
-                nameSnapshot: item.nameSnapshot,
-                skuSnapshot: item.skuSnapshot,
-                attributesSnapshot: normalizeAttributesSnapshot(item.attributesSnapshot, {
-                  costPriceSnapshot: item.variantId ? variantCostMap.get(item.variantId) ?? 0 : 0
-                })
-              }))
-            },
-            payment: {
-              create: {
-                amount: total,
-                status: "PENDING",
-                provider: paymentProvider ?? null
-              }
-            }
-          },
-          include: { items: true, payment: true }
-        });
-
-        await tx.cartItem.deleteMany({ where: { cartId: cart.id } });
-
-        return order;
-      });
-      return order;
+      return await prisma.$transaction(async (tx) => create(tx, await generateNextOrderNumber(tx, now)));
     } catch (error) {
       const isUniqueOrderNumber =
         error instanceof Prisma.PrismaClientKnownRequestError &&
@@ -221,6 +324,357 @@ export async function checkoutCart(
   throw new ApiError(500, "order_number_generation_failed", "Could not generate order number");
 }
 
-export async function updateOrderStatus(orderId: string, status: "PENDING" | "PAID" | "SHIPPED" | "CANCELED") {
-  return prisma.order.update({ where: { id: orderId }, data: { status } });
+export async function checkoutCart(
+  userId: string,
+  couponCode?: string | null,
+  paymentProvider?: string | null,
+  customerPhoneOverride?: string | null,
+  options: CheckoutOptions = {}
+): Promise<CheckoutOrder> {
+  const cart = await prisma.cart.findUnique({
+    where: { userId },
+    include: { items: true }
+  });
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  const address = await findCustomerAddress(prisma, userId);
+
+  return createOrderFromCart(cart, {
+    customer: {
+      userId,
+      name: user?.name ?? null,
+      email: user?.email ?? null,
+      phone: customerPhoneOverride?.trim() || address?.phone || null,
+      address
+    },
+    couponCode,
+    paymentProvider,
+    ...options
+  });
+}
+
+/**
+ * Checkout of an anonymous cart. The contact and address only live in the
+ * order snapshots; the order stays without `userId` until the email
+ * registers (see `claimGuestOrders`).
+ */
+export async function checkoutGuestCart(input: GuestCheckoutInput): Promise<CheckoutOrder> {
+  return createOrderFromCart(input.cart, {
+    customer: {
+      userId: null,
+      name: input.name,
+      email: input.email.trim().toLowerCase(),
+      phone: input.phone.trim(),
+      address: input.address
+    },
+    couponCode: input.couponCode,
+    paymentProvider: input.paymentProvider,
+    shippingMethodId: input.shippingMethodId,
+    pickupLocationId: input.pickupLocationId
+  });
+}
+
+async function createOrderFromCart(
+  cart: CartWithItems | null,
+  input: CheckoutOptions & {
+    customer: {
+      userId: string | null;
+      name: string | null;
+      email: string | null;
+      phone: string | null;
+      address: OrderAddressSource | null;
+    };
+    couponCode?: string | null;
+    paymentProvider?: string | null;
+  }
+) {
+  if (!cart || cart.items.length === 0) {
+    throw new ApiError(400, "empty_cart", "Cart is empty");
+  }
+  if (input.pickupLocationId && input.shippingMethodId) {
+    throw new ApiError(400, "invalid_fulfillment", "Choose either a shipping method or a pickup location");
+  }
+
+  const subtotal = cart.items.reduce((acc, item) => acc + Number(item.priceSnapshot) * item.quantity, 0);
+  const normalized = normalizeCouponCode(input.couponCode ?? undefined);
+  const { customer } = input;
+
+  return createNumberedOrder(async (tx, orderNumber) => {
+    const coupon = await redeemCoupon(tx, normalized, subtotal);
+    const merchandiseTotal = Math.max(0, subtotal - coupon.discountTotal);
+    // Pickup orders snapshot the pickup point as their address and pay no delivery fee.
+    const pickupLocation = input.pickupLocationId ? await reservePickupLocation(tx, input.pickupLocationId) : null;
+    const address = pickupLocation ? pickupAddress(pickupLocation) : customer.address;
+    const shipping = pickupLocation
+      ? { shippingMethodId: null, shippingMethodName: null, shippingFee: 0 }
+      : await resolveShippingMethod(
+          tx,
+          customer.address,
+          { subtotal: merchandiseTotal, weightKg: sumWeightKg(cart.items) },
+          input.shippingMethodId
+        );
+    const taxConfig = await loadTaxConfig(tx);
+    const taxClassOf = await loadLineTaxClasses(tx, cart.items);
+    const tax = calculateTax(
+      cart.items.map((item) => taxableLine(taxClassOf(item), taxConfig, Number(item.priceSnapshot), item.quantity)),
+      { discountTotal: coupon.discountTotal, shippingFee: shipping.shippingFee, config: taxConfig }
+    );
+    const total = orderTotalWithTax(merchandiseTotal + shipping.shippingFee, tax);
+    const billingProfile = await findBillingProfile(tx, customer.userId, input.billingProfileId);
+    const variantCostMap = await loadVariantCosts(tx, cart.items.map((item) => item.variantId));
+
+    const order = await tx.order.create({
+      data: {
+        orderNumber,
+        userId: customer.userId,
+        total,
+        discountTotal: coupon.discountTotal,
+        couponId: coupon.couponId,
+        couponCode: coupon.couponCode,
+        customerNameSnapshot: customer.name,
+        customerEmailSnapshot: customer.email,
+        customerPhoneSnapshot: customer.phone,
+        shippingAddressSnapshot: buildShippingAddressSnapshot(address),
+        ...buildBillingSnapshot(billingProfile),
+        ...shipping,
+        fulfillmentType: pickupLocation ? "PICKUP" : "DELIVERY",
+        pickupLocationId: pickupLocation?.id ?? null,
+        ...orderTaxFields(tax),
+        items: {
+          create: cart.items.map((item, index) => ({
+            productId: item.productId,
+            variantId: item.variantId,
+            quantity: item.quantity,
+            priceSnapshot: item.priceSnapshot,
+            nameSnapshot: item.nameSnapshot,
+            skuSnapshot: item.skuSnapshot,
+            attributesSnapshot: normalizeAttributesSnapshot(item.attributesSnapshot, {
+              costPriceSnapshot: item.variantId ? variantCostMap.get(item.variantId) ?? 0 : 0
+            }),
+            ...tax.items[index]
+          }))
+        },
+        payments: {
+          create: {
+            amount: total,
+            status: "PENDING",
+            provider: input.paymentProvider ?? null
+          }
+        }
+      },
+      include: { items: true, payments: true }
+    });
+
+    await tx.cartItem.deleteMany({ where: { cartId: cart.id } });
+
+    return order;
+  });
+}
+
+/**
+ * Attaches guest orders placed with `email` to the account. Only called once
+ * the address is proven (email verification or login of a verified account).
+ */
+export async function claimGuestOrders(userId: string, email: string) {
+  const orders = await prisma.order.findMany({
+    where: { userId: null, customerEmailSnapshot: { equals: email.trim(), mode: "insensitive" } },
+    select: { id: true }
+  });
+  if (!orders.length) return 0;
+
+  const claimed = await prisma.order.updateMany({
+    where: { id: { in: orders.map((order) => order.id) }, userId: null },
+    data: { userId }
+  });
+  for (const order of orders) {
+    void writeAuditLog(userId, "order.claimed", "order", order.id, { userId }).catch((err) => {
+      logger.warn({ err, orderId: order.id }, "Failed to write order claim audit log");
+    });
+  }
+  return claimed.count;
+}
+
+type OrderableVariant = Prisma.ProductVariantGetPayload<{ include: { product: true } }>;
+
+/** Order item data for a variant sold at `unitPrice`, with the cost snapshot used by the margin reports. */
+export function buildVariantOrderItem(
+  variant: OrderableVariant,
+  quantity: number,
+  unitPrice: number,
+  extras: Record<string, unknown> = {}
+) {
+  return {
+    productId: variant.productId,
+    variantId: variant.id,
+    quantity,
+    priceSnapshot: unitPrice,
+    nameSnapshot: variant.name ?? variant.product.name,
+    skuSnapshot: variant.sku ?? variant.product.slug,
+    attributesSnapshot: normalizeAttributesSnapshot(variant.attributes, {
+      costPriceSnapshot: extractCostFromAttributes(variant.attributes),
+      ...extras
+    })
+  };
+}
+
+async function resolveManualOrderItems(items: ManualOrderItemInput[]) {
+  const variants = await prisma.productVariant.findMany({
+    where: { id: { in: items.map((item) => item.variantId) } },
+    include: { product: true, stockItem: true }
+  });
+  const byId = new Map(variants.map((variant) => [variant.id, variant]));
+
+  const requested = new Map<string, number>();
+  for (const item of items) {
+    requested.set(item.variantId, (requested.get(item.variantId) ?? 0) + item.quantity);
+  }
+  for (const [variantId, quantity] of requested) {
+    const variant = byId.get(variantId);
+    if (!variant) {
+      throw new ApiError(404, "not_found", "Variant not found", { variantId });
+    }
+    if (variant.product.status !== "ACTIVE") {
+      throw new ApiError(400, "product_inactive", "Produto indisponivel", { variantId });
+    }
+    const onHand = variant.stockItem?.onHand ?? 0;
+    if (onHand < quantity) {
+      throw new ApiError(400, "out_of_stock", "Quantidade indisponivel em estoque", { variantId, onHand });
+    }
+  }
+
+  return items.map((item) => {
+    const variant = byId.get(item.variantId)!;
+    const listPrice = Number(variant.price ?? variant.product.basePrice);
+    const overridden = item.unitPrice !== undefined && item.unitPrice !== listPrice;
+    return {
+      variant,
+      quantity: item.quantity,
+      unitPrice: overridden ? (item.unitPrice as number) : listPrice,
+      listPrice,
+      priceReason: overridden ? item.priceReason ?? null : null
+    };
+  });
+}
+
+/**
+ * Builds an order on behalf of a customer (phone/WhatsApp sales). Prices come
+ * from the variants unless staff override them with a reason; the order then
+ * follows the same numbering, coupon and stock rules as a cart checkout.
+ * Guest contacts whose email already has an account are attached to it.
+ */
+export async function createManualOrder(input: CreateManualOrderInput): Promise<CheckoutOrder> {
+  if (!input.items.length) {
+    throw new ApiError(400, "empty_order", "Order needs at least one item");
+  }
+  const lines = await resolveManualOrderItems(input.items);
+  const subtotal = lines.reduce((acc, line) => acc + line.unitPrice * line.quantity, 0);
+  const normalized = normalizeCouponCode(input.couponCode ?? undefined);
+
+  const guest = "userId" in input.customer ? null : input.customer;
+  const guestEmail = guest?.email?.trim().toLowerCase() || null;
+  const user =
+    "userId" in input.customer
+      ? await prisma.user.findUnique({ where: { id: input.customer.userId } })
+      : guestEmail
+        ? await prisma.user.findUnique({ where: { email: guestEmail } })
+        : null;
+  if ("userId" in input.customer && !user) {
+    throw new ApiError(404, "not_found", "Customer not found");
+  }
+
+  const order = await createNumberedOrder(async (tx, orderNumber) => {
+    const coupon = await redeemCoupon(tx, normalized, subtotal);
+    const merchandiseTotal = Math.max(0, subtotal - coupon.discountTotal);
+    const address = input.shippingAddress ?? (user && !guest ? await findCustomerAddress(tx, user.id) : null);
+    if (input.shippingMethodId && !address) {
+      throw new ApiError(400, "shipping_address_required", "Shipping address required to charge delivery");
+    }
+    const shipping = await resolveShippingMethod(
+      tx,
+      address,
+      {
+        subtotal: merchandiseTotal,
+        weightKg: sumWeightKg(
+          lines.map((line) => ({ quantity: line.quantity, attributesSnapshot: line.variant.attributes }))
+        )
+      },
+      input.shippingMethodId,
+      { required: false }
+    );
+    const taxConfig = await loadTaxConfig(tx);
+    const tax = calculateTax(
+      lines.map((line) =>
+        taxableLine(resolveTaxClass(line.variant, line.variant.product), taxConfig, line.unitPrice, line.quantity)
+      ),
+      { discountTotal: coupon.discountTotal, shippingFee: shipping.shippingFee, config: taxConfig }
+    );
+    const total = orderTotalWithTax(merchandiseTotal + shipping.shippingFee, tax);
+    const billingProfile = await findBillingProfile(tx, user?.id ?? null, input.billingProfileId);
+
+    return tx.order.create({
+      data: {
+        orderNumber,
+        userId: user?.id ?? null,
+        channel: input.channel,
+        createdById: input.createdById,
+        total,
+        discountTotal: coupon.discountTotal,
+        couponId: coupon.couponId,
+        couponCode: coupon.couponCode,
+        customerNameSnapshot: guest?.name ?? user?.name ?? null,
+        customerEmailSnapshot: guestEmail ?? user?.email ?? null,
+        customerPhoneSnapshot: guest?.phone.trim() || address?.phone || null,
+        shippingAddressSnapshot: buildShippingAddressSnapshot(address),
+        ...buildBillingSnapshot(billingProfile),
+        ...shipping,
+        ...orderTaxFields(tax),
+        items: {
+          create: lines.map((line, index) => ({
+            ...buildVariantOrderItem(
+              line.variant,
+              line.quantity,
+              line.unitPrice,
+              line.priceReason !== null ? { listPriceSnapshot: line.listPrice, priceOverrideReason: line.priceReason } : {}
+            ),
+            ...tax.items[index]
+          }))
+        },
+        payments: {
+          create: {
+            amount: total,
+            status: "PENDING",
+            provider: input.paymentProvider ?? null
+          }
+        }
+      },
+      include: { items: true, payments: true }
+    });
+  });
+
+  const priceOverrides = lines
+    .filter((line) => line.priceReason !== null)
+    .map((line) => ({
+      variantId: line.variant.id,
+      listPrice: line.listPrice,
+      unitPrice: line.unitPrice,
+      reason: line.priceReason
+    }));
+  void writeAuditLog(input.createdById, "order.manual_created", "order", order.id, {
+    channel: input.channel,
+    customerId: order.userId,
+    guest: !order.userId,
+    paymentProvider: input.paymentProvider ?? null,
+    ...(priceOverrides.length ? { priceOverrides } : {})
+  }).catch((err) => {
+    logger.warn({ err, orderId: order.id }, "Failed to write manual order audit log");
+  });
+
+  return order;
+}
+
+export async function updateOrderStatus(
+  orderId: string,
+  status: OrderStatus,
+  actorId: string | null = null
+) {
+  return transitionOrderStatus({ orderId, to: status, actorId, source: "order_service" });
 }
@@ -4,7 +4,8 @@ import { ApiError } from "../utils/apiError.js";
 
 const STOCK_REASON_PREFIX = "ORDER";
 const STOCK_RESTORE_REASON_PREFIX = "ORDER_RESTORE";
-const FINAL_ORDER_STATUS = new Set(["PAID", "SHIPPED"]);
+const STOCK_RETURN_REASON_PREFIX = "RETURN";
+const FINAL_ORDER_STATUS = new Set(["PAID", "PARTIALLY_SHIPPED", "SHIPPED", "READY_FOR_PICKUP", "DELIVERED"]);
 const FINAL_PAYMENT_STATUS = new Set(["AUTHORIZED", "CAPTURED"]);
 
 function buildOrderItemStockReason(orderId: string, orderItemId: string) {
@@ -15,6 +16,36 @@ function buildOrderItemStockRestoreReason(orderId: string, orderItemId: string)
   return `${STOCK_RESTORE_REASON_PREFIX}:${orderId}:${orderItemId}`;
 }
 
+function buildOrderItemStockReturnReason(orderId: string, orderItemId: string) {
+  return `${STOCK_RETURN_REASON_PREFIX}:${orderId}:${orderItemId}`;
+}
+
+async function getReturnedQuantity(tx: Prisma.TransactionClient, stockItemId: string, orderId: string, orderItemId: string) {
+  const result = await tx.stockMovement.aggregate({
+    where: { stockItemId, reason: buildOrderItemStockReturnReason(orderId, orderItemId) },
+    _sum: { delta: true }
+  });
+  return result._sum.delta ?? 0;
+}
+
+async function getReservedQuantity(
+  tx: Prisma.TransactionClient,
+  stockItemId: string,
+  orderId: string,
+  orderItemId: string
+) {
+  const result = await tx.stockMovement.aggregate({
+    where: {
+      stockItemId,
+      reason: {
+        in: [buildOrderItemStockReason(orderId, orderItemId), buildOrderItemStockRestoreReason(orderId, orderItemId)]
+      }
+    },
+    _sum: { delta: true }
+  });
+  return -(result._sum.delta ?? 0);
+}
+
 export function shouldDeductStockForOrderState(
   orderStatus?: string | null,
   paymentStatus?: string | null
@@ -30,7 +61,62 @@ export function shouldRestoreStockForOrderCancellation(
   return nextOrderStatus === "CANCELED" && shouldDeductStockForOrderState(previousOrderStatus, previousPaymentStatus);
 }
 
-export async function ensureOrderStockDeducted(orderId: string) {
+async function deductOrderStock(tx: Prisma.TransactionClient, orderId: string) {
+  const order = await tx.order.findUnique({
+    where: { id: orderId },
+    include: { items: true }
+  });
+  if (!order) {
+    throw new ApiError(404, "not_found", "Order not found");
+  }
+
+  for (const item of order.items) {
+    if (!item.variantId || item.quantity <= 0) {
+      continue;
+    }
+
+    const stockItem = await tx.stockItem.findUnique({ where: { variantId: item.variantId } });
+    if (!stockItem) {
+      throw new ApiError(409, "stock_item_missing", "Item de estoque nao encontrado para a variante");
+    }
+
+    const reason = buildOrderItemStockReason(order.id, item.id);
+    const reserved = await getReservedQuantity(tx, stockItem.id, order.id, item.id);
+    if (reserved > 0) {
+      continue;
+    }
+
+    if (stockItem.onHand < item.quantity) {
+      throw new ApiError(409, "insufficient_stock", "Estoque insuficiente para concluir o pedido");
+    }
+
+    await tx.stockMovement.create({
+      data: {
+        stockItemId: stockItem.id,
+        delta: -item.quantity,
+        reason
+      }
+    });
+
+    await tx.stockItem.update({
+      where: { id: stockItem.id },
+      data: { onHand: { decrement: item.quantity } }
+    });
+  }
+}
+
+/** Pass `client` to reserve inside a caller's transaction (which then owns the isolation level). */
+export async function ensureOrderStockDeducted(orderId: string, client?: Prisma.TransactionClient) {
+  if (client) {
+    await deductOrderStock(client, orderId);
+    return;
+  }
+  await prisma.$transaction((tx) => deductOrderStock(tx, orderId), {
+    isolationLevel: Prisma.TransactionIsolationLevel.Serializable
+  });
+}
+
+export async function ensureOrderStockRestored(orderId: string) {
   await prisma.$transaction(
     async (tx) => {
       const order = await tx.order.findUnique({
@@ -48,32 +134,27 @@ export async function ensureOrderStockDeducted(orderId: string) {
 
         const stockItem = await tx.stockItem.findUnique({ where: { variantId: item.variantId } });
         if (!stockItem) {
-          throw new ApiError(409, "stock_item_missing", "Item de estoque nao encontrado para a variante");
-        }
-
-        const reason = buildOrderItemStockReason(order.id, item.id);
-        const existingMovement = await tx.stockMovement.findFirst({
-          where: { stockItemId: stockItem.id, reason }
-        });
-        if (existingMovement) {
           continue;
         }
 
-        if (stockItem.onHand < item.quantity) {
-          throw new ApiError(409, "insufficient_stock", "Estoque insuficiente para concluir o pedido");
+        // Units already back on the shelf through a return are not restored twice.
+        const reserved = await getReservedQuantity(tx, stockItem.id, order.id, item.id);
+        const restorable = reserved - (await getReturnedQuantity(tx, stockItem.id, order.id, item.id));
+        if (restorable <= 0) {
+          continue;
         }
 
         await tx.stockMovement.create({
           data: {
             stockItemId: stockItem.id,
-            delta: -item.quantity,
-            reason
+            delta: restorable,
+            reason: buildOrderItemStockRestoreReason(order.id, item.id)
           }
         });
 
         await tx.stockItem.update({
           where: { id: stockItem.id },
-          data: { onHand: { decrement: item.quantity } }
+          data: { onHand: { increment: restorable } }
         });
       }
     },
@@ -81,19 +162,18 @@ export async function ensureOrderStockDeducted(orderId: string) {
   );
 }
 
-export async function ensureOrderStockRestored(orderId: string) {
-  await prisma.$transaction(
+/**
+ * Puts returned units back on hand with a `RETURN:` movement. Only units the
+ * order actually took from stock (and that were not restored or returned
+ * before) are counted; returns the quantity restocked per order item.
+ */
+export async function restockReturnedItems(orderId: string, items: { orderItemId: string; quantity: number }[]) {
+  return prisma.$transaction(
     async (tx) => {
-      const order = await tx.order.findUnique({
-        where: { id: orderId },
-        include: { items: true }
-      });
-      if (!order) {
-        throw new ApiError(404, "not_found", "Order not found");
-      }
-
-      for (const item of order.items) {
-        if (!item.variantId || item.quantity <= 0) {
+      const restocked = new Map<string, number>();
+      for (const entry of items) {
+        const item = await tx.orderItem.findUnique({ where: { id: entry.orderItemId } });
+        if (!item || item.orderId !== orderId || !item.variantId || entry.quantity <= 0) {
           continue;
         }
 
@@ -102,35 +182,28 @@ export async function ensureOrderStockRestored(orderId: string) {
           continue;
         }
 
-        const deductionReason = buildOrderItemStockReason(order.id, item.id);
-        const deductionExists = await tx.stockMovement.findFirst({
-          where: { stockItemId: stockItem.id, reason: deductionReason }
-        });
-        if (!deductionExists) {
-          continue;
-        }
-
-        const restoreReason = buildOrderItemStockRestoreReason(order.id, item.id);
-        const restoreExists = await tx.stockMovement.findFirst({
-          where: { stockItemId: stockItem.id, reason: restoreReason }
-        });
-        if (restoreExists) {
+        const reserved = await getReservedQuantity(tx, stockItem.id, orderId, item.id);
+        const returned = await getReturnedQuantity(tx, stockItem.id, orderId, item.id);
+        const quantity = Math.min(entry.quantity, reserved - returned);
+        if (quantity <= 0) {
           continue;
         }
 
         await tx.stockMovement.create({
           data: {
             stockItemId: stockItem.id,
-            delta: item.quantity,
-            reason: restoreReason
+            delta: quantity,
+            reason: buildOrderItemStockReturnReason(orderId, item.id)
           }
         });
 
         await tx.stockItem.update({
           where: { id: stockItem.id },
-          data: { onHand: { increment: item.quantity } }
+          data: { onHand: { increment: quantity } }
         });
+        restocked.set(item.id, quantity);
       }
+      return restocked;
     },
     { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
   );
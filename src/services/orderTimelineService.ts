@@ -0,0 +1,187 @@
+import { OrderNoteVisibility, Prisma } from "@prisma/client";
+import { prisma } from "../config/prisma.js";
+import { ApiError } from "../utils/apiError.js";
+
+export type TimelineAudience = "staff" | "customer";
+
+type TimelineEntryType =
+  | "created"
+  | "status"
+  | "edit"
+  | "payment"
+  | "refund"
+  | "shipment"
+  | "return"
+  | "delivery"
+  | "webhook"
+  | "note"
+  | "event";
+
+type TimelineActor = { id: string; name: string | null; email: string } | null;
+
+export type TimelineEntry = {
+  id: string;
+  type: TimelineEntryType;
+  action: string;
+  at: Date;
+  actor?: TimelineActor;
+  data: Record<string, unknown>;
+};
+
+type AddOrderNoteInput = {
+  orderId: string;
+  authorId: string | null;
+  body: string;
+  visibility?: OrderNoteVisibility;
+};
+
+// Domain audit actions written by the order services, grouped by timeline type.
+const AUDIT_ACTION_TYPES: { prefix: string; type: TimelineEntryType }[] = [
+  { prefix: "order.status_changed", type: "status" },
+  { prefix: "order.items_edited", type: "edit" },
+  { prefix: "order.payment_status_changed", type: "payment" },
+  { prefix: "order.refund_", type: "refund" },
+  { prefix: "order.shipment_", type: "shipment" },
+  { prefix: "order.return_", type: "return" },
+  { prefix: "order.cod_", type: "delivery" }
+];
+
+// Fields each entry type may expose to the customer; everything else stays internal.
+const CUSTOMER_FIELDS: Partial<Record<TimelineEntryType, string[]>> = {
+  created: ["orderNumber", "total", "currency"],
+  status: ["from", "to"],
+  edit: ["revision", "total"],
+  payment: ["to"],
+  refund: ["amount", "status"],
+  shipment: ["carrier", "trackingCode", "status", "deliveredAt"],
+  return: ["returnId", "amount"],
+  note: ["body"]
+};
+
+const actorSelect = { id: true, name: true, email: true } as const;
+
+function asRecord(value: Prisma.JsonValue): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function resolveAuditType(action: string) {
+  return AUDIT_ACTION_TYPES.find((entry) => action.startsWith(entry.prefix))?.type ?? "event";
+}
+
+function pickFields(data: Record<string, unknown>, fields: string[]) {
+  return Object.fromEntries(fields.filter((field) => data[field] !== undefined).map((field) => [field, data[field]]));
+}
+
+function toCustomerEntry(entry: TimelineEntry): TimelineEntry | null {
+  const fields = CUSTOMER_FIELDS[entry.type];
+  if (!fields) return null;
+  // A failed refund attempt is an internal matter until staff retries it.
+  if (entry.type === "refund" && entry.data.status === "FAILED") return null;
+  if (entry.type === "payment" && !entry.data.to) return null;
+  return { id: entry.id, type: entry.type, action: entry.action, at: entry.at, data: pickFields(entry.data, fields) };
+}
+
+/**
+ * Merges the order's domain audit entries, payment audits, linked webhook
+ * deliveries and notes into one chronological list. The customer audience
+ * only gets customer notes and a whitelisted subset of each entry.
+ */
+export async function getOrderTimeline(orderId: string, audience: TimelineAudience) {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: { payments: { select: { id: true } } }
+  });
+  if (!order) {
+    throw new ApiError(404, "not_found", "Order not found");
+  }
+  const paymentIds = order.payments.map((payment) => payment.id);
+
+  const [audits, webhooks, notes] = await Promise.all([
+    prisma.auditLog.findMany({
+      where: {
+        OR: [
+          { entity: "order", entityId: order.id, action: { startsWith: "order." } },
+          ...(paymentIds.length ? [{ entity: "payment", entityId: { in: paymentIds } }] : [])
+        ]
+      },
+      include: { actor: { select: actorSelect } },
+      orderBy: { createdAt: "asc" }
+    }),
+    audience === "staff"
+      ? prisma.webhookEvent.findMany({ where: { orderId: order.id }, orderBy: { createdAt: "asc" } })
+      : Promise.resolve([]),
+    prisma.orderNote.findMany({
+      where: { orderId: order.id, ...(audience === "customer" ? { visibility: "CUSTOMER" as const } : {}) },
+      include: { author: { select: actorSelect } },
+      orderBy: { createdAt: "asc" }
+    })
+  ]);
+
+  const entries: TimelineEntry[] = [
+    {
+      id: order.id,
+      type: "created" as const,
+      action: "order.created",
+      at: order.createdAt,
+      data: {
+        orderNumber: order.orderNumber,
+        total: order.total,
+        currency: order.currency,
+        couponCode: order.couponCode,
+        channel: order.channel,
+        createdById: order.createdById
+      }
+    },
+    ...audits.map((log) => ({
+      id: log.id,
+      type: log.entity === "payment" ? ("payment" as const) : resolveAuditType(log.action),
+      action: log.action,
+      at: log.createdAt,
+      actor: log.actor,
+      data: asRecord(log.meta)
+    })),
+    ...webhooks.map((event) => ({
+      id: event.id,
+      type: "webhook" as const,
+      action: event.eventType ?? "webhook",
+      at: event.createdAt,
+      data: {
+        provider: event.provider,
+        eventId: event.eventId,
+        status: event.status,
+        attempts: event.attempts,
+        paymentId: event.paymentId,
+        lastError: event.lastError
+      }
+    })),
+    ...notes.map((note) => ({
+      id: note.id,
+      type: "note" as const,
+      action: `note.${note.visibility.toLowerCase()}`,
+      at: note.createdAt,
+      actor: note.author,
+      data: { body: note.body, visibility: note.visibility }
+    }))
+  ].sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  if (audience === "staff") {
+    return entries;
+  }
+  return entries.map(toCustomerEntry).filter((entry): entry is TimelineEntry => entry !== null);
+}
+
+export async function addOrderNote(input: AddOrderNoteInput) {
+  const order = await prisma.order.findUnique({ where: { id: input.orderId }, select: { id: true } });
+  if (!order) {
+    throw new ApiError(404, "not_found", "Order not found");
+  }
+  return prisma.orderNote.create({
+    data: {
+      orderId: order.id,
+      authorId: input.authorId,
+      body: input.body,
+      visibility: input.visibility ?? "INTERNAL"
+    },
+    include: { author: { select: actorSelect } }
+  });
+}
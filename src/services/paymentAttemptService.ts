@@ -0,0 +1,82 @@
+import { PaymentAttempt, PaymentStatus, Prisma } from "@prisma/client";
+import { prisma } from "../config/prisma.js";
+
+type PaymentClient = Prisma.TransactionClient | typeof prisma;
+
+const ACTIVE_ATTEMPT_STATUSES = new Set<PaymentStatus>(["AUTHORIZED", "CAPTURED", "REFUNDED"]);
+
+/**
+ * The order's payment status is a summary of its attempts: a captured (or
+ * refunded) attempt wins over later failures, otherwise the latest attempt counts.
+ */
+export function derivePaymentStatus(attempts: Pick<PaymentAttempt, "status" | "createdAt">[]): PaymentStatus {
+  if (!attempts.length) return "PENDING";
+  if (attempts.some((attempt) => attempt.status === "CAPTURED")) return "CAPTURED";
+  if (attempts.some((attempt) => attempt.status === "REFUNDED")) return "REFUNDED";
+  if (attempts.some((attempt) => attempt.status === "AUTHORIZED")) return "AUTHORIZED";
+  const latest = [...attempts].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+  return latest.status;
+}
+
+export async function syncOrderPaymentStatus(orderId: string, client: PaymentClient = prisma) {
+  const attempts = await client.paymentAttempt.findMany({
+    where: { orderId },
+    select: { status: true, createdAt: true }
+  });
+  const paymentStatus = derivePaymentStatus(attempts);
+  await client.order.update({ where: { id: orderId }, data: { paymentStatus } });
+  return paymentStatus;
+}
+
+/** Latest attempt that already holds (or held) the customer's money, if any. */
+export function findActivePaymentAttempt<T extends Pick<PaymentAttempt, "status" | "createdAt">>(attempts: T[]) {
+  return (
+    [...attempts]
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .find((attempt) => ACTIVE_ATTEMPT_STATUSES.has(attempt.status)) ?? null
+  );
+}
+
+/**
+ * Returns the pending attempt for `provider` to reuse, or opens a new one.
+ * Earlier attempts are never overwritten so the order keeps its full history.
+ */
+export async function openPaymentAttempt(
+  order: { id: string; total: Prisma.Decimal | number },
+  provider: string | null,
+  client: PaymentClient = prisma
+) {
+  const pending = await client.paymentAttempt.findFirst({
+    where: { orderId: order.id, status: "PENDING", provider },
+    orderBy: { createdAt: "desc" }
+  });
+  if (pending) return pending;
+  return client.paymentAttempt.create({
+    data: {
+      orderId: order.id,
+      amount: order.total,
+      status: "PENDING",
+      provider
+    }
+  });
+}
+
+export function withLatestPayment<T extends { payments: PaymentAttempt[] }>(order: T) {
+  const payment =
+    [...order.payments].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0] ?? null;
+  return { ...order, payment };
+}
+
+/** Manual override from the back office: applies the status to the latest attempt. */
+export async function setLatestPaymentAttemptStatus(orderId: string, status: PaymentStatus, client: PaymentClient = prisma) {
+  const latest = await client.paymentAttempt.findFirst({
+    where: { orderId },
+    orderBy: { createdAt: "desc" }
+  });
+  if (latest) {
+    await client.paymentAttempt.update({ where: { id: latest.id }, data: { status } });
+    return syncOrderPaymentStatus(orderId, client);
+  }
+  await client.order.update({ where: { id: orderId }, data: { paymentStatus: status } });
+  return status;
+}
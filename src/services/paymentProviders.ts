@@ -0,0 +1,575 @@
+import { OrderItem, PaymentAttempt, Prisma, RefundStatus } from "@prisma/client";
+import { env } from "../config/env.js";
+import { prisma } from "../config/prisma.js";
+import { logger } from "../config/logger.js";
+import { ApiError } from "../utils/apiError.js";
+import { createStripeCheckoutSession, createStripeRefund, getStripeCheckoutSession } from "./stripeService.js";
+import { buildStripeLineItems } from "./stripeLineItemService.js";
+import { capturePayPalOrder, createPayPalOrder } from "./paypalService.js";
+import {
+  createMpesaPayment,
+  createMpesaReversal,
+  mapMpesaTransactionStatus,
+  normalizeMpesaMsisdn
+} from "./mpesaService.js";
+import { createEmolaPayment, mapEmolaTransactionStatus, normalizeEmolaMsisdn } from "./emolaService.js";
+
+export type PaymentOutcome = "CAPTURED" | "FAILED";
+
+export type PaymentInitiateInput = {
+  order: {
+    id: string;
+    orderNumber: string | null;
+    total: Prisma.Decimal;
+    currency: string;
+    items: OrderItem[];
+    shippingFee: Prisma.Decimal;
+    shippingMethodName: string | null;
+    taxTotal: Prisma.Decimal;
+    pricesIncludeTax: boolean;
+  };
+  attempt: PaymentAttempt;
+  /** `id` is null for guest orders; wallet providers then need an explicit phone. */
+  customer: { id: string | null; email: string | null };
+  phone?: string | null;
+  assetBaseUrl?: string;
+};
+
+export type PaymentInitiateResult = {
+  /** Omitted while the customer still has to act (redirect, approval). */
+  status?: "AUTHORIZED" | "FAILED";
+  externalRef?: string | null;
+  checkoutUrl?: string | null;
+  rawResponse?: unknown;
+  /** When present the attempt is audited as `<code>_payment` with this metadata. */
+  auditMeta?: Record<string, unknown>;
+};
+
+export type PaymentConfirmInput = {
+  reference: string;
+  attempt: PaymentAttempt | null;
+};
+
+export type PaymentConfirmResult = {
+  paymentId: string | null;
+  status: string;
+  outcome: PaymentOutcome | null;
+  externalRef?: string | null;
+  rawResponse?: unknown;
+  meta?: Record<string, unknown>;
+};
+
+export type PaymentRefundInput = {
+  payment: { id: string; orderId: string; externalRef: string };
+  refundId: string;
+  amount: number;
+};
+
+export type PaymentRefundResult = {
+  status: RefundStatus;
+  externalRef: string | null;
+  message: string | null;
+  raw: unknown;
+};
+
+export type ParsedPaymentWebhook = {
+  outcome: PaymentOutcome;
+  paymentId?: string | null;
+  orderId?: string | null;
+  externalRef?: string | null;
+  /** Unknown references are logged and acknowledged instead of failing the delivery. */
+  ignoreUnmatched?: boolean;
+  meta?: Record<string, unknown>;
+};
+
+/** Late result of a refund the gateway accepted as pending. */
+export type ParsedRefundWebhook = {
+  status: "SUCCEEDED" | "FAILED";
+  externalRef: string;
+  refundId?: string | null;
+  meta?: Record<string, unknown>;
+};
+
+export interface PaymentProvider {
+  readonly code: string;
+  /** Payments settled outside any gateway; refunds are always recorded manually. */
+  readonly offline?: boolean;
+  /** Test stand-ins customers must never pick; only staff tooling can use them. */
+  readonly testOnly?: boolean;
+  initiate(input: PaymentInitiateInput): Promise<PaymentInitiateResult>;
+  confirm?(input: PaymentConfirmInput): Promise<PaymentConfirmResult>;
+  refund?(input: PaymentRefundInput): Promise<PaymentRefundResult>;
+  parseWebhook?(payload: Record<string, unknown>): ParsedPaymentWebhook | null;
+  parseRefundWebhook?(payload: Record<string, unknown>): ParsedRefundWebhook | null;
+}
+
+function pickString(payload: Record<string, unknown>, keys: string[]) {
+  for (const key of keys) {
+    const value = payload[key];
+    if (typeof value === "string" && value.trim()) return value.trim();
+  }
+  return null;
+}
+
+/** Body of the signed generic webhook: `paymentId`/`orderId`, `paymentStatus` and an optional `externalRef`. */
+export function parseGenericPaymentWebhook(payload: Record<string, unknown>): ParsedPaymentWebhook {
+  const paymentStatus = pickString(payload, ["paymentStatus"])?.toUpperCase();
+  if (paymentStatus !== "CAPTURED" && paymentStatus !== "FAILED") {
+    throw new ApiError(400, "invalid_payment_status", "paymentStatus must be CAPTURED or FAILED");
+  }
+  const parsed: ParsedPaymentWebhook = {
+    outcome: paymentStatus,
+    paymentId: pickString(payload, ["paymentId"]),
+    orderId: pickString(payload, ["orderId"]),
+    externalRef: pickString(payload, ["externalRef", "transactionId"])
+  };
+  if (!parsed.paymentId && !parsed.orderId && !parsed.externalRef) {
+    throw new ApiError(400, "missing_reference", "orderId, paymentId or externalRef is required");
+  }
+  return parsed;
+}
+
+async function resolveWalletPhone(
+  wallet: { normalize: (raw: string) => string; label: string; code: string },
+  userId: string | null,
+  override?: string | null
+) {
+  const normalizeOrThrow = (value: string) => {
+    try {
+      return wallet.normalize(value);
+    } catch (error) {
+      throw new ApiError(
+        400,
+        `${wallet.code}_phone_invalid`,
+        error instanceof Error ? error.message : `Numero ${wallet.label} invalido`
+      );
+    }
+  };
+
+  const raw = override?.trim();
+  if (raw) {
+    return normalizeOrThrow(raw);
+  }
+  const defaultAddress = userId
+    ? await prisma.address.findFirst({ where: { userId, isDefault: true, phone: { not: null } } })
+    : null;
+  const fallback =
+    defaultAddress ?? (userId ? await prisma.address.findFirst({ where: { userId, phone: { not: null } } }) : null);
+  if (!fallback?.phone) {
+    throw new ApiError(
+      400,
+      `${wallet.code}_phone_missing`,
+      `Informe um telefone ${wallet.label} ou defina um endereco com telefone.`
+    );
+  }
+  return normalizeOrThrow(fallback.phone);
+}
+
+type StripeObject = {
+  id: string;
+  payment_status?: string;
+  payment_intent?: string | { id: string } | null;
+  metadata?: { orderId?: string; paymentId?: string };
+};
+
+/**
+ * Attempts start with the Checkout Session id and keep the PaymentIntent id
+ * (`pi_...`) once Stripe reports on them: refunds and the balance report
+ * (settlements) refer to the intent, whichever event arrives first.
+ */
+function stripeExternalRef(object: Pick<StripeObject, "id" | "payment_intent">) {
+  const intent = typeof object.payment_intent === "string" ? object.payment_intent : object.payment_intent?.id;
+  return intent ?? object.id;
+}
+
+const STRIPE_SESSION_EVENTS = new Set([
+  "checkout.session.completed",
+  "checkout.session.async_payment_succeeded",
+  "checkout.session.async_payment_failed"
+]);
+const STRIPE_INTENT_EVENTS = new Set(["payment_intent.succeeded", "payment_intent.payment_failed"]);
+const STRIPE_REFUND_EVENTS = new Set(["charge.refund.updated", "refund.updated", "refund.failed"]);
+
+function resolveStripeOutcome(eventType: string, object: StripeObject): PaymentOutcome | null {
+  if (eventType === "payment_intent.succeeded") return "CAPTURED";
+  if (eventType === "payment_intent.payment_failed") return "FAILED";
+  if (eventType === "checkout.session.async_payment_failed") return "FAILED";
+  if (object.payment_status === "paid") return "CAPTURED";
+  if (object.payment_status === "unpaid") return "FAILED";
+  return null;
+}
+
+export class StripePaymentProvider implements PaymentProvider {
+  readonly code = "STRIPE";
+
+  async initiate(input: PaymentInitiateInput): Promise<PaymentInitiateResult> {
+    const lineItems = await buildStripeLineItems(input.order.items, input.assetBaseUrl);
+    const shippingFee = Number(input.order.shippingFee);
+    if (shippingFee > 0) {
+      lineItems.push({ name: `Entrega - ${input.order.shippingMethodName ?? "Envio"}`, unitAmount: shippingFee, quantity: 1 });
+    }
+    const taxTotal = Number(input.order.taxTotal);
+    if (!input.order.pricesIncludeTax && taxTotal > 0) {
+      lineItems.push({ name: "IVA", unitAmount: taxTotal, quantity: 1 });
+    }
+    const session = await createStripeCheckoutSession({
+      orderId: input.order.id,
+      paymentId: input.attempt.id,
+      currency: input.order.currency,
+      customerEmail: input.customer.email,
+      amount: Number(input.order.total),
+      lineItems
+    });
+    return { externalRef: session.id, checkoutUrl: session.url };
+  }
+
+  async confirm(input: PaymentConfirmInput): Promise<PaymentConfirmResult> {
+    const session = await getStripeCheckoutSession(input.reference);
+    const paymentId = session.metadata?.paymentId;
+    if (!session.metadata?.orderId || !paymentId) {
+      throw new ApiError(400, "invalid_session", "Session metadata missing");
+    }
+    return {
+      paymentId,
+      status: session.payment_status,
+      outcome: session.payment_status === "paid" ? "CAPTURED" : null,
+      externalRef: stripeExternalRef(session)
+    };
+  }
+
+  async refund(input: PaymentRefundInput): Promise<PaymentRefundResult> {
+    const refund = await createStripeRefund({
+      externalRef: input.payment.externalRef,
+      amount: input.amount,
+      metadata: { orderId: input.payment.orderId, paymentId: input.payment.id, refundId: input.refundId }
+    });
+    const status: RefundStatus =
+      refund.status === "succeeded" ? "SUCCEEDED" : refund.status === "pending" ? "PENDING" : "FAILED";
+    return { status, externalRef: refund.id, message: refund.status, raw: refund.raw };
+  }
+
+  parseWebhook(payload: Record<string, unknown>): ParsedPaymentWebhook | null {
+    const eventType = String(payload.type ?? "");
+    if (!STRIPE_SESSION_EVENTS.has(eventType) && !STRIPE_INTENT_EVENTS.has(eventType)) {
+      return null;
+    }
+    const object = (payload.data as { object?: StripeObject } | undefined)?.object;
+    if (!object) {
+      throw new ApiError(400, "invalid_payload", "Stripe event without data object");
+    }
+
+    const orderId = object.metadata?.orderId ?? null;
+    const paymentId = object.metadata?.paymentId ?? null;
+    if (!orderId && !paymentId) {
+      logger.info({ eventId: payload.id, eventType }, "Stripe webhook without order reference ignored");
+      return null;
+    }
+
+    const outcome = resolveStripeOutcome(eventType, object);
+    if (!outcome) return null;
+    return {
+      outcome,
+      paymentId,
+      orderId,
+      externalRef: stripeExternalRef(object),
+      meta: { eventId: payload.id, eventType, objectId: object.id }
+    };
+  }
+
+  parseRefundWebhook(payload: Record<string, unknown>): ParsedRefundWebhook | null {
+    const eventType = String(payload.type ?? "");
+    if (!STRIPE_REFUND_EVENTS.has(eventType)) return null;
+    const object = (payload.data as { object?: { id?: string; status?: string; metadata?: { refundId?: string } } })
+      ?.object;
+    if (!object?.id) {
+      throw new ApiError(400, "invalid_payload", "Stripe event without data object");
+    }
+    const status =
+      object.status === "succeeded"
+        ? "SUCCEEDED"
+        : object.status === "failed" || object.status === "canceled"
+          ? "FAILED"
+          : null;
+    if (!status) return null;
+    return {
+      status,
+      externalRef: object.id,
+      refundId: object.metadata?.refundId ?? null,
+      meta: { eventId: payload.id, eventType, stripeStatus: object.status }
+    };
+  }
+}
+
+const PAYPAL_CAPTURED_EVENTS = new Set(["PAYMENT.CAPTURE.COMPLETED"]);
+const PAYPAL_FAILED_EVENTS = new Set(["PAYMENT.CAPTURE.DENIED", "PAYMENT.CAPTURE.DECLINED"]);
+
+export class PayPalPaymentProvider implements PaymentProvider {
+  readonly code = "PAYPAL";
+
+  async initiate(input: PaymentInitiateInput): Promise<PaymentInitiateResult> {
+    const paypalOrder = await createPayPalOrder({
+      orderId: input.order.id,
+      paymentId: input.attempt.id,
+      amount: Number(input.order.total),
+      currency: input.order.currency,
+      orderNumber: input.order.orderNumber
+    });
+    return { externalRef: paypalOrder.id, checkoutUrl: paypalOrder.approveUrl };
+  }
+
+  async confirm(input: PaymentConfirmInput): Promise<PaymentConfirmResult> {
+    if (!input.attempt) {
+      throw new ApiError(404, "not_found", "Order not found");
+    }
+    if (input.attempt.status !== "PENDING" && input.attempt.status !== "AUTHORIZED") {
+      return { paymentId: input.attempt.id, status: input.attempt.status, outcome: null };
+    }
+
+    const capture = await capturePayPalOrder(input.reference);
+    const outcome: PaymentOutcome | null =
+      capture.status === "COMPLETED"
+        ? "CAPTURED"
+        : capture.status === "DECLINED" || capture.status === "VOIDED"
+          ? "FAILED"
+          : null;
+    return {
+      paymentId: input.attempt.id,
+      status: capture.status,
+      outcome,
+      rawResponse: capture.raw,
+      meta: outcome === "CAPTURED" ? { captureId: capture.captureId } : { paypalStatus: capture.status }
+    };
+  }
+
+  parseWebhook(payload: Record<string, unknown>): ParsedPaymentWebhook | null {
+    const eventType = String(payload.event_type ?? "");
+    const outcome: PaymentOutcome | null = PAYPAL_CAPTURED_EVENTS.has(eventType)
+      ? "CAPTURED"
+      : PAYPAL_FAILED_EVENTS.has(eventType)
+        ? "FAILED"
+        : null;
+    if (!outcome) return null;
+
+    const resource = (payload.resource ?? {}) as {
+      id?: string;
+      custom_id?: string;
+      supplementary_data?: { related_ids?: { order_id?: string } };
+    };
+    return {
+      outcome,
+      paymentId: resource.custom_id ?? null,
+      externalRef: resource.supplementary_data?.related_ids?.order_id ?? null,
+      meta: { eventId: payload.id, eventType, captureId: resource.id ?? null }
+    };
+  }
+}
+
+export class MpesaPaymentProvider implements PaymentProvider {
+  readonly code = "MPESA";
+
+  async initiate(input: PaymentInitiateInput): Promise<PaymentInitiateResult> {
+    const msisdn = await resolveWalletPhone(
+      { normalize: normalizeMpesaMsisdn, label: "M-PESA", code: "mpesa" },
+      input.customer.id,
+      input.phone
+    );
+    const result = await createMpesaPayment({
+      amount: Number(input.order.total),
+      customerMsisdn: msisdn,
+      orderId: input.order.id,
+      paymentId: input.attempt.id
+    });
+    return {
+      status: result.ok ? "AUTHORIZED" : "FAILED",
+      externalRef: result.transactionId,
+      rawResponse: result.raw,
+      auditMeta: {
+        responseCode: result.responseCode,
+        responseDesc: result.responseDesc,
+        transactionId: result.transactionId
+      }
+    };
+  }
+
+  async refund(input: PaymentRefundInput): Promise<PaymentRefundResult> {
+    const reversal = await createMpesaReversal({
+      transactionId: input.payment.externalRef,
+      amount: input.amount,
+      refundId: input.refundId
+    });
+    return {
+      status: reversal.ok ? "SUCCEEDED" : "FAILED",
+      externalRef: reversal.reversalTransactionId,
+      message: reversal.responseDesc,
+      raw: reversal.raw
+    };
+  }
+
+  parseWebhook(payload: Record<string, unknown>): ParsedPaymentWebhook | null {
+    const transactionId = pickString(payload, ["output_TransactionID", "input_TransactionID", "transactionId"]);
+    const responseCode = pickString(payload, ["output_ResponseCode", "input_ResultCode", "responseCode"]);
+    const transactionStatus = pickString(payload, ["output_ResponseTransactionStatus", "transactionStatus"]);
+    if (!transactionId) {
+      throw new ApiError(400, "missing_reference", "transactionId is required");
+    }
+
+    const mappedStatus = transactionStatus ? mapMpesaTransactionStatus(transactionStatus) : null;
+    // Unknown statuses leave the attempt AUTHORIZED for the reconciler to query.
+    if (mappedStatus === "PENDING" || mappedStatus === "UNKNOWN") {
+      logger.info({ transactionId, responseCode, transactionStatus }, "M-PESA callback without final status");
+      return null;
+    }
+    const succeeded = mappedStatus ? mappedStatus === "COMPLETED" : responseCode === "INS-0" || responseCode === "0";
+    return {
+      outcome: succeeded ? "CAPTURED" : "FAILED",
+      externalRef: transactionId,
+      ignoreUnmatched: true,
+      meta: { transactionId, responseCode, transactionStatus }
+    };
+  }
+}
+
+export class EmolaPaymentProvider implements PaymentProvider {
+  readonly code = "EMOLA";
+
+  async initiate(input: PaymentInitiateInput): Promise<PaymentInitiateResult> {
+    const msisdn = await resolveWalletPhone(
+      { normalize: normalizeEmolaMsisdn, label: "e-Mola", code: "emola" },
+      input.customer.id,
+      input.phone
+    );
+    const result = await createEmolaPayment({
+      amount: Number(input.order.total),
+      customerMsisdn: msisdn,
+      orderId: input.order.id,
+      paymentId: input.attempt.id
+    });
+    // "01" only means the prompt reached the phone: the attempt stays PENDING until the callback or reconciler.
+    return {
+      status: !result.ok ? "FAILED" : result.pending ? undefined : "AUTHORIZED",
+      externalRef: result.transactionId,
+      rawResponse: result.raw,
+      auditMeta: {
+        responseCode: result.responseCode,
+        responseDesc: result.responseDesc,
+        transactionId: result.transactionId
+      }
+    };
+  }
+
+  /** e-Mola callbacks carry the transaction id and its final response code; the signed generic format still works. */
+  parseWebhook(payload: Record<string, unknown>): ParsedPaymentWebhook | null {
+    if (payload.paymentStatus !== undefined) {
+      return parseGenericPaymentWebhook(payload);
+    }
+    const transactionId = pickString(payload, ["transactionId", "transactionID", "emolaTransactionId"]);
+    const responseCode = pickString(payload, ["responseCode", "errorCode", "code"]);
+    if (!transactionId) {
+      throw new ApiError(400, "missing_reference", "transactionId is required");
+    }
+    const status = mapEmolaTransactionStatus(responseCode);
+    if (status === "PENDING" || status === "UNKNOWN") {
+      logger.info({ transactionId, responseCode }, "e-Mola callback without final status");
+      return null;
+    }
+    return {
+      outcome: status === "COMPLETED" ? "CAPTURED" : "FAILED",
+      externalRef: transactionId,
+      ignoreUnmatched: true,
+      meta: { transactionId, responseCode }
+    };
+  }
+}
+
+/** Cash on delivery: confirmed at checkout (stock reserved), captured when the courier collects. */
+export class CashOnDeliveryProvider implements PaymentProvider {
+  readonly code = "COD";
+  readonly offline = true;
+
+  async initiate(): Promise<PaymentInitiateResult> {
+    return { status: "AUTHORIZED", auditMeta: {} };
+  }
+}
+
+/**
+ * Gateway stand-in for local development, registered only with
+ * `PAYMENT_FAKE_ENABLED=true`: checkout returns a local URL and
+ * confirming the reference settles the attempt with `FAKE_PAYMENT_OUTCOME`
+ * (CAPTURED by default).
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly code = "FAKE";
+  readonly testOnly = true;
+
+  async initiate(input: PaymentInitiateInput): Promise<PaymentInitiateResult> {
+    const reference = `fake_${input.attempt.id}`;
+    return {
+      externalRef: reference,
+      checkoutUrl: `${env.appBaseUrl}/cliente/pedidos/${input.order.id}?fake=${reference}`
+    };
+  }
+
+  async confirm(input: PaymentConfirmInput): Promise<PaymentConfirmResult> {
+    if (!input.attempt) {
+      throw new ApiError(404, "not_found", "Order not found");
+    }
+    const outcome: PaymentOutcome =
+      (process.env.FAKE_PAYMENT_OUTCOME || "").toUpperCase() === "FAILED" ? "FAILED" : "CAPTURED";
+    return { paymentId: input.attempt.id, status: outcome, outcome };
+  }
+
+  async refund(input: PaymentRefundInput): Promise<PaymentRefundResult> {
+    return { status: "SUCCEEDED", externalRef: `fake_refund_${input.refundId}`, message: "fake", raw: null };
+  }
+
+  parseWebhook(payload: Record<string, unknown>) {
+    return parseGenericPaymentWebhook(payload);
+  }
+}
+
+const registry = new Map<string, PaymentProvider>();
+
+export function registerPaymentProvider(provider: PaymentProvider) {
+  registry.set(provider.code.toUpperCase(), provider);
+}
+
+export function findPaymentProvider(code: string | null | undefined) {
+  return code ? registry.get(code.toUpperCase()) ?? null : null;
+}
+
+/**
+ * Translates a payment webhook with the provider's own parser, or the signed
+ * generic format for providers without one. Throws `missing_reference` when
+ * the payload names no payment; null means there is nothing to apply yet.
+ */
+export function parsePaymentWebhook(providerCode: string, payload: Record<string, unknown>) {
+  const registered = findPaymentProvider(providerCode);
+  return registered?.parseWebhook ? registered.parseWebhook(payload) : parseGenericPaymentWebhook(payload);
+}
+
+/** Providers a customer or guest may choose at checkout: test stand-ins are left out. */
+export function findCustomerPaymentProvider(code: string | null | undefined) {
+  const provider = findPaymentProvider(code);
+  return provider && !provider.testOnly ? provider : null;
+}
+
+export function getPaymentProvider(code: string | null | undefined): PaymentProvider {
+  const provider = findPaymentProvider(code);
+  if (!provider) {
+    throw new ApiError(400, "unsupported_provider", `Payment provider ${code ?? ""} is not available`);
+  }
+  return provider;
+}
+
+export function listPaymentProviderCodes() {
+  return [...registry.keys()];
+}
+
+registerPaymentProvider(new StripePaymentProvider());
+registerPaymentProvider(new PayPalPaymentProvider());
+registerPaymentProvider(new MpesaPaymentProvider());
+registerPaymentProvider(new EmolaPaymentProvider());
+registerPaymentProvider(new CashOnDeliveryProvider());
+if (process.env.PAYMENT_FAKE_ENABLED === "true") {
+  registerPaymentProvider(new FakePaymentProvider());
+}
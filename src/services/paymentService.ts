@@ -0,0 +1,105 @@
+import { PaymentAttempt, Prisma } from "@prisma/client";
+import { prisma } from "../config/prisma.js";
+import { logger } from "../config/logger.js";
+import { ApiError } from "../utils/apiError.js";
+import { writeAuditLog } from "./auditLogService.js";
+import { ensureOrderStockDeducted } from "./orderStockService.js";
+import { syncOrderPaymentStatus } from "./paymentAttemptService.js";
+import { applyPaymentOutcome } from "./paymentStatusService.js";
+import { getPaymentProvider, PaymentInitiateInput } from "./paymentProviders.js";
+
+type InitiatePaymentInput = PaymentInitiateInput & {
+  provider: string;
+  actorId: string | null;
+};
+
+export type InitiatedPayment = PaymentAttempt & { checkoutUrl?: string | null };
+
+function toJson(value: unknown) {
+  return value as Prisma.InputJsonValue;
+}
+
+/**
+ * Hands an open attempt to its provider and stores what came back. Attempts
+ * the provider already authorized reserve the order's stock straight away.
+ */
+export async function initiatePayment(input: InitiatePaymentInput): Promise<InitiatedPayment> {
+  const provider = getPaymentProvider(input.provider);
+  const result = await provider.initiate(input);
+
+  const updated = await prisma.paymentAttempt.update({
+    where: { id: input.attempt.id },
+    data: {
+      provider: provider.code,
+      externalRef: result.externalRef ?? undefined,
+      status: result.status ?? undefined,
+      rawResponse: result.rawResponse === undefined ? undefined : toJson(result.rawResponse)
+    }
+  });
+  await syncOrderPaymentStatus(input.order.id);
+  if (result.status === "AUTHORIZED") {
+    await ensureOrderStockDeducted(input.order.id);
+  }
+
+  if (result.auditMeta) {
+    void writeAuditLog(input.actorId, `${provider.code.toLowerCase()}_payment`, "payment", updated.id, {
+      orderId: input.order.id,
+      paymentId: updated.id,
+      ...result.auditMeta,
+      status: updated.status
+    }).catch((err) => {
+      logger.warn({ err, provider: provider.code }, "Failed to write payment audit log");
+    });
+  }
+
+  return result.checkoutUrl === undefined ? updated : { ...updated, checkoutUrl: result.checkoutUrl };
+}
+
+/** Settles the customer's return from a hosted checkout (Stripe session, PayPal token, ...). */
+export async function confirmPayment(providerCode: string, reference: string, userId: string) {
+  const provider = getPaymentProvider(providerCode);
+  if (!provider.confirm) {
+    throw new ApiError(400, "confirm_not_supported", `${provider.code} payments are confirmed by the provider`);
+  }
+
+  const known = await prisma.paymentAttempt.findFirst({
+    where: { provider: provider.code, externalRef: reference },
+    include: { order: { select: { userId: true } } }
+  });
+  if (known && known.order.userId !== userId) {
+    throw new ApiError(404, "not_found", "Order not found");
+  }
+
+  const result = await provider.confirm({ reference, attempt: known });
+  const paymentId = result.paymentId ?? known?.id;
+  const payment =
+    known && known.id === paymentId
+      ? known
+      : paymentId
+        ? await prisma.paymentAttempt.findUnique({
+            where: { id: paymentId },
+            include: { order: { select: { userId: true } } }
+          })
+        : null;
+  if (!payment || payment.order.userId !== userId) {
+    throw new ApiError(404, "not_found", "Order not found");
+  }
+
+  if (result.rawResponse !== undefined) {
+    await prisma.paymentAttempt.update({
+      where: { id: payment.id },
+      data: { rawResponse: toJson(result.rawResponse) }
+    });
+  }
+  if (result.outcome) {
+    await applyPaymentOutcome({
+      paymentId: payment.id,
+      outcome: result.outcome,
+      source: `${provider.code.toLowerCase()}_confirm`,
+      externalRef: result.externalRef,
+      meta: result.meta
+    });
+  }
+
+  return { status: result.status };
+}
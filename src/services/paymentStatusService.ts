@@ -0,0 +1,149 @@
+import { prisma } from "../config/prisma.js";
+import { logger } from "../config/logger.js";
+import { writeAuditLog } from "./auditLogService.js";
+import { sendPaymentConfirmation } from "./invoiceService.js";
+import { transitionOrderStatus } from "./orderLifecycleService.js";
+import { ensureOrderStockDeducted, ensureOrderStockRestored } from "./orderStockService.js";
+import { syncOrderPaymentStatus } from "./paymentAttemptService.js";
+import { findPaymentProvider } from "./paymentProviders.js";
+import { createOrderRefund } from "./refundService.js";
+
+type PaymentOutcome = "CAPTURED" | "FAILED";
+
+type ApplyPaymentOutcomeInput = {
+  paymentId: string;
+  outcome: PaymentOutcome;
+  source: string;
+  externalRef?: string | null;
+  meta?: Record<string, unknown>;
+};
+
+/**
+ * A capture that lands after the order was canceled (sweeper, customer): the
+ * stock stays released and no invoice goes out. The money is refunded through
+ * the gateway when it can; otherwise the audit entry flags it for staff.
+ */
+async function refundLateCapture(payment: { id: string; orderId: string; provider: string | null }, source: string) {
+  let refundId: string | null = null;
+  let error: string | null = null;
+  if (findPaymentProvider(payment.provider)?.refund) {
+    try {
+      const refund = await createOrderRefund({
+        orderId: payment.orderId,
+        reason: "Pagamento recebido depois do cancelamento do pedido",
+        actorId: null
+      });
+      refundId = refund.id;
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      logger.warn({ err, orderId: payment.orderId, paymentId: payment.id }, "Automatic refund of late capture failed");
+    }
+  } else {
+    error = "Provider has no refund API";
+  }
+
+  void writeAuditLog(null, "order.payment_captured_after_cancel", "order", payment.orderId, {
+    paymentId: payment.id,
+    provider: payment.provider,
+    source,
+    refundId,
+    needsManualRefund: !refundId,
+    ...(error ? { error } : {})
+  }).catch((err) => {
+    logger.warn({ err, paymentId: payment.id }, "Failed to write late capture audit log");
+  });
+}
+
+/**
+ * Records a capture that does not cover the order total (typically a session
+ * opened before the order was edited): the order is not marked PAID and no
+ * invoice goes out until staff settle the difference.
+ */
+function flagAmountMismatch(payment: { id: string; orderId: string; amount: unknown }, total: number, source: string) {
+  void writeAuditLog(null, "order.payment_amount_mismatch", "order", payment.orderId, {
+    paymentId: payment.id,
+    captured: Number(payment.amount),
+    expected: total,
+    source,
+    needsReview: true
+  }).catch((err) => {
+    logger.warn({ err, paymentId: payment.id }, "Failed to write payment amount mismatch audit log");
+  });
+}
+
+/**
+ * Moves a payment attempt that is waiting on the gateway (PENDING/AUTHORIZED)
+ * to its final state and keeps the order and its stock reservation in sync.
+ * A capture is also accepted on a FAILED attempt (e.g. one failed by an order
+ * edit whose session the customer still paid), since the money was taken.
+ * Other attempts that already reached a final state are left untouched.
+ */
+export async function applyPaymentOutcome(input: ApplyPaymentOutcomeInput) {
+  const payment = await prisma.paymentAttempt.findUnique({
+    where: { id: input.paymentId },
+    include: { order: { select: { id: true, status: true, paymentStatus: true, total: true } } }
+  });
+  if (!payment) {
+    return null;
+  }
+  const capturedAfterFailure = input.outcome === "CAPTURED" && payment.status === "FAILED";
+  if (payment.status !== "PENDING" && payment.status !== "AUTHORIZED" && !capturedAfterFailure) {
+    return payment;
+  }
+
+  // Conditional on the status read above: when a callback and the reconciler race, only one applies the outcome.
+  const claimed = await prisma.paymentAttempt.updateMany({
+    where: { id: payment.id, status: payment.status },
+    data: {
+      status: input.outcome,
+      externalRef: input.externalRef ?? undefined
+    }
+  });
+  if (!claimed.count) {
+    return prisma.paymentAttempt.findUnique({ where: { id: payment.id } });
+  }
+  const updated = await prisma.paymentAttempt.findUniqueOrThrow({ where: { id: payment.id } });
+
+  const paymentStatus = await syncOrderPaymentStatus(payment.orderId);
+  const shortCapture = input.outcome === "CAPTURED" && Number(payment.amount) + 0.005 < Number(payment.order.total);
+  if (input.outcome === "CAPTURED" && payment.order.status === "CANCELED") {
+    await refundLateCapture(payment, input.source);
+  } else if (shortCapture) {
+    await ensureOrderStockDeducted(payment.orderId);
+    flagAmountMismatch(payment, Number(payment.order.total), input.source);
+  } else if (input.outcome === "CAPTURED") {
+    if (payment.order.status === "PENDING") {
+      await transitionOrderStatus({
+        orderId: payment.orderId,
+        to: "PAID",
+        actor: "system",
+        actorId: null,
+        source: input.source
+      });
+    }
+    await ensureOrderStockDeducted(payment.orderId);
+    if (paymentStatus === "CAPTURED") {
+      void sendPaymentConfirmation(payment.orderId).catch((err) => {
+        logger.warn({ err, orderId: payment.orderId }, "Payment confirmation email failed");
+      });
+    }
+  } else if (paymentStatus === "FAILED" && payment.order.status === "PENDING") {
+    await ensureOrderStockRestored(payment.orderId);
+  }
+
+  void writeAuditLog(null, "order.payment_status_changed", "order", payment.orderId, {
+    from: payment.order.paymentStatus,
+    to: paymentStatus,
+    attemptStatus: input.outcome,
+    status:
+      input.outcome === "CAPTURED" && !shortCapture && payment.order.status === "PENDING" ? "PAID" : payment.order.status,
+    paymentId: payment.id,
+    provider: payment.provider,
+    source: input.source,
+    ...(input.meta ?? {})
+  }).catch((err) => {
+    logger.warn({ err, paymentId: payment.id }, "Failed to write payment outcome audit log");
+  });
+
+  return updated;
+}
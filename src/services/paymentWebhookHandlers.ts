@@ -0,0 +1,83 @@
+import { prisma } from "../config/prisma.js";
+import { logger } from "../config/logger.js";
+import { ApiError } from "../utils/apiError.js";
+import { applyPaymentOutcome } from "./paymentStatusService.js";
+import { applyRefundOutcome } from "./refundService.js";
+import { findPaymentProvider, ParsedPaymentWebhook, parsePaymentWebhook } from "./paymentProviders.js";
+
+type WebhookPayload = Record<string, unknown>;
+
+export type WebhookMatch = { orderId: string; paymentId: string };
+
+async function findPaymentByReference(parsed: ParsedPaymentWebhook, provider: string) {
+  if (parsed.paymentId) {
+    return prisma.paymentAttempt.findUnique({ where: { id: parsed.paymentId } });
+  }
+  if (parsed.externalRef) {
+    const byRef = await prisma.paymentAttempt.findFirst({ where: { provider, externalRef: parsed.externalRef } });
+    if (byRef) return byRef;
+  }
+  if (parsed.orderId) {
+    return prisma.paymentAttempt.findFirst({
+      where: { orderId: parsed.orderId, provider },
+      orderBy: { createdAt: "desc" }
+    });
+  }
+  return null;
+}
+
+/**
+ * Applies a stored webhook delivery. The provider only translates its payload;
+ * providers without their own parser use the signed generic format. Returns
+ * the matched order/payment so the inbox can link the event to the order;
+ * `onMatched` receives it before the outcome is applied, so the link also
+ * survives a failed delivery.
+ */
+export async function handlePaymentWebhook(
+  providerCode: string,
+  payload: WebhookPayload,
+  onMatched?: (match: WebhookMatch) => Promise<unknown>
+) {
+  const registered = findPaymentProvider(providerCode);
+  const provider = registered?.code ?? providerCode.toUpperCase();
+  const refundUpdate = registered?.parseRefundWebhook?.(payload);
+  if (refundUpdate) {
+    return (
+      (await applyRefundOutcome({
+        externalRef: refundUpdate.externalRef,
+        refundId: refundUpdate.refundId,
+        status: refundUpdate.status,
+        source: `webhook:${provider.toLowerCase()}`,
+        meta: refundUpdate.meta
+      })) ?? undefined
+    );
+  }
+  const parsed = parsePaymentWebhook(provider, payload);
+  if (!parsed) return;
+
+  const payment = await findPaymentByReference(parsed, provider);
+  if (!payment || (parsed.orderId && payment.orderId !== parsed.orderId)) {
+    if (parsed.ignoreUnmatched) {
+      logger.warn({ provider, externalRef: parsed.externalRef, ...parsed.meta }, "Webhook for unknown payment ignored");
+      return;
+    }
+    throw new ApiError(404, "not_found", `Payment not found for ${provider} event`);
+  }
+  if (payment.provider && payment.provider.toUpperCase() !== provider) {
+    throw new ApiError(409, "provider_mismatch", "Payment belongs to another provider");
+  }
+  await onMatched?.({ orderId: payment.orderId, paymentId: payment.id });
+
+  await applyPaymentOutcome({
+    paymentId: payment.id,
+    outcome: parsed.outcome,
+    source: `webhook:${provider.toLowerCase()}`,
+    externalRef: parsed.externalRef,
+    meta: parsed.meta
+  });
+  logger.info(
+    { provider, orderId: payment.orderId, paymentId: payment.id, outcome: parsed.outcome, ...parsed.meta },
+    "Payment webhook processed"
+  );
+  return { orderId: payment.orderId, paymentId: payment.id };
+}
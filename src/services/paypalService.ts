@@ -0,0 +1,228 @@
+import { env } from "../config/env.js";
+
+type PayPalConfig = {
+  baseUrl: string;
+  clientId: string;
+  clientSecret: string;
+  currency: string | null;
+  conversionRate: number;
+  brandName: string;
+  timeoutMs: number;
+};
+
+type PayPalOrderInput = {
+  orderId: string;
+  paymentId: string;
+  amount: number;
+  currency: string;
+  orderNumber?: string | null;
+};
+
+export type PayPalCaptureResult = {
+  status: string;
+  captureId: string | null;
+  raw: unknown;
+};
+
+type PayPalLink = { href?: string; rel?: string };
+
+type PayPalOrderResponse = {
+  id?: string;
+  status?: string;
+  links?: PayPalLink[];
+  purchase_units?: Array<{
+    payments?: { captures?: Array<{ id?: string; status?: string }> };
+  }>;
+};
+
+const DEFAULT_BASE_URL = "https://api-m.sandbox.paypal.com";
+
+let cachedToken: { value: string; expiresAt: number } | null = null;
+
+function getPayPalConfig(): PayPalConfig {
+  const clientId = process.env.PAYPAL_CLIENT_ID;
+  const clientSecret = process.env.PAYPAL_CLIENT_SECRET;
+  if (!clientId || !clientSecret) {
+    throw new Error("PAYPAL credentials not configured");
+  }
+  const conversionRate = Number(process.env.PAYPAL_CONVERSION_RATE || 1);
+  return {
+    baseUrl: (process.env.PAYPAL_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, ""),
+    clientId,
+    clientSecret,
+    currency: process.env.PAYPAL_CURRENCY || null,
+    conversionRate: Number.isFinite(conversionRate) && conversionRate > 0 ? conversionRate : 1,
+    brandName: process.env.PAYPAL_BRAND_NAME || "AMBEBE",
+    timeoutMs: Number(process.env.PAYPAL_TIMEOUT_MS || 15000)
+  };
+}
+
+async function paypalFetch(config: PayPalConfig, path: string, init: RequestInit) {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), config.timeoutMs);
+  try {
+    const response = await fetch(`${config.baseUrl}${path}`, { ...init, signal: controller.signal });
+    const text = await response.text();
+    let data: unknown = null;
+    if (text) {
+      try {
+        data = JSON.parse(text);
+      } catch {
+        data = text;
+      }
+    }
+    return { ok: response.ok, status: response.status, data };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+async function getAccessToken(config: PayPalConfig) {
+  if (cachedToken && cachedToken.expiresAt > Date.now()) {
+    return cachedToken.value;
+  }
+  const credentials = Buffer.from(`${config.clientId}:${config.clientSecret}`).toString("base64");
+  const result = await paypalFetch(config, "/v1/oauth2/token", {
+    method: "POST",
+    headers: {
+      Authorization: `Basic ${credentials}`,
+      "Content-Type": "application/x-www-form-urlencoded"
+    },
+    body: "grant_type=client_credentials"
+  });
+  const data = result.data as { access_token?: string; expires_in?: number } | null;
+  if (!result.ok || !data?.access_token) {
+    throw new Error("PayPal authentication failed");
+  }
+  const ttlSeconds = Math.max(60, Number(data.expires_in ?? 300) - 60);
+  cachedToken = { value: data.access_token, expiresAt: Date.now() + ttlSeconds * 1000 };
+  return data.access_token;
+}
+
+async function authorizedFetch(config: PayPalConfig, path: string, init: RequestInit) {
+  const token = await getAccessToken(config);
+  return paypalFetch(config, path, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+      ...(init.headers ?? {})
+    }
+  });
+}
+
+function describePayPalError(data: unknown, fallback: string) {
+  if (data && typeof data === "object") {
+    const record = data as { message?: string; details?: Array<{ issue?: string; description?: string }> };
+    const detail = record.details?.[0];
+    return detail?.description || detail?.issue || record.message || fallback;
+  }
+  return fallback;
+}
+
+function extractCaptureId(order: PayPalOrderResponse) {
+  return order.purchase_units?.[0]?.payments?.captures?.[0]?.id ?? null;
+}
+
+export async function createPayPalOrder(input: PayPalOrderInput) {
+  const config = getPayPalConfig();
+  const currency = (config.currency || input.currency).toUpperCase();
+  const value = (input.amount * config.conversionRate).toFixed(2);
+  const returnUrl =
+    process.env.PAYPAL_RETURN_URL || `${env.appBaseUrl}/cliente/pedidos/${input.orderId}?paypal=success`;
+  const cancelUrl =
+    process.env.PAYPAL_CANCEL_URL || `${env.appBaseUrl}/cliente/pedidos/${input.orderId}?paypal=cancel`;
+
+  const result = await authorizedFetch(config, "/v2/checkout/orders", {
+    method: "POST",
+    headers: { "PayPal-Request-Id": input.paymentId },
+    body: JSON.stringify({
+      intent: "CAPTURE",
+      purchase_units: [
+        {
+          reference_id: input.orderId,
+          custom_id: input.paymentId,
+          description: `Pedido ${input.orderNumber ?? input.orderId.slice(0, 8).toUpperCase()}`,
+          amount: { currency_code: currency, value }
+        }
+      ],
+      payment_source: {
+        paypal: {
+          experience_context: {
+            brand_name: config.brandName,
+            user_action: "PAY_NOW",
+            return_url: returnUrl,
+            cancel_url: cancelUrl
+          }
+        }
+      }
+    })
+  });
+
+  const data = result.data as PayPalOrderResponse | null;
+  if (!result.ok || !data?.id) {
+    throw new Error(describePayPalError(result.data, "PayPal order creation failed"));
+  }
+  const approveUrl = data.links?.find((link) => link.rel === "payer-action" || link.rel === "approve")?.href;
+  if (!approveUrl) {
+    throw new Error("PayPal approval URL not available");
+  }
+  return { id: data.id, approveUrl };
+}
+
+export async function getPayPalOrder(paypalOrderId: string) {
+  const config = getPayPalConfig();
+  const result = await authorizedFetch(config, `/v2/checkout/orders/${encodeURIComponent(paypalOrderId)}`, {
+    method: "GET"
+  });
+  if (!result.ok) {
+    throw new Error(describePayPalError(result.data, "PayPal order lookup failed"));
+  }
+  return result.data as PayPalOrderResponse;
+}
+
+export async function capturePayPalOrder(paypalOrderId: string): Promise<PayPalCaptureResult> {
+  const config = getPayPalConfig();
+  const result = await authorizedFetch(config, `/v2/checkout/orders/${encodeURIComponent(paypalOrderId)}/capture`, {
+    method: "POST",
+    headers: { "PayPal-Request-Id": `capture-${paypalOrderId}` },
+    body: "{}"
+  });
+  const data = result.data as PayPalOrderResponse | null;
+
+  if (!result.ok) {
+    const issue = describePayPalError(result.data, "PayPal capture failed");
+    if (issue === "ORDER_ALREADY_CAPTURED") {
+      const order = await getPayPalOrder(paypalOrderId);
+      return { status: order.status ?? "COMPLETED", captureId: extractCaptureId(order), raw: order };
+    }
+    if (result.status === 422) {
+      return { status: "DECLINED", captureId: null, raw: result.data };
+    }
+    throw new Error(issue);
+  }
+
+  return { status: data?.status ?? "UNKNOWN", captureId: data ? extractCaptureId(data) : null, raw: data };
+}
+
+export async function verifyPayPalWebhookSignature(headers: Record<string, string | undefined>, event: unknown) {
+  const webhookId = process.env.PAYPAL_WEBHOOK_ID;
+  if (!webhookId) {
+    throw new Error("PAYPAL_WEBHOOK_ID not configured");
+  }
+  const config = getPayPalConfig();
+  const result = await authorizedFetch(config, "/v1/notifications/verify-webhook-signature", {
+    method: "POST",
+    body: JSON.stringify({
+      auth_algo: headers["paypal-auth-algo"],
+      cert_url: headers["paypal-cert-url"],
+      transmission_id: headers["paypal-transmission-id"],
+      transmission_sig: headers["paypal-transmission-sig"],
+      transmission_time: headers["paypal-transmission-time"],
+      webhook_id: webhookId,
+      webhook_event: event
+    })
+  });
+  const data = result.data as { verification_status?: string } | null;
+  return result.ok && data?.verification_status === "SUCCESS";
+}
@@ -0,0 +1,123 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../config/prisma.js";
+import { logger } from "../config/logger.js";
+import { transitionOrderStatus } from "./orderLifecycleService.js";
+import { findPaymentProvider, listPaymentProviderCodes } from "./paymentProviders.js";
+
+const SWEEP_INTERVAL_MS = Number(process.env.PENDING_ORDER_SWEEP_INTERVAL_MS || 10 * 60 * 1000);
+const SWEEP_BATCH_SIZE = Number(process.env.PENDING_ORDER_SWEEP_BATCH_SIZE || 50);
+const DEFAULT_TTL_MS = Number(process.env.PENDING_ORDER_TTL_MS || 24 * 60 * 60 * 1000);
+
+// Wallet prompts expire within minutes; Stripe Checkout Sessions live 24h, so wait a little longer.
+const PROVIDER_DEFAULT_TTL_MS: Record<string, number> = {
+  MPESA: 60 * 60 * 1000,
+  EMOLA: 60 * 60 * 1000,
+  STRIPE: 25 * 60 * 60 * 1000
+};
+
+const CANCELLATION_MESSAGE = "O pagamento nao foi confirmado dentro do prazo e o pedido foi cancelado automaticamente.";
+
+let running = false;
+
+/** TTL for orders paid through `provider`, overridable with `PENDING_ORDER_TTL_<PROVIDER>_MS`. */
+export function getPendingOrderTtlMs(provider: string | null | undefined) {
+  const code = provider?.toUpperCase();
+  if (!code) return DEFAULT_TTL_MS;
+  const override = Number(process.env[`PENDING_ORDER_TTL_${code}_MS`]);
+  if (Number.isFinite(override) && override > 0) return override;
+  return PROVIDER_DEFAULT_TTL_MS[code] ?? DEFAULT_TTL_MS;
+}
+
+function findSweepBatch(where: Prisma.OrderWhereInput, after: { id: string; createdAt: Date } | null) {
+  return prisma.order.findMany({
+    where: after
+      ? {
+          AND: [
+            where,
+            { OR: [{ createdAt: { gt: after.createdAt } }, { createdAt: after.createdAt, id: { gt: after.id } }] }
+          ]
+        }
+      : where,
+    include: {
+      payments: { select: { provider: true, createdAt: true }, orderBy: { createdAt: "desc" }, take: 1 }
+    },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+    take: SWEEP_BATCH_SIZE
+  });
+}
+
+/**
+ * Cancels PENDING orders whose payment is still PENDING/FAILED once the TTL of
+ * their latest payment attempt's provider has passed. Orders with an offline
+ * attempt (COD) are paid on delivery and never expire. The lifecycle takes
+ * care of stock, the coupon redemption, the audit entry and the customer email.
+ */
+export async function cancelExpiredPendingOrders() {
+  if (running) return { checked: 0, canceled: 0 };
+  running = true;
+  const summary = { checked: 0, canceled: 0 };
+
+  try {
+    const now = Date.now();
+    const codes = listPaymentProviderCodes();
+    const shortestTtl = Math.min(DEFAULT_TTL_MS, ...codes.map((code) => getPendingOrderTtlMs(code)));
+    const offlineCodes = codes.filter((code) => findPaymentProvider(code)?.offline);
+    const where: Prisma.OrderWhereInput = {
+      status: "PENDING",
+      paymentStatus: { in: ["PENDING", "FAILED"] },
+      createdAt: { lt: new Date(now - shortestTtl) },
+      payments: { none: { status: { in: ["AUTHORIZED", "CAPTURED"] } } },
+      NOT: { payments: { some: { provider: { in: offlineCodes, mode: "insensitive" } } } }
+    };
+    // Orders still inside a longer provider TTL (Stripe) match the query too, so page past them instead of
+    // letting them hold the head of every batch.
+    let after: { id: string; createdAt: Date } | null = null;
+    while (summary.canceled < SWEEP_BATCH_SIZE) {
+      const orders = await findSweepBatch(where, after);
+      for (const order of orders) {
+        summary.checked += 1;
+        const latest = order.payments[0];
+        const ttlMs = getPendingOrderTtlMs(latest?.provider);
+        const lastActivity = latest && latest.createdAt > order.createdAt ? latest.createdAt : order.createdAt;
+        if (now - lastActivity.getTime() < ttlMs) continue;
+
+        try {
+          await transitionOrderStatus({
+            orderId: order.id,
+            to: "CANCELED",
+            actor: "system",
+            actorId: null,
+            source: "pending_order_sweeper",
+            reason: "payment_timeout",
+            customerMessage: CANCELLATION_MESSAGE
+          });
+          summary.canceled += 1;
+        } catch (err) {
+          logger.warn({ err, orderId: order.id }, "Failed to cancel expired pending order");
+        }
+      }
+      if (orders.length < SWEEP_BATCH_SIZE) break;
+      after = orders[orders.length - 1];
+    }
+
+    if (summary.canceled) {
+      logger.info({ event: "pending_order_sweep", ...summary }, "Pending order sweep finished");
+    }
+    return summary;
+  } finally {
+    running = false;
+  }
+}
+
+export function startPendingOrderSweeper() {
+  if (process.env.PENDING_ORDER_SWEEP_ENABLED === "false") {
+    return null;
+  }
+  const timer = setInterval(() => {
+    cancelExpiredPendingOrders().catch((err) => {
+      logger.error({ err }, "Pending order sweep failed");
+    });
+  }, SWEEP_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,162 @@
+import crypto from "crypto";
+import { OrderStatus, PickupLocation, Prisma } from "@prisma/client";
+import { prisma } from "../config/prisma.js";
+import { logger } from "../config/logger.js";
+import { ApiError } from "../utils/apiError.js";
+import { writeAuditLog } from "./auditLogService.js";
+import { assertOrderTransition, PICKUP_HANDOVER_SOURCE, transitionOrderStatus } from "./orderLifecycleService.js";
+
+export type OpeningHoursEntry = {
+  /** 0 = Sunday ... 6 = Saturday. */
+  day: number;
+  opens: string;
+  closes: string;
+};
+
+// Orders that still take a slot at the pickup point.
+const HOLDING_STATUSES: OrderStatus[] = ["PENDING", "PAID", "READY_FOR_PICKUP"];
+
+const DAY_LABELS = ["Dom", "Seg", "Ter", "Qua", "Qui", "Sex", "Sab"];
+
+function readOpeningHours(value: Prisma.JsonValue): OpeningHoursEntry[] {
+  return Array.isArray(value) ? (value as OpeningHoursEntry[]) : [];
+}
+
+/** "Seg 08:00-17:00, Sab 08:00-13:00" */
+export function formatOpeningHours(value: Prisma.JsonValue) {
+  return readOpeningHours(value)
+    .slice()
+    .sort((a, b) => a.day - b.day)
+    .map((entry) => `${DAY_LABELS[entry.day] ?? entry.day} ${entry.opens}-${entry.closes}`)
+    .join(", ");
+}
+
+/** Address snapshot of the pickup point, stored on the order in place of the customer's address. */
+export function pickupAddress(location: PickupLocation) {
+  return {
+    name: location.name,
+    line1: location.line1,
+    line2: location.line2,
+    city: location.city,
+    state: location.state,
+    postalCode: null,
+    country: location.country,
+    phone: location.phone
+  };
+}
+
+async function countHeldOrders(client: Prisma.TransactionClient | typeof prisma, locationIds: string[]) {
+  const groups = await client.order.groupBy({
+    by: ["pickupLocationId"],
+    where: { pickupLocationId: { in: locationIds }, status: { in: HOLDING_STATUSES } },
+    _count: { _all: true }
+  });
+  return new Map(groups.map((group) => [group.pickupLocationId, group._count._all]));
+}
+
+/** Active pickup points for the storefront, with whether they still have room. */
+export async function listPickupLocations() {
+  const locations = await prisma.pickupLocation.findMany({
+    where: { isActive: true },
+    orderBy: [{ city: "asc" }, { name: "asc" }]
+  });
+  const held = await countHeldOrders(
+    prisma,
+    locations.filter((location) => location.capacity !== null).map((location) => location.id)
+  );
+  return locations.map(({ capacity, ...location }) => ({
+    ...location,
+    openingHoursText: formatOpeningHours(location.openingHours),
+    available: capacity === null || (held.get(location.id) ?? 0) < capacity
+  }));
+}
+
+/**
+ * Locks the pickup point for the checkout transaction and checks it is active
+ * and below its capacity, so two checkouts cannot take the last slot.
+ */
+export async function reservePickupLocation(tx: Prisma.TransactionClient, pickupLocationId: string) {
+  await tx.$queryRaw`SELECT id FROM "PickupLocation" WHERE id = ${pickupLocationId} FOR UPDATE`;
+  const location = await tx.pickupLocation.findUnique({ where: { id: pickupLocationId } });
+  if (!location || !location.isActive) {
+    throw new ApiError(400, "pickup_location_unavailable", "Ponto de levantamento indisponivel", { pickupLocationId });
+  }
+  if (location.capacity !== null) {
+    const held = (await countHeldOrders(tx, [location.id])).get(location.id) ?? 0;
+    if (held >= location.capacity) {
+      throw new ApiError(409, "pickup_location_full", "Ponto de levantamento sem capacidade", { pickupLocationId });
+    }
+  }
+  return location;
+}
+
+function generatePickupCode() {
+  return String(crypto.randomInt(0, 1_000_000)).padStart(6, "0");
+}
+
+function pickupCodeMatches(expected: string, provided: string) {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(provided.trim());
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+async function findPickupOrder(orderId: string) {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: { pickupLocation: true, payments: { select: { status: true, provider: true } } }
+  });
+  if (!order) throw new ApiError(404, "not_found", "Order not found");
+  if (order.fulfillmentType !== "PICKUP" || !order.pickupLocation) {
+    throw new ApiError(409, "not_a_pickup_order", "Order is not a pickup order");
+  }
+  return { ...order, pickupLocation: order.pickupLocation };
+}
+
+/**
+ * Moves a paid pickup order to READY_FOR_PICKUP with a fresh pickup code. The
+ * customer's status email carries the code, the address and opening hours.
+ * Calling it again on a ready order changes nothing.
+ */
+export async function markReadyForPickup(input: { orderId: string; actorId: string | null }) {
+  const order = await findPickupOrder(input.orderId);
+  if (order.status === "READY_FOR_PICKUP") return order;
+  assertOrderTransition(order, "READY_FOR_PICKUP");
+
+  const pickupCode = generatePickupCode();
+  await prisma.order.update({ where: { id: order.id }, data: { pickupCode } });
+
+  const location = order.pickupLocation;
+  const address = [location.line1, location.line2, location.city].filter(Boolean).join(", ");
+  const hours = formatOpeningHours(location.openingHours);
+  return transitionOrderStatus({
+    orderId: order.id,
+    to: "READY_FOR_PICKUP",
+    actorId: input.actorId,
+    source: "pickup_ready",
+    customerMessage:
+      `O seu pedido pode ser levantado em ${location.name} (${address})` +
+      `${hours ? `, horario: ${hours}` : ""}. Apresente o codigo de levantamento ${pickupCode}.`
+  });
+}
+
+/** Hands the order over once the customer's pickup code matches, closing it as DELIVERED. */
+export async function completePickup(input: { orderId: string; code: string; actorId: string | null }) {
+  const order = await findPickupOrder(input.orderId);
+  if (order.status !== "READY_FOR_PICKUP" || !order.pickupCode) {
+    throw new ApiError(409, "order_not_ready_for_pickup", "Order is not ready for pickup", { status: order.status });
+  }
+  if (!pickupCodeMatches(order.pickupCode, input.code)) {
+    void writeAuditLog(input.actorId, "order.pickup_code_rejected", "order", order.id, {}).catch((err) => {
+      logger.warn({ err, orderId: order.id }, "Failed to write pickup audit log");
+    });
+    throw new ApiError(400, "invalid_pickup_code", "Codigo de levantamento invalido");
+  }
+
+  await transitionOrderStatus({
+    orderId: order.id,
+    to: "DELIVERED",
+    actorId: input.actorId,
+    source: PICKUP_HANDOVER_SOURCE
+  });
+  return prisma.order.update({ where: { id: order.id }, data: { pickedUpAt: new Date() } });
+}
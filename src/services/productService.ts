@@ -1,5 +1,5 @@
 import { prisma } from "../config/prisma.js";
-import { Prisma } from "@prisma/client";
+import { Prisma, TaxClass } from "@prisma/client";
 import { ApiError } from "../utils/apiError.js";
 
 function withCostPrice(attributes: Record<string, unknown> | undefined, costPrice?: number) {
@@ -15,9 +15,18 @@ export async function createProduct(input: {
   slug: string;
   description?: string | null;
   basePrice: number;
+  taxClass?: TaxClass;
   status: "DRAFT" | "ACTIVE" | "ARCHIVED";
   categoryIds?: string[];
-  variants: Array<{ sku: string; name: string; price: number; attributes?: Record<string, unknown>; costPrice?: number }>;
+  variants: Array<{
+    sku: string;
+    name: string;
+    price: number;
+    /** Overrides the product's class; null inherits it. */
+    taxClass?: TaxClass | null;
+    attributes?: Record<string, unknown>;
+    costPrice?: number;
+  }>;
 }) {
   const product = await prisma.product.create({
     data: {
@@ -25,6 +34,7 @@ export async function createProduct(input: {
       slug: input.slug,
       description: input.description,
       basePrice: input.basePrice,
+      taxClass: input.taxClass,
       status: input.status,
       categories: input.categoryIds?.length
         ? {
@@ -36,6 +46,7 @@ export async function createProduct(input: {
           sku: variant.sku,
           name: variant.name,
           price: variant.price,
+          taxClass: variant.taxClass ?? null,
           attributes: withCostPrice(variant.attributes, variant.costPrice) as Prisma.InputJsonValue,
           stockItem: { create: { onHand: 0 } }
         }))
@@ -52,6 +63,7 @@ export async function updateProduct(id: string, input: {
   slug?: string;
   description?: string | null;
   basePrice?: number;
+  taxClass?: TaxClass;
   status?: "DRAFT" | "ACTIVE" | "ARCHIVED";
   categoryIds?: string[];
 }) {
@@ -67,6 +79,7 @@ export async function updateProduct(id: string, input: {
       slug: input.slug,
       description: input.description,
       basePrice: input.basePrice,
+      taxClass: input.taxClass,
       status: input.status,
       categories: input.categoryIds
         ? {
@@ -0,0 +1,218 @@
+import { Prisma, PrismaClient, RefundStatus } from "@prisma/client";
+import { prisma } from "../config/prisma.js";
+import { logger } from "../config/logger.js";
+import { ApiError } from "../utils/apiError.js";
+import { writeAuditLog } from "./auditLogService.js";
+import { ensureOrderStockRestored } from "./orderStockService.js";
+import { syncOrderPaymentStatus } from "./paymentAttemptService.js";
+import { findPaymentProvider, PaymentProvider, PaymentRefundResult } from "./paymentProviders.js";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+type CreateOrderRefundInput = {
+  orderId: string;
+  amount?: number;
+  reason?: string | null;
+  restock?: boolean;
+  manual?: boolean;
+  actorId: string | null;
+};
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function toJson(value: unknown) {
+  return (value ?? Prisma.JsonNull) as Prisma.InputJsonValue;
+}
+
+async function refundThroughGateway(
+  provider: PaymentProvider,
+  payment: { id: string; orderId: string; externalRef: string | null },
+  refundId: string,
+  amount: number
+): Promise<PaymentRefundResult> {
+  if (!payment.externalRef || !provider.refund) {
+    return { status: "FAILED", externalRef: null, message: "Payment has no gateway reference", raw: null };
+  }
+
+  try {
+    return await provider.refund({
+      payment: { id: payment.id, orderId: payment.orderId, externalRef: payment.externalRef },
+      refundId,
+      amount
+    });
+  } catch (error) {
+    return {
+      status: "FAILED",
+      externalRef: null,
+      message: error instanceof Error ? error.message : "Refund request failed",
+      raw: { error: error instanceof Error ? error.message : error }
+    };
+  }
+}
+
+export async function getRefundedAmount(paymentId: string, client: DbClient = prisma) {
+  const result = await client.refund.aggregate({
+    where: { paymentId, status: { not: "FAILED" } },
+    _sum: { amount: true }
+  });
+  return Number(result._sum.amount ?? 0);
+}
+
+/**
+ * Refunds all or part of the captured payment attempt of an order. Every refund
+ * is kept as its own Refund row (failed ones included) so the ledger matches
+ * what the gateway saw.
+ */
+export async function createOrderRefund(input: CreateOrderRefundInput) {
+  const order = await prisma.order.findUnique({
+    where: { id: input.orderId },
+    include: { payments: { where: { status: "CAPTURED" }, orderBy: { createdAt: "desc" }, take: 1 } }
+  });
+  if (!order) {
+    throw new ApiError(404, "not_found", "Order not found");
+  }
+  const payment = order.payments[0];
+  if (!payment) {
+    throw new ApiError(409, "payment_not_refundable", "Only captured payments can be refunded");
+  }
+
+  const provider = payment.provider?.toUpperCase() ?? null;
+  const gateway = findPaymentProvider(provider);
+  const useGateway = !input.manual && !!gateway?.refund;
+  if (!input.manual && provider && !gateway?.offline && !useGateway) {
+    throw new ApiError(400, "refund_not_supported", `Refunds are not supported for ${provider}; record a manual refund`);
+  }
+
+  const paidAmount = Number(payment.amount);
+  const { refund, refundedAmount, amount } = await prisma.$transaction(async (tx) => {
+    // Locks the payment row so concurrent refunds see each other's PENDING rows before checking the balance.
+    await tx.$queryRaw`SELECT id FROM "PaymentAttempt" WHERE id = ${payment.id} FOR UPDATE`;
+    const refundedAmount = await getRefundedAmount(payment.id, tx);
+    const remaining = roundMoney(paidAmount - refundedAmount);
+    if (remaining <= 0) {
+      throw new ApiError(409, "already_refunded", "Payment already fully refunded");
+    }
+    const amount = roundMoney(input.amount ?? remaining);
+    if (amount <= 0 || amount > remaining) {
+      throw new ApiError(400, "invalid_refund_amount", "Refund amount exceeds the refundable balance", {
+        refundable: remaining
+      });
+    }
+
+    const refund = await tx.refund.create({
+      data: {
+        paymentId: payment.id,
+        orderId: order.id,
+        amount,
+        provider: useGateway ? provider : provider ?? "MANUAL",
+        reason: input.reason ?? null,
+        restock: !!input.restock,
+        createdById: input.actorId
+      }
+    });
+    return { refund, refundedAmount, amount };
+  });
+
+  const result: PaymentRefundResult = useGateway
+    ? await refundThroughGateway(gateway!, payment, refund.id, amount)
+    : { status: "SUCCEEDED", externalRef: null, message: "manual", raw: null };
+
+  const updated = await prisma.refund.update({
+    where: { id: refund.id },
+    data: {
+      status: result.status,
+      externalRef: result.externalRef,
+      rawResponse: toJson(result.raw)
+    }
+  });
+
+  const fullyRefunded = result.status !== "FAILED" && roundMoney(refundedAmount + amount) >= paidAmount;
+  if (fullyRefunded) {
+    await prisma.paymentAttempt.update({ where: { id: payment.id }, data: { status: "REFUNDED" } });
+    await syncOrderPaymentStatus(order.id);
+  }
+  if (input.restock && result.status !== "FAILED") {
+    await ensureOrderStockRestored(order.id);
+  }
+
+  void writeAuditLog(input.actorId, "order.refund_created", "order", order.id, {
+    refundId: updated.id,
+    paymentId: payment.id,
+    provider: updated.provider,
+    amount,
+    status: updated.status,
+    restock: updated.restock,
+    reason: updated.reason,
+    fullyRefunded,
+    ...(result.status === "FAILED" ? { error: result.message } : {})
+  }).catch((err) => {
+    logger.warn({ err, refundId: updated.id }, "Failed to write refund audit log");
+  });
+
+  if (result.status === "FAILED") {
+    throw new ApiError(502, "refund_failed", result.message ?? "Refund was rejected by the provider", {
+      refundId: updated.id
+    });
+  }
+
+  return updated;
+}
+
+type ApplyRefundOutcomeInput = {
+  externalRef: string;
+  refundId?: string | null;
+  status: Exclude<RefundStatus, "PENDING">;
+  source: string;
+  meta?: Record<string, unknown>;
+};
+
+/**
+ * Settles a refund the gateway left PENDING (Stripe `refund.updated`). A refund
+ * that fails afterwards gives the balance back: the payment returns to
+ * CAPTURED, and a restock already done is flagged in the audit for staff.
+ */
+export async function applyRefundOutcome(input: ApplyRefundOutcomeInput) {
+  const refund = input.refundId
+    ? await prisma.refund.findUnique({ where: { id: input.refundId } })
+    : await prisma.refund.findFirst({ where: { externalRef: input.externalRef } });
+  if (!refund) {
+    logger.warn({ externalRef: input.externalRef, ...input.meta }, "Refund update for unknown refund ignored");
+    return null;
+  }
+
+  const claimed = await prisma.refund.updateMany({
+    where: { id: refund.id, status: "PENDING" },
+    data: { status: input.status, externalRef: input.externalRef }
+  });
+  if (!claimed.count) {
+    return { orderId: refund.orderId, paymentId: refund.paymentId };
+  }
+
+  let paymentReopened = false;
+  if (input.status === "FAILED") {
+    const payment = await prisma.paymentAttempt.findUnique({ where: { id: refund.paymentId } });
+    const refundedAmount = await getRefundedAmount(refund.paymentId);
+    if (payment?.status === "REFUNDED" && refundedAmount < Number(payment.amount)) {
+      await prisma.paymentAttempt.update({ where: { id: payment.id }, data: { status: "CAPTURED" } });
+      await syncOrderPaymentStatus(refund.orderId);
+      paymentReopened = true;
+    }
+  }
+
+  const action = input.status === "FAILED" ? "order.refund_failed" : "order.refund_succeeded";
+  void writeAuditLog(null, action, "order", refund.orderId, {
+    refundId: refund.id,
+    paymentId: refund.paymentId,
+    amount: Number(refund.amount),
+    source: input.source,
+    paymentReopened,
+    ...(input.status === "FAILED" && refund.restock ? { restockedWithoutRefund: true } : {}),
+    ...(input.meta ?? {})
+  }).catch((err) => {
+    logger.warn({ err, refundId: refund.id }, "Failed to write refund outcome audit log");
+  });
+
+  return { orderId: refund.orderId, paymentId: refund.paymentId };
+}
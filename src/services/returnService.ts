@@ -0,0 +1,338 @@
+import { Prisma, ReturnStatus } from "@prisma/client";
+import { prisma } from "../config/prisma.js";
+import { logger } from "../config/logger.js";
+import { ApiError } from "../utils/apiError.js";
+import { writeAuditLog } from "./auditLogService.js";
+import { restockReturnedItems } from "./orderStockService.js";
+import { createOrderRefund } from "./refundService.js";
+
+const RETURN_WINDOW_DAYS = Number(process.env.RETURN_WINDOW_DAYS || 30);
+const RETURNABLE_ORDER_STATUSES = new Set(["SHIPPED", "DELIVERED"]);
+const OPEN_RETURN_STATUSES: ReturnStatus[] = ["REQUESTED", "APPROVED", "RECEIVED", "REFUNDED"];
+
+type ReturnItemInput = {
+  orderItemId: string;
+  quantity: number;
+};
+
+type RequestReturnInput = {
+  orderId: string;
+  userId: string;
+  reason: string;
+  items: ReturnItemInput[];
+};
+
+type ReviewReturnInput = {
+  returnId: string;
+  actorId: string | null;
+  note?: string | null;
+};
+
+type ReceiveReturnInput = ReviewReturnInput & {
+  restock?: boolean;
+  refund?: boolean;
+  refundAmount?: number;
+  manualRefund?: boolean;
+};
+
+export const returnInclude = {
+  items: {
+    include: {
+      orderItem: { select: { id: true, nameSnapshot: true, skuSnapshot: true, quantity: true, priceSnapshot: true } }
+    }
+  },
+  refund: { select: { id: true, status: true, amount: true, provider: true, createdAt: true } }
+} as const;
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function audit(actorId: string | null, action: string, orderId: string, meta: Record<string, unknown>) {
+  void writeAuditLog(actorId, action, "order", orderId, meta).catch((err) => {
+    logger.warn({ err, orderId, action }, "Failed to write return audit log");
+  });
+}
+
+async function getReturnedQuantities(orderId: string) {
+  const rows = await prisma.orderReturnItem.groupBy({
+    by: ["orderItemId"],
+    where: { orderReturn: { orderId, status: { in: OPEN_RETURN_STATUSES } } },
+    _sum: { quantity: true }
+  });
+  return new Map(rows.map((row) => [row.orderItemId, row._sum.quantity ?? 0]));
+}
+
+async function findReturn(returnId: string) {
+  const orderReturn = await prisma.orderReturn.findUnique({
+    where: { id: returnId },
+    include: {
+      items: { include: { orderItem: true } },
+      order: { select: { id: true, discountTotal: true, pricesIncludeTax: true, items: true } }
+    }
+  });
+  if (!orderReturn) {
+    throw new ApiError(404, "not_found", "Return not found");
+  }
+  return orderReturn;
+}
+
+/**
+ * Moves the return only while it is still in `from`, so of two concurrent
+ * calls exactly one goes on to restock or refund.
+ */
+async function claimReturnStatus(
+  returnId: string,
+  from: ReturnStatus,
+  to: ReturnStatus,
+  data: Prisma.OrderReturnUncheckedUpdateManyInput = {}
+) {
+  const claimed = await prisma.orderReturn.updateMany({
+    where: { id: returnId, status: from },
+    data: { ...data, status: to }
+  });
+  if (!claimed.count) {
+    throw new ApiError(409, "invalid_transition", `Return cannot move from ${from} to ${to}`, {
+      from,
+      to,
+      reason: "concurrent_update"
+    });
+  }
+}
+
+function assertReturnStatus(current: ReturnStatus, allowed: ReturnStatus[], to: ReturnStatus) {
+  if (!allowed.includes(current)) {
+    throw new ApiError(409, "invalid_transition", `Return cannot move from ${current} to ${to}`, { from: current, to });
+  }
+}
+
+/**
+ * Value of the returned units at the price the customer paid, with the order
+ * discount spread proportionally over its items. When prices exclude IVA the
+ * customer also paid the line's tax (already computed on the discounted
+ * amount), so the returned share of it is added.
+ */
+function computeReturnValue(orderReturn: Awaited<ReturnType<typeof findReturn>>) {
+  const gross = orderReturn.order.items.reduce((sum, item) => sum + Number(item.priceSnapshot) * item.quantity, 0);
+  const discountRate = gross > 0 ? Math.min(1, Number(orderReturn.order.discountTotal) / gross) : 0;
+  const value = orderReturn.items.reduce(
+    (sum, entry) => sum + Number(entry.orderItem.priceSnapshot) * entry.quantity,
+    0
+  );
+  const tax = orderReturn.order.pricesIncludeTax
+    ? 0
+    : orderReturn.items.reduce(
+        (sum, entry) =>
+          sum + (Number(entry.orderItem.taxAmount) * entry.quantity) / Math.max(1, entry.orderItem.quantity),
+        0
+      );
+  return roundMoney(value * (1 - discountRate) + tax);
+}
+
+export async function requestOrderReturn(input: RequestReturnInput) {
+  const order = await prisma.order.findUnique({
+    where: { id: input.orderId },
+    include: { items: true, shipments: { select: { shippedAt: true, deliveredAt: true } } }
+  });
+  if (!order || order.userId !== input.userId) {
+    throw new ApiError(404, "not_found", "Order not found");
+  }
+  if (!RETURNABLE_ORDER_STATUSES.has(order.status)) {
+    throw new ApiError(409, "order_not_returnable", "Only shipped or delivered orders can be returned", {
+      status: order.status
+    });
+  }
+
+  const fulfilledAt = order.shipments.reduce<Date>(
+    (latest, shipment) => {
+      const at = shipment.deliveredAt ?? shipment.shippedAt;
+      return at > latest ? at : latest;
+    },
+    order.shipments.length ? new Date(0) : order.updatedAt
+  );
+  const deadline = new Date(fulfilledAt.getTime() + RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  if (deadline < new Date()) {
+    throw new ApiError(409, "return_window_closed", "The return window for this order has closed", {
+      deadline: deadline.toISOString()
+    });
+  }
+
+  const returned = await getReturnedQuantities(order.id);
+  const merged = new Map<string, number>();
+  for (const item of input.items) {
+    merged.set(item.orderItemId, (merged.get(item.orderItemId) ?? 0) + item.quantity);
+  }
+  for (const [orderItemId, quantity] of merged) {
+    const orderItem = order.items.find((item) => item.id === orderItemId);
+    if (!orderItem) {
+      throw new ApiError(400, "invalid_return_item", "Item does not belong to this order", { orderItemId });
+    }
+    const returnable = orderItem.quantity - (returned.get(orderItemId) ?? 0);
+    if (quantity > returnable) {
+      throw new ApiError(409, "return_quantity_exceeded", "Quantity exceeds what can still be returned", {
+        orderItemId,
+        returnable
+      });
+    }
+  }
+
+  const orderReturn = await prisma.orderReturn.create({
+    data: {
+      orderId: order.id,
+      requestedById: input.userId,
+      reason: input.reason,
+      items: {
+        createMany: {
+          data: [...merged.entries()].map(([orderItemId, quantity]) => ({ orderItemId, quantity }))
+        }
+      }
+    },
+    include: returnInclude
+  });
+
+  audit(input.userId, "order.return_requested", order.id, {
+    returnId: orderReturn.id,
+    reason: input.reason,
+    items: input.items
+  });
+  return orderReturn;
+}
+
+export async function listOrderReturns(where: Prisma.OrderReturnWhereInput, page: number, limit: number) {
+  const [items, total] = await prisma.$transaction([
+    prisma.orderReturn.findMany({
+      where,
+      include: {
+        ...returnInclude,
+        order: { select: { id: true, orderNumber: true, status: true, total: true, currency: true } },
+        requestedBy: { select: { id: true, name: true, email: true } },
+        reviewedBy: { select: { id: true, name: true, email: true } }
+      },
+      orderBy: { createdAt: "asc" },
+      skip: (page - 1) * limit,
+      take: limit
+    }),
+    prisma.orderReturn.count({ where })
+  ]);
+  return { items, page, limit, total };
+}
+
+export async function approveOrderReturn(input: ReviewReturnInput) {
+  const current = await findReturn(input.returnId);
+  assertReturnStatus(current.status, ["REQUESTED"], "APPROVED");
+
+  const updated = await prisma.orderReturn.update({
+    where: { id: current.id },
+    data: {
+      status: "APPROVED",
+      approvedAt: new Date(),
+      reviewedById: input.actorId,
+      staffNote: input.note ?? undefined
+    },
+    include: returnInclude
+  });
+  audit(input.actorId, "order.return_approved", current.orderId, { returnId: current.id, note: input.note ?? null });
+  return updated;
+}
+
+export async function rejectOrderReturn(input: ReviewReturnInput) {
+  const current = await findReturn(input.returnId);
+  assertReturnStatus(current.status, ["REQUESTED", "APPROVED"], "REJECTED");
+
+  const updated = await prisma.orderReturn.update({
+    where: { id: current.id },
+    data: {
+      status: "REJECTED",
+      rejectedAt: new Date(),
+      reviewedById: input.actorId,
+      staffNote: input.note ?? undefined
+    },
+    include: returnInclude
+  });
+  audit(input.actorId, "order.return_rejected", current.orderId, { returnId: current.id, note: input.note ?? null });
+  return updated;
+}
+
+/**
+ * Refunds a received return through the regular refund flow. The refund
+ * never restocks: returned units are put back by `receiveOrderReturn`.
+ */
+export async function refundOrderReturn(input: ReceiveReturnInput) {
+  const current = await findReturn(input.returnId);
+  assertReturnStatus(current.status, ["RECEIVED"], "REFUNDED");
+
+  const amount = roundMoney(input.refundAmount ?? computeReturnValue(current));
+  await claimReturnStatus(current.id, "RECEIVED", "REFUNDED", { refundAmount: amount });
+  let refund: Awaited<ReturnType<typeof createOrderRefund>>;
+  try {
+    refund = await createOrderRefund({
+      orderId: current.orderId,
+      amount,
+      reason: `Devolucao ${current.id}: ${current.reason}`.slice(0, 500),
+      restock: false,
+      manual: input.manualRefund,
+      actorId: input.actorId
+    });
+  } catch (err) {
+    await prisma.orderReturn.update({ where: { id: current.id }, data: { status: "RECEIVED", refundAmount: null } });
+    throw err;
+  }
+
+  const updated = await prisma.orderReturn.update({
+    where: { id: current.id },
+    data: { refundId: refund.id },
+    include: returnInclude
+  });
+  audit(input.actorId, "order.return_refunded", current.orderId, {
+    returnId: current.id,
+    refundId: refund.id,
+    amount
+  });
+  return updated;
+}
+
+/**
+ * Confirms the parcel arrived back. Units go back to stock with a `RETURN:`
+ * movement and, unless disabled, the return value is refunded right away.
+ */
+export async function receiveOrderReturn(input: ReceiveReturnInput) {
+  const current = await findReturn(input.returnId);
+  assertReturnStatus(current.status, ["APPROVED"], "RECEIVED");
+  await claimReturnStatus(current.id, "APPROVED", "RECEIVED", {
+    receivedAt: new Date(),
+    reviewedById: input.actorId,
+    staffNote: input.note ?? undefined
+  });
+
+  let restocked: Map<string, number>;
+  try {
+    restocked =
+      input.restock === false
+        ? new Map<string, number>()
+        : await restockReturnedItems(
+            current.orderId,
+            current.items.map((entry) => ({ orderItemId: entry.orderItemId, quantity: entry.quantity }))
+          );
+  } catch (err) {
+    await prisma.orderReturn.update({ where: { id: current.id }, data: { status: "APPROVED", receivedAt: null } });
+    throw err;
+  }
+
+  await prisma.$transaction(
+    current.items.map((entry) =>
+      prisma.orderReturnItem.update({
+        where: { id: entry.id },
+        data: { restocked: restocked.get(entry.orderItemId) ?? 0 }
+      })
+    )
+  );
+  audit(input.actorId, "order.return_received", current.orderId, {
+    returnId: current.id,
+    restocked: Object.fromEntries(restocked)
+  });
+
+  if (input.refund === false) {
+    return prisma.orderReturn.findUniqueOrThrow({ where: { id: current.id }, include: returnInclude });
+  }
+  return refundOrderReturn(input);
+}
@@ -0,0 +1,286 @@
+import { PaymentAttempt, Prisma, SettlementLineStatus } from "@prisma/client";
+import { prisma } from "../config/prisma.js";
+import { logger } from "../config/logger.js";
+import { ApiError } from "../utils/apiError.js";
+import { parseCsvRecords } from "../utils/csv.js";
+import { writeAuditLog } from "./auditLogService.js";
+
+export type SettlementProvider = "MPESA" | "STRIPE";
+
+type SettlementRow = {
+  refs: string[];
+  paymentId: string | null;
+  amount: number;
+  fee: number | null;
+  currency: string | null;
+  transactionAt: Date | null;
+  raw: Record<string, string>;
+};
+
+type ImportSettlementInput = {
+  provider: SettlementProvider;
+  filename?: string | null;
+  content: Buffer;
+  periodStart?: Date;
+  periodEnd?: Date;
+  actorId: string | null;
+};
+
+const AMOUNT_TOLERANCE = 0.01;
+const SETTLED_PAYMENT_STATUSES = ["CAPTURED", "REFUNDED"] as const;
+
+// Header aliases cover both the dashboard exports and the report API CSVs.
+const STRIPE_COLUMNS = {
+  paymentId: ["payment_metadata[paymentId]", "paymentId (metadata)"],
+  refs: ["payment_intent_id", "Payment Intent ID", "charge_id", "source_id", "Source", "balance_transaction_id", "id"],
+  amount: ["gross", "Amount"],
+  fee: ["fee", "Fee"],
+  currency: ["currency", "Currency"],
+  createdAt: ["created_utc", "Created (UTC)", "created"],
+  type: ["reporting_category", "Type"]
+};
+const STRIPE_PAYMENT_TYPES = new Set(["charge", "payment"]);
+
+const MPESA_COLUMNS = {
+  refs: ["Receipt No.", "Receipt No", "Receipt", "Transaction ID", "TransactionID", "transaction_id"],
+  amount: ["Paid In", "Amount", "amount"],
+  fee: ["Fee", "Charges", "Commission", "fee"],
+  createdAt: ["Completion Time", "Transaction Date", "Date", "Initiation Time"],
+  status: ["Transaction Status", "Status"]
+};
+
+function pick(record: Record<string, string>, keys: string[]) {
+  for (const key of keys) {
+    const value = record[key];
+    if (value) return value;
+  }
+  return null;
+}
+
+/** Accepts `1,250.00`, `1 250,00` and `-3.40`; returns null for empty cells. */
+function parseAmount(value: string | null) {
+  if (!value) return null;
+  let normalized = value.replace(/\s/g, "").replace(/[^\d,.-]/g, "");
+  if (normalized.includes(",") && normalized.includes(".")) {
+    normalized = normalized.lastIndexOf(",") > normalized.lastIndexOf(".")
+      ? normalized.replace(/\./g, "").replace(",", ".")
+      : normalized.replace(/,/g, "");
+  } else if (normalized.includes(",")) {
+    normalized = normalized.replace(",", ".");
+  }
+  const amount = Number(normalized);
+  return Number.isFinite(amount) ? amount : null;
+}
+
+function parseDate(value: string | null) {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function parseStripeRows(records: Record<string, string>[]): SettlementRow[] {
+  const rows: SettlementRow[] = [];
+  for (const record of records) {
+    const type = pick(record, STRIPE_COLUMNS.type)?.toLowerCase();
+    if (type && !STRIPE_PAYMENT_TYPES.has(type)) continue;
+    const amount = parseAmount(pick(record, STRIPE_COLUMNS.amount));
+    if (amount === null) continue;
+    const fee = parseAmount(pick(record, STRIPE_COLUMNS.fee));
+    rows.push({
+      refs: STRIPE_COLUMNS.refs.map((key) => record[key]).filter((ref): ref is string => !!ref),
+      paymentId: pick(record, STRIPE_COLUMNS.paymentId),
+      amount,
+      fee: fee === null ? null : Math.abs(fee),
+      currency: pick(record, STRIPE_COLUMNS.currency)?.toUpperCase() ?? null,
+      transactionAt: parseDate(pick(record, STRIPE_COLUMNS.createdAt)),
+      raw: record
+    });
+  }
+  return rows;
+}
+
+function parseMpesaRows(records: Record<string, string>[]): SettlementRow[] {
+  const rows: SettlementRow[] = [];
+  for (const record of records) {
+    const status = pick(record, MPESA_COLUMNS.status)?.toLowerCase();
+    if (status && status !== "completed") continue;
+    const amount = parseAmount(pick(record, MPESA_COLUMNS.amount));
+    if (amount === null || amount <= 0) continue;
+    const fee = parseAmount(pick(record, MPESA_COLUMNS.fee));
+    rows.push({
+      refs: MPESA_COLUMNS.refs.map((key) => record[key]).filter((ref): ref is string => !!ref),
+      paymentId: null,
+      amount,
+      fee: fee === null ? null : Math.abs(fee),
+      currency: "MZN",
+      transactionAt: parseDate(pick(record, MPESA_COLUMNS.createdAt)),
+      raw: record
+    });
+  }
+  return rows;
+}
+
+function parseSettlementFile(provider: SettlementProvider, content: Buffer) {
+  const records = parseCsvRecords(content.toString("utf8"));
+  const rows = provider === "STRIPE" ? parseStripeRows(records) : parseMpesaRows(records);
+  if (!rows.length) {
+    throw new ApiError(400, "empty_settlement_file", "No payment rows found in the settlement file");
+  }
+  return rows;
+}
+
+async function findSettledPayment(provider: SettlementProvider, row: SettlementRow) {
+  if (row.paymentId) {
+    const byId = await prisma.paymentAttempt.findFirst({ where: { id: row.paymentId, provider } });
+    if (byId) return byId;
+  }
+  if (!row.refs.length) return null;
+  return prisma.paymentAttempt.findFirst({
+    where: { provider, externalRef: { in: row.refs } },
+    orderBy: { createdAt: "desc" }
+  });
+}
+
+function resolvePeriod(rows: SettlementRow[], input: ImportSettlementInput) {
+  const times = rows
+    .map((row) => row.transactionAt?.getTime())
+    .filter((time): time is number => typeof time === "number");
+  return {
+    start: input.periodStart ?? (times.length ? new Date(Math.min(...times)) : null),
+    end: input.periodEnd ?? (times.length ? new Date(Math.max(...times)) : null)
+  };
+}
+
+/**
+ * Reconciles a gateway settlement file against the payment attempts of the
+ * provider. Every file row becomes a MATCHED, AMOUNT_MISMATCH or UNKNOWN line;
+ * captured attempts of the period that the file does not mention are added
+ * as MISSING. Fees reported by the gateway are stored on the attempt.
+ */
+export async function importSettlementFile(input: ImportSettlementInput) {
+  const rows = parseSettlementFile(input.provider, input.content);
+  const period = resolvePeriod(rows, input);
+
+  const lines: Prisma.SettlementLineCreateManyImportInput[] = [];
+  const matchedIds = new Set<string>();
+  const settled: { payment: PaymentAttempt; fee: number | null; settledAt: Date }[] = [];
+  let feeTotal = 0;
+
+  for (const row of rows) {
+    const payment = await findSettledPayment(input.provider, row);
+    let status: SettlementLineStatus = "UNKNOWN";
+    if (payment) {
+      const expected = Number(payment.amount);
+      status = Math.abs(expected - row.amount) > AMOUNT_TOLERANCE ? "AMOUNT_MISMATCH" : "MATCHED";
+      if (!matchedIds.has(payment.id)) {
+        settled.push({ payment, fee: row.fee, settledAt: row.transactionAt ?? new Date() });
+      }
+      matchedIds.add(payment.id);
+    }
+    if (row.fee !== null) {
+      feeTotal += row.fee;
+    }
+    lines.push({
+      status,
+      externalRef: row.refs[0] ?? payment?.externalRef ?? null,
+      paymentId: payment?.id ?? null,
+      amount: row.amount,
+      expectedAmount: payment?.amount ?? null,
+      fee: row.fee,
+      currency: row.currency,
+      transactionAt: row.transactionAt,
+      raw: row.raw
+    });
+  }
+
+  if (period.start && period.end) {
+    const missing = await prisma.paymentAttempt.findMany({
+      where: {
+        provider: input.provider,
+        status: { in: [...SETTLED_PAYMENT_STATUSES] },
+        settledAt: null,
+        createdAt: { gte: period.start, lte: period.end },
+        id: { notIn: [...matchedIds] }
+      },
+      orderBy: { createdAt: "asc" }
+    });
+    for (const payment of missing) {
+      lines.push({
+        status: "MISSING",
+        externalRef: payment.externalRef,
+        paymentId: payment.id,
+        expectedAmount: payment.amount,
+        transactionAt: payment.createdAt
+      });
+    }
+  }
+
+  const count = (status: SettlementLineStatus) => lines.filter((line) => line.status === status).length;
+  const settlement = await prisma.$transaction(async (tx) => {
+    const created = await tx.settlementImport.create({
+      data: {
+        provider: input.provider,
+        filename: input.filename ?? null,
+        periodStart: period.start,
+        periodEnd: period.end,
+        rowCount: rows.length,
+        matchedCount: count("MATCHED"),
+        mismatchCount: count("AMOUNT_MISMATCH"),
+        missingCount: count("MISSING"),
+        unknownCount: count("UNKNOWN"),
+        feeTotal: roundMoney(feeTotal),
+        importedById: input.actorId,
+        lines: { createMany: { data: lines } }
+      }
+    });
+    for (const update of settled) {
+      await tx.paymentAttempt.update({
+        where: { id: update.payment.id },
+        data: { gatewayFee: update.fee ?? undefined, settledAt: update.settledAt }
+      });
+    }
+    return created;
+  });
+
+  void writeAuditLog(input.actorId, "settlement.imported", "settlement", settlement.id, {
+    provider: input.provider,
+    filename: settlement.filename,
+    rowCount: settlement.rowCount,
+    matched: settlement.matchedCount,
+    mismatched: settlement.mismatchCount,
+    missing: settlement.missingCount,
+    unknown: settlement.unknownCount
+  }).catch((err) => {
+    logger.warn({ err, settlementId: settlement.id }, "Failed to write settlement audit log");
+  });
+
+  return getSettlementReport(settlement.id);
+}
+
+export async function getSettlementReport(id: string) {
+  const settlement = await prisma.settlementImport.findUnique({
+    where: { id },
+    include: {
+      importedBy: { select: { id: true, name: true, email: true } },
+      lines: {
+        include: { payment: { select: { id: true, orderId: true, status: true, amount: true, externalRef: true } } },
+        orderBy: [{ status: "asc" }, { transactionAt: "asc" }]
+      }
+    }
+  });
+  if (!settlement) {
+    throw new ApiError(404, "not_found", "Settlement import not found");
+  }
+  const { lines, ...summary } = settlement;
+  return {
+    ...summary,
+    matched: lines.filter((line) => line.status === "MATCHED"),
+    amountMismatch: lines.filter((line) => line.status === "AMOUNT_MISMATCH"),
+    missing: lines.filter((line) => line.status === "MISSING"),
+    unknown: lines.filter((line) => line.status === "UNKNOWN")
+  };
+}
@@ -0,0 +1,210 @@
+import { OrderStatus, Prisma } from "@prisma/client";
+import { prisma } from "../config/prisma.js";
+import { logger } from "../config/logger.js";
+import { ApiError } from "../utils/apiError.js";
+import { writeAuditLog } from "./auditLogService.js";
+import { announceOrderStatusChange, assertOrderTransition, transitionOrderStatus } from "./orderLifecycleService.js";
+import { ensureOrderStockDeducted } from "./orderStockService.js";
+
+type ShipmentItemInput = {
+  orderItemId: string;
+  quantity: number;
+};
+
+type CreateShipmentInput = {
+  orderId: string;
+  carrier: string;
+  trackingCode?: string | null;
+  trackingUrl?: string | null;
+  shippedAt?: Date;
+  /** Defaults to everything that has not been shipped yet. */
+  items?: ShipmentItemInput[];
+  actorId: string | null;
+};
+
+type UpdateShipmentInput = {
+  orderId: string;
+  shipmentId: string;
+  carrier?: string;
+  trackingCode?: string | null;
+  trackingUrl?: string | null;
+  status?: "DELIVERED";
+  deliveredAt?: Date;
+  actorId: string | null;
+};
+
+export const shipmentInclude = {
+  items: {
+    include: { orderItem: { select: { id: true, nameSnapshot: true, skuSnapshot: true, quantity: true } } }
+  }
+} as const;
+
+function audit(actorId: string | null, action: string, orderId: string, meta: Record<string, unknown>) {
+  void writeAuditLog(actorId, action, "order", orderId, meta).catch((err) => {
+    logger.warn({ err, orderId, action }, "Failed to write shipment audit log");
+  });
+}
+
+async function getShippedQuantities(orderId: string, client: Prisma.TransactionClient = prisma) {
+  const rows = await client.shipmentItem.groupBy({
+    by: ["orderItemId"],
+    where: { shipment: { orderId } },
+    _sum: { quantity: true }
+  });
+  return new Map(rows.map((row) => [row.orderItemId, row._sum.quantity ?? 0]));
+}
+
+function resolveShipmentItems(
+  orderItems: { id: string; quantity: number }[],
+  shipped: Map<string, number>,
+  requested?: ShipmentItemInput[]
+) {
+  const remaining = new Map(orderItems.map((item) => [item.id, item.quantity - (shipped.get(item.id) ?? 0)]));
+  if (!requested?.length) {
+    const all = [...remaining.entries()]
+      .filter(([, quantity]) => quantity > 0)
+      .map(([orderItemId, quantity]) => ({ orderItemId, quantity }));
+    if (!all.length) {
+      throw new ApiError(409, "order_fully_shipped", "All items of this order have already been shipped");
+    }
+    return all;
+  }
+
+  const merged = new Map<string, number>();
+  for (const item of requested) {
+    merged.set(item.orderItemId, (merged.get(item.orderItemId) ?? 0) + item.quantity);
+  }
+  for (const [orderItemId, quantity] of merged) {
+    const left = remaining.get(orderItemId);
+    if (left === undefined) {
+      throw new ApiError(400, "invalid_shipment_item", "Item does not belong to this order", { orderItemId });
+    }
+    if (quantity > left) {
+      throw new ApiError(409, "shipment_quantity_exceeded", "Quantity exceeds what is left to ship", {
+        orderItemId,
+        remaining: left
+      });
+    }
+  }
+  return [...merged.entries()].map(([orderItemId, quantity]) => ({ orderItemId, quantity }));
+}
+
+function isFullyShipped(orderItems: { id: string; quantity: number }[], shipped: Map<string, number>) {
+  return orderItems.every((item) => (shipped.get(item.id) ?? 0) >= item.quantity);
+}
+
+export async function listOrderShipments(orderId: string) {
+  return prisma.shipment.findMany({
+    where: { orderId },
+    include: shipmentInclude,
+    orderBy: { shippedAt: "asc" }
+  });
+}
+
+/**
+ * Records a parcel handed to a carrier and moves the order to
+ * PARTIALLY_SHIPPED or SHIPPED depending on what is still left to send.
+ * The quantity check, the insert and the status change share one
+ * transaction holding the order row, so concurrent shipments cannot
+ * both claim the same units.
+ */
+export async function createShipment(input: CreateShipmentInput) {
+  const { order, shipment, items, updated } = await prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM "Order" WHERE id = ${input.orderId} FOR UPDATE`;
+    const order = await tx.order.findUnique({
+      where: { id: input.orderId },
+      include: { items: true, payments: { select: { status: true, provider: true } } }
+    });
+    if (!order) {
+      throw new ApiError(404, "not_found", "Order not found");
+    }
+
+    const shipped = await getShippedQuantities(order.id, tx);
+    const items = resolveShipmentItems(order.items, shipped, input.items);
+    for (const item of items) {
+      shipped.set(item.orderItemId, (shipped.get(item.orderItemId) ?? 0) + item.quantity);
+    }
+    const nextStatus: OrderStatus = isFullyShipped(order.items, shipped) ? "SHIPPED" : "PARTIALLY_SHIPPED";
+    if (order.status !== nextStatus) {
+      assertOrderTransition(order, nextStatus);
+    }
+
+    const shipment = await tx.shipment.create({
+      data: {
+        orderId: order.id,
+        carrier: input.carrier,
+        trackingCode: input.trackingCode ?? null,
+        trackingUrl: input.trackingUrl ?? null,
+        shippedAt: input.shippedAt ?? new Date(),
+        items: { createMany: { data: items } }
+      },
+      include: shipmentInclude
+    });
+    if (order.status === nextStatus) {
+      return { order, shipment, items, updated: null };
+    }
+    await ensureOrderStockDeducted(order.id, tx);
+    const updated = await tx.order.update({ where: { id: order.id }, data: { status: nextStatus } });
+    return { order, shipment, items, updated };
+  });
+
+  if (updated) {
+    announceOrderStatusChange(order, updated, { actorId: input.actorId, source: "shipment" });
+  }
+
+  audit(input.actorId, "order.shipment_created", order.id, {
+    shipmentId: shipment.id,
+    carrier: shipment.carrier,
+    trackingCode: shipment.trackingCode,
+    items
+  });
+  return shipment;
+}
+
+/**
+ * Updates tracking data or confirms delivery. Once every item is shipped and
+ * every shipment delivered the order itself becomes DELIVERED.
+ */
+export async function updateShipment(input: UpdateShipmentInput) {
+  const current = await prisma.shipment.findUnique({ where: { id: input.shipmentId } });
+  if (!current || current.orderId !== input.orderId) {
+    throw new ApiError(404, "not_found", "Shipment not found");
+  }
+
+  const delivering = input.status === "DELIVERED" && current.status !== "DELIVERED";
+  const shipment = await prisma.shipment.update({
+    where: { id: current.id },
+    data: {
+      carrier: input.carrier,
+      trackingCode: input.trackingCode,
+      trackingUrl: input.trackingUrl,
+      ...(delivering ? { status: "DELIVERED" as const, deliveredAt: input.deliveredAt ?? new Date() } : {})
+    },
+    include: shipmentInclude
+  });
+
+  if (delivering) {
+    const order = await prisma.order.findUniqueOrThrow({
+      where: { id: current.orderId },
+      include: { items: true, shipments: { select: { status: true } } }
+    });
+    const shipped = await getShippedQuantities(order.id);
+    const allDelivered = order.shipments.every((entry) => entry.status === "DELIVERED");
+    if (order.status === "SHIPPED" && allDelivered && isFullyShipped(order.items, shipped)) {
+      await transitionOrderStatus({
+        orderId: order.id,
+        to: "DELIVERED",
+        actorId: input.actorId,
+        source: "shipment"
+      });
+    }
+  }
+
+  audit(input.actorId, "order.shipment_updated", current.orderId, {
+    shipmentId: shipment.id,
+    carrier: shipment.carrier,
+    trackingCode: shipment.trackingCode,
+    ...(delivering ? { status: shipment.status, deliveredAt: shipment.deliveredAt } : {})
+  });
+  return shipment;
+}
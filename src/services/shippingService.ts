@@ -0,0 +1,190 @@
+import { Prisma, PrismaClient, ShippingMethod } from "@prisma/client";
+import { ApiError } from "../utils/apiError.js";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export type ShippingDestination = {
+  country: string;
+  state?: string | null;
+  city?: string | null;
+  provinceCode?: string | null;
+  districtCode?: string | null;
+};
+
+/** What the rates depend on: the subtotal after discounts and the parcel weight. */
+export type ShippingBasis = {
+  subtotal: number;
+  weightKg: number;
+};
+
+export type ShippingQuote = {
+  id: string;
+  name: string;
+  description: string | null;
+  rateType: ShippingMethod["rateType"];
+  fee: number;
+  minDeliveryDays: number | null;
+  maxDeliveryDays: number | null;
+  zone: { id: string; name: string };
+};
+
+export type ResolvedShipping = {
+  shippingMethodId: string | null;
+  shippingMethodName: string | null;
+  shippingFee: number;
+};
+
+const NO_SHIPPING: ResolvedShipping = { shippingMethodId: null, shippingMethodName: null, shippingFee: 0 };
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function normalizePlace(value: string | null | undefined) {
+  return (value ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .trim()
+    .toLowerCase();
+}
+
+function readWeightKg(attributes: unknown) {
+  if (!attributes || typeof attributes !== "object" || Array.isArray(attributes)) return 0;
+  const source = attributes as Record<string, unknown>;
+  const weight = Number(source.weightKg ?? source.weight ?? 0);
+  return Number.isFinite(weight) && weight > 0 ? weight : 0;
+}
+
+/** Total weight of the lines, read from the `weightKg` attribute of each variant snapshot. */
+export function sumWeightKg(items: { quantity: number; attributesSnapshot: unknown }[]) {
+  return items.reduce((acc, item) => acc + readWeightKg(item.attributesSnapshot) * item.quantity, 0);
+}
+
+/** Reads the destination out of an order's shipping address snapshot. */
+export function destinationFromSnapshot(snapshot: Prisma.JsonValue | null): ShippingDestination | null {
+  if (!snapshot || typeof snapshot !== "object" || Array.isArray(snapshot)) return null;
+  const address = snapshot as Record<string, unknown>;
+  if (typeof address.country !== "string") return null;
+  return {
+    country: address.country,
+    state: typeof address.state === "string" ? address.state : null,
+    city: typeof address.city === "string" ? address.city : null,
+    provinceCode: typeof address.provinceCode === "string" ? address.provinceCode : null,
+    districtCode: typeof address.districtCode === "string" ? address.districtCode : null
+  };
+}
+
+/**
+ * Fee for `method`, or null when the parcel is heavier than the method takes.
+ * Weight rates charge every started kilo on top of the base price.
+ */
+export function calculateShippingFee(method: ShippingMethod, basis: ShippingBasis) {
+  const maxWeightKg = method.maxWeightKg === null ? null : Number(method.maxWeightKg);
+  if (maxWeightKg !== null && basis.weightKg > maxWeightKg) return null;
+
+  const price = Number(method.price);
+  switch (method.rateType) {
+    case "WEIGHT":
+      return roundMoney(price + Number(method.pricePerKg ?? 0) * Math.ceil(basis.weightKg));
+    case "FREE_OVER": {
+      const threshold = method.freeOverSubtotal === null ? null : Number(method.freeOverSubtotal);
+      return threshold !== null && basis.subtotal >= threshold ? 0 : price;
+    }
+    default:
+      return price;
+  }
+}
+
+/** Zone and destination agree on a place: by reference code when both have one, by name otherwise. */
+function samePlace(
+  zone: { name: string | null; code: string | null },
+  destination: { name: string | null | undefined; code: string | null | undefined }
+) {
+  if (zone.code && destination.code) return zone.code === destination.code;
+  return normalizePlace(zone.name) === normalizePlace(destination.name);
+}
+
+/**
+ * The active zone that matches the destination most closely: a city match
+ * beats a province match, which beats a whole-country zone.
+ */
+async function findShippingZone(client: DbClient, destination: ShippingDestination) {
+  const zones = await client.shippingZone.findMany({
+    where: { country: destination.country.trim().toUpperCase(), isActive: true },
+    include: { methods: { where: { isActive: true }, orderBy: [{ sortOrder: "asc" }, { createdAt: "asc" }] } }
+  });
+  const state = { name: destination.state, code: destination.provinceCode };
+  const city = { name: destination.city, code: destination.districtCode };
+
+  let best: (typeof zones)[number] | null = null;
+  let bestScore = -1;
+  for (const zone of zones) {
+    if (zone.state && !samePlace({ name: zone.state, code: zone.provinceCode }, state)) continue;
+    if (zone.city && !samePlace({ name: zone.city, code: zone.districtCode }, city)) continue;
+    const score = (zone.city ? 2 : 0) + (zone.state ? 1 : 0);
+    if (score > bestScore) {
+      best = zone;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/** Methods of the destination's zone with their fee; empty when no zone covers it. */
+export async function quoteShippingMethods(
+  client: DbClient,
+  destination: ShippingDestination | null,
+  basis: ShippingBasis
+): Promise<ShippingQuote[]> {
+  if (!destination) return [];
+  const zone = await findShippingZone(client, destination);
+  if (!zone) return [];
+
+  const quotes: ShippingQuote[] = [];
+  for (const method of zone.methods) {
+    const fee = calculateShippingFee(method, basis);
+    if (fee === null) continue;
+    quotes.push({
+      id: method.id,
+      name: method.name,
+      description: method.description,
+      rateType: method.rateType,
+      fee,
+      minDeliveryDays: method.minDeliveryDays,
+      maxDeliveryDays: method.maxDeliveryDays,
+      zone: { id: zone.id, name: zone.name }
+    });
+  }
+  return quotes;
+}
+
+/**
+ * Validates the chosen method for checkout. Destinations outside every zone
+ * ship without a fee; inside a zone a method must be picked among the
+ * eligible ones.
+ */
+export async function resolveShippingMethod(
+  client: DbClient,
+  destination: ShippingDestination | null,
+  basis: ShippingBasis,
+  shippingMethodId?: string | null,
+  options: { required?: boolean } = {}
+): Promise<ResolvedShipping> {
+  const quotes = await quoteShippingMethods(client, destination, basis);
+  if (!shippingMethodId) {
+    if (quotes.length && options.required !== false) {
+      throw new ApiError(400, "shipping_method_required", "Escolha um metodo de entrega", {
+        methods: quotes.map((quote) => quote.id)
+      });
+    }
+    return NO_SHIPPING;
+  }
+
+  const quote = quotes.find((entry) => entry.id === shippingMethodId);
+  if (!quote) {
+    throw new ApiError(400, "shipping_method_unavailable", "Metodo de entrega indisponivel para este endereco", {
+      shippingMethodId
+    });
+  }
+  return { shippingMethodId: quote.id, shippingMethodName: quote.name, shippingFee: quote.fee };
+}
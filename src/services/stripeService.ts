@@ -105,3 +105,32 @@ export function constructStripeEvent(payload: Buffer, signature: string) {
   }
   return stripe.webhooks.constructEvent(payload, signature, webhookSecret);
 }
+
+type StripeRefundInput = {
+  externalRef: string;
+  amount: number;
+  metadata?: Record<string, string>;
+};
+
+async function resolveStripePaymentIntentId(stripe: Stripe, externalRef: string) {
+  if (externalRef.startsWith("pi_")) {
+    return externalRef;
+  }
+  const session = await stripe.checkout.sessions.retrieve(externalRef);
+  const intent = session.payment_intent;
+  if (!intent) {
+    throw new Error("Stripe payment intent not available for session");
+  }
+  return typeof intent === "string" ? intent : intent.id;
+}
+
+export async function createStripeRefund(input: StripeRefundInput) {
+  const stripe = getStripeClient();
+  const paymentIntentId = await resolveStripePaymentIntentId(stripe, input.externalRef);
+  const refund = await stripe.refunds.create({
+    payment_intent: paymentIntentId,
+    amount: Math.max(0, Math.round(input.amount * 100)),
+    metadata: input.metadata
+  });
+  return { id: refund.id, status: refund.status, paymentIntentId, raw: refund };
+}
@@ -0,0 +1,151 @@
+import { Prisma, PrismaClient, TaxClass } from "@prisma/client";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+const TAX_SETTINGS_KEY = "default";
+
+/** How the store prices: whether catalogue prices already include IVA, and the rate of each class. */
+export type TaxConfig = {
+  pricesIncludeTax: boolean;
+  rates: Record<TaxClass, number>;
+};
+
+export type TaxableLine = {
+  taxClass: TaxClass;
+  taxRate: number;
+  /** Line amount before the coupon: unit price x quantity. */
+  amount: number;
+};
+
+/** Per-class totals; `base` is the amount without IVA. */
+export type TaxLine = {
+  taxClass: TaxClass;
+  rate: number;
+  base: number;
+  tax: number;
+};
+
+export type TaxBreakdown = {
+  pricesIncludeTax: boolean;
+  /** Same order as the input lines. */
+  items: { taxClass: TaxClass; taxRate: number; taxAmount: number }[];
+  shippingTax: number;
+  taxLines: TaxLine[];
+  taxTotal: number;
+};
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+export async function getTaxSettings(client: DbClient) {
+  return client.taxSettings.upsert({
+    where: { key: TAX_SETTINGS_KEY },
+    create: { key: TAX_SETTINGS_KEY },
+    update: {}
+  });
+}
+
+export async function loadTaxConfig(client: DbClient): Promise<TaxConfig> {
+  const settings = await getTaxSettings(client);
+  return {
+    pricesIncludeTax: settings.pricesIncludeTax,
+    rates: {
+      STANDARD: Number(settings.standardRate),
+      REDUCED: Number(settings.reducedRate),
+      EXEMPT: 0
+    }
+  };
+}
+
+/** A variant's own class wins; otherwise it inherits the product's. */
+export function resolveTaxClass(variant: { taxClass: TaxClass | null } | null, product: { taxClass: TaxClass } | null) {
+  return variant?.taxClass ?? product?.taxClass ?? "STANDARD";
+}
+
+/** Tax class of each cart line, keyed by the line's variant (or product when it has none). */
+export async function loadLineTaxClasses(
+  client: DbClient,
+  items: { productId: string | null; variantId: string | null }[]
+) {
+  const variantIds = [...new Set(items.map((item) => item.variantId).filter((id): id is string => Boolean(id)))];
+  const productIds = [...new Set(items.map((item) => item.productId).filter((id): id is string => Boolean(id)))];
+  const [variants, products] = await Promise.all([
+    variantIds.length
+      ? client.productVariant.findMany({ where: { id: { in: variantIds } }, select: { id: true, taxClass: true } })
+      : [],
+    productIds.length
+      ? client.product.findMany({ where: { id: { in: productIds } }, select: { id: true, taxClass: true } })
+      : []
+  ]);
+  const variantById = new Map(variants.map((variant) => [variant.id, variant]));
+  const productById = new Map(products.map((product) => [product.id, product]));
+  return (item: { productId: string | null; variantId: string | null }) =>
+    resolveTaxClass(
+      item.variantId ? variantById.get(item.variantId) ?? null : null,
+      item.productId ? productById.get(item.productId) ?? null : null
+    );
+}
+
+export function taxableLine(taxClass: TaxClass, config: TaxConfig, unitPrice: number, quantity: number): TaxableLine {
+  return { taxClass, taxRate: config.rates[taxClass], amount: unitPrice * quantity };
+}
+
+/**
+ * IVA for the lines and the delivery fee. The coupon discount is spread over
+ * the lines by value before taxing them, and delivery is taxed at the standard
+ * rate. With tax-inclusive prices the IVA is extracted from the amounts;
+ * otherwise it is added on top (see `orderTotalWithTax`).
+ */
+export function calculateTax(
+  lines: TaxableLine[],
+  input: { discountTotal: number; shippingFee: number; config: TaxConfig }
+): TaxBreakdown {
+  const { config } = input;
+  const gross = lines.reduce((acc, line) => acc + line.amount, 0);
+  const taxOn = (amount: number, rate: number) =>
+    roundMoney(config.pricesIncludeTax ? (amount * rate) / (1 + rate) : amount * rate);
+
+  const groups = new Map<string, TaxLine>();
+  const addToGroup = (taxClass: TaxClass, rate: number, amount: number, tax: number) => {
+    const key = `${taxClass}:${rate}`;
+    const group = groups.get(key) ?? { taxClass, rate, base: 0, tax: 0 };
+    group.base = roundMoney(group.base + (config.pricesIncludeTax ? amount - tax : amount));
+    group.tax = roundMoney(group.tax + tax);
+    groups.set(key, group);
+  };
+
+  const items = lines.map((line) => {
+    const discount = gross > 0 ? input.discountTotal * (line.amount / gross) : 0;
+    const taxable = Math.max(0, line.amount - discount);
+    const taxAmount = taxOn(taxable, line.taxRate);
+    addToGroup(line.taxClass, line.taxRate, taxable, taxAmount);
+    return { taxClass: line.taxClass, taxRate: line.taxRate, taxAmount };
+  });
+
+  const shippingTax = input.shippingFee > 0 ? taxOn(input.shippingFee, config.rates.STANDARD) : 0;
+  if (input.shippingFee > 0) addToGroup("STANDARD", config.rates.STANDARD, input.shippingFee, shippingTax);
+
+  const taxTotal = roundMoney(items.reduce((acc, item) => acc + item.taxAmount, 0) + shippingTax);
+  return {
+    pricesIncludeTax: config.pricesIncludeTax,
+    items,
+    shippingTax,
+    taxLines: [...groups.values()].filter((group) => group.base > 0 || group.tax > 0),
+    taxTotal
+  };
+}
+
+/** Amount due: IVA only adds to the total when prices exclude it. */
+export function orderTotalWithTax(amountBeforeTax: number, tax: Pick<TaxBreakdown, "pricesIncludeTax" | "taxTotal">) {
+  return roundMoney(amountBeforeTax + (tax.pricesIncludeTax ? 0 : tax.taxTotal));
+}
+
+/** Order columns that store the breakdown. */
+export function orderTaxFields(tax: TaxBreakdown) {
+  return {
+    taxTotal: tax.taxTotal,
+    pricesIncludeTax: tax.pricesIncludeTax,
+    taxLines: tax.taxLines as Prisma.InputJsonValue
+  };
+}
@@ -0,0 +1,117 @@
+import { Prisma, WebhookEvent } from "@prisma/client";
+import { prisma } from "../config/prisma.js";
+import { logger } from "../config/logger.js";
+import { ApiError } from "../utils/apiError.js";
+import { handlePaymentWebhook } from "./paymentWebhookHandlers.js";
+
+type ReceiveWebhookEventInput = {
+  provider: string;
+  eventId: string;
+  eventType?: string | null;
+  payload: Record<string, unknown>;
+};
+
+const MAX_ERROR_LENGTH = 1000;
+// A PENDING event untouched for this long was most likely abandoned by a crash mid-processing.
+const STALE_PENDING_MS = Number(process.env.WEBHOOK_EVENT_STALE_MS || 10 * 60 * 1000);
+
+function dispatchWebhookEvent(event: WebhookEvent) {
+  const payload = (event.payload ?? {}) as Record<string, unknown>;
+  return handlePaymentWebhook(event.provider, payload, (match) =>
+    prisma.webhookEvent.update({ where: { id: event.id }, data: match })
+  );
+}
+
+function describeError(err: unknown) {
+  const message = err instanceof Error ? err.message : String(err);
+  return message.slice(0, MAX_ERROR_LENGTH);
+}
+
+/** Cut-off before which a PENDING event is treated as failed and may be processed again. */
+export function staleWebhookEventCutoff(now = new Date()) {
+  return new Date(now.getTime() - STALE_PENDING_MS);
+}
+
+function isRetryable(event: WebhookEvent) {
+  return event.status === "FAILED" || (event.status === "PENDING" && event.updatedAt < staleWebhookEventCutoff());
+}
+
+/** Runs the provider handler for a stored event; events already processed are skipped. */
+export async function processWebhookEvent(event: WebhookEvent) {
+  if (event.status === "PROCESSED") {
+    return event;
+  }
+  const attempt = await prisma.webhookEvent.update({
+    where: { id: event.id },
+    data: { attempts: { increment: 1 } }
+  });
+
+  try {
+    const matched = await dispatchWebhookEvent(attempt);
+    return await prisma.webhookEvent.update({
+      where: { id: event.id },
+      data: {
+        status: "PROCESSED",
+        processedAt: new Date(),
+        lastError: null,
+        orderId: matched?.orderId,
+        paymentId: matched?.paymentId
+      }
+    });
+  } catch (err) {
+    logger.error({ err, webhookEventId: event.id, provider: event.provider }, "Webhook event processing failed");
+    return prisma.webhookEvent.update({
+      where: { id: event.id },
+      data: { status: "FAILED", lastError: describeError(err) }
+    });
+  }
+}
+
+/**
+ * Stores the delivery in the inbox (deduplicated by provider + event id) and
+ * processes it unless an earlier delivery of the same event already succeeded or
+ * is still in flight (PENDING events older than `WEBHOOK_EVENT_STALE_MS` are retried).
+ */
+export async function receiveWebhookEvent(input: ReceiveWebhookEventInput) {
+  let event: WebhookEvent;
+  let duplicate = false;
+  try {
+    event = await prisma.webhookEvent.create({
+      data: {
+        provider: input.provider,
+        eventId: input.eventId,
+        eventType: input.eventType ?? null,
+        payload: input.payload as Prisma.InputJsonValue
+      }
+    });
+  } catch (err) {
+    if (!(err instanceof Prisma.PrismaClientKnownRequestError) || err.code !== "P2002") {
+      throw err;
+    }
+    const existing = await prisma.webhookEvent.findUnique({
+      where: { provider_eventId: { provider: input.provider, eventId: input.eventId } }
+    });
+    if (!existing) throw err;
+    event = existing;
+    duplicate = true;
+  }
+
+  if (duplicate && !isRetryable(event)) {
+    return { event, duplicate };
+  }
+  return { event: await processWebhookEvent(event), duplicate };
+}
+
+export async function reprocessWebhookEvent(id: string) {
+  const event = await prisma.webhookEvent.findUnique({ where: { id } });
+  if (!event) {
+    throw new ApiError(404, "not_found", "Webhook event not found");
+  }
+  if (event.status === "PROCESSED") {
+    throw new ApiError(409, "already_processed", "Webhook event already processed");
+  }
+  if (!isRetryable(event)) {
+    throw new ApiError(409, "processing_in_progress", "Webhook event is still being processed");
+  }
+  return processWebhookEvent(event);
+}
@@ -0,0 +1,109 @@
+import crypto from "crypto";
+import { redis } from "../config/redis.js";
+import { ApiError } from "../utils/apiError.js";
+
+const DEFAULT_TOLERANCE_SECONDS = 300;
+const REPLAY_KEY_PREFIX = "webhook:replay";
+
+const seenSignatures = new Map<string, number>();
+
+type WebhookHeaders = {
+  timestamp?: string;
+  signature?: string;
+};
+
+function getToleranceSeconds() {
+  const value = Number(process.env.PAYMENT_WEBHOOK_TOLERANCE_SECONDS || DEFAULT_TOLERANCE_SECONDS);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_TOLERANCE_SECONDS;
+}
+
+export function normalizeWebhookProvider(provider: string) {
+  return provider.trim().toUpperCase().replace(/[^A-Z0-9]/g, "_");
+}
+
+/** Secrets live in `PAYMENT_WEBHOOK_SECRET_<PROVIDER>`; a provider without one is unknown. */
+export function getPaymentWebhookSecret(provider: string) {
+  const secret = process.env[`PAYMENT_WEBHOOK_SECRET_${normalizeWebhookProvider(provider)}`];
+  return secret?.trim() || null;
+}
+
+export function signPaymentWebhook(secret: string, timestamp: string, payload: Buffer | string) {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}.`).update(payload).digest("hex");
+}
+
+function safeCompare(provided: string, expected: string) {
+  if (provided.length !== expected.length) return false;
+  return crypto.timingSafeEqual(Buffer.from(provided, "utf8"), Buffer.from(expected, "utf8"));
+}
+
+async function isSignatureSeen(key: string) {
+  if (redis?.isOpen) {
+    return (await redis.exists(`${REPLAY_KEY_PREFIX}:${key}`)) > 0;
+  }
+  const expiresAt = seenSignatures.get(key);
+  return expiresAt !== undefined && expiresAt > Date.now();
+}
+
+async function markSignatureSeen(key: string, ttlSeconds: number) {
+  if (redis?.isOpen) {
+    await redis.set(`${REPLAY_KEY_PREFIX}:${key}`, "1", { EX: ttlSeconds });
+    return;
+  }
+
+  const now = Date.now();
+  for (const [entry, expiresAt] of seenSignatures) {
+    if (expiresAt <= now) seenSignatures.delete(entry);
+  }
+  seenSignatures.set(key, now + ttlSeconds * 1000);
+}
+
+/** A verified delivery; pass it to `rememberPaymentWebhook` once the event was processed. */
+export type VerifiedPaymentWebhook = {
+  replayKey: string;
+  ttlSeconds: number;
+};
+
+/**
+ * Verifies `x-webhook-signature` (hex HMAC-SHA256 of `<timestamp>.<raw body>`)
+ * against the provider secret, rejects stale timestamps and signatures whose
+ * event was already processed inside the tolerance window. A delivery whose
+ * event failed is not remembered, so the provider's redelivery can retry it.
+ */
+export async function verifyPaymentWebhook(
+  provider: string,
+  payload: Buffer,
+  headers: WebhookHeaders
+): Promise<VerifiedPaymentWebhook> {
+  const secret = getPaymentWebhookSecret(provider);
+  if (!secret) {
+    throw new ApiError(404, "unknown_provider", "Unknown payment provider");
+  }
+  if (!headers.signature || !headers.timestamp) {
+    throw new ApiError(401, "missing_signature", "Webhook signature and timestamp are required");
+  }
+
+  const timestamp = Number(headers.timestamp);
+  if (!Number.isInteger(timestamp)) {
+    throw new ApiError(401, "invalid_timestamp", "Invalid webhook timestamp");
+  }
+  const tolerance = getToleranceSeconds();
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > tolerance) {
+    throw new ApiError(401, "stale_webhook", "Webhook timestamp outside tolerance");
+  }
+
+  const expected = signPaymentWebhook(secret, headers.timestamp, payload);
+  const provided = headers.signature.trim().replace(/^sha256=/i, "").toLowerCase();
+  if (!safeCompare(provided, expected)) {
+    throw new ApiError(401, "invalid_signature", "Invalid webhook signature");
+  }
+
+  const replayKey = `${normalizeWebhookProvider(provider)}:${expected}`;
+  if (await isSignatureSeen(replayKey)) {
+    throw new ApiError(409, "webhook_replayed", "Webhook already processed");
+  }
+  return { replayKey, ttlSeconds: tolerance * 2 };
+}
+
+export async function rememberPaymentWebhook(verified: VerifiedPaymentWebhook) {
+  await markSignatureSeen(verified.replayKey, verified.ttlSeconds);
+}
@@ -0,0 +1,79 @@
+function detectDelimiter(headerLine: string) {
+  const commas = (headerLine.match(/,/g) ?? []).length;
+  const semicolons = (headerLine.match(/;/g) ?? []).length;
+  return semicolons > commas ? ";" : ",";
+}
+
+/**
+ * Minimal RFC 4180 reader: quoted fields, escaped quotes, CRLF and a leading
+ * BOM. Comma or semicolon delimiters are detected from the header line.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(input.split(/\r?\n/, 1)[0] ?? "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i += 1) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+    if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+/** Parses a CSV with a header row into records keyed by the trimmed header names. */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const keys = header.map((key) => key.trim());
+  return rows.map((cells) =>
+    Object.fromEntries(keys.map((key, index) => [key, (cells[index] ?? "").trim()]))
+  );
+}
+
+export type CsvValue = string | number | null | undefined;
+
+// Cells starting with these are evaluated as formulas by spreadsheet apps.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function formatCsvField(value: CsvValue) {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") return String(value);
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",;\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Formats one CSV line (CRLF terminated), quoting fields as RFC 4180 requires. */
+export function formatCsvRow(values: CsvValue[], delimiter = ",") {
+  return `${values.map(formatCsvField).join(delimiter)}\r\n`;
+}
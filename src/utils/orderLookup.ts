@@ -0,0 +1,30 @@
+import crypto from "crypto";
+import { env } from "../config/env.js";
+
+const LOOKUP_TTL_MS = Number(process.env.ORDER_LOOKUP_TTL_DAYS || 90) * 24 * 60 * 60 * 1000;
+
+function signLookup(orderId: string, expiresAt: string) {
+  return crypto.createHmac("sha256", env.orderLookupSecret).update(`order:${orderId}:${expiresAt}`).digest("base64url");
+}
+
+/**
+ * Token for the order lookup link sent to guests: `<expiry>.<signature>`, where the
+ * expiry (unix seconds, `ORDER_LOOKUP_TTL_DAYS` ahead) is covered by the signature.
+ */
+export function signOrderLookupToken(orderId: string) {
+  const expiresAt = Math.floor((Date.now() + LOOKUP_TTL_MS) / 1000).toString();
+  return `${expiresAt}.${signLookup(orderId, expiresAt)}`;
+}
+
+export function verifyOrderLookupToken(orderId: string, token: string) {
+  const [expiresAt, signature] = token.split(".");
+  if (!expiresAt || !signature || !/^\d+$/.test(expiresAt)) return false;
+  if (Number(expiresAt) * 1000 < Date.now()) return false;
+  const expected = Buffer.from(signLookup(orderId, expiresAt));
+  const provided = Buffer.from(signature);
+  return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+}
+
+export function buildOrderLookupUrl(orderId: string) {
+  return `${env.appBaseUrl}/pedidos/${orderId}?token=${signOrderLookupToken(orderId)}`;
+}